@@ -0,0 +1,286 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+const path = require('path');
+const {performance} = require('perf_hooks');
+const {startLocalPubSubServer} = require('../build/src');
+const {Histogram} = require('../build/src/histogram');
+
+const argv = require('yargs')
+  .option('messages', {
+    alias: 'n',
+    description: 'The number of messages to publish.',
+    type: 'number',
+    default: 10000,
+  })
+  .option('size', {
+    description: 'The size of each message, in bytes.',
+    type: 'number',
+    default: 1024,
+  })
+  .option('rate', {
+    description: 'Messages to publish per second; as fast as possible if 0.',
+    type: 'number',
+    default: 0,
+  })
+  .option('ordering-keys', {
+    description: 'How many ordering keys to spread messages over; none if 0.',
+    type: 'number',
+    default: 0,
+  })
+  .option('batch-messages', {
+    description: 'The publisher batching maxMessages setting.',
+    type: 'number',
+  })
+  .option('batch-bytes', {
+    description: 'The publisher batching maxBytes setting.',
+    type: 'number',
+  })
+  .option('batch-ms', {
+    description: 'The publisher batching maxMilliseconds setting.',
+    type: 'number',
+  })
+  .option('flow-messages', {
+    description: 'The subscriber flowControl maxMessages setting.',
+    type: 'number',
+  })
+  .option('flow-bytes', {
+    description: 'The subscriber flowControl maxBytes setting.',
+    type: 'number',
+  })
+  .option('streams', {
+    description: 'The number of streams the subscriber opens.',
+    type: 'number',
+  })
+  .option('local', {
+    description: 'Run against an in-process local Pub/Sub server.',
+    type: 'boolean',
+  })
+  .option('project', {
+    description: 'The project to create the topic and subscription in.',
+    type: 'string',
+  })
+  .option('api-endpoint', {
+    description:
+      'The endpoint to connect to, e.g. an emulator. PUBSUB_EMULATOR_HOST is used if it is set.',
+    type: 'string',
+  })
+  .option('library', {
+    description:
+      'The path of a build of this library to drive, to compare versions.',
+    type: 'string',
+    default: path.join(__dirname, '../build/src'),
+  })
+  .option('timeout', {
+    description: 'Give up waiting for messages after this many seconds.',
+    type: 'number',
+    default: 300,
+  })
+  .option('json', {
+    description: 'Print the results as JSON.',
+    type: 'boolean',
+  })
+  .parse();
+
+const {PubSub} = require(path.resolve(argv.library));
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/*!
+ * Latencies are recorded in microseconds, for sub-millisecond precision.
+ */
+function now() {
+  return Math.round(performance.now() * 1000);
+}
+
+function percentiles(histogram) {
+  const ms = percent => histogram.percentile(percent) / 1000;
+  return {p50: ms(50), p99: ms(99), p999: ms(99.9)};
+}
+
+function publisherOptions() {
+  const options = {batching: {}};
+  if (argv.batchMessages) {
+    options.batching.maxMessages = argv.batchMessages;
+  }
+  if (argv.batchBytes) {
+    options.batching.maxBytes = argv.batchBytes;
+  }
+  if (argv.batchMs) {
+    options.batching.maxMilliseconds = argv.batchMs;
+  }
+  if (argv.orderingKeys) {
+    options.messageOrdering = true;
+  }
+  return options;
+}
+
+function subscriberOptions() {
+  const options = {flowControl: {}};
+  if (argv.flowMessages) {
+    options.flowControl.maxMessages = argv.flowMessages;
+  }
+  if (argv.flowBytes) {
+    options.flowControl.maxBytes = argv.flowBytes;
+  }
+  if (argv.streams) {
+    options.streamingOptions = {maxStreams: argv.streams};
+  }
+  return options;
+}
+
+/**
+ * Publishes messages at the configured rate, recording how long each publish
+ * takes. Resolves with the total time taken, in milliseconds.
+ */
+async function publishAll(topic, histogram) {
+  const data = Buffer.alloc(argv.size, 'a');
+  const start = performance.now();
+  const publishes = [];
+  for (let i = 0; i < argv.messages; i++) {
+    if (argv.rate) {
+      const due = start + (i * 1000) / argv.rate;
+      const wait = due - performance.now();
+      if (wait > 1) {
+        await sleep(wait);
+      }
+    }
+
+    const sent = now();
+    const message = {
+      data,
+      attributes: {loadtest_sent: String(sent), loadtest_index: String(i)},
+    };
+    if (argv.orderingKeys) {
+      message.orderingKey = `key-${i % argv.orderingKeys}`;
+    }
+    publishes.push(
+      topic.publishMessage(message).then(() => histogram.add(now() - sent)),
+    );
+  }
+  await Promise.all(publishes);
+  return performance.now() - start;
+}
+
+/**
+ * Receives and acks messages until all of them have been seen, recording
+ * their end-to-end latency.
+ */
+function receiveAll(subscription, histogram) {
+  const seen = new Set();
+  let duplicates = 0;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Only ${seen.size} messages were received.`)),
+      argv.timeout * 1000,
+    );
+    subscription.on('error', reject);
+    subscription.on('message', message => {
+      message.ack();
+      const index = message.attributes.loadtest_index;
+      if (seen.has(index)) {
+        duplicates++;
+        return;
+      }
+      seen.add(index);
+      histogram.add(now() - Number(message.attributes.loadtest_sent));
+      if (seen.size === argv.messages) {
+        clearTimeout(timer);
+        resolve({finished: performance.now(), duplicates});
+      }
+    });
+  });
+}
+
+function report(results) {
+  if (argv.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+
+  const {publish, receive} = results;
+  const latency = ({p50, p99, p999}) =>
+    `p50 ${p50} ms, p99 ${p99} ms, p99.9 ${p999} ms`;
+  console.log(
+    `Published ${results.messages} messages of ${results.size} bytes ` +
+      `in ${publish.seconds.toFixed(2)} s: ` +
+      `${publish.messagesPerSecond.toFixed(0)} msg/s, ` +
+      `${publish.megabytesPerSecond.toFixed(2)} MB/s`,
+  );
+  console.log(`Publish latency: ${latency(publish.latency)}`);
+  console.log(
+    `Received them in ${receive.seconds.toFixed(2)} s: ` +
+      `${receive.messagesPerSecond.toFixed(0)} msg/s, ` +
+      `${receive.megabytesPerSecond.toFixed(2)} MB/s ` +
+      `(${receive.duplicates} duplicates)`,
+  );
+  console.log(`End-to-end latency: ${latency(receive.latency)}`);
+}
+
+async function main() {
+  const server = argv.local && (await startLocalPubSubServer());
+  const pubsub = new PubSub({
+    projectId: argv.project || (server ? 'loadtest' : undefined),
+    apiEndpoint: server ? server.apiEndpoint : argv.apiEndpoint,
+  });
+  const name = `loadtest-${Date.now()}`;
+  const [topic] = await pubsub.createTopic(name);
+  const [subscription] = await topic.createSubscription(name, {
+    enableMessageOrdering: argv.orderingKeys > 0,
+  });
+
+  try {
+    topic.setPublishOptions(publisherOptions());
+    subscription.setOptions(subscriberOptions());
+
+    const publishLatency = new Histogram();
+    const endToEndLatency = new Histogram();
+    const start = performance.now();
+    const received = receiveAll(subscription, endToEndLatency);
+    const publishMs = await publishAll(topic, publishLatency);
+    const {finished, duplicates} = await received;
+
+    const bytes = argv.messages * argv.size;
+    const rates = ms => ({
+      seconds: ms / 1000,
+      messagesPerSecond: (argv.messages * 1000) / ms,
+      megabytesPerSecond: (bytes * 1000) / ms / 1e6,
+    });
+    report({
+      messages: argv.messages,
+      size: argv.size,
+      publish: {...rates(publishMs), latency: percentiles(publishLatency)},
+      receive: {
+        ...rates(finished - start),
+        duplicates,
+        latency: percentiles(endToEndLatency),
+      },
+    });
+  } finally {
+    await subscription.close();
+    await subscription.delete();
+    await topic.delete();
+    await pubsub.close();
+    if (server) {
+      await server.stop();
+    }
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+const fs = require('fs');
+const {PubSub} = require('../build/src');
+
+function createClient(argv) {
+  return new PubSub({
+    projectId: argv.project,
+    apiEndpoint: argv.apiEndpoint,
+    emulatorMode: argv.emulatorMode,
+  });
+}
+
+/**
+ * Runs a command with a client, closing the client when it's done and
+ * reporting any error.
+ */
+function run(command) {
+  return async argv => {
+    const pubsub = createClient(argv);
+    try {
+      await command(pubsub, argv);
+    } catch (err) {
+      console.error(err.message);
+      process.exitCode = 1;
+    } finally {
+      await pubsub.close();
+    }
+  };
+}
+
+function print(value) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+async function readStdin() {
+  const chunks = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseAttributes(pairs = []) {
+  const attributes = {};
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index < 1) {
+      throw new Error(`Attributes must be given as key=value: ${pair}`);
+    }
+    attributes[pair.substring(0, index)] = pair.substring(index + 1);
+  }
+  return attributes;
+}
+
+/**
+ * Reads one message per line of JSON, e.g.
+ * `{"data": "hello", "attributes": {"foo": "bar"}, "orderingKey": "a"}`.
+ * Data that isn't a string is published as JSON.
+ */
+function parseJsonLines(input, defaults) {
+  return input
+    .toString()
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, i) => {
+      let message;
+      try {
+        message = JSON.parse(line);
+      } catch (err) {
+        throw new Error(`Line ${i + 1} is not valid JSON: ${err.message}`);
+      }
+      const {data = '', attributes, orderingKey} = message;
+      return {
+        data: Buffer.from(
+          typeof data === 'string' ? data : JSON.stringify(data),
+        ),
+        attributes: {...defaults.attributes, ...attributes},
+        orderingKey:
+          orderingKey === undefined ? defaults.orderingKey : orderingKey,
+      };
+    });
+}
+
+async function readMessages(argv) {
+  const defaults = {
+    attributes: parseAttributes(argv.attribute),
+    orderingKey: argv.orderingKey,
+  };
+  if (argv.data !== undefined) {
+    return [{...defaults, data: Buffer.from(argv.data)}];
+  }
+  if (argv.files.length) {
+    return Promise.all(
+      argv.files.map(async file => ({
+        ...defaults,
+        data: await fs.promises.readFile(file),
+      })),
+    );
+  }
+
+  const input = await readStdin();
+  if (argv.jsonLines) {
+    return parseJsonLines(input, defaults);
+  }
+  if (argv.lines) {
+    return input
+      .toString()
+      .split('\n')
+      .filter(line => line)
+      .map(line => ({...defaults, data: Buffer.from(line)}));
+  }
+  return [{...defaults, data: input}];
+}
+
+async function publish(pubsub, argv) {
+  const messages = await readMessages(argv);
+  const topic = pubsub.topic(argv.topic, {
+    messageOrdering: messages.some(m => m.orderingKey),
+  });
+  const ids = await Promise.all(messages.map(m => topic.publishMessage(m)));
+  ids.forEach(id => console.log(id));
+}
+
+function formatData(data) {
+  const text = data.toString();
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch (err) {
+    return text;
+  }
+}
+
+function formatMessage(message, format) {
+  if (format === 'json') {
+    return JSON.stringify({
+      id: message.id,
+      publishTime: message.publishTime.toISOString(),
+      orderingKey: message.orderingKey || undefined,
+      deliveryAttempt: message.deliveryAttempt || undefined,
+      attributes: message.attributes,
+      data: message.data.toString(),
+    });
+  }
+
+  const details = [`published ${message.publishTime.toISOString()}`];
+  if (message.orderingKey) {
+    details.push(`ordering key ${message.orderingKey}`);
+  }
+  if (message.deliveryAttempt) {
+    details.push(`delivery attempt ${message.deliveryAttempt}`);
+  }
+  const lines = [`Message ${message.id} (${details.join(', ')})`];
+  for (const [key, value] of Object.entries(message.attributes)) {
+    lines.push(`  ${key}: ${value}`);
+  }
+  lines.push(formatData(message.data), '');
+  return lines.join('\n');
+}
+
+async function tail(pubsub, argv) {
+  const subscription = pubsub.subscription(argv.subscription);
+  await new Promise((resolve, reject) => {
+    let received = 0;
+    const timer =
+      argv.timeout && setTimeout(resolve, argv.timeout * 1000).unref();
+    process.once('SIGINT', resolve);
+    subscription.on('error', reject);
+    subscription.on('message', message => {
+      if (argv.maxMessages && received >= argv.maxMessages) {
+        message.nack();
+        return;
+      }
+      received++;
+      console.log(formatMessage(message, argv.format));
+      if (argv.ack) {
+        message.ack();
+      }
+      if (received === argv.maxMessages) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+  // Messages that weren't acked are released for redelivery.
+  await subscription.close();
+}
+
+async function list(pubsub, argv) {
+  switch (argv.resource) {
+    case 'topics': {
+      const [topics] = await pubsub.getTopics();
+      topics.forEach(t => console.log(t.name));
+      break;
+    }
+    case 'subscriptions': {
+      const [subscriptions] = argv.topic
+        ? await pubsub.topic(argv.topic).getSubscriptions()
+        : await pubsub.getSubscriptions();
+      subscriptions.forEach(s => console.log(s.name));
+      break;
+    }
+    case 'schemas':
+      for await (const schema of pubsub.listSchemas()) {
+        console.log(schema.name);
+      }
+      break;
+    case 'snapshots': {
+      const [snapshots] = await pubsub.getSnapshots();
+      snapshots.forEach(s => console.log(s.name));
+      break;
+    }
+  }
+}
+
+async function describe(pubsub, argv) {
+  switch (argv.resource) {
+    case 'topic': {
+      const [metadata] = await pubsub.topic(argv.name).getMetadata();
+      print(metadata);
+      break;
+    }
+    case 'subscription': {
+      const [metadata] = await pubsub.subscription(argv.name).getMetadata();
+      print(metadata);
+      break;
+    }
+    case 'schema':
+      print(await pubsub.schema(argv.name).get());
+      break;
+    case 'snapshot': {
+      const id = argv.name.substring(argv.name.lastIndexOf('/') + 1);
+      const [snapshots] = await pubsub.getSnapshots();
+      const snapshot = snapshots.find(s => s.name.endsWith(`/${id}`));
+      if (!snapshot) {
+        throw new Error(`Snapshot ${argv.name} was not found.`);
+      }
+      print(snapshot.metadata);
+      break;
+    }
+  }
+}
+
+async function seek(pubsub, argv) {
+  let target = argv.snapshot;
+  if (argv.time) {
+    target = new Date(argv.time);
+    if (isNaN(target.getTime())) {
+      throw new Error(`Invalid time: ${argv.time}`);
+    }
+  }
+  await pubsub.subscription(argv.subscription).seek(target);
+  console.log(`Seeked ${argv.subscription} to ${argv.time || argv.snapshot}.`);
+}
+
+function main(args) {
+  return require('yargs')(args)
+    .scriptName('pubsub')
+    .option('project', {
+      description: 'The project to use; the default project if not given.',
+      type: 'string',
+    })
+    .option('api-endpoint', {
+      description:
+        'The endpoint to connect to, e.g. an emulator. PUBSUB_EMULATOR_HOST is used if it is set.',
+      type: 'string',
+    })
+    .option('emulator-mode', {
+      description: 'Whether to connect without credentials, as to an emulator.',
+      type: 'boolean',
+    })
+    .command(
+      'publish <topic> [files..]',
+      'Publish a message from --data, each file, or stdin.',
+      yargs =>
+        yargs
+          .option('data', {description: 'The message data.', type: 'string'})
+          .option('attribute', {
+            alias: 'a',
+            description: 'An attribute, as key=value. May be repeated.',
+            type: 'array',
+            string: true,
+          })
+          .option('ordering-key', {
+            description: 'The ordering key for the messages.',
+            type: 'string',
+          })
+          .option('lines', {
+            description: 'Publish each line of stdin as a message.',
+            type: 'boolean',
+          })
+          .option('json-lines', {
+            description:
+              'Publish each line of stdin as a message, given as JSON with data, attributes and orderingKey.',
+            type: 'boolean',
+          })
+          .conflicts('lines', 'json-lines'),
+      run(publish),
+    )
+    .command(
+      'tail <subscription>',
+      'Print messages as they are received.',
+      yargs =>
+        yargs
+          .option('ack', {
+            description: 'Acknowledge messages once they are printed.',
+            type: 'boolean',
+            default: false,
+          })
+          .option('max-messages', {
+            alias: 'n',
+            description: 'Stop after this many messages.',
+            type: 'number',
+          })
+          .option('timeout', {
+            description: 'Stop after this many seconds.',
+            type: 'number',
+          })
+          .option('format', {
+            choices: ['pretty', 'json'],
+            default: 'pretty',
+          }),
+      run(tail),
+    )
+    .command(
+      'list <resource>',
+      'List topics, subscriptions, schemas or snapshots.',
+      yargs =>
+        yargs
+          .positional('resource', {
+            choices: ['topics', 'subscriptions', 'schemas', 'snapshots'],
+          })
+          .option('topic', {
+            description: 'Only list the subscriptions of this topic.',
+            type: 'string',
+          }),
+      run(list),
+    )
+    .command(
+      'describe <resource> <name>',
+      'Print the details of a topic, subscription, schema or snapshot.',
+      yargs =>
+        yargs.positional('resource', {
+          choices: ['topic', 'subscription', 'schema', 'snapshot'],
+        }),
+      run(describe),
+    )
+    .command(
+      'seek <subscription>',
+      'Seek a subscription to a time or a snapshot.',
+      yargs =>
+        yargs
+          .option('time', {
+            description: 'The time to seek to, e.g. 2026-01-01T00:00:00Z.',
+            type: 'string',
+          })
+          .option('snapshot', {
+            description: 'The snapshot to seek to.',
+            type: 'string',
+          })
+          .check(args => {
+            if (!args.time === !args.snapshot) {
+              throw new Error(
+                'Exactly one of --time and --snapshot is needed.',
+              );
+            }
+            return true;
+          }),
+      run(seek),
+    )
+    .demandCommand(1)
+    .strict()
+    .parse();
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
+
+module.exports = {parseAttributes, parseJsonLines};
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+const fs = require('fs');
+const {PubSub, generateSchemaTypes, loadSchemaFile} = require('../build/src');
+
+const argv = require('yargs')
+  .usage('$0 (--schema <id> | --file <path>) [options]')
+  .option('schema', {
+    description: 'The ID or name of a schema to fetch the latest revision of.',
+    type: 'string',
+  })
+  .option('file', {
+    description: 'A local schema definition (.avsc, .json or .proto).',
+    type: 'string',
+  })
+  .option('type', {
+    description: 'The type of the local schema, if its extension is unknown.',
+    choices: ['AVRO', 'PROTOCOL_BUFFER'],
+  })
+  .option('project', {
+    description: 'The project to fetch the schema from.',
+    type: 'string',
+  })
+  .option('name', {
+    description: 'The name of the generated message type.',
+    type: 'string',
+  })
+  .option('import-from', {
+    description: 'Where the generated code imports the Pub/Sub library from.',
+    type: 'string',
+  })
+  .option('out', {
+    description: 'The file to write; the code is printed if not given.',
+    type: 'string',
+  })
+  .check(args => {
+    if (!args.schema === !args.file) {
+      throw new Error('Exactly one of --schema and --file must be given.');
+    }
+    return true;
+  })
+  .parse();
+
+async function loadSchema() {
+  if (argv.file) {
+    return loadSchemaFile(argv.file, argv.type);
+  }
+
+  const pubsub = new PubSub({projectId: argv.project});
+  try {
+    return await pubsub.schema(argv.schema).get();
+  } finally {
+    await pubsub.close();
+  }
+}
+
+async function main() {
+  const schema = await loadSchema();
+  const source = generateSchemaTypes(schema, {
+    typeName: argv.name,
+    importFrom: argv.importFrom,
+  });
+  if (argv.out) {
+    fs.writeFileSync(argv.out, source);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,760 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*!
+ * A small implementation of the Avro specification, covering what Pub/Sub
+ * schemas need: parsing schemas, checking values, and the binary and JSON
+ * encodings. Logical types are treated as their underlying types.
+ */
+
+/**
+ * An Avro schema, as parsed from JSON.
+ */
+export type AvroSchema = string | AvroSchema[] | {[key: string]: unknown};
+
+const PRIMITIVES = [
+  'null',
+  'boolean',
+  'int',
+  'long',
+  'float',
+  'double',
+  'bytes',
+  'string',
+] as const;
+type Primitive = (typeof PRIMITIVES)[number];
+
+/**
+ * A field of a record type.
+ *
+ * @private
+ * @internal
+ */
+export interface AvroField {
+  name: string;
+  type: AvroNode;
+  default?: unknown;
+  hasDefault: boolean;
+  doc?: string;
+}
+
+/**
+ * A resolved Avro type. Named types are shared between the places that
+ * refer to them, so the graph can have cycles.
+ *
+ * @private
+ * @internal
+ */
+export type AvroNode =
+  | {type: Primitive}
+  | {type: 'record'; name: string; fields: AvroField[]; doc?: string}
+  | {
+      type: 'enum';
+      name: string;
+      symbols: string[];
+      default?: string;
+      doc?: string;
+    }
+  | {type: 'fixed'; name: string; size: number}
+  | {type: 'array'; items: AvroNode}
+  | {type: 'map'; values: AvroNode}
+  | {type: 'union'; branches: AvroNode[]};
+
+type Named = Extract<AvroNode, {name: string}>;
+
+const INT_MIN = -Math.pow(2, 31);
+const INT_MAX = Math.pow(2, 31) - 1;
+
+function fullName(name: string, namespace?: string): string {
+  return name.includes('.') || !namespace ? name : `${namespace}.${name}`;
+}
+
+function namespaceOf(name: string): string | undefined {
+  const dot = name.lastIndexOf('.');
+  return dot < 0 ? undefined : name.substring(0, dot);
+}
+
+/**
+ * Resolves a parsed schema into {@link AvroNode}s.
+ */
+function resolve(
+  schema: AvroSchema,
+  named: Map<string, Named>,
+  namespace?: string,
+): AvroNode {
+  if (typeof schema === 'string') {
+    if ((PRIMITIVES as readonly string[]).includes(schema)) {
+      return {type: schema as Primitive};
+    }
+    const found = named.get(fullName(schema, namespace)) ?? named.get(schema);
+    if (!found) {
+      throw new Error(`Undefined type: ${schema}`);
+    }
+    return found;
+  }
+
+  if (Array.isArray(schema)) {
+    const branches = schema.map(s => resolve(s, named, namespace));
+    for (const branch of branches) {
+      if (branch.type === 'union') {
+        throw new Error('Unions may not immediately contain other unions.');
+      }
+    }
+    const names = branches.map(branchName);
+    if (new Set(names).size !== names.length) {
+      throw new Error(`Unions may not have duplicate types: ${names}`);
+    }
+    return {type: 'union', branches};
+  }
+
+  if (!schema || typeof schema !== 'object') {
+    throw new Error('Types must be a name, an object or a union.');
+  }
+
+  const {type} = schema;
+  switch (type) {
+    case 'record':
+    case 'error':
+    case 'enum':
+    case 'fixed': {
+      if (typeof schema.name !== 'string' || !schema.name) {
+        throw new Error(`A ${type} must have a name.`);
+      }
+      const ns =
+        typeof schema.namespace === 'string' ? schema.namespace : namespace;
+      const name = fullName(schema.name, ns);
+      if (named.has(name)) {
+        throw new Error(`Duplicate type: ${name}`);
+      }
+      const doc = typeof schema.doc === 'string' ? schema.doc : undefined;
+
+      if (type === 'enum') {
+        const {symbols} = schema;
+        if (
+          !Array.isArray(symbols) ||
+          symbols.some(s => typeof s !== 'string')
+        ) {
+          throw new Error(`Enum ${name} must have symbols.`);
+        }
+        const node: Named = {
+          type,
+          name,
+          symbols: symbols as string[],
+          default:
+            typeof schema.default === 'string' ? schema.default : undefined,
+          doc,
+        };
+        named.set(name, node);
+        return node;
+      }
+      if (type === 'fixed') {
+        if (typeof schema.size !== 'number') {
+          throw new Error(`Fixed ${name} must have a size.`);
+        }
+        const node: Named = {type, name, size: schema.size};
+        named.set(name, node);
+        return node;
+      }
+
+      if (!Array.isArray(schema.fields)) {
+        throw new Error(`Record ${name} must have fields.`);
+      }
+      // Register the record before its fields, as they may refer to it.
+      const node: Named = {type: 'record', name, fields: [], doc};
+      named.set(name, node);
+      for (const field of schema.fields as {[key: string]: unknown}[]) {
+        if (typeof field?.name !== 'string') {
+          throw new Error(`Fields of ${name} must have names.`);
+        }
+        node.fields.push({
+          name: field.name,
+          type: resolve(field.type as AvroSchema, named, namespaceOf(name)),
+          default: field.default,
+          hasDefault: 'default' in field,
+          doc: typeof field.doc === 'string' ? field.doc : undefined,
+        });
+      }
+      return node;
+    }
+    case 'array':
+      return {
+        type,
+        items: resolve(schema.items as AvroSchema, named, namespace),
+      };
+    case 'map':
+      return {
+        type,
+        values: resolve(schema.values as AvroSchema, named, namespace),
+      };
+    default:
+      // e.g. {type: 'string'}, possibly with a logical type.
+      return resolve(type as AvroSchema, named, namespace);
+  }
+}
+
+/**
+ * The name a union branch is known by in the JSON encoding.
+ *
+ * @private
+ * @internal
+ */
+export function branchName(node: AvroNode): string {
+  return 'name' in node ? node.name : node.type;
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+/**
+ * Returns the reason a value doesn't match a type, or null if it does.
+ */
+function check(node: AvroNode, value: unknown, path: string): string | null {
+  const expected = (what: string) => `${path}: ${what} expected`;
+
+  switch (node.type) {
+    case 'null':
+      return value === null || value === undefined ? null : expected('null');
+    case 'boolean':
+      return typeof value === 'boolean' ? null : expected('boolean');
+    case 'int':
+      return Number.isInteger(value) &&
+        (value as number) >= INT_MIN &&
+        (value as number) <= INT_MAX
+        ? null
+        : expected('int');
+    case 'long':
+      return Number.isSafeInteger(value) ? null : expected('long');
+    case 'float':
+    case 'double':
+      return typeof value === 'number' ? null : expected('number');
+    case 'bytes':
+      return isBytes(value) ? null : expected('Buffer');
+    case 'string':
+      return typeof value === 'string' ? null : expected('string');
+    case 'fixed':
+      return isBytes(value) && value.length === node.size
+        ? null
+        : expected(`Buffer of ${node.size} bytes`);
+    case 'enum':
+      return node.symbols.includes(value as string)
+        ? null
+        : expected(`one of ${node.symbols.join(', ')}`);
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return expected('array');
+      }
+      for (let i = 0; i < value.length; i++) {
+        const reason = check(node.items, value[i], `${path}[${i}]`);
+        if (reason) {
+          return reason;
+        }
+      }
+      return null;
+    }
+    case 'map': {
+      if (!isObject(value)) {
+        return expected('object');
+      }
+      for (const [key, v] of Object.entries(value)) {
+        const reason = check(node.values, v, `${path}.${key}`);
+        if (reason) {
+          return reason;
+        }
+      }
+      return null;
+    }
+    case 'record': {
+      if (!isObject(value) || isBytes(value)) {
+        return expected(`${node.name} object`);
+      }
+      for (const field of node.fields) {
+        const v = value[field.name];
+        if (v === undefined && field.hasDefault) {
+          continue;
+        }
+        const reason = check(field.type, v, `${path}.${field.name}`);
+        if (reason) {
+          return reason;
+        }
+      }
+      for (const key of Object.keys(value)) {
+        if (!node.fields.some(f => f.name === key)) {
+          return `${path}.${key}: not a field of ${node.name}`;
+        }
+      }
+      return null;
+    }
+    case 'union':
+      return node.branches.some(b => !check(b, value, path))
+        ? null
+        : expected(node.branches.map(branchName).join(' or '));
+  }
+}
+
+/**
+ * Picks the union branch that a value belongs to.
+ */
+function branchIndex(node: {branches: AvroNode[]}, value: unknown): number {
+  const index = node.branches.findIndex(b => !check(b, value, ''));
+  if (index < 0) {
+    throw new TypeError('Value does not match any branch of the union.');
+  }
+  return index;
+}
+
+/**
+ * Writes the Avro binary encoding.
+ */
+class Writer {
+  private _parts: Buffer[] = [];
+
+  writeLong(n: number) {
+    // Zig-zag encode, then write as a varint. This uses arithmetic rather
+    // than bitwise operators, so that it works beyond 32 bits, and writes the
+    // sign bit separately, as doubling the magnitude could lose precision.
+    const negative = n < 0 ? 1 : 0;
+    let magnitude = negative ? -n - 1 : n;
+    let b = (magnitude % 0x40) * 2 + negative;
+    magnitude = Math.floor(magnitude / 0x40);
+    const bytes: number[] = [];
+    while (magnitude > 0) {
+      bytes.push(b | 0x80);
+      b = magnitude % 0x80;
+      magnitude = Math.floor(magnitude / 0x80);
+    }
+    bytes.push(b);
+    this._parts.push(Buffer.from(bytes));
+  }
+
+  writeBytes(data: Uint8Array) {
+    this.writeLong(data.length);
+    this.writeFixed(data);
+  }
+
+  writeFixed(data: Uint8Array) {
+    this._parts.push(Buffer.from(data));
+  }
+
+  writeFloat(n: number) {
+    const buf = Buffer.alloc(4);
+    buf.writeFloatLE(n);
+    this._parts.push(buf);
+  }
+
+  writeDouble(n: number) {
+    const buf = Buffer.alloc(8);
+    buf.writeDoubleLE(n);
+    this._parts.push(buf);
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this._parts);
+  }
+}
+
+/**
+ * Reads the Avro binary encoding.
+ */
+class Reader {
+  private _buf: Buffer;
+  private _pos = 0;
+
+  constructor(buf: Buffer) {
+    this._buf = buf;
+  }
+
+  get done(): boolean {
+    return this._pos >= this._buf.length;
+  }
+
+  private _take(n: number): Buffer {
+    if (n < 0 || this._pos + n > this._buf.length) {
+      throw new RangeError('Unexpected end of Avro data.');
+    }
+    const out = this._buf.subarray(this._pos, this._pos + n);
+    this._pos += n;
+    return out;
+  }
+
+  readLong(): number {
+    // The zig-zag sign is the lowest bit, and the magnitude is the rest, so
+    // that it can be checked against the safe range before it loses
+    // precision. Longs take at most 10 bytes.
+    let b = this._take(1)[0];
+    const negative = b & 1;
+    let magnitude = (b & 0x7f) >>> 1;
+    let scale = 0x40;
+    for (let length = 1; b & 0x80; length++) {
+      b = this._take(1)[0];
+      magnitude += (b & 0x7f) * scale;
+      scale *= 0x80;
+      if (length === 10 || magnitude > Number.MAX_SAFE_INTEGER - negative) {
+        throw new RangeError('Avro long is outside the safe integer range.');
+      }
+    }
+    return negative ? -(magnitude + 1) : magnitude;
+  }
+
+  readBytes(): Buffer {
+    return this.readFixed(this.readLong());
+  }
+
+  readFixed(size: number): Buffer {
+    return Buffer.from(this._take(size));
+  }
+
+  readFloat(): number {
+    return this._take(4).readFloatLE();
+  }
+
+  readDouble(): number {
+    return this._take(8).readDoubleLE();
+  }
+}
+
+function write(node: AvroNode, value: unknown, w: Writer): void {
+  switch (node.type) {
+    case 'null':
+      return;
+    case 'boolean':
+      w.writeFixed(Buffer.from([value ? 1 : 0]));
+      return;
+    case 'int':
+    case 'long':
+      w.writeLong(value as number);
+      return;
+    case 'float':
+      w.writeFloat(value as number);
+      return;
+    case 'double':
+      w.writeDouble(value as number);
+      return;
+    case 'bytes':
+      w.writeBytes(value as Uint8Array);
+      return;
+    case 'string':
+      w.writeBytes(Buffer.from(value as string));
+      return;
+    case 'fixed':
+      w.writeFixed(value as Uint8Array);
+      return;
+    case 'enum':
+      w.writeLong(node.symbols.indexOf(value as string));
+      return;
+    case 'array': {
+      const items = value as unknown[];
+      if (items.length) {
+        w.writeLong(items.length);
+        items.forEach(item => write(node.items, item, w));
+      }
+      w.writeLong(0);
+      return;
+    }
+    case 'map': {
+      const entries = Object.entries(value as object);
+      if (entries.length) {
+        w.writeLong(entries.length);
+        for (const [key, v] of entries) {
+          w.writeBytes(Buffer.from(key));
+          write(node.values, v, w);
+        }
+      }
+      w.writeLong(0);
+      return;
+    }
+    case 'record': {
+      const record = value as {[key: string]: unknown};
+      for (const field of node.fields) {
+        const v = record[field.name];
+        if (v === undefined && field.hasDefault) {
+          write(field.type, fromJson(field.type, field.default, false), w);
+        } else {
+          write(field.type, v, w);
+        }
+      }
+      return;
+    }
+    case 'union': {
+      const index = branchIndex(node, value);
+      w.writeLong(index);
+      write(node.branches[index], value, w);
+      return;
+    }
+  }
+}
+
+/**
+ * Reads items written in blocks, as arrays and maps are.
+ */
+function readBlocks(r: Reader, readItem: () => void): void {
+  for (let count = r.readLong(); count !== 0; count = r.readLong()) {
+    if (count < 0) {
+      // A negative count is followed by the block's size in bytes.
+      count = -count;
+      r.readLong();
+    }
+    for (let i = 0; i < count; i++) {
+      readItem();
+    }
+  }
+}
+
+function read(node: AvroNode, r: Reader): unknown {
+  switch (node.type) {
+    case 'null':
+      return null;
+    case 'boolean':
+      return r.readFixed(1)[0] !== 0;
+    case 'int':
+    case 'long':
+      return r.readLong();
+    case 'float':
+      return r.readFloat();
+    case 'double':
+      return r.readDouble();
+    case 'bytes':
+      return r.readBytes();
+    case 'string':
+      return r.readBytes().toString();
+    case 'fixed':
+      return r.readFixed(node.size);
+    case 'enum': {
+      const symbol = node.symbols[r.readLong()];
+      if (symbol === undefined) {
+        throw new RangeError(`Invalid symbol for enum ${node.name}.`);
+      }
+      return symbol;
+    }
+    case 'array': {
+      const items: unknown[] = [];
+      readBlocks(r, () => items.push(read(node.items, r)));
+      return items;
+    }
+    case 'map': {
+      const map: {[key: string]: unknown} = {};
+      readBlocks(r, () => {
+        const key = r.readBytes().toString();
+        map[key] = read(node.values, r);
+      });
+      return map;
+    }
+    case 'record': {
+      const record: {[key: string]: unknown} = {};
+      for (const field of node.fields) {
+        record[field.name] = read(field.type, r);
+      }
+      return record;
+    }
+    case 'union': {
+      const branch = node.branches[r.readLong()];
+      if (!branch) {
+        throw new RangeError('Invalid union branch.');
+      }
+      return read(branch, r);
+    }
+  }
+}
+
+/**
+ * Converts a value to the Avro JSON encoding, in which bytes are strings of
+ * code points and non-null union values are wrapped in an object keyed by
+ * their type.
+ */
+function toJson(node: AvroNode, value: unknown): unknown {
+  switch (node.type) {
+    case 'bytes':
+    case 'fixed':
+      return Buffer.from(value as Uint8Array).toString('latin1');
+    case 'null':
+      return null;
+    case 'array':
+      return (value as unknown[]).map(item => toJson(node.items, item));
+    case 'map': {
+      const map: {[key: string]: unknown} = {};
+      for (const [key, v] of Object.entries(value as object)) {
+        map[key] = toJson(node.values, v);
+      }
+      return map;
+    }
+    case 'record': {
+      const record: {[key: string]: unknown} = {};
+      const fields = value as {[key: string]: unknown};
+      for (const field of node.fields) {
+        const v = fields[field.name];
+        record[field.name] =
+          v === undefined && field.hasDefault
+            ? toJson(field.type, fromJson(field.type, field.default, false))
+            : toJson(field.type, v);
+      }
+      return record;
+    }
+    case 'union': {
+      const branch = node.branches[branchIndex(node, value)];
+      if (branch.type === 'null') {
+        return null;
+      }
+      return {[branchName(branch)]: toJson(branch, value)};
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Converts a value from the Avro JSON encoding. Field defaults use the same
+ * encoding, except that union values aren't wrapped, and are of the first
+ * branch's type.
+ */
+function fromJson(node: AvroNode, json: unknown, wrapped = true): unknown {
+  switch (node.type) {
+    case 'bytes':
+    case 'fixed':
+      if (typeof json !== 'string') {
+        throw new TypeError('Bytes must be encoded as strings.');
+      }
+      return Buffer.from(json, 'latin1');
+    case 'array':
+      return (json as unknown[]).map(item =>
+        fromJson(node.items, item, wrapped),
+      );
+    case 'map': {
+      const map: {[key: string]: unknown} = {};
+      for (const [key, v] of Object.entries(json as object)) {
+        map[key] = fromJson(node.values, v, wrapped);
+      }
+      return map;
+    }
+    case 'record': {
+      const record: {[key: string]: unknown} = {};
+      const fields = json as {[key: string]: unknown};
+      for (const field of node.fields) {
+        record[field.name] =
+          fields[field.name] === undefined && field.hasDefault
+            ? fromJson(field.type, field.default, false)
+            : fromJson(field.type, fields[field.name], wrapped);
+      }
+      return record;
+    }
+    case 'union': {
+      if (!wrapped) {
+        return fromJson(node.branches[0], json, false);
+      }
+      if (json === null) {
+        return null;
+      }
+      const [[name, v]] = Object.entries(json as object);
+      const branch = node.branches.find(b => branchName(b) === name);
+      if (!branch) {
+        throw new TypeError(`Unknown union branch: ${name}`);
+      }
+      return fromJson(branch, v, wrapped);
+    }
+    default:
+      return json;
+  }
+}
+
+/**
+ * A parsed Avro schema, which can check, encode and decode values.
+ *
+ * Values are plain JavaScript: records are objects, `bytes` and `fixed` are
+ * Buffers, `long` is a number (so it must be a safe integer), and union
+ * values are not wrapped.
+ *
+ * @private
+ * @internal
+ */
+export class AvroType {
+  node: AvroNode;
+
+  private constructor(node: AvroNode) {
+    this.node = node;
+  }
+
+  /**
+   * Parses a schema.
+   *
+   * @param {string|object} schema The schema, as JSON or already parsed.
+   * @returns {AvroType}
+   * @throws {Error} If the schema is invalid.
+   */
+  static parse(schema: string | AvroSchema): AvroType {
+    const parsed =
+      typeof schema === 'string' && !PRIMITIVES.includes(schema as Primitive)
+        ? (JSON.parse(schema) as AvroSchema)
+        : schema;
+    return new AvroType(resolve(parsed, new Map()));
+  }
+
+  /**
+   * Checks a value against the schema.
+   *
+   * @param {*} value The value to check.
+   * @returns {string|null} Why the value doesn't match, or null if it does.
+   */
+  verify(value: unknown): string | null {
+    return check(this.node, value, '$');
+  }
+
+  /**
+   * Encodes a value with the binary encoding. The value should be checked
+   * with `verify()` first.
+   */
+  toBuffer(value: unknown): Buffer {
+    const writer = new Writer();
+    write(this.node, value, writer);
+    return writer.finish();
+  }
+
+  /**
+   * Decodes a value from the binary encoding.
+   *
+   * @throws {Error} If the data isn't a valid encoding of the type.
+   */
+  fromBuffer(data: Buffer): unknown {
+    const reader = new Reader(data);
+    const value = read(this.node, reader);
+    if (!reader.done) {
+      throw new RangeError('Trailing data after Avro value.');
+    }
+    return value;
+  }
+
+  /**
+   * Encodes a value with the JSON encoding. The value should be checked with
+   * `verify()` first.
+   */
+  toJsonString(value: unknown): string {
+    return JSON.stringify(toJson(this.node, value));
+  }
+
+  /**
+   * Decodes a value from the JSON encoding.
+   *
+   * @throws {Error} If the JSON isn't a valid encoding of the type.
+   */
+  fromJsonString(json: string): unknown {
+    const value = fromJson(this.node, JSON.parse(json));
+    const reason = this.verify(value);
+    if (reason) {
+      throw new TypeError(reason);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,242 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {PreciseDate} from '@google-cloud/precise-date';
+
+import {Attributes} from './publisher/pubsub-message';
+
+/*!
+ * Attribute names from the CloudEvents Pub/Sub protocol binding.
+ */
+const ATTRIBUTE_PREFIX = 'ce-';
+const CONTENT_TYPE_ATTRIBUTE = 'content-type';
+const STRUCTURED_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * A CloudEvent (version 1.0). Extension attributes are kept as top-level
+ * properties, as in the JSON format.
+ *
+ * @typedef {object} CloudEvent
+ * @property {string} specversion The CloudEvents version, e.g. '1.0'.
+ * @property {string} id The event ID.
+ * @property {string} source Where the event happened.
+ * @property {string} type The event type.
+ * @property {string} [datacontenttype] The content type of `data`.
+ * @property {string} [dataschema] The schema `data` adheres to.
+ * @property {string} [subject] The subject of the event.
+ * @property {string} [time] When the event happened, as an RFC 3339 string.
+ * @property {*} [data] The event data. JSON content types are parsed, text
+ *     is a string, and anything else is a Buffer.
+ * @property {string} [data_base64] Binary event data, base64-encoded.
+ */
+export interface CloudEvent {
+  specversion: string;
+  id: string;
+  source: string;
+  type: string;
+  datacontenttype?: string;
+  dataschema?: string;
+  subject?: string;
+  time?: string;
+  data?: unknown;
+  data_base64?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * How a CloudEvent is carried in a message: in 'binary' mode, the event's
+ * attributes are `ce-` message attributes and its data is the message data;
+ * in 'structured' mode, the whole event is the message data, as JSON.
+ */
+export const CloudEventModes = {
+  Binary: 'binary' as const,
+  Structured: 'structured' as const,
+};
+
+export type CloudEventMode =
+  (typeof CloudEventModes)[keyof typeof CloudEventModes];
+
+/**
+ * The message fields a CloudEvent is read from.
+ *
+ * @private
+ * @internal
+ */
+export interface CloudEventSource {
+  attributes: Attributes;
+  data: Buffer;
+  id: string;
+  publishTime: PreciseDate;
+}
+
+function isJson(contentType?: string): boolean {
+  if (!contentType) {
+    return false;
+  }
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === 'application/json' || type.endsWith('+json');
+}
+
+function isText(contentType?: string): boolean {
+  return !!contentType && contentType.trim().toLowerCase().startsWith('text/');
+}
+
+function encodeData(event: CloudEvent): Buffer {
+  if (event.data_base64 !== undefined) {
+    return Buffer.from(event.data_base64, 'base64');
+  }
+  const {data} = event;
+  if (data === undefined) {
+    return Buffer.alloc(0);
+  }
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (typeof data === 'string' && !isJson(event.datacontenttype)) {
+    return Buffer.from(data);
+  }
+  return Buffer.from(JSON.stringify(data));
+}
+
+function decodeData(data: Buffer, contentType?: string): unknown {
+  if (isJson(contentType)) {
+    try {
+      return JSON.parse(data.toString());
+    } catch (e) {
+      throw new TypeError(
+        `The event data is not valid JSON: ${(e as Error).message}`,
+      );
+    }
+  }
+  return isText(contentType) ? data.toString() : data;
+}
+
+function validate(event: CloudEvent): void {
+  for (const name of ['specversion', 'id', 'source', 'type']) {
+    if (typeof event[name] !== 'string' || !event[name]) {
+      throw new TypeError(`The CloudEvent has no ${name}.`);
+    }
+  }
+}
+
+/**
+ * Converts a CloudEvent into the data and attributes of a message, following
+ * the CloudEvents Pub/Sub protocol binding.
+ *
+ * @throws {TypeError} If a required event attribute is missing.
+ *
+ * @param {CloudEvent} event The event.
+ * @param {CloudEventMode} [mode='binary'] How the event is carried.
+ * @returns {{data: Buffer, attributes: object}}
+ */
+export function cloudEventToMessage(
+  event: CloudEvent,
+  mode: CloudEventMode = CloudEventModes.Binary,
+): {data: Buffer; attributes: Attributes} {
+  validate(event);
+
+  if (mode === CloudEventModes.Structured) {
+    const structured: CloudEvent = {...event};
+    if (Buffer.isBuffer(event.data)) {
+      delete structured.data;
+      structured.data_base64 = event.data.toString('base64');
+    }
+    return {
+      data: Buffer.from(JSON.stringify(structured)),
+      attributes: {
+        [CONTENT_TYPE_ATTRIBUTE]: `${STRUCTURED_CONTENT_TYPE}; charset=UTF-8`,
+      },
+    };
+  }
+
+  const attributes: Attributes = {};
+  for (const [name, value] of Object.entries(event)) {
+    if (
+      name === 'data' ||
+      name === 'data_base64' ||
+      value === undefined ||
+      value === null
+    ) {
+      continue;
+    }
+    if (name === 'datacontenttype') {
+      attributes[CONTENT_TYPE_ATTRIBUTE] = String(value);
+    } else {
+      attributes[`${ATTRIBUTE_PREFIX}${name}`] =
+        value instanceof Date ? value.toISOString() : String(value);
+    }
+  }
+  if (
+    !attributes[CONTENT_TYPE_ATTRIBUTE] &&
+    event.data !== undefined &&
+    !Buffer.isBuffer(event.data) &&
+    typeof event.data !== 'string'
+  ) {
+    attributes[CONTENT_TYPE_ATTRIBUTE] = 'application/json';
+  }
+  return {data: encodeData(event), attributes};
+}
+
+/**
+ * Reconstructs the CloudEvent carried by a message, in either mode. Binary
+ * events that have no `id` or `time` take the message's ID and publish time.
+ *
+ * @private
+ * @internal
+ *
+ * @throws {TypeError} If the message doesn't carry a CloudEvent.
+ */
+export function messageToCloudEvent(message: CloudEventSource): CloudEvent {
+  const contentType = message.attributes[CONTENT_TYPE_ATTRIBUTE];
+  const time = message.publishTime.toISOString();
+
+  if (
+    contentType &&
+    contentType.trim().toLowerCase().startsWith(STRUCTURED_CONTENT_TYPE)
+  ) {
+    let event: CloudEvent;
+    try {
+      event = JSON.parse(message.data.toString());
+    } catch (e) {
+      throw new TypeError(
+        `The structured CloudEvent is not valid JSON: ${(e as Error).message}`,
+      );
+    }
+    if (event.data_base64 !== undefined) {
+      event.data = Buffer.from(event.data_base64, 'base64');
+      delete event.data_base64;
+    }
+    validate(event);
+    return event;
+  }
+
+  if (!message.attributes[`${ATTRIBUTE_PREFIX}specversion`]) {
+    throw new TypeError('The message is not a CloudEvent.');
+  }
+
+  const event = {id: message.id, time} as CloudEvent;
+  for (const [name, value] of Object.entries(message.attributes)) {
+    if (name.startsWith(ATTRIBUTE_PREFIX)) {
+      event[name.substring(ATTRIBUTE_PREFIX.length)] = value;
+    }
+  }
+  if (contentType) {
+    event.datacontenttype = contentType;
+  }
+  if (message.data.length) {
+    event.data = decodeData(message.data, contentType);
+  }
+  validate(event);
+  return event;
+}
@@ -0,0 +1,179 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as zlib from 'zlib';
+
+import {google} from '../protos/protos';
+import {PubsubMessage} from './publisher/pubsub-message';
+
+/**
+ * The algorithms that message data may be compressed with.
+ */
+export const CompressionAlgorithms = {
+  Gzip: 'gzip' as const,
+  Deflate: 'deflate' as const,
+  Brotli: 'brotli' as const,
+};
+
+export type CompressionAlgorithm =
+  (typeof CompressionAlgorithms)[keyof typeof CompressionAlgorithms];
+
+/**
+ * The attribute that marks a message's data as compressed. Its value is the
+ * algorithm used.
+ */
+export const COMPRESSION_ATTRIBUTE = 'googclient_compression';
+
+/*!
+ * Messages smaller than this aren't compressed by default, as the savings
+ * would be lost to the attribute.
+ */
+const DEFAULT_MIN_BYTES = 1024;
+
+/*!
+ * The most bytes that received data is decompressed to by default. Larger
+ * data is treated as data that can't be decompressed.
+ */
+const DEFAULT_MAX_DECOMPRESSED_BYTES = 64 * 1024 * 1024;
+
+/**
+ * @typedef {object} CompressionOptions
+ * @property {string} [algorithm='gzip'] The algorithm to use: `gzip`,
+ *     `deflate` or `brotli`. Use {@link CompressionAlgorithms} for values.
+ * @property {number} [minBytes=1024] Messages with less data than this are
+ *     sent uncompressed.
+ * @property {number} [level] The compression level. For gzip and deflate,
+ *     this is 0-9; for brotli, it's the quality, 0-11. By default, zlib's
+ *     default is used.
+ */
+export interface CompressionOptions {
+  algorithm?: CompressionAlgorithm;
+  minBytes?: number;
+  level?: number;
+}
+
+function compress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  level?: number,
+): Buffer {
+  switch (algorithm) {
+    case CompressionAlgorithms.Gzip:
+      return zlib.gzipSync(data, {level});
+    case CompressionAlgorithms.Deflate:
+      return zlib.deflateSync(data, {level});
+    case CompressionAlgorithms.Brotli:
+      return zlib.brotliCompressSync(data, {
+        params:
+          level === undefined
+            ? {}
+            : {[zlib.constants.BROTLI_PARAM_QUALITY]: level},
+      });
+    default:
+      throw new TypeError(`Unknown compression algorithm: ${algorithm}`);
+  }
+}
+
+function decompress(
+  data: Uint8Array,
+  algorithm: string,
+  maxBytes = DEFAULT_MAX_DECOMPRESSED_BYTES,
+): Buffer {
+  const options = {maxOutputLength: maxBytes};
+  switch (algorithm) {
+    case CompressionAlgorithms.Gzip:
+      return zlib.gunzipSync(data, options);
+    case CompressionAlgorithms.Deflate:
+      return zlib.inflateSync(data, options);
+    case CompressionAlgorithms.Brotli:
+      return zlib.brotliDecompressSync(data, options);
+    default:
+      throw new TypeError(`Unknown compression algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * Compresses a message's data, if it's large enough and compression makes it
+ * smaller. The message isn't changed; a copy is returned with the compressed
+ * data and the compression attribute set, so that its size is calculated
+ * again when it's batched.
+ *
+ * @private
+ * @internal
+ *
+ * @param {PubsubMessage} message The message to publish.
+ * @param {CompressionOptions} options The compression options.
+ * @returns {PubsubMessage} The message to send.
+ */
+export function compressMessage(
+  message: PubsubMessage,
+  options: CompressionOptions,
+): PubsubMessage {
+  const {
+    algorithm = CompressionAlgorithms.Gzip,
+    minBytes = DEFAULT_MIN_BYTES,
+    level,
+  } = options;
+  const data = message.data as Uint8Array | undefined;
+
+  if (!data || data.length < minBytes) {
+    return message;
+  }
+
+  const compressed = compress(data, algorithm, level);
+  if (compressed.length >= data.length) {
+    return message;
+  }
+
+  const copy: PubsubMessage = {
+    ...message,
+    data: compressed,
+    attributes: {...message.attributes, [COMPRESSION_ATTRIBUTE]: algorithm},
+  };
+  delete copy.calculatedSize;
+  return copy;
+}
+
+/**
+ * Undoes {@link compressMessage} for a received message. Messages without
+ * the compression attribute are returned as they are.
+ *
+ * @private
+ * @internal
+ *
+ * @param {object} message The received message.
+ * @param {number} [maxBytes] The most bytes to decompress the data to.
+ * @returns {object} The message's data and attributes, without the
+ *     compression attribute.
+ * @throws {Error} If the data can't be decompressed, or is too large.
+ */
+export function decompressMessage(
+  message: google.pubsub.v1.IPubsubMessage,
+  maxBytes?: number,
+): {
+  data: Buffer;
+  attributes: {[key: string]: string};
+} {
+  const data = message.data as Buffer;
+  const attributes = message.attributes || {};
+  const algorithm = attributes[COMPRESSION_ATTRIBUTE];
+
+  if (!algorithm || !data) {
+    return {data, attributes};
+  }
+
+  const rest = {...attributes};
+  delete rest[COMPRESSION_ATTRIBUTE];
+  return {data: decompress(data, algorithm, maxBytes), attributes: rest};
+}
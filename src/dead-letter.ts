@@ -0,0 +1,194 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Attributes} from './publisher';
+import {Message} from './subscriber';
+import {Topic} from './topic';
+
+/**
+ * Attributes added to messages forwarded to a client-side dead letter topic.
+ */
+export const DeadLetterAttributes = {
+  Subscription: 'googclient_deadletter_subscription' as const,
+  MessageId: 'googclient_deadletter_message_id' as const,
+  Error: 'googclient_deadletter_error' as const,
+  DeliveryAttempt: 'googclient_deadletter_delivery_attempt' as const,
+};
+
+// The most message IDs we'll remember failed attempts for. Beyond this,
+// the oldest entries are dropped.
+const MAX_TRACKED_MESSAGES = 10000;
+
+// This matches the server's default for dead letter policies.
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Pub/Sub's limit on the size of an attribute value, in bytes.
+const MAX_ATTRIBUTE_BYTES = 1024;
+
+/**
+ * @typedef {object} DeadLetterOptions
+ * @property {Topic} topic The topic to forward failed messages to.
+ * @property {number} [maxAttempts=5] The number of failed (nacked) deliveries
+ *     after which a message is forwarded. Messages that are nacked because
+ *     the subscriber, an iterator or a processor is shutting down don't
+ *     count. Forwarded messages keep their ordering key, so the topic's
+ *     publisher should have `messageOrdering` enabled if they have one.
+ */
+export interface DeadLetterOptions {
+  topic: Topic;
+  maxAttempts?: number;
+}
+
+/**
+ * Counts failed deliveries for a subscriber and republishes messages that
+ * have failed too many times to a dead letter topic. This is for cases where
+ * a server-side dead letter policy can't be used.
+ *
+ * If the server reports delivery attempts (`Message#deliveryAttempt`), those
+ * are used. Otherwise, failures are counted by message ID in this process
+ * only, so with several subscriber processes, a message may be delivered
+ * more than `maxAttempts` times before it's forwarded.
+ *
+ * @private
+ * @class
+ *
+ * @param {DeadLetterOptions} options The dead letter options.
+ */
+export class DeadLetterForwarder {
+  private _attempts: Map<string, number>;
+  private _maxAttempts: number;
+  private _topic: Topic;
+
+  constructor(options: DeadLetterOptions) {
+    this._attempts = new Map();
+    this._maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this._topic = options.topic;
+  }
+
+  /**
+   * Records a failed delivery of the message.
+   *
+   * @param {Message} message The nacked message.
+   * @returns {number} The number of times delivery has failed, including
+   *     this one.
+   * @private
+   */
+  recordFailure(message: Message): number {
+    const attempts = Math.max(
+      message.deliveryAttempt,
+      (this._attempts.get(message.id) ?? 0) + 1,
+    );
+
+    // Re-insert so that the Map's ordering keeps the newest entries last.
+    this._attempts.delete(message.id);
+    this._attempts.set(message.id, attempts);
+
+    if (this._attempts.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this._attempts.keys().next().value!;
+      this._attempts.delete(oldest);
+    }
+
+    return attempts;
+  }
+
+  /**
+   * Returns true if a message with this many failed deliveries should be
+   * forwarded rather than nacked.
+   *
+   * @param {number} attempts The number of failed deliveries.
+   * @returns {boolean}
+   * @private
+   */
+  shouldForward(attempts: number): boolean {
+    return attempts >= this._maxAttempts;
+  }
+
+  /**
+   * Stops tracking the message, e.g. because it has been acked.
+   *
+   * @param {Message} message The message.
+   * @private
+   */
+  forget(message: Message): void {
+    this._attempts.delete(message.id);
+  }
+
+  /**
+   * Publishes a copy of the message to the dead letter topic.
+   *
+   * @param {Message} message The failed message.
+   * @param {string} subscription The name of the source subscription.
+   * @param {number} attempts The number of failed deliveries.
+   * @param {Error} [error] The reason for the last failure, if known.
+   * @returns {Promise<string>} Resolves with the new message's ID.
+   * @private
+   */
+  async forward(
+    message: Message,
+    subscription: string,
+    attempts: number,
+    error?: Error,
+  ): Promise<string> {
+    const attributes: Attributes = {
+      ...message.attributes,
+      [DeadLetterAttributes.Subscription]: subscription,
+      [DeadLetterAttributes.MessageId]: message.id,
+      [DeadLetterAttributes.DeliveryAttempt]: String(attempts),
+    };
+    if (error) {
+      attributes[DeadLetterAttributes.Error] = truncate(
+        String(error.message ?? error),
+        MAX_ATTRIBUTE_BYTES,
+      );
+    }
+
+    const {orderingKey} = message;
+    let messageId: string;
+    try {
+      messageId = await this._topic.publishMessage({
+        data: message.data,
+        attributes,
+        orderingKey,
+      });
+    } catch (e) {
+      // A failed publish pauses the ordering key; let the next forward try.
+      if (orderingKey) {
+        this._topic.resumePublishing(orderingKey);
+      }
+      throw e;
+    }
+    this.forget(message);
+
+    return messageId;
+  }
+}
+
+/**
+ * Cuts a string down to at most `maxBytes` bytes of UTF-8, without splitting
+ * a character.
+ *
+ * @private
+ */
+function truncate(value: string, maxBytes: number): string {
+  const bytes = Buffer.from(value);
+  if (bytes.length <= maxBytes) {
+    return value;
+  }
+  let end = maxBytes;
+  // Back up over continuation bytes to the start of the character.
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return bytes.subarray(0, end).toString();
+}
@@ -42,6 +42,19 @@ export const defaultOptions = {
     // be opened.
     maxStreams: 5,
 
+    // The shortest delay before a nacked message is redelivered, when a
+    // client-side retry policy is used.
+    minRetryBackoff: Duration.from({seconds: 10}),
+
+    // The longest delay before a nacked message is redelivered, when a
+    // client-side retry policy is used. This can't be more than the
+    // maximum ack deadline the server allows.
+    maxRetryBackoff: Duration.from({minutes: 10}),
+
+    // The maximum number of handlers that Subscription.process() will run
+    // at once.
+    maxConcurrentHandlers: 10,
+
     // The starting number of seconds that ack deadlines will be extended.
     startingAckDeadline: Duration.from({seconds: 10}),
   },
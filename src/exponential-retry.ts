@@ -102,18 +102,22 @@ export class ExponentialRetry<T> {
    * same exact item that was already on the queue, if it's being retried
    * more than once.
    *
+   * If the item has already failed elsewhere (e.g. a redelivered message),
+   * a starting multiplier may be passed for its first time through.
+   *
    * @private
    */
-  retryLater(item: T, callback: RetryCallback<T>) {
+  retryLater(item: T, callback: RetryCallback<T>, multiplier = 1) {
     const retried = item as RetriedItem<T>;
     const retryInfo = retried.retryInfo;
 
     if (!retryInfo) {
       // This item's first time through.
+      const delta = Math.min(multiplier * this._backoffMs, this._maxBackoffMs);
       retried.retryInfo = {
         firstRetry: Date.now(),
-        nextRetry: Date.now() + this.randomizeDelta(this._backoffMs),
-        multiplier: 1,
+        nextRetry: Date.now() + this.randomizeDelta(delta),
+        multiplier,
         callback,
       };
     } else {
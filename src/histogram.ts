@@ -66,7 +66,7 @@ export class Histogram {
   percentile(percent: number): number {
     percent = Math.min(percent, 100);
     let target = this.length - this.length * (percent / 100);
-    const keys = Array.from(this.data.keys());
+    const keys = Array.from(this.data.keys()).sort((a, b) => a - b);
     let key;
     for (let i = keys.length - 1; i > -1; i--) {
       key = keys[i];
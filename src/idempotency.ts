@@ -0,0 +1,389 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {createHash} from 'crypto';
+import defer = require('p-defer');
+
+import {PublishCallback} from './publisher';
+import {PubsubMessage} from './publisher/pubsub-message';
+import {Message} from './subscriber';
+import {Duration} from './temporal';
+
+/**
+ * The attribute that carries a message's idempotency key. Messages with the
+ * same key are treated as copies of each other.
+ */
+export const IDEMPOTENCY_KEY_ATTRIBUTE = 'googclient_idempotency_key';
+
+/*!
+ * The most keys to remember, on either side, by default.
+ */
+const DEFAULT_MAX_KEYS = 10000;
+
+/*!
+ * How long subscribers remember keys for by default.
+ */
+const DEFAULT_WINDOW = Duration.from({minutes: 10});
+
+/**
+ * @typedef {object} IdempotencyOptions
+ * @property {number} [maxKeys=10000] The most recently published keys to
+ *     remember. Beyond this, the least recently used ones are forgotten.
+ */
+export interface IdempotencyOptions {
+  maxKeys?: number;
+}
+
+/**
+ * Storage for a subscriber's duplicate window. To share the window between
+ * subscriber processes, implement this on top of a shared cache or database,
+ * e.g. with Redis's `SET key id NX GET PX window`. {@link MemoryDuplicateStore}
+ * keeps keys in memory, for one process.
+ *
+ * Keys start with the subscription name, so one store can be shared by
+ * several subscriptions.
+ *
+ * @interface DuplicateStore
+ */
+export interface DuplicateStore {
+  /**
+   * Records a key with the ID of the message that carried it, unless the key
+   * is already there.
+   *
+   * @param {string} key The key.
+   * @param {string} messageId The message ID.
+   * @param {Duration} window How long to keep the key for.
+   * @returns {Promise<string|undefined>} The message ID that the key was
+   *     already recorded with, or undefined if it was added.
+   */
+  add(
+    key: string,
+    messageId: string,
+    window: Duration,
+  ): Promise<string | undefined>;
+
+  /**
+   * Removes a key, so that the next message with it is handled again.
+   *
+   * @param {string} key The key.
+   * @returns {Promise<void>}
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * @typedef {object} DuplicateWindowOptions
+ * @property {Duration} [window] How long to remember a key after the message
+ *     that carried it was received. (Default: 10 minutes)
+ * @property {number} [maxKeys=10000] The most keys to remember in memory.
+ *     Beyond this, the oldest ones are forgotten. This doesn't apply to a
+ *     `store`.
+ * @property {string} [attribute] The attribute that identifies copies of a
+ *     message. (Default: the idempotency key attribute that publishers set.)
+ * @property {DuplicateStore} [store] Where the window is kept. By default,
+ *     it's kept in memory, in a {@link MemoryDuplicateStore}.
+ */
+export interface DuplicateWindowOptions {
+  window?: Duration;
+  maxKeys?: number;
+  attribute?: string;
+  store?: DuplicateStore;
+}
+
+/**
+ * @typedef {object} DeduplicationOptions
+ * @property {Duration} [window] How long to remember a message after it was
+ *     received. (Default: 10 minutes)
+ * @property {number} [maxKeys=10000] The most messages to remember in
+ *     memory. Beyond this, the oldest ones are forgotten. This doesn't apply
+ *     to a `store`.
+ * @property {string} [attribute] The attribute that identifies messages. By
+ *     default, messages are identified by `Message#id`. Messages without the
+ *     attribute are never treated as duplicates.
+ * @property {DuplicateStore} [store] Where the window is kept. By default,
+ *     it's kept in memory, in a {@link MemoryDuplicateStore}.
+ */
+export type DeduplicationOptions = DuplicateWindowOptions;
+
+/**
+ * Makes an idempotency key from the content of a message: its data,
+ * attributes (other than the key itself) and ordering key.
+ *
+ * @private
+ *
+ * @param {PubsubMessage} message The message.
+ * @returns {string}
+ */
+export function contentKey(message: PubsubMessage): string {
+  const attributes = Object.entries(message.attributes ?? {})
+    .filter(([name]) => name !== IDEMPOTENCY_KEY_ATTRIBUTE)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256')
+    .update(JSON.stringify([message.orderingKey || '', attributes]))
+    .update(message.data ?? new Uint8Array())
+    .digest('base64url');
+}
+
+/**
+ * Returns a copy of the message with its idempotency key attribute set,
+ * making one from its content if the caller didn't provide one.
+ *
+ * @private
+ *
+ * @param {PubsubMessage} message The message.
+ * @returns {PubsubMessage}
+ */
+export function withIdempotencyKey(message: PubsubMessage): PubsubMessage {
+  if (message.attributes?.[IDEMPOTENCY_KEY_ATTRIBUTE]) {
+    return message;
+  }
+  return {
+    ...message,
+    attributes: {
+      ...message.attributes,
+      [IDEMPOTENCY_KEY_ATTRIBUTE]: contentKey(message),
+    },
+  };
+}
+
+/**
+ * Remembers the keys of recently published messages, so that a publisher
+ * can answer repeats with the message ID of the first copy instead of
+ * publishing them again.
+ *
+ * Keys are remembered from when the first copy is published, so copies that
+ * arrive while it's in flight share its result. If the publish fails, the
+ * key is forgotten, so the next copy is published as usual.
+ *
+ * @private
+ * @class
+ *
+ * @param {IdempotencyOptions} [options] The idempotency options.
+ */
+export class PublishedKeys {
+  private _keys = new Map<string, Promise<string>>();
+  private _maxKeys: number;
+
+  constructor(options: IdempotencyOptions = {}) {
+    this._maxKeys = options.maxKeys ?? DEFAULT_MAX_KEYS;
+  }
+
+  /**
+   * The number of keys that are remembered.
+   *
+   * @type {number}
+   */
+  get size(): number {
+    return this._keys.size;
+  }
+
+  /**
+   * Looks up the message ID of an earlier copy.
+   *
+   * @param {string} key The idempotency key.
+   * @returns {Promise<string>|undefined} Resolves with the earlier copy's
+   *     message ID, or undefined if the key hasn't been seen.
+   */
+  get(key: string): Promise<string> | undefined {
+    const published = this._keys.get(key);
+    if (published) {
+      // Re-insert so that the Map's ordering keeps the newest entries last.
+      this._keys.delete(key);
+      this._keys.set(key, published);
+    }
+    return published;
+  }
+
+  /**
+   * Remembers a key that's about to be published.
+   *
+   * @param {string} key The idempotency key.
+   * @param {PublishCallback} callback The publish callback.
+   * @returns {PublishCallback} A callback to publish with instead, which
+   *     records the result before calling `callback`.
+   */
+  track(key: string, callback: PublishCallback): PublishCallback {
+    const published = defer<string>();
+    published.promise.catch(() => {});
+    this._keys.set(key, published.promise);
+
+    if (this._keys.size > this._maxKeys) {
+      const oldest = this._keys.keys().next().value!;
+      this._keys.delete(oldest);
+    }
+
+    return (err, messageId) => {
+      if (err) {
+        if (this._keys.get(key) === published.promise) {
+          this._keys.delete(key);
+        }
+        published.reject(err);
+      } else {
+        published.resolve(messageId!);
+      }
+      callback(err, messageId);
+    };
+  }
+}
+
+/**
+ * A {@link DuplicateStore} that keeps keys in memory. Beyond `maxKeys`, the
+ * oldest keys are forgotten early.
+ *
+ * @class
+ *
+ * @param {number} [maxKeys=10000] The most keys to remember.
+ */
+export class MemoryDuplicateStore implements DuplicateStore {
+  private _seen = new Map<string, {id: string; expires: number}>();
+  private _maxKeys: number;
+
+  constructor(maxKeys = DEFAULT_MAX_KEYS) {
+    this._maxKeys = maxKeys;
+  }
+
+  /**
+   * The number of keys that are remembered.
+   *
+   * @type {number}
+   */
+  get size(): number {
+    return this._seen.size;
+  }
+
+  async add(
+    key: string,
+    messageId: string,
+    window: Duration,
+  ): Promise<string | undefined> {
+    const now = Date.now();
+    this._expire(now);
+
+    const seen = this._seen.get(key);
+    if (seen) {
+      return seen.id;
+    }
+
+    this._seen.set(key, {
+      id: messageId,
+      expires: now + window.totalOf('millisecond'),
+    });
+    if (this._seen.size > this._maxKeys) {
+      const oldest = this._seen.keys().next().value!;
+      this._seen.delete(oldest);
+    }
+    return undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    this._seen.delete(key);
+  }
+
+  /**
+   * Forgets the keys whose window has passed. Keys are kept in the order
+   * they were added, which is the order they expire in for a fixed window,
+   * so this stops at the first one that hasn't.
+   *
+   * @private
+   */
+  private _expire(now: number): void {
+    for (const [key, {expires}] of this._seen) {
+      if (expires > now) {
+        break;
+      }
+      this._seen.delete(key);
+    }
+  }
+}
+
+/**
+ * Remembers the idempotency keys of recently received messages, so that a
+ * subscriber can drop copies of a message that were published more than
+ * once.
+ *
+ * Only messages with different IDs count as copies, unless `redeliveries` is
+ * set. Otherwise, a message that's redelivered (with the same ID) isn't a
+ * duplicate; the server redelivers messages that weren't acked in time, and
+ * those must be handled again.
+ *
+ * With `redeliveries` set, as for the subscriber's `deduplication` option,
+ * messages are identified by their ID (or by `options.attribute`), and any
+ * message that was received within the window is a duplicate.
+ *
+ * @private
+ * @class
+ *
+ * @param {string} subscription The name of the subscription.
+ * @param {DuplicateWindowOptions} [options] The window options.
+ * @param {boolean} [redeliveries=false] Whether to drop redeliveries too.
+ */
+export class DuplicateWindow {
+  store: DuplicateStore;
+  private _subscription: string;
+  private _window: Duration;
+  private _attribute?: string;
+  private _redeliveries: boolean;
+
+  constructor(
+    subscription: string,
+    options: DuplicateWindowOptions = {},
+    redeliveries = false,
+  ) {
+    this._subscription = subscription;
+    this._window = options.window ?? DEFAULT_WINDOW;
+    this._attribute =
+      options.attribute ??
+      (redeliveries ? undefined : IDEMPOTENCY_KEY_ATTRIBUTE);
+    this._redeliveries = redeliveries;
+    this.store = options.store ?? new MemoryDuplicateStore(options.maxKeys);
+  }
+
+  /**
+   * Checks a received message against the window, and remembers its key if
+   * it isn't a copy of one that was seen recently.
+   *
+   * @param {Message} message The received message.
+   * @returns {Promise<boolean>} True if the message is a copy of an earlier
+   *     one.
+   */
+  async isDuplicate(message: Message): Promise<boolean> {
+    const key = this._keyFor(message);
+    if (!key) {
+      return false;
+    }
+    const seen = await this.store.add(key, message.id, this._window);
+    return seen !== undefined && (this._redeliveries || seen !== message.id);
+  }
+
+  /**
+   * Forgets a message that wasn't handled (e.g. because it was nacked), so
+   * that it's handled again when it's redelivered.
+   *
+   * @param {Message} message The message.
+   * @returns {Promise<void>}
+   */
+  async release(message: Message): Promise<void> {
+    const key = this._keyFor(message);
+    if (key) {
+      await this.store.delete(key);
+    }
+  }
+
+  private _keyFor(message: Message): string | undefined {
+    const id = this._attribute
+      ? message.attributes[this._attribute]
+      : message.id;
+    return id ? `${this._subscription}/${id}` : undefined;
+  }
+}
@@ -99,7 +99,17 @@ export {
   IAM,
 } from './iam';
 export {Attributes, PublishCallback, PublishOptions} from './publisher';
-export {BatchPublishOptions} from './publisher/message-batch';
+export {
+  TopicSchema,
+  TypedMessage,
+  TypedPublisher,
+} from './publisher/typed-publisher';
+export {
+  AdaptiveBatchOptions,
+  BatchPublishOptions,
+} from './publisher/message-batch';
+export {RateLimit, RateLimitOptions} from './publisher/rate-limit';
+export {SpillOptions} from './publisher/spill-log';
 export {PublishError} from './publisher/publish-error';
 export {FlowControlOptions} from './publisher/flow-control';
 export {
@@ -124,7 +134,63 @@ export {
   SeekResponse,
   Snapshot,
 } from './snapshot';
-export {Message, StatusError, SubscriberOptions} from './subscriber';
+export {
+  COMPRESSION_ATTRIBUTE,
+  CompressionAlgorithm,
+  CompressionAlgorithms,
+  CompressionOptions,
+} from './compression';
+export {DeadLetterAttributes, DeadLetterOptions} from './dead-letter';
+export {
+  DeduplicationOptions,
+  DuplicateStore,
+  DuplicateWindowOptions,
+  IDEMPOTENCY_KEY_ATTRIBUTE,
+  IdempotencyOptions,
+  MemoryDuplicateStore,
+} from './idempotency';
+export {MemoryBackend} from './memory';
+export {
+  FileOutboxStore,
+  FileOutboxStoreOptions,
+  Outbox,
+  OutboxEntry,
+  OutboxMessage,
+  OutboxOptions,
+  OutboxStore,
+} from './outbox';
+export {
+  FilePayloadStore,
+  PAYLOAD_REFERENCE_ATTRIBUTE,
+  PayloadStore,
+  PayloadStoreOptions,
+} from './payload-store';
+export {
+  LocalPubSubServer,
+  LocalPubSubServerOptions,
+  startLocalPubSubServer,
+} from './memory/server';
+export {
+  CloudEvent,
+  CloudEventMode,
+  CloudEventModes,
+  cloudEventToMessage,
+} from './cloudevents';
+export {
+  PushHandler,
+  PushHandlerOptions,
+  PushHeaders,
+  PushMessage,
+  PushMessageHandler,
+  PushRequest,
+  PushResponse,
+} from './push';
+export {
+  Message,
+  RetryPolicyOptions,
+  StatusError,
+  SubscriberOptions,
+} from './subscriber';
 export {
   Schema,
   CreateSchemaResponse,
@@ -138,6 +204,22 @@ export {
   Encodings,
   SchemaMessageMetadata,
 } from './schema';
+export {
+  validateSchemaDefinition,
+  validateSchemaMessage,
+} from './schema-validation';
+export {createSchemaCodec, SchemaCodec} from './schema-codec';
+export {
+  generateSchemaTypes,
+  loadSchemaFile,
+  SchemaTypegenOptions,
+} from './schema-typegen';
+export {
+  checkCompatibility,
+  CompatibilityMode,
+  CompatibilityModes,
+  SchemaCompatibility,
+} from './schema-compatibility';
 export {
   PushConfig,
   SubscriptionMetadata,
@@ -159,6 +241,13 @@ export {
   AckError,
   AckResponse,
   AckResponses,
+  MessageIteratorOptions,
+  HandlerErrorCallback,
+  HandlerErrorPolicies,
+  HandlerErrorPolicy,
+  MessageHandler,
+  MessageProcessor,
+  ProcessOptions,
 } from './subscription';
 export {
   CreateTopicCallback,
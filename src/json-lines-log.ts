@@ -0,0 +1,124 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {promises as fs} from 'fs';
+import * as path from 'path';
+
+/**
+ * An append-only log of JSON records, one per line, that's synced to disk on
+ * every write. Changes are run one at a time with {@link serialize}, so that
+ * the log stays consistent.
+ *
+ * @private
+ *
+ * @param {function} file Returns the log's file. Its directory is created if
+ *     need be.
+ */
+export class JsonLinesLog<T> {
+  private _file: () => string;
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor(file: () => string) {
+    this._file = file;
+  }
+
+  /**
+   * The log's file.
+   *
+   * @type {string}
+   */
+  get file(): string {
+    return this._file();
+  }
+
+  /**
+   * Runs a change after the ones before it have finished.
+   */
+  serialize<R>(fn: () => Promise<R>): Promise<R> {
+    const result = this._queue.then(fn);
+    this._queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Adds records to the end of the log.
+   */
+  append(records: T[]): Promise<void> {
+    return write(this.file, records, 'a');
+  }
+
+  /**
+   * Replaces the log's records. They're written to a new file first, so that
+   * a crash midway leaves the old log in place.
+   */
+  async replace(records: T[]): Promise<void> {
+    const file = this.file;
+    const temp = `${file}.tmp`;
+    await write(temp, records, 'w');
+    await fs.rename(temp, file);
+  }
+
+  /**
+   * Reads the records in a log, which is this one unless another is given.
+   * A log that doesn't exist has none.
+   */
+  async read(file = this.file): Promise<T[]> {
+    let log = '';
+    try {
+      log = await fs.readFile(file, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw e;
+      }
+    }
+    return parseLines<T>(log);
+  }
+}
+
+/**
+ * Writes records to a log file and syncs it to disk.
+ *
+ * @private
+ */
+async function write(
+  file: string,
+  records: unknown[],
+  flags: 'a' | 'w',
+): Promise<void> {
+  await fs.mkdir(path.dirname(file), {recursive: true});
+  const handle = await fs.open(file, flags);
+  try {
+    await handle.write(records.map(r => `${JSON.stringify(r)}\n`).join(''));
+    await handle.datasync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Parses the records in a log.
+ *
+ * @private
+ */
+function parseLines<T>(log: string): T[] {
+  const records: T[] = [];
+  for (const line of log.split('\n')) {
+    try {
+      records.push(JSON.parse(line));
+    } catch (e) {
+      // Skip blank lines, and any line cut short by a crash.
+    }
+  }
+  return records;
+}
@@ -21,6 +21,8 @@ import {defaultOptions} from './default-options';
 import {Duration} from './temporal';
 import {DebugMessage} from './debug';
 import {logs as baseLogs} from './logs';
+import * as metrics from './telemetry-metrics';
+import {TokenBucket} from './token-bucket';
 
 /**
  * Loggers. Exported for unit tests.
@@ -32,12 +34,14 @@ export const logs = {
   callbackExceptions: baseLogs.pubsub.sublog('callback-exceptions'),
   expiry: baseLogs.pubsub.sublog('expiry'),
   subscriberFlowControl: baseLogs.pubsub.sublog('subscriber-flow-control'),
+  orderingKeys: baseLogs.pubsub.sublog('subscriber-ordering-keys'),
 };
 
 export interface FlowControlOptions {
   allowExcessMessages?: boolean;
   maxBytes?: number;
   maxMessages?: number;
+  maxMessagesPerSecond?: number;
 }
 
 /**
@@ -56,6 +60,11 @@ export interface FlowControlOptions {
  *     is set to false, it is very likely that this value will be exceeded since
  *     any given message batch could contain a greater number of messages than
  *     the desired amount of messages.
+ * @property {number} [maxMessagesPerSecond] The most messages to hand to the
+ *     `message` listeners per second. Messages beyond that wait their turn,
+ *     in the order they arrived, and their deadlines are extended while they
+ *     wait. Waiting messages count towards `maxMessages` and `maxBytes`, so
+ *     the stream is paused if too many pile up. By default, there's no limit.
  */
 /**
  * Manages a Subscribers inventory while auto-magically extending the message
@@ -69,18 +78,26 @@ export interface FlowControlOptions {
  */
 export class LeaseManager extends EventEmitter {
   bytes: number;
+  private _held: Map<Message, boolean>;
   private _isLeasing: boolean;
+  private _keyQueues: Map<string, Message[]>;
   private _messages: Set<Message>;
   private _options!: FlowControlOptions;
+  private _paced: Message[];
+  private _paceTimer?: NodeJS.Timeout;
   private _pending: Message[];
+  private _rate?: TokenBucket;
   private _subscriber: Subscriber;
   private _timer?: NodeJS.Timeout;
   constructor(sub: Subscriber, options = {}) {
     super();
 
     this.bytes = 0;
+    this._held = new Map();
     this._isLeasing = false;
+    this._keyQueues = new Map();
     this._messages = new Set();
+    this._paced = [];
     this._pending = [];
     this._subscriber = sub;
 
@@ -107,14 +124,25 @@ export class LeaseManager extends EventEmitter {
    * @fires LeaseManager#full
    *
    * @param {Message} message The message.
+   * @param {boolean} [hold=false] Keeps the message leased, but doesn't
+   *     dispense it until {@link LeaseManager#unhold} is called (e.g. while
+   *     it's checked for duplicates).
    * @private
    */
-  add(message: Message): void {
+  add(message: Message, hold = false): void {
     const {allowExcessMessages} = this._options;
     const wasFull = this.isFull();
 
     this._messages.add(message);
+    if (hold) {
+      this._held.set(message, false);
+    }
     this.bytes += message.length;
+    metrics.PubsubMetrics.recordLeases(
+      this._subscriber.name,
+      1,
+      message.length,
+    );
 
     message.subSpans.flowStart();
 
@@ -159,7 +187,17 @@ export class LeaseManager extends EventEmitter {
     }
 
     this._pending = [];
+    this._held.clear();
+    this._keyQueues.clear();
+    this._paced = [];
+    clearTimeout(this._paceTimer);
+    delete this._paceTimer;
     const remaining = Array.from(this._messages);
+    metrics.PubsubMetrics.recordLeases(
+      this._subscriber.name,
+      -remaining.length,
+      -this.bytes,
+    );
     this._messages.clear();
     this.bytes = 0;
 
@@ -186,6 +224,33 @@ export class LeaseManager extends EventEmitter {
     return this.size >= maxMessages! || this.bytes >= maxBytes!;
   }
 
+  /**
+   * True if the message is in the inventory, but held back from being
+   * dispensed.
+   *
+   * @param {Message} message The message.
+   * @returns {boolean}
+   * @private
+   */
+  isHeld(message: Message): boolean {
+    return this._held.has(message);
+  }
+
+  /**
+   * Lets a held message be dispensed. If flow control would have dispensed
+   * it already, it's dispensed now.
+   *
+   * @param {Message} message The message.
+   * @private
+   */
+  unhold(message: Message): void {
+    const ready = this._held.get(message);
+    this._held.delete(message);
+    if (ready) {
+      this._dispense(message);
+    }
+  }
+
   /**
    * True if we have no messages in leasing.
    *
@@ -214,7 +279,15 @@ export class LeaseManager extends EventEmitter {
     const wasFull = this.isFull();
 
     this._messages.delete(message);
+    this._held.delete(message);
     this.bytes -= message.length;
+    metrics.PubsubMetrics.recordLeases(
+      this._subscriber.name,
+      -1,
+      -message.length,
+    );
+
+    this._releaseOrderingKey(message);
 
     if (wasFull && !this.isFull()) {
       process.nextTick(() => this.emit('free'));
@@ -262,6 +335,11 @@ export class LeaseManager extends EventEmitter {
     };
 
     this._options = Object.assign(defaults, options);
+
+    const {maxMessagesPerSecond} = this._options;
+    this._rate = maxMessagesPerSecond
+      ? new TokenBucket(maxMessagesPerSecond)
+      : undefined;
   }
   /**
    * Stops extending message deadlines.
@@ -276,6 +354,100 @@ export class LeaseManager extends EventEmitter {
       delete this._timer;
     }
   }
+  /**
+   * Dispenses the message, unless it's held, or ordering keys are being
+   * serialized and another message with the same key is still out with the
+   * user. In that case, the message waits (still leased) until the earlier
+   * one is acked or nacked.
+   *
+   * @private
+   *
+   * @param {Message} message The message to dispense.
+   */
+  private _dispense(message: Message): void {
+    if (this._held.has(message)) {
+      this._held.set(message, true);
+      return;
+    }
+
+    const key = message.orderingKey;
+    if (this._subscriber.serializeOrderingKeys && key) {
+      const queue = this._keyQueues.get(key);
+      if (queue) {
+        logs.orderingKeys.info(
+          'message (ID %s, ackID %s) waiting on ordering key %s',
+          message.id,
+          message.ackId,
+          key,
+        );
+        queue.push(message);
+        return;
+      }
+      this._keyQueues.set(key, [message]);
+    }
+
+    this._paceMessage(message);
+  }
+  /**
+   * Emits the message, or queues it if `maxMessagesPerSecond` has been
+   * reached. Queued messages stay leased until it's their turn.
+   *
+   * @private
+   *
+   * @param {Message} message The message to emit.
+   */
+  private _paceMessage(message: Message): void {
+    if (!this._rate) {
+      this._emitMessage(message);
+      return;
+    }
+
+    if (!this._paced.length && this._rate.delayFor(1) === 0) {
+      this._rate.take(1);
+      this._emitMessage(message);
+      return;
+    }
+
+    if (!this._paced.length) {
+      logs.subscriberFlowControl.info(
+        'subscriber for %s is pacing messages to %d per second',
+        this._subscriber.name,
+        this._rate.rate,
+      );
+    }
+    this._paced.push(message);
+    this._schedulePaced();
+  }
+  /**
+   * Emits queued messages as the rate allows, skipping any that have been
+   * removed from the inventory in the meantime.
+   *
+   * @private
+   */
+  private _releasePaced(): void {
+    delete this._paceTimer;
+    while (this._paced.length && this._rate!.delayFor(1) === 0) {
+      const message = this._paced.shift()!;
+      if (this._messages.has(message)) {
+        this._rate!.take(1);
+        this._emitMessage(message);
+      }
+    }
+    this._schedulePaced();
+  }
+  /**
+   * Sets a timer for when the next queued message may be emitted.
+   *
+   * @private
+   */
+  private _schedulePaced(): void {
+    if (this._paced.length && !this._paceTimer) {
+      this._paceTimer = setTimeout(
+        () => this._releasePaced(),
+        this._rate!.delayFor(1),
+      );
+    }
+  }
   /**
    * Emits the message. Emitting messages is very slow, so to avoid it acting
    * as a bottleneck, we're wrapping it in nextTick.
@@ -286,7 +458,7 @@ export class LeaseManager extends EventEmitter {
    *
    * @param {Message} message The message to emit.
    */
-  private _dispense(message: Message): void {
+  private _emitMessage(message: Message): void {
     if (this._subscriber.isOpen) {
       message.subSpans.flowEnd();
       process.nextTick(() => {
@@ -362,6 +534,34 @@ export class LeaseManager extends EventEmitter {
       this._scheduleExtension();
     }
   }
+  /**
+   * If the message was holding up its ordering key, dispenses the next
+   * message waiting on that key. Messages that are removed while still
+   * waiting (e.g. due to a timeout) are simply dropped from the queue.
+   *
+   * @private
+   *
+   * @param {Message} message The message that was removed.
+   */
+  private _releaseOrderingKey(message: Message): void {
+    const key = message.orderingKey;
+    const queue = key ? this._keyQueues.get(key) : undefined;
+    if (!queue) {
+      return;
+    }
+
+    const index = queue.indexOf(message);
+    if (index < 0) {
+      return;
+    }
+    queue.splice(index, 1);
+
+    if (!queue.length) {
+      this._keyQueues.delete(key!);
+    } else if (index === 0) {
+      this._paceMessage(queue[0]);
+    }
+  }
   /**
    * Creates a timeout(ms) that should allow us to extend any message deadlines
    * before they would be redelivered.
@@ -0,0 +1,961 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CallOptions, GoogleError, grpc, IamProtos, Status} from 'google-gax';
+import {Duplex} from 'stream';
+
+import {google} from '../../protos/protos';
+import * as v1 from '../v1';
+import {apiError, MemoryBackend, MemoryPuller} from '.';
+
+type StreamingPullRequest = google.pubsub.v1.IStreamingPullRequest;
+type StreamingPullResponse = google.pubsub.v1.IStreamingPullResponse;
+type IamPolicyRequest = IamProtos.google.iam.v1.ISetIamPolicyRequest;
+type IamPermissionsRequest = IamProtos.google.iam.v1.ITestIamPermissionsRequest;
+
+// Loosely typed, so that it stands in for each method's gax callback.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Callback = (err: Error | null, ...results: any[]) => void;
+
+interface PageRequest {
+  pageSize?: number | null;
+  pageToken?: string | null;
+}
+
+/*!
+ * The GAPIC methods each in-memory client serves. The subscriber client's IAM
+ * methods are left out, as gax types them with the message classes rather
+ * than the interfaces the backend works with.
+ */
+type PublisherMethods =
+  | 'close'
+  | 'createTopic'
+  | 'getTopic'
+  | 'updateTopic'
+  | 'listTopics'
+  | 'listTopicSubscriptions'
+  | 'listTopicSnapshots'
+  | 'deleteTopic'
+  | 'detachSubscription'
+  | 'publish';
+type SubscriberMethods =
+  | 'close'
+  | 'createSubscription'
+  | 'getSubscription'
+  | 'updateSubscription'
+  | 'listSubscriptions'
+  | 'deleteSubscription'
+  | 'modifyPushConfig'
+  | 'acknowledge'
+  | 'modifyAckDeadline'
+  | 'pull'
+  | 'createSnapshot'
+  | 'getSnapshot'
+  | 'updateSnapshot'
+  | 'listSnapshots'
+  | 'deleteSnapshot'
+  | 'seek';
+type SchemaServiceMethods =
+  | 'close'
+  | 'createSchema'
+  | 'getSchema'
+  | 'listSchemas'
+  | 'listSchemasAsync'
+  | 'listSchemaRevisions'
+  | 'listSchemaRevisionsAsync'
+  | 'commitSchema'
+  | 'rollbackSchema'
+  | 'deleteSchemaRevision'
+  | 'deleteSchema'
+  | 'validateSchema'
+  | 'validateMessage';
+
+/**
+ * A StreamingPull stream connected to a {@link MemoryBackend}. It has the
+ * parts of a gRPC duplex stream that {@link MessageStream} uses.
+ *
+ * @private
+ * @class
+ */
+export class MemoryPullStream extends Duplex implements MemoryPuller {
+  ackDeadlineSeconds?: number;
+  maxOutstandingMessages?: number;
+  maxOutstandingBytes?: number;
+  private _backend: MemoryBackend;
+  private _ended: boolean;
+  private _subscription?: string;
+
+  constructor(backend: MemoryBackend) {
+    super({objectMode: true});
+    this._backend = backend;
+    this._ended = false;
+  }
+
+  /**
+   * Like gRPC's ClientDuplexStream#cancel.
+   */
+  cancel(): void {
+    this.endWithStatus(Status.CANCELLED, 'Cancelled on client');
+  }
+
+  deliver(response: StreamingPullResponse): void {
+    if (!this._ended) {
+      this.push(response);
+    }
+  }
+
+  endWithStatus(code: Status, details: string): void {
+    if (this._ended) {
+      return;
+    }
+    this._ended = true;
+
+    if (this._subscription) {
+      this._backend.disconnect(this._subscription, this);
+    }
+
+    this.emit('status', {code, details, metadata: new grpc.Metadata()});
+    this.push(null);
+  }
+
+  _read(): void {
+    // Messages are pushed by the backend as they become available.
+  }
+
+  _write(
+    request: StreamingPullRequest,
+    encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    if (this._ended) {
+      callback();
+      return;
+    }
+
+    try {
+      this._handleRequest(request);
+    } catch (e) {
+      const err = e as ReturnType<typeof apiError>;
+      this.endWithStatus(err.code ?? Status.UNKNOWN, err.note ?? err.message);
+    }
+    callback();
+  }
+
+  private _handleRequest(request: StreamingPullRequest): void {
+    if (request.streamAckDeadlineSeconds) {
+      this.ackDeadlineSeconds = request.streamAckDeadlineSeconds;
+    }
+
+    if (!this._subscription) {
+      if (!request.subscription) {
+        throw apiError(
+          Status.INVALID_ARGUMENT,
+          'The first request must name a subscription.',
+        );
+      }
+      this.maxOutstandingMessages = Number(request.maxOutstandingMessages);
+      this.maxOutstandingBytes = Number(request.maxOutstandingBytes);
+      this._backend.connect(request.subscription, this);
+      this._subscription = request.subscription;
+    }
+
+    const subscription = this._subscription;
+    const ackIds = request.ackIds ?? [];
+    const modAckIds = request.modifyDeadlineAckIds ?? [];
+    if (!ackIds.length && !modAckIds.length) {
+      return;
+    }
+
+    const invalidAckIds = this._invalidAckIds(() =>
+      this._backend.acknowledge(subscription, ackIds),
+    );
+    const invalidModAckIds = this._invalidAckIds(() =>
+      modAckIds.forEach((ackId, i) => {
+        this._backend.modifyAckDeadline(
+          subscription,
+          [ackId],
+          request.modifyDeadlineSeconds![i],
+        );
+      }),
+    );
+
+    // As with the service, only exactly-once subscriptions get confirmations.
+    const {enableExactlyOnceDelivery} =
+      this._backend.getSubscription(subscription);
+    if (!enableExactlyOnceDelivery) {
+      return;
+    }
+    const response: StreamingPullResponse = {receivedMessages: []};
+    if (ackIds.length) {
+      response.acknowledgeConfirmation = {
+        ackIds: ackIds.filter(id => !invalidAckIds.includes(id)),
+        invalidAckIds,
+      };
+    }
+    if (modAckIds.length) {
+      response.modifyAckDeadlineConfirmation = {
+        ackIds: modAckIds.filter(id => !invalidModAckIds.includes(id)),
+        invalidAckIds: invalidModAckIds,
+      };
+    }
+    this.deliver(response);
+  }
+
+  /**
+   * Runs an ack or modAck, returning the ack IDs that the backend rejected.
+   * On a stream those are confirmed as invalid rather than ending it.
+   */
+  private _invalidAckIds(fn: () => void): string[] {
+    try {
+      fn();
+      return [];
+    } catch (e) {
+      const err = e as GoogleError;
+      if (!err.errorInfoMetadata) {
+        throw e;
+      }
+      return Object.keys(err.errorInfoMetadata);
+    }
+  }
+}
+
+/**
+ * Base class for the in-memory stand-ins for the GAPIC clients. Methods take
+ * the same `(request, options, callback)` arguments as the generated clients
+ * and return a Promise of the same response tuple.
+ *
+ * @private
+ * @class
+ */
+abstract class MemoryClient {
+  protected _backend: MemoryBackend;
+
+  constructor(backend: MemoryBackend) {
+    this._backend = backend;
+  }
+
+  async initialize(): Promise<this> {
+    return this;
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Runs a backend call and reports its response the way a GAPIC method does.
+   */
+  protected _call<Response>(
+    fn: () => Response,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ): Promise<[Response, undefined, undefined]> {
+    return this._respond(
+      () => [fn(), undefined, undefined],
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  /**
+   * Runs a backend listing and reports a page of it the way a paged GAPIC
+   * method does. As with gax, everything is returned unless `autoPaginate`
+   * is false.
+   */
+  protected _list<Item, Request extends PageRequest>(
+    fn: () => Item[],
+    request: Request,
+    key: string,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ): Promise<[Item[], Request | null, {}]> {
+    return this._respond(
+      () => this._page(fn(), request, key, optsOrCallback),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  /**
+   * Resolves with a call's results, also passing them to the callback if
+   * there is one. The promise is handled either way, so that callers using
+   * callbacks don't see unhandled rejections.
+   */
+  private _respond<T extends unknown[]>(
+    fn: () => T,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ): Promise<T> {
+    callback = typeof optsOrCallback === 'function' ? optsOrCallback : callback;
+
+    const results = new Promise<T>(resolve => resolve(fn()));
+    if (callback) {
+      const cb = callback;
+      results.then(
+        values => cb(null, ...values),
+        err => cb(err),
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Builds a paged method's `[items, nextRequest, response]` tuple.
+   */
+  private _page<Item, Request extends PageRequest>(
+    items: Item[],
+    request: Request,
+    key: string,
+    optsOrCallback?: CallOptions | Callback,
+  ): [Item[], Request | null, {}] {
+    const options = typeof optsOrCallback === 'object' ? optsOrCallback : {};
+    const pageSize = Number(request.pageSize);
+    if (options.autoPaginate !== false || !pageSize) {
+      return [items, null, {[key]: items, nextPageToken: ''}];
+    }
+
+    const start = Number(request.pageToken) || 0;
+    const page = items.slice(start, start + pageSize);
+    const nextPageToken =
+      start + pageSize < items.length ? String(start + pageSize) : '';
+    const nextRequest = nextPageToken
+      ? {...request, pageToken: nextPageToken}
+      : null;
+    return [page, nextRequest, {[key]: page, nextPageToken}];
+  }
+}
+
+/**
+ * In-memory stand-in for {@link v1.PublisherClient}.
+ *
+ * @private
+ * @class
+ */
+export class MemoryPublisherClient
+  extends MemoryClient
+  implements Pick<v1.PublisherClient, PublisherMethods>
+{
+  createTopic(
+    request: google.pubsub.v1.ITopic,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.createTopic(request),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  getTopic(
+    request: google.pubsub.v1.IGetTopicRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.getTopic(request.topic!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  updateTopic(
+    request: google.pubsub.v1.IUpdateTopicRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.updateTopic(request.topic!, request.updateMask),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listTopics(
+    request: google.pubsub.v1.IListTopicsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listTopics(request.project!),
+      request,
+      'topics',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listTopicSubscriptions(
+    request: google.pubsub.v1.IListTopicSubscriptionsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listTopicSubscriptions(request.topic!),
+      request,
+      'subscriptions',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listTopicSnapshots(
+    request: google.pubsub.v1.IListTopicSnapshotsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listTopicSnapshots(request.topic!),
+      request,
+      'snapshots',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  deleteTopic(
+    request: google.pubsub.v1.IDeleteTopicRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.deleteTopic(request.topic!);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  detachSubscription(
+    request: google.pubsub.v1.IDetachSubscriptionRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.detachSubscription(request.subscription!);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  publish(
+    request: google.pubsub.v1.IPublishRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => ({
+        messageIds: this._backend.publish(
+          request.topic!,
+          request.messages ?? [],
+        ),
+      }),
+      optsOrCallback,
+      callback,
+    );
+  }
+}
+
+/**
+ * In-memory stand-in for {@link v1.SubscriberClient}. It also serves the IAM
+ * methods, as the real one does for this library.
+ *
+ * @private
+ * @class
+ */
+export class MemorySubscriberClient
+  extends MemoryClient
+  implements Pick<v1.SubscriberClient, SubscriberMethods>
+{
+  subscriberStub: Promise<{}>;
+  private _streams: Set<MemoryPullStream>;
+
+  constructor(backend: MemoryBackend) {
+    super(backend);
+    this._streams = new Set();
+    this.subscriberStub = Promise.resolve({
+      streamingPull: () => this.streamingPull(),
+      waitForReady: (deadline: number, callback: Callback) =>
+        process.nextTick(callback, null),
+    });
+  }
+
+  async close(): Promise<void> {
+    this._streams.forEach(s => s.cancel());
+  }
+
+  streamingPull(): MemoryPullStream {
+    const stream = new MemoryPullStream(this._backend);
+    this._streams.add(stream);
+    stream.once('status', () => this._streams.delete(stream));
+    return stream;
+  }
+
+  createSubscription(
+    request: google.pubsub.v1.ISubscription,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.createSubscription(request),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  getSubscription(
+    request: google.pubsub.v1.IGetSubscriptionRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.getSubscription(request.subscription!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  updateSubscription(
+    request: google.pubsub.v1.IUpdateSubscriptionRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () =>
+        this._backend.updateSubscription(
+          request.subscription!,
+          request.updateMask,
+        ),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listSubscriptions(
+    request: google.pubsub.v1.IListSubscriptionsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listSubscriptions(request.project!),
+      request,
+      'subscriptions',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  deleteSubscription(
+    request: google.pubsub.v1.IDeleteSubscriptionRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.deleteSubscription(request.subscription!);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  modifyPushConfig(
+    request: google.pubsub.v1.IModifyPushConfigRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.modifyPushConfig(
+          request.subscription!,
+          request.pushConfig,
+        );
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  acknowledge(
+    request: google.pubsub.v1.IAcknowledgeRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.acknowledge(request.subscription!, request.ackIds ?? []);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  modifyAckDeadline(
+    request: google.pubsub.v1.IModifyAckDeadlineRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.modifyAckDeadline(
+          request.subscription!,
+          request.ackIds ?? [],
+          request.ackDeadlineSeconds ?? 0,
+        );
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  pull(
+    request: google.pubsub.v1.IPullRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => ({
+        receivedMessages: this._backend.pull(
+          request.subscription!,
+          request.maxMessages ?? 0,
+        ),
+      }),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  createSnapshot(
+    request: google.pubsub.v1.ICreateSnapshotRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () =>
+        this._backend.createSnapshot(
+          request.name!,
+          request.subscription!,
+          request.labels,
+        ),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  getSnapshot(
+    request: google.pubsub.v1.IGetSnapshotRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.getSnapshot(request.snapshot!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  updateSnapshot(
+    request: google.pubsub.v1.IUpdateSnapshotRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.updateSnapshot(request.snapshot!, request.updateMask),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listSnapshots(
+    request: google.pubsub.v1.IListSnapshotsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listSnapshots(request.project!),
+      request,
+      'snapshots',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  deleteSnapshot(
+    request: google.pubsub.v1.IDeleteSnapshotRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.deleteSnapshot(request.snapshot!);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  seek(
+    request: google.pubsub.v1.ISeekRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.seek(request);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  getIamPolicy(
+    request: IamProtos.google.iam.v1.IGetIamPolicyRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.getIamPolicy(request.resource!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  setIamPolicy(
+    request: IamPolicyRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.setIamPolicy(request.resource!, request.policy!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  testIamPermissions(
+    request: IamPermissionsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => ({
+        permissions: this._backend.testIamPermissions(
+          request.resource!,
+          request.permissions ?? [],
+        ),
+      }),
+      optsOrCallback,
+      callback,
+    );
+  }
+}
+
+/**
+ * In-memory stand-in for {@link v1.SchemaServiceClient}.
+ *
+ * @private
+ * @class
+ */
+export class MemorySchemaServiceClient
+  extends MemoryClient
+  implements Pick<v1.SchemaServiceClient, SchemaServiceMethods>
+{
+  createSchema(
+    request: google.pubsub.v1.ICreateSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () =>
+        this._backend.createSchema(
+          request.parent!,
+          request.schemaId!,
+          request.schema ?? {},
+        ),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  getSchema(
+    request: google.pubsub.v1.IGetSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.getSchema(request.name!, request.view),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listSchemas(
+    request: google.pubsub.v1.IListSchemasRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listSchemas(request.parent!, request.view),
+      request,
+      'schemas',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listSchemasAsync(
+    request: google.pubsub.v1.IListSchemasRequest,
+  ): AsyncIterable<google.pubsub.v1.ISchema> {
+    const backend = this._backend;
+    return (async function* () {
+      yield* backend.listSchemas(request.parent!, request.view);
+    })();
+  }
+
+  listSchemaRevisions(
+    request: google.pubsub.v1.IListSchemaRevisionsRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._list(
+      () => this._backend.listSchemaRevisions(request.name!, request.view),
+      request,
+      'schemas',
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  listSchemaRevisionsAsync(
+    request: google.pubsub.v1.IListSchemaRevisionsRequest,
+  ): AsyncIterable<google.pubsub.v1.ISchema> {
+    const backend = this._backend;
+    return (async function* () {
+      yield* backend.listSchemaRevisions(request.name!, request.view);
+    })();
+  }
+
+  commitSchema(
+    request: google.pubsub.v1.ICommitSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.commitSchema(request.name!, request.schema ?? {}),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  rollbackSchema(
+    request: google.pubsub.v1.IRollbackSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => this._backend.rollbackSchema(request.name!, request.revisionId!),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  deleteSchemaRevision(
+    request: google.pubsub.v1.IDeleteSchemaRevisionRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () =>
+        this._backend.deleteSchemaRevision(request.name!, request.revisionId),
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  deleteSchema(
+    request: google.pubsub.v1.IDeleteSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.deleteSchema(request.name!);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  validateSchema(
+    request: google.pubsub.v1.IValidateSchemaRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.validateSchema(request.schema ?? {});
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+
+  validateMessage(
+    request: google.pubsub.v1.IValidateMessageRequest,
+    optsOrCallback?: CallOptions | Callback,
+    callback?: Callback,
+  ) {
+    return this._call(
+      () => {
+        this._backend.validateMessage(request);
+        return {};
+      },
+      optsOrCallback,
+      callback,
+    );
+  }
+}
+
+/**
+ * The in-memory clients, keyed like {@link v1}, typed as the parts of the
+ * GAPIC clients they stand in for.
+ *
+ * @private
+ */
+export const MemoryClients: {
+  PublisherClient: new (
+    backend: MemoryBackend,
+  ) => Pick<v1.PublisherClient, PublisherMethods>;
+  SubscriberClient: new (
+    backend: MemoryBackend,
+  ) => Pick<v1.SubscriberClient, SubscriberMethods>;
+  SchemaServiceClient: new (
+    backend: MemoryBackend,
+  ) => Pick<v1.SchemaServiceClient, SchemaServiceMethods>;
+} = {
+  PublisherClient: MemoryPublisherClient,
+  SubscriberClient: MemorySubscriberClient,
+  SchemaServiceClient: MemorySchemaServiceClient,
+};
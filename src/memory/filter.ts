@@ -0,0 +1,261 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Attributes} from '../publisher/pubsub-message';
+
+/**
+ * Decides whether a message with the given attributes matches a
+ * subscription filter.
+ *
+ * @private
+ */
+export type MessageFilter = (attributes: Attributes) => boolean;
+
+/**
+ * Thrown when a subscription filter can't be parsed.
+ *
+ * @private
+ */
+export class FilterSyntaxError extends Error {
+  constructor(filter: string, reason: string) {
+    super(`Invalid filter "${filter}": ${reason}.`);
+  }
+}
+
+interface Token {
+  type: 'punct' | 'word' | 'string';
+  value: string;
+}
+
+const PUNCTUATION = ['!=', '(', ')', ',', '=', ':', '.', '-'];
+const WORD = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < filter.length) {
+    const rest = filter.slice(i);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(p => rest.startsWith(p));
+    if (punct) {
+      tokens.push({type: 'punct', value: punct});
+      i += punct.length;
+      continue;
+    }
+
+    const word = rest.match(WORD);
+    if (word) {
+      tokens.push({type: 'word', value: word[0]});
+      i += word[0].length;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === '"' || quote === "'") {
+      let value = '';
+      let j = 1;
+      for (; j < rest.length && rest[j] !== quote; j++) {
+        if (rest[j] === '\\') {
+          j++;
+        }
+        value += rest[j] ?? '';
+      }
+      if (j >= rest.length) {
+        throw new FilterSyntaxError(filter, 'unterminated string');
+      }
+      tokens.push({type: 'string', value});
+      i += j + 1;
+      continue;
+    }
+
+    throw new FilterSyntaxError(filter, `unexpected character "${rest[0]}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for the Pub/Sub filter language. Supports
+ * `attributes:key`, `attributes.key = "value"`, `attributes.key != "value"`,
+ * `hasPrefix(attributes.key, "prefix")`, `NOT`/`-`, `AND`, `OR` and
+ * parentheses. As with the service, `AND` and `OR` can't be mixed without
+ * parentheses.
+ *
+ * @private
+ */
+class FilterParser {
+  private _filter: string;
+  private _position: number;
+  private _tokens: Token[];
+
+  constructor(filter: string) {
+    this._filter = filter;
+    this._position = 0;
+    this._tokens = tokenize(filter);
+  }
+
+  parse(): MessageFilter {
+    const expression = this._expression();
+    if (this._peek()) {
+      this._fail(`unexpected "${this._peek()!.value}"`);
+    }
+    return expression;
+  }
+
+  private _expression(): MessageFilter {
+    const terms = [this._term()];
+    let operator: string | undefined;
+
+    while (this._isWord('AND') || this._isWord('OR')) {
+      const next = this._next().value;
+      if (operator && operator !== next) {
+        this._fail('AND and OR must be separated by parentheses');
+      }
+      operator = next;
+      terms.push(this._term());
+    }
+
+    if (operator === 'AND') {
+      return attributes => terms.every(t => t(attributes));
+    }
+    if (operator === 'OR') {
+      return attributes => terms.some(t => t(attributes));
+    }
+    return terms[0];
+  }
+
+  private _term(): MessageFilter {
+    if (this._isWord('NOT') || this._isPunct('-')) {
+      this._next();
+      const term = this._term();
+      return attributes => !term(attributes);
+    }
+
+    if (this._isPunct('(')) {
+      this._next();
+      const expression = this._expression();
+      this._expect(')');
+      return expression;
+    }
+
+    if (this._isWord('hasPrefix')) {
+      this._next();
+      this._expect('(');
+      const key = this._attributeKey('.');
+      this._expect(',');
+      const prefix = this._string();
+      this._expect(')');
+      return attributes =>
+        typeof attributes[key] === 'string' &&
+        attributes[key].startsWith(prefix);
+    }
+
+    if (!this._isWord('attributes')) {
+      this._fail('expected an attribute comparison');
+    }
+
+    if (this._tokens[this._position + 1]?.value === ':') {
+      const key = this._attributeKey(':');
+      return attributes =>
+        Object.prototype.hasOwnProperty.call(attributes, key);
+    }
+
+    const key = this._attributeKey('.');
+    if (this._isPunct('=')) {
+      this._next();
+      const value = this._string();
+      return attributes => attributes[key] === value;
+    }
+    if (this._isPunct('!=')) {
+      this._next();
+      const value = this._string();
+      return attributes => attributes[key] !== value;
+    }
+    return this._fail('expected "=" or "!="');
+  }
+
+  private _attributeKey(separator: string): string {
+    if (!this._isWord('attributes')) {
+      this._fail('expected "attributes"');
+    }
+    this._next();
+    this._expect(separator);
+
+    const token = this._next();
+    if (!token || token.type === 'punct') {
+      this._fail('expected an attribute key');
+    }
+    return token.value;
+  }
+
+  private _string(): string {
+    const token = this._next();
+    if (!token || token.type !== 'string') {
+      this._fail('expected a quoted string');
+    }
+    return token.value;
+  }
+
+  private _expect(punct: string): void {
+    if (!this._isPunct(punct)) {
+      this._fail(`expected "${punct}"`);
+    }
+    this._next();
+  }
+
+  private _isPunct(value: string): boolean {
+    const token = this._peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private _isWord(value: string): boolean {
+    const token = this._peek();
+    return token?.type === 'word' && token.value === value;
+  }
+
+  private _peek(): Token | undefined {
+    return this._tokens[this._position];
+  }
+
+  private _next(): Token {
+    return this._tokens[this._position++];
+  }
+
+  private _fail(reason: string): never {
+    throw new FilterSyntaxError(this._filter, reason);
+  }
+}
+
+/**
+ * Compiles a subscription filter. An empty filter matches every message.
+ *
+ * @private
+ *
+ * @param {string} [filter] The filter expression.
+ * @returns {MessageFilter}
+ * @throws {FilterSyntaxError} If the filter is invalid.
+ */
+export function parseFilter(filter?: string | null): MessageFilter {
+  if (!filter || !filter.trim()) {
+    return () => true;
+  }
+  return new FilterParser(filter).parse();
+}
@@ -0,0 +1,1272 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as extend from 'extend';
+import {GoogleError, IamProtos, Status} from 'google-gax';
+
+import {google} from '../../protos/protos';
+import {FilterSyntaxError, MessageFilter, parseFilter} from './filter';
+import {SchemaEncoding} from '../schema';
+import {
+  validateSchemaDefinition,
+  validateSchemaMessage,
+} from '../schema-validation';
+
+type ITopic = google.pubsub.v1.ITopic;
+type ISubscription = google.pubsub.v1.ISubscription;
+type ISnapshot = google.pubsub.v1.ISnapshot;
+type IPubsubMessage = google.pubsub.v1.IPubsubMessage;
+type IPushConfig = google.pubsub.v1.IPushConfig;
+type IReceivedMessage = google.pubsub.v1.IReceivedMessage;
+type ISeekRequest = google.pubsub.v1.ISeekRequest;
+type ISchema = google.pubsub.v1.ISchema;
+type IValidateMessageRequest = google.pubsub.v1.IValidateMessageRequest;
+type StreamingPullResponse = google.pubsub.v1.IStreamingPullResponse;
+type IFieldMask = google.protobuf.IFieldMask;
+type ITimestamp = google.protobuf.ITimestamp;
+type IPolicy = IamProtos.google.iam.v1.IPolicy;
+
+/*!
+ * The service points subscriptions of deleted topics here.
+ */
+const DELETED_TOPIC = '_deleted-topic_';
+
+/*!
+ * Service defaults and limits.
+ */
+const DEFAULT_ACK_DEADLINE_SECONDS = 10;
+const MAX_ACK_DEADLINE_SECONDS = 600;
+const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+const SNAPSHOT_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/*!
+ * Error info code for acks that can never succeed (exactly-once delivery).
+ */
+const INVALID_ACK_ID = 'PERMANENT_FAILURE_INVALID_ACK_ID';
+
+/*!
+ * Enum value names, indexed by number, for requests that use numbers.
+ */
+const SCHEMA_TYPES = ['TYPE_UNSPECIFIED', 'PROTOCOL_BUFFER', 'AVRO'];
+const SCHEMA_VIEWS = ['SCHEMA_VIEW_UNSPECIFIED', 'BASIC', 'FULL'];
+const ENCODINGS = ['ENCODING_UNSPECIFIED', 'JSON', 'BINARY'];
+
+/**
+ * A connected StreamingPull stream, as seen by the backend.
+ *
+ * @private
+ */
+export interface MemoryPuller {
+  ackDeadlineSeconds?: number;
+  maxOutstandingMessages?: number;
+  maxOutstandingBytes?: number;
+  deliver(response: StreamingPullResponse): void;
+  endWithStatus(code: Status, details: string): void;
+}
+
+interface Lease {
+  ackId: string;
+  deadline: number;
+  puller?: MemoryPuller;
+}
+
+interface StoredMessage {
+  message: IPubsubMessage;
+  publishTime: number;
+}
+
+interface Entry extends StoredMessage {
+  acked: boolean;
+  deliveryAttempt: number;
+  lease?: Lease;
+}
+
+interface Outstanding {
+  messages: number;
+  bytes: number;
+}
+
+interface SubscriptionState {
+  metadata: ISubscription;
+  filter: MessageFilter;
+  entries: Entry[];
+  leases: Map<string, Entry>;
+  pullers: Map<MemoryPuller, Outstanding>;
+  dispatchQueued: boolean;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+interface SnapshotState {
+  metadata: ISnapshot;
+  messages: StoredMessage[];
+  time: number;
+}
+
+/**
+ * Creates an error shaped like the ones gax returns for failed RPCs.
+ *
+ * @private
+ *
+ * @param {Status} code The gRPC status code.
+ * @param {string} details The error details.
+ * @returns {GoogleError}
+ */
+export function apiError(code: Status, details: string): GoogleError {
+  const error = new GoogleError(`${code} ${Status[code]}: ${details}`);
+  error.code = code;
+  error.note = details;
+  return error;
+}
+
+function copy<T extends object>(value: T): T {
+  return extend(true, {}, value);
+}
+
+function toTimestamp(millis: number): ITimestamp {
+  return {
+    seconds: Math.floor(millis / 1000),
+    nanos: (millis % 1000) * 1e6,
+  };
+}
+
+function fromTimestamp(timestamp: ITimestamp): number {
+  return Number(timestamp.seconds ?? 0) * 1000 + (timestamp.nanos ?? 0) / 1e6;
+}
+
+function enumName(value: unknown, names: string[]): string {
+  if (typeof value === 'number') {
+    return names[value] ?? names[0];
+  }
+  return (value as string) || names[0];
+}
+
+function sizeOf(entry: Entry): number {
+  return entry.message.data?.length ?? 0;
+}
+
+function checkName(
+  name: string | null | undefined,
+  collection: string,
+): string {
+  const parts = (name ?? '').split('/');
+  if (
+    parts.length !== 4 ||
+    parts[0] !== 'projects' ||
+    parts[2] !== collection ||
+    !parts[1] ||
+    !parts[3]
+  ) {
+    throw apiError(
+      Status.INVALID_ARGUMENT,
+      `Invalid resource name given (name=${name})`,
+    );
+  }
+  return name!;
+}
+
+/**
+ * Copies the fields named in an update mask. Paths are snake_case and only
+ * their top-level field is considered, so `push_config.push_endpoint` copies
+ * all of `pushConfig`.
+ */
+function applyUpdate<T extends object>(
+  target: T,
+  source: T,
+  updateMask?: IFieldMask | null,
+): void {
+  const paths = updateMask?.paths ?? [];
+  if (!paths.length) {
+    throw apiError(Status.INVALID_ARGUMENT, 'No update_mask provided.');
+  }
+
+  for (const path of paths) {
+    const field = path
+      .split('.')[0]
+      .replace(/_([a-z])/g, (m, c: string) => c.toUpperCase()) as keyof T;
+    target[field] = source[field];
+  }
+}
+
+/**
+ * An in-process stand-in for the Pub/Sub service, used by
+ * `new PubSub({backend: 'memory'})`. It keeps topics, subscriptions,
+ * snapshots and schemas in memory, and delivers published messages to
+ * subscribers with no emulator or network involved.
+ *
+ * The service's delivery semantics are followed where they're observable:
+ * subscription filters, ack deadlines and redelivery, ordering keys,
+ * dead letter policies, exactly-once ack validation, snapshots and seek.
+ * Messages of one ordering key are delivered one at a time, each after the
+ * previous one is acked. Schemas and their revisions are stored, and
+ * messages published to topics with schemas are validated and tagged with
+ * the revision they match. Push endpoints and message retention limits
+ * aren't implemented.
+ *
+ * Pass the same instance to several PubSub objects to share state between
+ * them, e.g. a publisher and a subscriber under test.
+ *
+ * @class
+ *
+ * @example
+ * ```
+ * const {MemoryBackend, PubSub} = require('@google-cloud/pubsub');
+ *
+ * const backend = new MemoryBackend();
+ * const pubsub = new PubSub({backend});
+ *
+ * const [topic] = await pubsub.createTopic('my-topic');
+ * const [subscription] = await topic.createSubscription('my-sub');
+ *
+ * subscription.on('message', message => message.ack());
+ * await topic.publishMessage({data: Buffer.from('hi')});
+ *
+ * // Between tests.
+ * backend.reset();
+ * ```
+ */
+export class MemoryBackend {
+  private _ackIds: number;
+  private _messageIds: number;
+  private _policies: Map<string, IPolicy>;
+  private _revisionIds: number;
+  private _schemas: Map<string, ISchema[]>;
+  private _snapshots: Map<string, SnapshotState>;
+  private _subscriptions: Map<string, SubscriptionState>;
+  private _topics: Map<string, ITopic>;
+
+  constructor() {
+    this._ackIds = 0;
+    this._messageIds = 0;
+    this._policies = new Map();
+    this._revisionIds = 0;
+    this._schemas = new Map();
+    this._snapshots = new Map();
+    this._subscriptions = new Map();
+    this._topics = new Map();
+  }
+
+  /**
+   * Deletes all topics, subscriptions, snapshots and schemas. Open subscriber
+   * streams are closed with a NOT_FOUND status.
+   */
+  reset(): void {
+    for (const name of [...this._subscriptions.keys()]) {
+      this.deleteSubscription(name);
+    }
+    this._policies.clear();
+    this._schemas.clear();
+    this._snapshots.clear();
+    this._topics.clear();
+  }
+
+  /** @private */
+  createTopic(topic: ITopic): ITopic {
+    const name = checkName(topic.name, 'topics');
+    if (this._topics.has(name)) {
+      throw apiError(Status.ALREADY_EXISTS, 'Topic already exists');
+    }
+    this._topics.set(name, copy(topic));
+    return copy(topic);
+  }
+
+  /** @private */
+  getTopic(name: string): ITopic {
+    return copy(this._topic(name));
+  }
+
+  /** @private */
+  updateTopic(topic: ITopic, updateMask?: IFieldMask | null): ITopic {
+    const existing = this._topic(topic.name);
+    applyUpdate(existing, topic, updateMask);
+    return copy(existing);
+  }
+
+  /** @private */
+  listTopics(project: string): ITopic[] {
+    return [...this._topics.values()]
+      .filter(t => t.name!.startsWith(`${project}/topics/`))
+      .map(copy);
+  }
+
+  /** @private */
+  listTopicSubscriptions(topic: string): string[] {
+    this._topic(topic);
+    return [...this._subscriptions.values()]
+      .filter(s => s.metadata.topic === topic)
+      .map(s => s.metadata.name!);
+  }
+
+  /** @private */
+  listTopicSnapshots(topic: string): string[] {
+    this._topic(topic);
+    return [...this._snapshots.values()]
+      .filter(s => s.metadata.topic === topic)
+      .map(s => s.metadata.name!);
+  }
+
+  /** @private */
+  deleteTopic(name: string): void {
+    this._topic(name);
+    this._topics.delete(name);
+
+    for (const state of this._subscriptions.values()) {
+      if (state.metadata.topic === name) {
+        state.metadata.topic = DELETED_TOPIC;
+      }
+    }
+  }
+
+  /**
+   * Stores the messages for every attached subscription whose filter they
+   * match.
+   *
+   * @private
+   *
+   * @returns {string[]} The new message IDs.
+   */
+  publish(topic: string, messages: IPubsubMessage[]): string[] {
+    const metadata = this._topic(topic);
+    if (!messages.length) {
+      throw apiError(Status.INVALID_ARGUMENT, 'No messages provided.');
+    }
+
+    const now = Date.now();
+    const stored: StoredMessage[] = messages.map(m => {
+      if (!m.data?.length && !Object.keys(m.attributes ?? {}).length) {
+        throw apiError(
+          Status.INVALID_ARGUMENT,
+          'Some messages contain no data and no attributes.',
+        );
+      }
+      const message = {
+        ...m,
+        attributes: {...m.attributes},
+        messageId: String(++this._messageIds),
+        publishTime: toTimestamp(now),
+      };
+      this._applySchema(metadata, message);
+      return {message, publishTime: now};
+    });
+
+    for (const state of this._subscriptions.values()) {
+      if (state.metadata.topic !== topic || state.metadata.detached) {
+        continue;
+      }
+      for (const {message, publishTime} of stored) {
+        if (state.filter(message.attributes ?? {})) {
+          state.entries.push({
+            message,
+            publishTime,
+            acked: false,
+            deliveryAttempt: 0,
+          });
+        }
+      }
+      this._scheduleDispatch(state);
+    }
+
+    return stored.map(s => s.message.messageId!);
+  }
+
+  /** @private */
+  createSubscription(subscription: ISubscription): ISubscription {
+    const name = checkName(subscription.name, 'subscriptions');
+    if (this._subscriptions.has(name)) {
+      throw apiError(Status.ALREADY_EXISTS, 'Subscription already exists');
+    }
+    this._topic(subscription.topic);
+
+    const metadata = copy(subscription);
+    if (!metadata.ackDeadlineSeconds) {
+      metadata.ackDeadlineSeconds = DEFAULT_ACK_DEADLINE_SECONDS;
+    }
+
+    this._subscriptions.set(name, {
+      metadata,
+      filter: this._compileFilter(metadata.filter),
+      entries: [],
+      leases: new Map(),
+      pullers: new Map(),
+      dispatchQueued: false,
+    });
+    return copy(metadata);
+  }
+
+  /** @private */
+  getSubscription(name: string): ISubscription {
+    return copy(this._subscription(name).metadata);
+  }
+
+  /** @private */
+  updateSubscription(
+    subscription: ISubscription,
+    updateMask?: IFieldMask | null,
+  ): ISubscription {
+    const state = this._subscription(subscription.name);
+
+    const metadata = copy(state.metadata);
+    applyUpdate(metadata, subscription, updateMask);
+    state.filter = this._compileFilter(metadata.filter);
+    state.metadata = metadata;
+
+    this._scheduleDispatch(state);
+    return copy(metadata);
+  }
+
+  /** @private */
+  listSubscriptions(project: string): ISubscription[] {
+    return [...this._subscriptions.values()]
+      .filter(s => s.metadata.name!.startsWith(`${project}/subscriptions/`))
+      .map(s => copy(s.metadata));
+  }
+
+  /** @private */
+  deleteSubscription(name: string): void {
+    const state = this._subscription(name);
+    this._subscriptions.delete(name);
+    this._closeSubscription(
+      state,
+      Status.NOT_FOUND,
+      'Subscription does not exist',
+    );
+  }
+
+  /** @private */
+  detachSubscription(name: string): void {
+    const state = this._subscription(name);
+    state.metadata.detached = true;
+    state.entries = [];
+    this._closeSubscription(
+      state,
+      Status.FAILED_PRECONDITION,
+      'Subscription is detached',
+    );
+  }
+
+  /** @private */
+  modifyPushConfig(name: string, pushConfig?: IPushConfig | null): void {
+    this._subscription(name).metadata.pushConfig = copy(pushConfig ?? {});
+  }
+
+  /** @private */
+  acknowledge(subscription: string, ackIds: string[]): void {
+    const state = this._subscription(subscription);
+
+    const invalid = ackIds.filter(ackId => {
+      const entry = state.leases.get(ackId);
+      if (!entry) {
+        return true;
+      }
+      this._release(state, entry);
+      entry.acked = true;
+      return false;
+    });
+
+    this._prune(state);
+    this._scheduleExpiry(state);
+    this._scheduleDispatch(state);
+    this._checkAckIds(state, invalid);
+  }
+
+  /**
+   * Extends leases, or releases them for redelivery if the deadline is 0.
+   *
+   * @private
+   */
+  modifyAckDeadline(
+    subscription: string,
+    ackIds: string[],
+    ackDeadlineSeconds: number,
+  ): void {
+    const state = this._subscription(subscription);
+    if (
+      !(ackDeadlineSeconds >= 0) ||
+      ackDeadlineSeconds > MAX_ACK_DEADLINE_SECONDS
+    ) {
+      throw apiError(
+        Status.INVALID_ARGUMENT,
+        `Invalid ack deadline given: ${ackDeadlineSeconds}`,
+      );
+    }
+
+    const invalid = ackIds.filter(ackId => {
+      const entry = state.leases.get(ackId);
+      if (!entry) {
+        return true;
+      }
+      if (ackDeadlineSeconds === 0) {
+        this._release(state, entry);
+      } else {
+        entry.lease!.deadline = Date.now() + ackDeadlineSeconds * 1000;
+      }
+      return false;
+    });
+
+    this._scheduleExpiry(state);
+    this._scheduleDispatch(state);
+    this._checkAckIds(state, invalid);
+  }
+
+  /**
+   * Leases up to `maxMessages` available messages, as a unary Pull would.
+   *
+   * @private
+   */
+  pull(subscription: string, maxMessages: number): IReceivedMessage[] {
+    const state = this._subscription(subscription);
+    if (!(maxMessages > 0)) {
+      throw apiError(
+        Status.INVALID_ARGUMENT,
+        'max_messages must be greater than 0',
+      );
+    }
+
+    const received: IReceivedMessage[] = [];
+    for (const entry of this._available(state)) {
+      if (received.length >= maxMessages) {
+        break;
+      }
+      const message = this._lease(state, entry);
+      if (message) {
+        received.push(message);
+      }
+    }
+
+    this._prune(state);
+    this._scheduleExpiry(state);
+    return received;
+  }
+
+  /**
+   * Starts delivering the subscription's messages to a StreamingPull stream.
+   *
+   * @private
+   */
+  connect(subscription: string, puller: MemoryPuller): void {
+    const state = this._subscription(subscription);
+    if (state.metadata.detached) {
+      throw apiError(Status.FAILED_PRECONDITION, 'Subscription is detached');
+    }
+    state.pullers.set(puller, {messages: 0, bytes: 0});
+    this._scheduleDispatch(state);
+  }
+
+  /**
+   * Stops delivering to a stream. Its leases run until their deadlines.
+   *
+   * @private
+   */
+  disconnect(subscription: string, puller: MemoryPuller): void {
+    this._subscriptions.get(subscription)?.pullers.delete(puller);
+  }
+
+  /** @private */
+  createSnapshot(
+    name: string,
+    subscription: string,
+    labels?: {[k: string]: string} | null,
+  ): ISnapshot {
+    checkName(name, 'snapshots');
+    if (this._snapshots.has(name)) {
+      throw apiError(Status.ALREADY_EXISTS, 'Snapshot already exists');
+    }
+    const state = this._subscription(subscription);
+
+    const now = Date.now();
+    const metadata: ISnapshot = {
+      name,
+      topic: state.metadata.topic,
+      expireTime: toTimestamp(now + SNAPSHOT_LIFETIME_MS),
+      labels: {...labels},
+    };
+    const messages = state.entries
+      .filter(e => !e.acked)
+      .map(({message, publishTime}) => ({message, publishTime}));
+
+    this._snapshots.set(name, {metadata, messages, time: now});
+    return copy(metadata);
+  }
+
+  /** @private */
+  getSnapshot(name: string): ISnapshot {
+    return copy(this._snapshot(name).metadata);
+  }
+
+  /** @private */
+  updateSnapshot(snapshot: ISnapshot, updateMask?: IFieldMask | null) {
+    const state = this._snapshot(snapshot.name);
+    applyUpdate(state.metadata, snapshot, updateMask);
+    return copy(state.metadata);
+  }
+
+  /** @private */
+  listSnapshots(project: string): ISnapshot[] {
+    return [...this._snapshots.values()]
+      .filter(s => s.metadata.name!.startsWith(`${project}/snapshots/`))
+      .map(s => copy(s.metadata));
+  }
+
+  /** @private */
+  deleteSnapshot(name: string): void {
+    this._snapshot(name);
+    this._snapshots.delete(name);
+  }
+
+  /**
+   * Seeking to a time marks messages published before it as acked and the
+   * rest as unacked. Seeking to a snapshot restores the messages that were
+   * unacked when it was taken, plus anything published since.
+   *
+   * @private
+   */
+  seek(request: ISeekRequest): void {
+    const state = this._subscription(request.subscription);
+    if (!request.snapshot && !request.time) {
+      throw apiError(
+        Status.INVALID_ARGUMENT,
+        'Either a snapshot or a time must be given.',
+      );
+    }
+
+    let snapshot: SnapshotState | undefined;
+    if (request.snapshot) {
+      snapshot = this._snapshot(request.snapshot);
+      if (snapshot.metadata.topic !== state.metadata.topic) {
+        throw apiError(
+          Status.FAILED_PRECONDITION,
+          "The snapshot's topic does not match the subscription's topic.",
+        );
+      }
+    }
+
+    // Outstanding leases are invalidated by a seek.
+    for (const entry of state.entries) {
+      entry.lease = undefined;
+    }
+    state.leases.clear();
+    for (const outstanding of state.pullers.values()) {
+      outstanding.messages = outstanding.bytes = 0;
+    }
+
+    if (snapshot) {
+      const time = snapshot.time;
+      const existing = new Map(
+        state.entries.map(e => [e.message.messageId, e]),
+      );
+      const snapshotIds = new Set(
+        snapshot.messages.map(m => m.message.messageId),
+      );
+      const restored = [
+        ...snapshot.messages,
+        ...state.entries.filter(
+          e => e.publishTime >= time && !snapshotIds.has(e.message.messageId),
+        ),
+      ].sort(
+        (a, b) => Number(a.message.messageId) - Number(b.message.messageId),
+      );
+
+      state.entries = restored.map(({message, publishTime}) => {
+        const entry = existing.get(message.messageId) ?? {
+          message,
+          publishTime,
+          deliveryAttempt: 0,
+          acked: false,
+        };
+        entry.acked = false;
+        return entry;
+      });
+    } else {
+      const time = fromTimestamp(request.time!);
+      for (const entry of state.entries) {
+        entry.acked = entry.publishTime < time;
+      }
+    }
+
+    this._prune(state);
+    this._scheduleExpiry(state);
+    this._scheduleDispatch(state);
+  }
+
+  /** @private */
+  createSchema(parent: string, schemaId: string, schema: ISchema): ISchema {
+    const name = checkName(`${parent}/schemas/${schemaId}`, 'schemas');
+    if (this._schemas.has(name)) {
+      throw apiError(Status.ALREADY_EXISTS, 'Schema already exists');
+    }
+    const revision = this._newRevision(name, schema);
+    this._schemas.set(name, [revision]);
+    return copy(revision);
+  }
+
+  /**
+   * Gets a schema's latest revision, or a given one if the name ends with
+   * `@<revisionId>`.
+   *
+   * @private
+   */
+  getSchema(name: string, view?: unknown): ISchema {
+    return this._view(this._schemaRevision(name), view, 'FULL');
+  }
+
+  /**
+   * Lists the latest revision of each of a project's schemas.
+   *
+   * @private
+   */
+  listSchemas(parent: string, view?: unknown): ISchema[] {
+    return [...this._schemas.entries()]
+      .filter(([name]) => name.startsWith(`${parent}/schemas/`))
+      .map(([, revisions]) =>
+        this._view(revisions[revisions.length - 1], view, 'BASIC'),
+      );
+  }
+
+  /**
+   * Lists a schema's revisions, newest first.
+   *
+   * @private
+   */
+  listSchemaRevisions(name: string, view?: unknown): ISchema[] {
+    return this._schemaRevisions(name)
+      .map(revision => this._view(revision, view, 'BASIC'))
+      .reverse();
+  }
+
+  /** @private */
+  commitSchema(name: string, schema: ISchema): ISchema {
+    const revisions = this._schemaRevisions(name);
+    const revision = this._newRevision(name, {
+      type: revisions[revisions.length - 1].type,
+      ...schema,
+    });
+    revisions.push(revision);
+    return copy(revision);
+  }
+
+  /**
+   * Commits a copy of an earlier revision as the latest one.
+   *
+   * @private
+   */
+  rollbackSchema(name: string, revisionId: string): ISchema {
+    const previous = this._schemaRevision(`${name}@${revisionId}`);
+    return this.commitSchema(name, previous);
+  }
+
+  /** @private */
+  deleteSchemaRevision(name: string, revisionId?: string | null): ISchema {
+    const [base, id = revisionId] = name.split('@');
+    const revisions = this._schemaRevisions(base);
+    const index = revisions.findIndex(r => r.revisionId === id);
+    if (index === -1) {
+      throw apiError(Status.NOT_FOUND, 'Schema revision not found');
+    }
+    if (revisions.length === 1) {
+      throw apiError(
+        Status.FAILED_PRECONDITION,
+        'Cannot delete the only revision of a schema',
+      );
+    }
+    const [deleted] = revisions.splice(index, 1);
+    return copy(deleted);
+  }
+
+  /** @private */
+  deleteSchema(name: string): void {
+    this._schemaRevisions(name);
+    this._schemas.delete(name);
+  }
+
+  /** @private */
+  validateSchema(schema: ISchema): void {
+    try {
+      validateSchemaDefinition(schema);
+    } catch (e) {
+      throw apiError(
+        Status.INVALID_ARGUMENT,
+        `Invalid schema definition: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Validates a message against a stored schema, given by name, or against
+   * an inline one. As with protobuf.js, string messages are base64 decoded.
+   *
+   * @private
+   */
+  validateMessage(request: IValidateMessageRequest): void {
+    const schema = request.name
+      ? this._schemaRevision(request.name)
+      : request.schema;
+    if (!schema) {
+      throw apiError(Status.INVALID_ARGUMENT, 'A schema must be given');
+    }
+
+    const message =
+      typeof request.message === 'string'
+        ? Buffer.from(request.message, 'base64')
+        : Buffer.from(request.message ?? []);
+    try {
+      validateSchemaMessage(
+        schema,
+        message,
+        enumName(request.encoding, ENCODINGS) as SchemaEncoding,
+      );
+    } catch (e) {
+      throw apiError(
+        Status.INVALID_ARGUMENT,
+        `Message failed schema validation: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  /** @private */
+  getIamPolicy(resource: string): IPolicy {
+    this._checkResource(resource);
+    return copy(this._policies.get(resource) ?? {version: 1, bindings: []});
+  }
+
+  /** @private */
+  setIamPolicy(resource: string, policy: IPolicy): IPolicy {
+    this._checkResource(resource);
+    this._policies.set(resource, copy(policy));
+    return copy(policy);
+  }
+
+  /**
+   * IAM isn't enforced, so every permission is granted.
+   *
+   * @private
+   */
+  testIamPermissions(resource: string, permissions: string[]): string[] {
+    this._checkResource(resource);
+    return [...permissions];
+  }
+
+  private _topic(name?: string | null): ITopic {
+    const topic = this._topics.get(name ?? '');
+    if (!topic) {
+      throw apiError(Status.NOT_FOUND, 'Topic not found');
+    }
+    return topic;
+  }
+
+  private _subscription(name?: string | null): SubscriptionState {
+    const state = this._subscriptions.get(name ?? '');
+    if (!state) {
+      throw apiError(Status.NOT_FOUND, 'Subscription does not exist');
+    }
+    return state;
+  }
+
+  private _snapshot(name?: string | null): SnapshotState {
+    const state = this._snapshots.get(name ?? '');
+    if (!state) {
+      throw apiError(Status.NOT_FOUND, 'Snapshot does not exist');
+    }
+    return state;
+  }
+
+  private _schemaRevisions(name?: string | null): ISchema[] {
+    const revisions = this._schemas.get(name ?? '');
+    if (!revisions) {
+      throw apiError(Status.NOT_FOUND, 'Schema not found');
+    }
+    return revisions;
+  }
+
+  private _schemaRevision(name: string): ISchema {
+    const [base, revisionId] = name.split('@');
+    const revisions = this._schemaRevisions(base);
+    if (!revisionId) {
+      return revisions[revisions.length - 1];
+    }
+    const revision = revisions.find(r => r.revisionId === revisionId);
+    if (!revision) {
+      throw apiError(Status.NOT_FOUND, 'Schema revision not found');
+    }
+    return revision;
+  }
+
+  /**
+   * Checks a message against its topic's schema, as the service does, trying
+   * the newest revisions that the topic accepts first. The attributes naming
+   * the revision and encoding are added to the message.
+   */
+  private _applySchema(topic: ITopic, message: IPubsubMessage): void {
+    const settings = topic.schemaSettings;
+    const revisions = this._schemas.get(settings?.schema ?? '');
+    if (!revisions) {
+      return;
+    }
+
+    let encoding = enumName(settings!.encoding, ENCODINGS);
+    if (encoding === ENCODINGS[0]) {
+      encoding = 'JSON';
+    }
+    const ids = revisions.map(r => r.revisionId);
+    const first = settings!.firstRevisionId
+      ? ids.indexOf(settings!.firstRevisionId)
+      : 0;
+    const last = settings!.lastRevisionId
+      ? ids.indexOf(settings!.lastRevisionId)
+      : ids.length - 1;
+    const data =
+      typeof message.data === 'string'
+        ? Buffer.from(message.data, 'base64')
+        : Buffer.from(message.data ?? []);
+
+    for (const revision of revisions.slice(first, last + 1).reverse()) {
+      try {
+        validateSchemaMessage(revision, data, encoding as SchemaEncoding);
+      } catch (e) {
+        continue;
+      }
+      Object.assign(message.attributes!, {
+        googclient_schemaname: settings!.schema,
+        googclient_schemarevisionid: revision.revisionId,
+        googclient_schemaencoding: encoding,
+      });
+      return;
+    }
+
+    throw apiError(
+      Status.INVALID_ARGUMENT,
+      'Invalid data in message: Message failed schema validation.',
+    );
+  }
+
+  private _newRevision(name: string, schema: ISchema): ISchema {
+    this.validateSchema(schema);
+    return {
+      name,
+      type: enumName(schema.type, SCHEMA_TYPES) as ISchema['type'],
+      definition: schema.definition,
+      revisionId: (++this._revisionIds).toString(16).padStart(8, '0'),
+      revisionCreateTime: toTimestamp(Date.now()),
+    };
+  }
+
+  /**
+   * Copies a schema revision, leaving out the definition for BASIC views.
+   */
+  private _view(schema: ISchema, view: unknown, fallback: string): ISchema {
+    const name = enumName(view, SCHEMA_VIEWS);
+    const result = copy(schema);
+    if ((name === SCHEMA_VIEWS[0] ? fallback : name) === 'BASIC') {
+      delete result.definition;
+    }
+    return result;
+  }
+
+  private _checkResource(resource: string): void {
+    if (
+      !this._topics.has(resource) &&
+      !this._subscriptions.has(resource) &&
+      !this._snapshots.has(resource) &&
+      !this._schemas.has(resource)
+    ) {
+      throw apiError(Status.NOT_FOUND, 'Resource not found');
+    }
+  }
+
+  private _compileFilter(filter?: string | null): MessageFilter {
+    try {
+      return parseFilter(filter);
+    } catch (e) {
+      if (e instanceof FilterSyntaxError) {
+        throw apiError(Status.INVALID_ARGUMENT, e.message);
+      }
+      throw e;
+    }
+  }
+
+  private _checkAckIds(state: SubscriptionState, invalid: string[]): void {
+    // Without exactly-once delivery, the service ignores stale ack IDs.
+    if (!invalid.length || !state.metadata.enableExactlyOnceDelivery) {
+      return;
+    }
+
+    const error = apiError(
+      Status.INVALID_ARGUMENT,
+      'Some acknowledgement ids in the request were invalid.',
+    );
+    error.errorInfoMetadata = {};
+    for (const ackId of invalid) {
+      error.errorInfoMetadata[ackId] = INVALID_ACK_ID;
+    }
+    throw error;
+  }
+
+  private _closeSubscription(
+    state: SubscriptionState,
+    code: Status,
+    details: string,
+  ): void {
+    clearTimeout(state.expiryTimer);
+    state.leases.clear();
+
+    const pullers = [...state.pullers.keys()];
+    state.pullers.clear();
+    pullers.forEach(p => p.endWithStatus(code, details));
+  }
+
+  /**
+   * Yields the messages that may be delivered right now. With message
+   * ordering, only the oldest unacked message of each ordering key is
+   * eligible, and only while it isn't leased.
+   */
+  private _available(state: SubscriptionState): Entry[] {
+    const ordered = !!state.metadata.enableMessageOrdering;
+    const keys = new Set<string>();
+    const available: Entry[] = [];
+
+    for (const entry of state.entries) {
+      if (entry.acked) {
+        continue;
+      }
+
+      const key = ordered && entry.message.orderingKey;
+      if (key) {
+        if (keys.has(key)) {
+          continue;
+        }
+        keys.add(key);
+      }
+
+      if (!entry.lease) {
+        available.push(entry);
+      }
+    }
+
+    return available;
+  }
+
+  private _hasRoom(
+    state: SubscriptionState,
+    puller: MemoryPuller,
+    entry: Entry,
+  ): boolean {
+    const outstanding = state.pullers.get(puller)!;
+    const {maxOutstandingMessages, maxOutstandingBytes} = puller;
+
+    if (
+      maxOutstandingMessages &&
+      outstanding.messages >= maxOutstandingMessages
+    ) {
+      return false;
+    }
+
+    // As with the service, one message may go over the byte limit.
+    return !(
+      maxOutstandingBytes &&
+      outstanding.messages &&
+      outstanding.bytes + sizeOf(entry) > maxOutstandingBytes
+    );
+  }
+
+  /**
+   * Leases a message for delivery, or forwards it to the dead letter topic if
+   * it has run out of delivery attempts.
+   *
+   * @returns {object|undefined} The message to deliver, if any.
+   */
+  private _lease(
+    state: SubscriptionState,
+    entry: Entry,
+    puller?: MemoryPuller,
+  ): IReceivedMessage | undefined {
+    const policy = state.metadata.deadLetterPolicy;
+    const maxAttempts =
+      policy?.maxDeliveryAttempts || DEFAULT_MAX_DELIVERY_ATTEMPTS;
+
+    if (
+      policy?.deadLetterTopic &&
+      entry.deliveryAttempt >= maxAttempts &&
+      this._forwardToDeadLetter(state, entry)
+    ) {
+      return undefined;
+    }
+
+    entry.deliveryAttempt++;
+
+    const ackId = String(++this._ackIds);
+    const deadlineSeconds =
+      puller?.ackDeadlineSeconds || state.metadata.ackDeadlineSeconds!;
+    entry.lease = {
+      ackId,
+      deadline: Date.now() + deadlineSeconds * 1000,
+      puller,
+    };
+    state.leases.set(ackId, entry);
+
+    const outstanding = puller && state.pullers.get(puller);
+    if (outstanding) {
+      outstanding.messages++;
+      outstanding.bytes += sizeOf(entry);
+    }
+
+    return {
+      ackId,
+      message: entry.message,
+      deliveryAttempt: policy?.deadLetterTopic ? entry.deliveryAttempt : 0,
+    };
+  }
+
+  private _forwardToDeadLetter(
+    state: SubscriptionState,
+    entry: Entry,
+  ): boolean {
+    const topic = state.metadata.deadLetterPolicy!.deadLetterTopic!;
+
+    // The service keeps redelivering if it can't forward.
+    if (!this._topics.has(topic)) {
+      return false;
+    }
+
+    const [, project, , subscription] = state.metadata.name!.split('/');
+    const {data, orderingKey, attributes} = entry.message;
+    this.publish(topic, [
+      {
+        data,
+        orderingKey,
+        attributes: {
+          ...attributes,
+          CloudPubSubDeadLetterSourceDeliveryCount: String(
+            entry.deliveryAttempt,
+          ),
+          CloudPubSubDeadLetterSourceSubscription: subscription,
+          CloudPubSubDeadLetterSourceSubscriptionProject: project,
+        },
+      },
+    ]);
+
+    entry.acked = true;
+    return true;
+  }
+
+  private _release(state: SubscriptionState, entry: Entry): void {
+    const lease = entry.lease!;
+    entry.lease = undefined;
+    state.leases.delete(lease.ackId);
+
+    const outstanding = lease.puller && state.pullers.get(lease.puller);
+    if (outstanding) {
+      outstanding.messages--;
+      outstanding.bytes -= sizeOf(entry);
+    }
+  }
+
+  private _prune(state: SubscriptionState): void {
+    if (!state.metadata.retainAckedMessages) {
+      state.entries = state.entries.filter(e => !e.acked);
+    }
+  }
+
+  private _scheduleDispatch(state: SubscriptionState): void {
+    if (state.dispatchQueued) {
+      return;
+    }
+    state.dispatchQueued = true;
+    process.nextTick(() => this._dispatch(state));
+  }
+
+  /**
+   * Hands out available messages round-robin to the connected streams that
+   * have room for them under their flow control limits.
+   */
+  private _dispatch(state: SubscriptionState): void {
+    state.dispatchQueued = false;
+
+    const pullers = [...state.pullers.keys()];
+    if (!pullers.length) {
+      return;
+    }
+
+    const batches = new Map<MemoryPuller, IReceivedMessage[]>();
+    let forwarded = false;
+    let next = 0;
+
+    for (const entry of this._available(state)) {
+      let puller: MemoryPuller | undefined;
+      for (let i = 0; i < pullers.length && !puller; i++) {
+        const candidate = pullers[(next + i) % pullers.length];
+        if (this._hasRoom(state, candidate, entry)) {
+          puller = candidate;
+          next = (next + i + 1) % pullers.length;
+        }
+      }
+      if (!puller) {
+        break;
+      }
+
+      const message = this._lease(state, entry, puller);
+      if (!message) {
+        forwarded = true;
+        continue;
+      }
+      if (!batches.has(puller)) {
+        batches.set(puller, []);
+      }
+      batches.get(puller)!.push(message);
+    }
+
+    if (forwarded) {
+      // Forwarding may have unblocked an ordering key.
+      this._prune(state);
+      this._scheduleDispatch(state);
+    }
+    this._scheduleExpiry(state);
+
+    const subscriptionProperties = {
+      exactlyOnceDeliveryEnabled: !!state.metadata.enableExactlyOnceDelivery,
+      messageOrderingEnabled: !!state.metadata.enableMessageOrdering,
+    };
+    for (const [puller, receivedMessages] of batches) {
+      puller.deliver({receivedMessages, subscriptionProperties});
+    }
+  }
+
+  private _scheduleExpiry(state: SubscriptionState): void {
+    clearTimeout(state.expiryTimer);
+    state.expiryTimer = undefined;
+
+    let earliest = Infinity;
+    for (const entry of state.leases.values()) {
+      earliest = Math.min(earliest, entry.lease!.deadline);
+    }
+    if (earliest === Infinity) {
+      return;
+    }
+
+    state.expiryTimer = setTimeout(
+      () => this._expire(state),
+      Math.max(0, earliest - Date.now()),
+    );
+    state.expiryTimer.unref();
+  }
+
+  private _expire(state: SubscriptionState): void {
+    const now = Date.now();
+    for (const entry of [...state.leases.values()]) {
+      if (entry.lease!.deadline <= now) {
+        this._release(state, entry);
+      }
+    }
+
+    this._scheduleExpiry(state);
+    this._scheduleDispatch(state);
+  }
+}
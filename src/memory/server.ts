@@ -0,0 +1,326 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as path from 'path';
+import {GoogleError, grpc, GrpcClient, protobuf, Status} from 'google-gax';
+
+import {google} from '../../protos/protos';
+import jsonProtos = require('../../protos/protos.json');
+import {MemoryBackend} from '.';
+import {
+  MemoryPublisherClient,
+  MemorySchemaServiceClient,
+  MemorySubscriberClient,
+} from './clients';
+
+type StreamingPullRequest = google.pubsub.v1.IStreamingPullRequest;
+type StreamingPullResponse = google.pubsub.v1.IStreamingPullResponse;
+type Callback = (err: Error | null, ...results: unknown[]) => void;
+type UnaryMethod = (request: {}, options: {}, callback: Callback) => void;
+
+/*!
+ * The status details messages, for sending exactly-once ack failures the
+ * way the service does.
+ */
+const STATUS_PROTOS = protobuf.Root.fromJSON({
+  nested: {
+    google: {
+      nested: {
+        protobuf: {
+          nested: {
+            Any: {
+              fields: {
+                type_url: {type: 'string', id: 1},
+                value: {type: 'bytes', id: 2},
+              },
+            },
+          },
+        },
+        rpc: {
+          nested: {
+            Status: {
+              fields: {
+                code: {type: 'int32', id: 1},
+                message: {type: 'string', id: 2},
+                details: {
+                  rule: 'repeated',
+                  type: 'google.protobuf.Any',
+                  id: 3,
+                },
+              },
+            },
+            ErrorInfo: {
+              fields: {
+                reason: {type: 'string', id: 1},
+                domain: {type: 'string', id: 2},
+                metadata: {
+                  keyType: 'string',
+                  type: 'string',
+                  id: 3,
+                } as protobuf.IMapField,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+/**
+ * Options for {@link startLocalPubSubServer}.
+ *
+ * @typedef {object} LocalPubSubServerOptions
+ * @property {string} [host='localhost'] The host to listen on.
+ * @property {number} [port=0] The port to listen on. By default a free one
+ *     is picked.
+ * @property {MemoryBackend} [backend] The backend to serve. By default a new
+ *     one is created.
+ */
+export interface LocalPubSubServerOptions {
+  host?: string;
+  port?: number;
+  backend?: MemoryBackend;
+}
+
+/**
+ * Converts a backend error into the status sent to gRPC clients.
+ */
+function toStatus(err: GoogleError): Partial<grpc.StatusObject> {
+  const metadata = new grpc.Metadata();
+  if (err.errorInfoMetadata) {
+    const Any = STATUS_PROTOS.lookupType('google.protobuf.Any');
+    const ErrorInfo = STATUS_PROTOS.lookupType('google.rpc.ErrorInfo');
+    const StatusProto = STATUS_PROTOS.lookupType('google.rpc.Status');
+    const errorInfo = ErrorInfo.encode({
+      reason: 'EXACTLY_ONCE_ACKID_FAILURE',
+      domain: 'pubsub.googleapis.com',
+      metadata: err.errorInfoMetadata,
+    }).finish();
+    const details = StatusProto.encode({
+      code: err.code,
+      message: err.note,
+      details: [
+        Any.create({
+          type_url: 'type.googleapis.com/google.rpc.ErrorInfo',
+          value: errorInfo,
+        }),
+      ],
+    }).finish();
+    metadata.set('grpc-status-details-bin', Buffer.from(details));
+  }
+
+  return {
+    code: err.code ?? Status.UNKNOWN,
+    details: err.note ?? err.message,
+    metadata,
+  };
+}
+
+/**
+ * Builds gRPC handlers for every method of a service from an in-memory
+ * client's methods of the same names.
+ */
+function unaryHandlers(
+  service: grpc.ServiceDefinition,
+  client: object,
+): grpc.UntypedServiceImplementation {
+  const handlers: grpc.UntypedServiceImplementation = {};
+
+  for (const definition of Object.values(service)) {
+    const name = definition.originalName!;
+    const method = (client as {[name: string]: UnaryMethod})[name];
+    if (definition.requestStream || !method) {
+      continue;
+    }
+
+    handlers[name] = (
+      call: grpc.ServerUnaryCall<{}, {}>,
+      callback: grpc.sendUnaryData<{}>,
+    ) => {
+      method.call(
+        client,
+        call.request,
+        {autoPaginate: false},
+        (err, ...results) => {
+          if (err) {
+            callback(toStatus(err as GoogleError));
+            return;
+          }
+          // Paged methods give `[items, nextRequest, response]`, and the
+          // others `[response, undefined, undefined]`.
+          callback(null, (results[2] ?? results[0])!);
+        },
+      );
+    };
+  }
+
+  return handlers;
+}
+
+/**
+ * A gRPC server for the Pub/Sub API, serving a {@link MemoryBackend}. See
+ * {@link startLocalPubSubServer}.
+ *
+ * @class
+ */
+export class LocalPubSubServer {
+  backend: MemoryBackend;
+  host: string;
+  port: number;
+  private _server: grpc.Server;
+  private _subscriber: MemorySubscriberClient;
+
+  /** @private */
+  constructor(
+    server: grpc.Server,
+    subscriber: MemorySubscriberClient,
+    backend: MemoryBackend,
+    host: string,
+    port: number,
+  ) {
+    this._server = server;
+    this._subscriber = subscriber;
+    this.backend = backend;
+    this.host = host;
+    this.port = port;
+  }
+
+  /**
+   * The `host:port` to pass as the `apiEndpoint` option (or the
+   * `PUBSUB_EMULATOR_HOST` environment variable).
+   *
+   * @type {string}
+   */
+  get apiEndpoint(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  /**
+   * Stops the server. Open calls are cancelled.
+   *
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    this._server.forceShutdown();
+    await this._subscriber.close();
+  }
+}
+
+/**
+ * Starts a gRPC server that speaks the Pub/Sub API (the Publisher,
+ * Subscriber, SchemaService and IAMPolicy services) and keeps its state in
+ * a {@link MemoryBackend}. It's an alternative to the Java-based emulator for
+ * running integration tests hermetically, and has the same semantics as
+ * `new PubSub({backend: 'memory'})`: StreamingPull honours ack deadlines and
+ * flow control, and sends ack confirmations on exactly-once subscriptions.
+ *
+ * The server doesn't use TLS or check credentials. Point clients at it with
+ * `apiEndpoint`; as with the emulator, non-Google endpoints are used without
+ * TLS.
+ *
+ * @param {LocalPubSubServerOptions} [options] Server options.
+ * @returns {Promise<LocalPubSubServer>}
+ *
+ * @example
+ * ```
+ * const {PubSub, startLocalPubSubServer} = require('@google-cloud/pubsub');
+ *
+ * const server = await startLocalPubSubServer();
+ * const pubsub = new PubSub({
+ *   apiEndpoint: server.apiEndpoint,
+ *   projectId: 'test-project',
+ * });
+ *
+ * // ... run tests ...
+ *
+ * await pubsub.close();
+ * await server.stop();
+ * ```
+ */
+export async function startLocalPubSubServer(
+  options: LocalPubSubServerOptions = {},
+): Promise<LocalPubSubServer> {
+  const backend = options.backend ?? new MemoryBackend();
+  const host = options.host ?? 'localhost';
+  const publisher = new MemoryPublisherClient(backend);
+  const subscriber = new MemorySubscriberClient(backend);
+  const schemaService = new MemorySchemaServiceClient(backend);
+
+  const gaxGrpc = new GrpcClient();
+  const {v1} = (
+    gaxGrpc.loadProtoJSON(jsonProtos) as unknown as {
+      google: {pubsub: {v1: grpc.GrpcObject}};
+    }
+  ).google.pubsub;
+  const {v1: iam} = (
+    gaxGrpc.loadProto(
+      path.join(__dirname, '../../protos'),
+      'google/iam/v1/iam_policy.proto',
+    ) as unknown as {google: {iam: {v1: grpc.GrpcObject}}}
+  ).google.iam;
+  const serviceOf = (pkg: grpc.GrpcObject, name: string) =>
+    (pkg[name] as grpc.ServiceClientConstructor).service;
+
+  const server = new grpc.Server();
+  server.addService(
+    serviceOf(v1, 'Publisher'),
+    unaryHandlers(serviceOf(v1, 'Publisher'), publisher),
+  );
+  server.addService(serviceOf(v1, 'Subscriber'), {
+    ...unaryHandlers(serviceOf(v1, 'Subscriber'), subscriber),
+    streamingPull: (
+      call: grpc.ServerDuplexStream<
+        StreamingPullRequest,
+        StreamingPullResponse
+      >,
+    ) => {
+      const stream = subscriber.streamingPull();
+      call.on('data', (request: StreamingPullRequest) => stream.write(request));
+      call.on('cancelled', () => stream.cancel());
+      call.on('end', () => {
+        stream.cancel();
+        call.end();
+      });
+      stream.on('data', (response: StreamingPullResponse) =>
+        call.write(response),
+      );
+      stream.on('status', (status: grpc.StatusObject) => {
+        if (status.code === Status.OK) {
+          call.end();
+        } else if (status.code !== Status.CANCELLED) {
+          call.emit('error', status);
+        }
+      });
+    },
+  });
+  server.addService(
+    serviceOf(v1, 'SchemaService'),
+    unaryHandlers(serviceOf(v1, 'SchemaService'), schemaService),
+  );
+  server.addService(
+    serviceOf(iam, 'IAMPolicy'),
+    unaryHandlers(serviceOf(iam, 'IAMPolicy'), subscriber),
+  );
+
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync(
+      `${host}:${options.port ?? 0}`,
+      grpc.ServerCredentials.createInsecure(),
+      (err, port) => (err ? reject(err) : resolve(port)),
+    );
+  });
+
+  return new LocalPubSubServer(server, subscriber, backend, host, port);
+}
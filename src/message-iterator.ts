@@ -0,0 +1,191 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import defer = require('p-defer');
+
+import {Message} from './subscriber';
+import {Subscription} from './subscription';
+import {SubscriptionListeners, attach, detach} from './subscription-listeners';
+
+/**
+ * @typedef {object} MessageIteratorOptions
+ * @property {AbortSignal} [signal] When aborted, iteration ends and the
+ *     subscriber is closed, as if the consuming loop had exited.
+ */
+export interface MessageIteratorOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Adapts the `message` events of a Subscription into an async iterator.
+ *
+ * The subscriber is opened the first time `next()` is called, and closed
+ * once the consumer stops iterating (`return()`), the signal is aborted, or
+ * an error is emitted. Messages waiting in the iterator are still leased, so
+ * the subscriber's flow control settings (`flowControl.maxMessages` and
+ * `flowControl.maxBytes`) bound how far ahead of the consumer we read. Any
+ * that haven't been read when iteration stops are nacked.
+ *
+ * @private
+ * @class
+ *
+ * @param {Subscription} subscription The subscription to read from.
+ * @param {MessageIteratorOptions} [options] Iterator options.
+ */
+export class MessageIterator implements AsyncIterableIterator<Message> {
+  private _buffer: Message[];
+  private _done: boolean;
+  private _error?: Error;
+  private _finished?: Promise<void>;
+  private _listeners: SubscriptionListeners;
+  private _signal?: AbortSignal;
+  private _started: boolean;
+  private _subscription: Subscription;
+  private _waiting?: defer.DeferredPromise<void>;
+
+  constructor(
+    subscription: Subscription,
+    options: MessageIteratorOptions = {},
+  ) {
+    this._buffer = [];
+    this._done = false;
+    this._signal = options.signal;
+    this._started = false;
+    this._subscription = subscription;
+
+    this._onAbort = this._onAbort.bind(this);
+    this._listeners = {
+      onClose: () => this._onClose(),
+      onError: error => this._onError(error),
+      onMessage: message => this._onMessage(message),
+    };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Message> {
+    return this;
+  }
+
+  /**
+   * Resolves with the next message, waiting for one to arrive if needed.
+   *
+   * @returns {Promise<IteratorResult<Message>>}
+   * @private
+   */
+  async next(): Promise<IteratorResult<Message>> {
+    if (!this._started) {
+      this._start();
+    }
+
+    for (;;) {
+      if (this._error) {
+        const error = this._error;
+        delete this._error;
+        await this._finish();
+        throw error;
+      }
+
+      if (this._done) {
+        await this._finish();
+        return {done: true, value: undefined};
+      }
+
+      if (this._buffer.length) {
+        return {done: false, value: this._buffer.shift()!};
+      }
+
+      if (!this._waiting) {
+        this._waiting = defer();
+      }
+      await this._waiting.promise;
+    }
+  }
+
+  /**
+   * Stops iterating, closing the subscriber. This is called automatically
+   * when a `for await` loop exits early.
+   *
+   * @returns {Promise<IteratorResult<Message>>}
+   * @private
+   */
+  async return(): Promise<IteratorResult<Message>> {
+    this._done = true;
+    this._wake();
+    await this._finish();
+    return {done: true, value: undefined};
+  }
+
+  /**
+   * Detaches from the subscription and closes the subscriber, unless someone
+   * else is still listening for messages on it.
+   *
+   * @private
+   */
+  private _finish(): Promise<void> {
+    if (!this._finished) {
+      this._finished = this._detach();
+    }
+    return this._finished;
+  }
+
+  private async _detach(): Promise<void> {
+    this._done = true;
+    const unread = this._buffer;
+    this._buffer = [];
+    unread.forEach(m => m.nackUnhandled());
+    this._signal?.removeEventListener('abort', this._onAbort);
+
+    if (this._started) {
+      await detach(this._subscription, this._listeners);
+    }
+  }
+
+  private _onAbort(): void {
+    this._done = true;
+    this._wake();
+  }
+
+  private _onClose(): void {
+    // Anything we were holding has been nacked by the subscriber already.
+    this._done = true;
+    this._buffer = [];
+    this._wake();
+  }
+
+  private _onError(error: Error): void {
+    this._error = error;
+    this._wake();
+  }
+
+  private _onMessage(message: Message): void {
+    this._buffer.push(message);
+    this._wake();
+  }
+
+  private _start(): void {
+    this._started = true;
+
+    if (this._signal?.aborted) {
+      this._done = true;
+      return;
+    }
+    this._signal?.addEventListener('abort', this._onAbort);
+    attach(this._subscription, this._listeners);
+  }
+
+  private _wake(): void {
+    const waiting = this._waiting;
+    delete this._waiting;
+    waiting?.resolve();
+  }
+}
@@ -0,0 +1,252 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {DebugMessage} from './debug';
+import {defaultOptions} from './default-options';
+import {logs as baseLogs} from './logs';
+import {Message} from './subscriber';
+import {Subscription} from './subscription';
+import {SubscriptionListeners, attach, detach} from './subscription-listeners';
+
+/**
+ * Loggers. Exported for unit tests.
+ *
+ * @private
+ */
+export const logs = {
+  handlerExceptions: baseLogs.pubsub.sublog('handler-exceptions'),
+};
+
+type ValueOf<T> = T[keyof T];
+
+/**
+ * Enum values for what to do with a message whose handler rejected.
+ */
+export const HandlerErrorPolicies = {
+  Nack: 'NACK' as const,
+  Ack: 'ACK' as const,
+};
+export type HandlerErrorPolicy = ValueOf<typeof HandlerErrorPolicies>;
+
+/**
+ * An async message handler. The message is acked once the returned promise
+ * resolves, unless the handler already acked or nacked it.
+ */
+export type MessageHandler = (message: Message) => Promise<void> | void;
+
+/**
+ * Called with a message whose handler rejected. The message is left for this
+ * function to ack or nack.
+ */
+export type HandlerErrorCallback = (
+  message: Message,
+  error: Error,
+) => Promise<void> | void;
+
+/**
+ * @typedef {object} ProcessOptions
+ * @property {number} [concurrency=10] The maximum number of handlers that may
+ *     be running at once. Messages received beyond this limit wait (while
+ *     still being leased) until a handler finishes. This is separate from
+ *     `flowControl.maxMessages`, which bounds how many messages are leased.
+ * @property {HandlerErrorPolicy|function} [onError] What to do with a message
+ *     whose handler rejected: nack it (the default), ack it, or pass it and
+ *     the error to a function that decides.
+ *     Use {@link HandlerErrorPolicies} for enum values.
+ */
+export interface ProcessOptions {
+  concurrency?: number;
+  onError?: HandlerErrorPolicy | HandlerErrorCallback;
+}
+
+/**
+ * Runs an async handler for each message a Subscription receives, with a cap
+ * on how many may run at once. Handler results decide whether each message
+ * is acked or nacked.
+ *
+ * Handler errors are also reported on the subscription's `debug` channel.
+ * Processing stops if the subscription is closed, or emits an error (which
+ * is reported on the `debug` channel too).
+ *
+ * @class
+ *
+ * @param {Subscription} subscription The subscription to read from.
+ * @param {MessageHandler} handler The message handler.
+ * @param {ProcessOptions} [options] Processing options.
+ */
+export class MessageProcessor {
+  private _closed?: Promise<void>;
+  private _concurrency: number;
+  private _handler: MessageHandler;
+  private _inFlight: Set<Promise<void>>;
+  private _isOpen: boolean;
+  private _listeners: SubscriptionListeners;
+  private _onError: HandlerErrorPolicy | HandlerErrorCallback;
+  private _pending: Message[];
+  private _subscription: Subscription;
+
+  constructor(
+    subscription: Subscription,
+    handler: MessageHandler,
+    options: ProcessOptions = {},
+  ) {
+    const {
+      concurrency = defaultOptions.subscription.maxConcurrentHandlers,
+      onError = HandlerErrorPolicies.Nack,
+    } = options;
+
+    if (!(concurrency >= 1)) {
+      throw new RangeError('Handler concurrency must be at least 1.');
+    }
+
+    this._concurrency = concurrency;
+    this._handler = handler;
+    this._inFlight = new Set();
+    this._isOpen = true;
+    this._onError = onError;
+    this._pending = [];
+    this._subscription = subscription;
+
+    this._listeners = {
+      onClose: () => this._onClose(),
+      onError: error => this._onSubscriptionError(error),
+      onMessage: message => this._onMessage(message),
+    };
+    attach(this._subscription, this._listeners);
+  }
+
+  /**
+   * The number of handlers currently running.
+   *
+   * @type {number}
+   */
+  get inFlight(): number {
+    return this._inFlight.size;
+  }
+
+  /**
+   * The number of messages waiting for a free handler slot.
+   *
+   * @type {number}
+   */
+  get pending(): number {
+    return this._pending.length;
+  }
+
+  /**
+   * Stops processing. Messages that haven't been handed to the handler yet
+   * are nacked, running handlers are allowed to finish, and then the
+   * subscription is closed (unless something else is listening to it).
+   *
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void> {
+    if (!this._closed) {
+      this._closed = this._close();
+    }
+    return this._closed;
+  }
+
+  private async _close(): Promise<void> {
+    this._isOpen = false;
+
+    const pending = this._pending;
+    this._pending = [];
+    pending.forEach(m => m.nackUnhandled());
+
+    await Promise.all(this._inFlight);
+    await detach(this._subscription, this._listeners);
+  }
+
+  private _onClose(): void {
+    // The subscriber has already nacked anything still in its inventory.
+    this._isOpen = false;
+    this._pending = [];
+    void this.close();
+  }
+
+  private _onSubscriptionError(error: Error): void {
+    this._subscription.emit(
+      'debug',
+      new DebugMessage('subscriber error, stopping processing', error),
+    );
+    void this.close();
+  }
+
+  private _onMessage(message: Message): void {
+    if (!this._isOpen) {
+      message.nackUnhandled();
+      return;
+    }
+
+    if (this.inFlight < this._concurrency) {
+      this._run(message);
+    } else {
+      this._pending.push(message);
+    }
+  }
+
+  private _run(message: Message): void {
+    const handling = this._handle(message).finally(() => {
+      this._inFlight.delete(handling);
+
+      if (this._isOpen && this._pending.length) {
+        this._run(this._pending.shift()!);
+      }
+    });
+
+    this._inFlight.add(handling);
+  }
+
+  private async _handle(message: Message): Promise<void> {
+    try {
+      await this._handler(message);
+    } catch (e) {
+      await this._handleError(message, e as Error);
+      return;
+    }
+
+    message.ack();
+  }
+
+  private async _handleError(message: Message, error: Error): Promise<void> {
+    logs.handlerExceptions.error(
+      'message (ID %s, ackID %s) handler rejected: %o',
+      message.id,
+      message.ackId,
+      error,
+    );
+    this._subscription.emit(
+      'debug',
+      new DebugMessage('error during message handler', error),
+    );
+
+    const onError = this._onError;
+    if (onError === HandlerErrorPolicies.Ack) {
+      message.ack();
+    } else if (onError === HandlerErrorPolicies.Nack) {
+      message.nack(error);
+    } else {
+      try {
+        await onError(message, error);
+      } catch (e) {
+        this._subscription.emit(
+          'debug',
+          new DebugMessage('error during handler error callback', e as Error),
+        );
+        message.nack(error);
+      }
+    }
+  }
+}
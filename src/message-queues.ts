@@ -34,6 +34,7 @@ import {Duration} from './temporal';
 import {addToBucket} from './util';
 import {DebugMessage} from './debug';
 import * as tracing from './telemetry-tracing';
+import * as metrics from './telemetry-metrics';
 import {logs as baseLogs} from './logs';
 
 /**
@@ -583,6 +584,12 @@ export class AckQueue extends MessageQueue {
       responseSpan?.end();
       return [];
     } catch (e) {
+      metrics.PubsubMetrics.recordAckError(
+        this._subscriber.name,
+        'ack',
+        (e as GoogleError).code,
+      );
+
       // If exactly-once delivery isn't enabled, don't do error processing. We'll
       // emulate previous behaviour by resolving all pending Promises with
       // a success status, and then throwing a BatchError for debug logging.
@@ -675,6 +682,12 @@ export class ModAckQueue extends MessageQueue {
         this.handleAckSuccesses(messages);
         return [];
       } catch (e) {
+        metrics.PubsubMetrics.recordAckError(
+          this._subscriber.name,
+          ackDeadlineSeconds === 0 ? 'nack' : 'modack',
+          (e as GoogleError).code,
+        );
+
         // If exactly-once delivery isn't enabled, don't do error processing. We'll
         // emulate previous behaviour by resolving all pending Promises with
         // a success status, and then throwing a BatchError for debug logging.
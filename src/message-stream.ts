@@ -27,6 +27,7 @@ import {Duration} from './temporal';
 import {ExponentialRetry} from './exponential-retry';
 import {DebugMessage} from './debug';
 import {logs as baseLogs} from './logs';
+import * as metrics from './telemetry-metrics';
 
 /**
  * Loggers. Exported for unit tests.
@@ -420,6 +421,10 @@ export class MessageStream extends PassThrough {
 
     const statusError = new StatusError(status);
     if (willRetry) {
+      metrics.PubsubMetrics.recordStreamReconnect(
+        this._subscriber.name,
+        status.code,
+      );
       const message = `Subscriber stream ${index} has ended with status ${status.code}; will be retried.`;
       logs.subscriberStreams.info('%s', message);
       this.emit('debug', new DebugMessage(message, statusError));
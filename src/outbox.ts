@@ -0,0 +1,405 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {randomUUID} from 'crypto';
+import {EventEmitter} from 'events';
+import * as path from 'path';
+
+import {DebugMessage} from './debug';
+import {JsonLinesLog} from './json-lines-log';
+import {PublishOptions} from './publisher';
+import {Attributes} from './publisher/pubsub-message';
+import {PubSub} from './pubsub';
+import {Topic} from './topic';
+
+/*!
+ * How long to wait before trying to send messages that failed again.
+ */
+const DEFAULT_RETRY_DELAY_MS = 10000;
+
+/*!
+ * How many sent records a FileOutboxStore log holds before it's rewritten.
+ */
+const DEFAULT_COMPACT_AFTER = 1000;
+
+/**
+ * A message waiting in an outbox.
+ *
+ * @typedef {object} OutboxMessage
+ * @property {string} topic The name of the topic to publish to.
+ * @property {Buffer} data The message data.
+ * @property {object.<string, string>} [attributes] The message attributes.
+ * @property {string} [orderingKey] The message ordering key.
+ */
+export interface OutboxMessage {
+  topic: string;
+  data: Buffer;
+  attributes?: Attributes;
+  orderingKey?: string;
+}
+
+/**
+ * A message in an outbox, with the ID the store gave it.
+ *
+ * @typedef {OutboxMessage} OutboxEntry
+ * @property {string} id The ID of the entry.
+ */
+export interface OutboxEntry extends OutboxMessage {
+  id: string;
+}
+
+/**
+ * Durable storage for an {@link Outbox}. Entries must survive restarts until
+ * they're marked as sent.
+ *
+ * To publish messages atomically with other changes, implement this on top
+ * of the same database, and add entries in the same transaction as the
+ * changes. {@link FileOutboxStore} keeps entries in a local file.
+ *
+ * @interface OutboxStore
+ */
+export interface OutboxStore {
+  /**
+   * Stores a message.
+   *
+   * @param {OutboxMessage} message The message.
+   * @returns {Promise<string>} The ID of the new entry.
+   */
+  add(message: OutboxMessage): Promise<string>;
+
+  /**
+   * Lists the entries that haven't been sent, in the order they were added.
+   *
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  pending(): Promise<OutboxEntry[]>;
+
+  /**
+   * Marks an entry as sent, so that it isn't returned by `pending()`.
+   *
+   * @param {string} id The ID of the entry.
+   * @returns {Promise<void>}
+   */
+  markSent(id: string): Promise<void>;
+}
+
+/**
+ * @typedef {object} OutboxOptions
+ * @property {PublishOptions} [publishOptions] Options for the topics the
+ *     outbox publishes to. Message ordering is always enabled.
+ * @property {number} [retryDelay=10000] How long to wait, in milliseconds,
+ *     before trying to send messages that failed again.
+ */
+export interface OutboxOptions {
+  publishOptions?: PublishOptions;
+  retryDelay?: number;
+}
+
+/**
+ * A transactional outbox: messages are stored before they're published, and
+ * only removed once Pub/Sub has accepted them, so that they aren't lost if
+ * the process stops in between. Messages are published through the usual
+ * {@link Topic} publishers, so batching and ordering keys work as usual.
+ *
+ * Messages left over from a previous run start sending as soon as the outbox
+ * is created; await {@link Outbox#drain} to wait for them. They're sent in
+ * the order they were added, so messages with the same ordering key stay in
+ * order. Messages that fail are tried again after
+ * `retryDelay`, and the failures are emitted as 'debug' events.
+ *
+ * Delivery is at least once: a message that was published, but not marked
+ * as sent before a crash, is published again.
+ *
+ * @class
+ *
+ * @param {PubSub} pubsub The client to publish with.
+ * @param {OutboxStore} store Where messages are kept until they're sent.
+ * @param {OutboxOptions} [options] Outbox options.
+ *
+ * @example
+ * ```
+ * const {FileOutboxStore, Outbox, PubSub} = require('@google-cloud/pubsub');
+ *
+ * const pubsub = new PubSub();
+ * const outbox = new Outbox(pubsub, new FileOutboxStore('/var/lib/outbox'));
+ *
+ * // Wait for anything left over from the last run to be sent.
+ * await outbox.drain();
+ *
+ * await outbox.publish('orders', {
+ *   data: Buffer.from(JSON.stringify(order)),
+ *   orderingKey: order.customerId,
+ * });
+ * ```
+ */
+export class Outbox extends EventEmitter {
+  pubsub: PubSub;
+  store: OutboxStore;
+  options: OutboxOptions;
+  private _topics = new Map<string, Topic>();
+  private _draining?: Promise<void>;
+  private _queued?: Promise<void>;
+  private _retryTimer?: NodeJS.Timeout;
+  private _closed = false;
+
+  constructor(pubsub: PubSub, store: OutboxStore, options: OutboxOptions = {}) {
+    super();
+    this.pubsub = pubsub;
+    this.store = store;
+    this.options = options;
+    this.drain().catch(() => {});
+  }
+
+  /**
+   * Stores a message and starts sending it. The returned promise resolves
+   * once the message is stored, not when it's been published; use
+   * {@link Outbox#drain} to wait for that.
+   *
+   * @param {string} topic The name of the topic to publish to.
+   * @param {object} message The message.
+   * @param {Buffer} message.data The message data.
+   * @param {object.<string, string>} [message.attributes] The message
+   *     attributes.
+   * @param {string} [message.orderingKey] The message ordering key.
+   * @returns {Promise<string>} The ID of the outbox entry.
+   */
+  async publish(
+    topic: string,
+    message: Omit<OutboxMessage, 'topic'>,
+  ): Promise<string> {
+    if (this._closed) {
+      throw new Error('The outbox is closed.');
+    }
+    const id = await this.store.add({...message, topic});
+    this.drain().catch(() => {});
+    return id;
+  }
+
+  /**
+   * Sends every message in the store that hasn't been sent. Only one drain
+   * runs at a time; calls made while one is running wait for the next.
+   *
+   * The promise resolves once each message has either been sent or failed.
+   * It only rejects if the store can't be read.
+   *
+   * @returns {Promise<void>}
+   */
+  drain(): Promise<void> {
+    if (!this._queued) {
+      const previous = this._draining ?? Promise.resolve();
+      this._queued = previous
+        .catch(() => {})
+        .then(() => {
+          delete this._queued;
+          this._draining = this._drain().finally(() => delete this._draining);
+          return this._draining;
+        });
+    }
+    return this._queued;
+  }
+
+  /**
+   * Stops taking new messages and waits for the current drain to finish.
+   * Messages that haven't been sent stay in the store.
+   *
+   * @returns {Promise<void>}
+   */
+  async close(): Promise<void> {
+    this._closed = true;
+    clearTimeout(this._retryTimer);
+    delete this._retryTimer;
+    await (this._queued ?? this._draining)?.catch(() => {});
+  }
+
+  /**
+   * Publishes each pending entry. They're all handed to their publishers at
+   * once, in order, so ordering keys keep their order.
+   *
+   * @private
+   */
+  private async _drain(): Promise<void> {
+    clearTimeout(this._retryTimer);
+    delete this._retryTimer;
+
+    const entries = await this.store.pending();
+    const failedKeys = new Map<Topic, Set<string>>();
+    let failed = false;
+
+    await Promise.all(
+      entries.map(async entry => {
+        const topic = this._topic(entry.topic);
+        try {
+          await topic.publishMessage({
+            data: entry.data,
+            attributes: entry.attributes,
+            orderingKey: entry.orderingKey,
+          });
+          await this.store.markSent(entry.id);
+        } catch (e) {
+          failed = true;
+          if (entry.orderingKey) {
+            const keys = failedKeys.get(topic) ?? new Set();
+            failedKeys.set(topic, keys.add(entry.orderingKey));
+          }
+          this.emit(
+            'debug',
+            new DebugMessage(
+              `failed to send outbox entry ${entry.id}`,
+              e as Error,
+            ),
+          );
+        }
+      }),
+    );
+
+    // Publishing stops for an ordering key after a failure; later entries
+    // for the key have failed too, and are all sent again, in order.
+    for (const [topic, keys] of failedKeys) {
+      keys.forEach(key => topic.resumePublishing(key));
+    }
+    if (failed && !this._closed) {
+      const {retryDelay = DEFAULT_RETRY_DELAY_MS} = this.options;
+      this._retryTimer = setTimeout(
+        () => this.drain().catch(() => {}),
+        retryDelay,
+      ).unref();
+    }
+  }
+
+  private _topic(name: string): Topic {
+    let topic = this._topics.get(name);
+    if (!topic) {
+      topic = this.pubsub.topic(name, {
+        ...this.options.publishOptions,
+        messageOrdering: true,
+      });
+      this._topics.set(name, topic);
+    }
+    return topic;
+  }
+}
+
+/**
+ * An entry in a {@link FileOutboxStore} log: either a new message, or the ID
+ * of one that was sent.
+ *
+ * @private
+ */
+interface LogRecord {
+  add?: Omit<OutboxEntry, 'data'> & {data: string};
+  sent?: string;
+}
+
+/**
+ * @typedef {object} FileOutboxStoreOptions
+ * @property {number} [compactAfter=1000] How many entries can be marked as
+ *     sent before the log is rewritten with only the pending ones.
+ */
+export interface FileOutboxStoreOptions {
+  compactAfter?: number;
+}
+
+/**
+ * An {@link OutboxStore} that keeps entries in a local file, as a log of
+ * JSON lines that's synced to disk on every change. The log is compacted
+ * when nothing is pending, or once `compactAfter` entries have been sent.
+ *
+ * This protects messages from crashes of the process, but isn't
+ * transactional with other storage.
+ *
+ * @class
+ *
+ * @param {string} directory The directory to keep the log in. It's created
+ *     if need be.
+ * @param {FileOutboxStoreOptions} [options] Store options.
+ */
+export class FileOutboxStore implements OutboxStore {
+  directory: string;
+  options: FileOutboxStoreOptions;
+  private _log = new JsonLinesLog<LogRecord>(() => this.file);
+  private _pending?: Map<string, OutboxEntry>;
+  private _sent = 0;
+
+  constructor(directory: string, options: FileOutboxStoreOptions = {}) {
+    this.directory = directory;
+    this.options = options;
+  }
+
+  get file(): string {
+    return path.join(this.directory, 'outbox.log');
+  }
+
+  add(message: OutboxMessage): Promise<string> {
+    return this._log.serialize(async () => {
+      const pending = await this._load();
+      const entry = {...message, id: randomUUID()};
+      await this._log.append([toRecord(entry)]);
+      pending.set(entry.id, entry);
+      return entry.id;
+    });
+  }
+
+  pending(): Promise<OutboxEntry[]> {
+    return this._log.serialize(async () => [...(await this._load()).values()]);
+  }
+
+  markSent(id: string): Promise<void> {
+    return this._log.serialize(async () => {
+      const pending = await this._load();
+      if (!pending.delete(id)) {
+        return;
+      }
+      const {compactAfter = DEFAULT_COMPACT_AFTER} = this.options;
+      if (pending.size && ++this._sent < compactAfter) {
+        await this._log.append([{sent: id}]);
+        return;
+      }
+      await this._log.replace([...pending.values()].map(toRecord));
+      this._sent = 0;
+    });
+  }
+
+  /**
+   * Reads the log the first time it's needed.
+   *
+   * @private
+   */
+  private async _load(): Promise<Map<string, OutboxEntry>> {
+    if (this._pending) {
+      return this._pending;
+    }
+
+    const pending = new Map<string, OutboxEntry>();
+    for (const record of await this._log.read()) {
+      if (record.add) {
+        const {data, ...entry} = record.add;
+        pending.set(entry.id, {...entry, data: Buffer.from(data, 'base64')});
+      } else if (record.sent) {
+        pending.delete(record.sent);
+        this._sent++;
+      }
+    }
+    this._pending = pending;
+    return pending;
+  }
+}
+
+/**
+ * Makes the log record for an entry.
+ *
+ * @private
+ */
+function toRecord(entry: OutboxEntry): LogRecord {
+  return {add: {...entry, data: entry.data.toString('base64')}};
+}
@@ -0,0 +1,199 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {randomUUID} from 'crypto';
+import {promises as fs} from 'fs';
+import * as path from 'path';
+
+import {PubsubMessage} from './publisher/pubsub-message';
+
+/**
+ * The attribute that holds the reference to a message's offloaded data.
+ */
+export const PAYLOAD_REFERENCE_ATTRIBUTE = 'googclient_payload_ref';
+
+/*!
+ * By default, data that wouldn't fit in a batch by itself is offloaded. The
+ * service rejects messages over 10 MB.
+ */
+const DEFAULT_MIN_BYTES = Math.pow(1024, 2) * 9;
+
+/**
+ * Somewhere to keep message data that's too large to publish, for the
+ * claim-check pattern: the publisher stores the data and sends a reference
+ * to it instead, and subscribers fetch the data by its reference.
+ *
+ * Implementations could use Cloud Storage, a database, or anything else that
+ * both publishers and subscribers can reach. {@link FilePayloadStore} keeps
+ * payloads in a local directory.
+ *
+ * @interface PayloadStore
+ */
+export interface PayloadStore {
+  /**
+   * Stores a payload.
+   *
+   * @param {Buffer} data The message data.
+   * @returns {Promise<string>} A reference to pass to `get()` and `delete()`.
+   */
+  put(data: Buffer): Promise<string>;
+
+  /**
+   * Fetches a stored payload.
+   *
+   * @param {string} reference The reference returned by `put()`.
+   * @returns {Promise<Buffer>}
+   */
+  get(reference: string): Promise<Buffer>;
+
+  /**
+   * Deletes a stored payload. This is called by subscribers with the
+   * `deleteOnAck` option when a message has been acked.
+   *
+   * @param {string} reference The reference returned by `put()`.
+   * @returns {Promise<void>}
+   */
+  delete(reference: string): Promise<void>;
+}
+
+/**
+ * @typedef {object} PayloadStoreOptions
+ * @property {PayloadStore} store Where payloads are kept.
+ * @property {number} [minBytes=9437184] For publishers, messages with at
+ *     least this much data are offloaded to the store. The default is the
+ *     largest batch size (9 MiB).
+ * @property {boolean} [deleteOnAck=false] For subscribers, deletes a
+ *     message's payload from the store once the message has been acked. Only
+ *     use this when each message is consumed by a single subscription.
+ */
+export interface PayloadStoreOptions {
+  store: PayloadStore;
+  minBytes?: number;
+  deleteOnAck?: boolean;
+}
+
+/**
+ * A {@link PayloadStore} that keeps payloads as files in a local directory.
+ * This is useful for tests, or when publishers and subscribers share a file
+ * system.
+ *
+ * @class
+ *
+ * @param {string} directory The directory to keep payloads in. It's created
+ *     if need be.
+ *
+ * @example
+ * ```
+ * const {FilePayloadStore, PubSub} = require('@google-cloud/pubsub');
+ *
+ * const store = new FilePayloadStore('/mnt/shared/payloads');
+ * const pubsub = new PubSub();
+ * const topic = pubsub.topic('my-topic', {payloadStore: {store}});
+ * const subscription = pubsub.subscription('my-sub', {payloadStore: {store}});
+ *
+ * subscription.on('message', async message => {
+ *   const data = await message.getData();
+ *   message.ack();
+ * });
+ * ```
+ */
+export class FilePayloadStore implements PayloadStore {
+  directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async put(data: Buffer): Promise<string> {
+    await fs.mkdir(this.directory, {recursive: true});
+    const reference = randomUUID();
+    await fs.writeFile(this._path(reference), data);
+    return reference;
+  }
+
+  async get(reference: string): Promise<Buffer> {
+    return fs.readFile(this._path(reference));
+  }
+
+  async delete(reference: string): Promise<void> {
+    try {
+      await fs.unlink(this._path(reference));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Resolves a reference to its file, making sure that it can't point
+   * outside of the directory.
+   *
+   * @private
+   */
+  private _path(reference: string): string {
+    if (!reference || path.basename(reference) !== reference) {
+      throw new Error(`Invalid payload reference: ${reference}`);
+    }
+    return path.join(this.directory, reference);
+  }
+}
+
+/**
+ * Returns true if a message's data should be offloaded to the store.
+ *
+ * @private
+ * @internal
+ */
+export function shouldOffload(
+  message: PubsubMessage,
+  options: PayloadStoreOptions,
+): boolean {
+  const {minBytes = DEFAULT_MIN_BYTES} = options;
+  const data = message.data as Uint8Array | undefined;
+  return !!data && data.length >= minBytes;
+}
+
+/**
+ * Stores a message's data and returns a copy of the message with empty data
+ * and a reference to the payload in its attributes. The message isn't
+ * changed.
+ *
+ * @private
+ * @internal
+ *
+ * @param {PubsubMessage} message The message to publish.
+ * @param {PayloadStoreOptions} options The payload store options.
+ * @returns {Promise<PubsubMessage>} The message to send.
+ */
+export async function offloadMessage(
+  message: PubsubMessage,
+  options: PayloadStoreOptions,
+): Promise<PubsubMessage> {
+  const data = message.data as Uint8Array;
+  const reference = await options.store.put(
+    Buffer.isBuffer(data) ? data : Buffer.from(data),
+  );
+
+  const copy: PubsubMessage = {
+    ...message,
+    data: Buffer.alloc(0),
+    attributes: {
+      ...message.attributes,
+      [PAYLOAD_REFERENCE_ATTRIBUTE]: reference,
+    },
+  };
+  delete copy.calculatedSize;
+  return copy;
+}
@@ -51,11 +51,13 @@ export class FlowControl {
   private bytes: number;
   private messages: number;
   private requests: QueuedPromise[];
+  private sentWaiters: (() => void)[];
 
   constructor(options: FlowControlOptions) {
     this.setOptions(options);
     this.bytes = this.messages = 0;
     this.requests = [];
+    this.sentWaiters = [];
   }
 
   /**
@@ -154,6 +156,19 @@ export class FlowControl {
       const next = this.requests.shift()!;
       next.resolve();
     }
+
+    this.sentWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  /**
+   * Returns a Promise that resolves the next time sent() is called, which
+   * may have made room. Nothing is added to our counts.
+   *
+   * Do not use externally, it may change without warning.
+   * @private
+   */
+  whenSent(): Promise<void> {
+    return new Promise(resolve => this.sentWaiters.push(resolve));
   }
 
   // Just uses wouldExceed() to see if we've already exceeded the limits.
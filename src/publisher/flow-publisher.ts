@@ -18,6 +18,7 @@ import {Publisher} from '.';
 import {FlowControl} from './flow-control';
 import {PubsubMessage, calculateMessageSize} from './pubsub-message';
 import * as tracing from '../telemetry-tracing';
+import * as metrics from '../telemetry-metrics';
 
 /**
  * Encapsulates a series of message publishes from a rapid loop (or similar
@@ -56,7 +57,8 @@ export class FlowControlledPublisher {
    *
    * If the message can be sent immediately, this will return `null`. Otherwise,
    * it will return a Promise<void> that resolves after it's okay to resume
-   * calling the method.
+   * calling the method. With the `rateLimit` publish option, messages also
+   * wait for room in the rate.
    *
    * @param {Buffer} [data] The message contents to be sent.
    * @param {Attributes} [attributes] Optional attributes.
@@ -80,13 +82,47 @@ export class FlowControlledPublisher {
     const flowSpan = message.parentSpan
       ? tracing.PubsubSpans.createPublishFlowSpan(message)
       : undefined;
+    const start = metrics.isEnabled() ? Date.now() : undefined;
     const doPublish = () => {
       flowSpan?.end();
+      if (start !== undefined) {
+        metrics.PubsubMetrics.recordPublishFlowControlWait(
+          this.publisher.topic.name,
+          Date.now() - start,
+        );
+      }
       this.doPublish(message);
     };
 
     const size = calculateMessageSize(message);
+    const rateWait = this.publisher.rateLimiter?.reserve(
+      size,
+      message.orderingKey || undefined,
+    );
+    if (rateWait) {
+      return rateWait.then(async () => {
+        await this.waitForFlowControl(message, size, doPublish, flowSpan);
+      });
+    }
+    return this.waitForFlowControl(message, size, doPublish, flowSpan);
+  }
+
+  /**
+   * Publishes a message once flow control has room for it, or spills it if
+   * it can be.
+   */
+  private waitForFlowControl(
+    message: PubsubMessage,
+    size: number,
+    doPublish: () => void,
+    flowSpan?: tracing.Span,
+  ): Promise<void> | null {
     if (this.flowControl.wouldExceed(size, 1)) {
+      if (this.canSpill(message)) {
+        flowSpan?.end();
+        this.idPromises.push(this.publisher.spillMessage(message));
+        return null;
+      }
       const waitPromise = this.flowControl.willSend(size, 1);
       return waitPromise.then(doPublish);
     } else {
@@ -117,6 +153,14 @@ export class FlowControlledPublisher {
     this.doPublish(message);
   }
 
+  /**
+   * Returns true if a message can go to the spill log instead of waiting for
+   * flow control. Messages with ordering keys wait their turn.
+   */
+  private canSpill(message: PubsubMessage): boolean {
+    return !!this.publisher.spill && !message.orderingKey;
+  }
+
   private doPublish(message: PubsubMessage): void {
     let idPromise = this.publisher.publishMessage(message);
 
@@ -15,11 +15,12 @@
  */
 
 import * as extend from 'extend';
-import {CallOptions} from 'google-gax';
+import {CallOptions, ServiceError} from 'google-gax';
+import {isDeepStrictEqual} from 'util';
 import {isSpanContextValid, Span} from '@opentelemetry/api';
 
 import {BatchPublishOptions} from './message-batch';
-import {Queue, OrderedQueue} from './message-queues';
+import {AdaptiveBatching, Queue, OrderedQueue} from './message-queues';
 import {Topic} from '../topic';
 import {RequestCallback, EmptyCallback} from '../pubsub';
 import {defaultOptions} from '../default-options';
@@ -27,6 +28,20 @@ import * as tracing from '../telemetry-tracing';
 
 import {FlowControl, FlowControlOptions} from './flow-control';
 import {promisifySome} from '../util';
+import {CompressionOptions, compressMessage} from '../compression';
+import {
+  offloadMessage,
+  PayloadStoreOptions,
+  shouldOffload,
+} from '../payload-store';
+import {SpillLog, SpillOptions} from './spill-log';
+import {RateLimiter, RateLimitOptions} from './rate-limit';
+import {
+  IDEMPOTENCY_KEY_ATTRIBUTE,
+  IdempotencyOptions,
+  PublishedKeys,
+  withIdempotencyKey,
+} from '../idempotency';
 
 import {PubsubMessage, Attributes} from './pubsub-message';
 export {PubsubMessage, Attributes} from './pubsub-message';
@@ -38,6 +53,11 @@ export interface PublishOptions {
   flowControlOptions?: FlowControlOptions;
   gaxOpts?: CallOptions;
   messageOrdering?: boolean;
+  compression?: CompressionOptions;
+  payloadStore?: PayloadStoreOptions;
+  spill?: SpillOptions;
+  idempotency?: IdempotencyOptions;
+  rateLimit?: RateLimitOptions;
 }
 
 /**
@@ -52,6 +72,40 @@ export interface PublishOptions {
  * same order key in Message will be delivered to the subscribers in the order in which they
  *  are received by the Pub/Sub system. Otherwise, they may be delivered in
  * any order.
+ * @property {CompressionOptions} [compression] If set, message data is
+ *     compressed before it's batched, and marked with an attribute so that
+ *     subscribers using the `decompress` option get the original data back.
+ *     Batch size limits apply to the compressed size.
+ * @property {PayloadStoreOptions} [payloadStore] If set, the data of large
+ *     messages is kept in `payloadStore.store`, and the message is sent with
+ *     a reference to it instead. Subscribers read it with
+ *     `Message#getData()`. Messages are still sent in the order they're
+ *     published.
+ * @property {SpillOptions} [spill] If set, messages are kept in a log on
+ *     disk when Publish RPCs keep failing with retryable errors, and when
+ *     publisher flow control is full, instead of failing or waiting. They're
+ *     published again, in order, once publishing works; their promises
+ *     resolve then, or reject if publishing them fails with an error that
+ *     isn't retryable. Messages that follow spilled ones are spilled too, to
+ *     keep them in order. Messages that were spilled because flow control
+ *     was full are published as soon as it has room for them, or after
+ *     `spill.retryInterval` if it stays full. Messages with ordering keys are
+ *     never spilled;
+ *     they wait for flow control, and fail and pause their key, as usual.
+ *     `flush()` doesn't wait for spilled messages.
+ * @property {IdempotencyOptions} [idempotency] If set, each message is
+ *     given an idempotency key attribute (the one it was published with, or
+ *     a hash of its content), and a message with the same key as one that
+ *     was published recently isn't published again; it resolves with the
+ *     first copy's message ID instead. Subscribers can drop copies that get
+ *     through (e.g. from other processes) with their `idempotency` option.
+ * @property {RateLimitOptions} [rateLimit] Limits on how many messages, and
+ *     bytes, are published per second, for the topic and for each ordering
+ *     key. Like `flowControlOptions`, this only applies to messages published
+ *     through {@link Topic#flowControlled}, whose `publish()` returns a
+ *     Promise to wait on when a message has to wait for the rate. Messages
+ *     published with {@link Topic#publishMessage} aren't limited, though they
+ *     don't count towards the rate either.
  */
 
 export const BATCH_LIMITS: BatchPublishOptions = {
@@ -81,6 +135,11 @@ export class Publisher {
   queue: Queue;
   orderedQueues: Map<string, OrderedQueue>;
   flowControl: FlowControl;
+  spill?: SpillLog;
+  adaptiveBatching?: AdaptiveBatching;
+  rateLimiter?: RateLimiter;
+  private _publishedKeys?: PublishedKeys;
+  private _offloading?: Promise<void>;
 
   constructor(topic: Topic, options?: PublishOptions) {
     this.flowControl = new FlowControl(
@@ -90,6 +149,7 @@ export class Publisher {
     this.topic = topic;
     this.queue = new Queue(this);
     this.orderedQueues = new Map();
+    this._updateSpill();
   }
 
   /**
@@ -107,6 +167,12 @@ export class Publisher {
   flush(callback?: EmptyCallback): Promise<void> | void {
     const definedCallback = callback ? callback : () => {};
 
+    // Messages waiting on the payload store haven't been queued yet.
+    if (this._offloading) {
+      void this._offloading.then(() => this.flush(definedCallback));
+      return;
+    }
+
     const toDrain = [this.queue, ...Array.from(this.orderedQueues.values())];
 
     const allDrains = Promise.all(
@@ -209,12 +275,122 @@ export class Publisher {
       }
     }
 
+    this._dedupeMessage(message, callback!);
+  }
+
+  /**
+   * Gives the message an idempotency key if need be, and skips it if a
+   * message with the same key was published recently. Otherwise it goes on
+   * to the payload store and the queues, or the spill log.
+   *
+   * @private
+   *
+   * @param {PubsubMessage} message The message to publish.
+   * @param {PublishCallback} callback Callback function.
+   * @param {boolean} [spill=false] Whether to add it to the spill log.
+   */
+  private _dedupeMessage(
+    message: PubsubMessage,
+    callback: PublishCallback,
+    spill = false,
+  ): void {
+    if (this._publishedKeys) {
+      message = withIdempotencyKey(message);
+      const key = message.attributes![IDEMPOTENCY_KEY_ATTRIBUTE];
+      const published = this._publishedKeys.get(key);
+      if (published) {
+        published.then(
+          messageId => callback(null, messageId),
+          err => callback(err),
+        );
+        return;
+      }
+      callback = this._publishedKeys.track(key, callback);
+    }
+
+    this._offloadMessage(message, callback, spill);
+  }
+
+  /**
+   * Stores the message's data in the payload store if need be, then queues
+   * it, or adds it to the spill log.
+   *
+   * @private
+   *
+   * @param {PubsubMessage} message The message to publish.
+   * @param {PublishCallback} callback Callback function.
+   * @param {boolean} [spill=false] Whether to add it to the spill log.
+   */
+  private _offloadMessage(
+    message: PubsubMessage,
+    callback: PublishCallback,
+    spill = false,
+  ): void {
+    const {payloadStore} = this.settings;
+    const offload = !!payloadStore && shouldOffload(message, payloadStore);
+    if (!offload && !this._offloading) {
+      this._queueMessage(message, callback, spill);
+      return;
+    }
+
+    // Storing payloads is asynchronous, so once a message is waiting on the
+    // store, any later ones wait their turn, to keep them in order. Errors
+    // go to the message's own callback, so the chain never rejects.
+    const previous = this._offloading;
+    const offloaded = offload
+      ? offloadMessage(message, payloadStore!)
+      : Promise.resolve(message);
+    const queued = offloaded
+      .finally(() => previous)
+      .then(
+        message => {
+          try {
+            this._queueMessage(message, callback, spill);
+          } catch (err) {
+            callback(err as ServiceError);
+          }
+        },
+        err => callback(err),
+      );
+    this._offloading = queued;
+    void queued.then(() => {
+      if (this._offloading === queued) {
+        delete this._offloading;
+      }
+    });
+  }
+
+  /**
+   * Compresses the message if need be, and adds it to the right queue, or
+   * to the spill log.
+   *
+   * @private
+   *
+   * @param {PubsubMessage} message The message to publish.
+   * @param {PublishCallback} callback Callback function.
+   * @param {boolean} [spill=false] Whether to add it to the spill log.
+   */
+  private _queueMessage(
+    message: PubsubMessage,
+    callback: PublishCallback,
+    spill = false,
+  ): void {
+    if (this.settings.compression) {
+      message = compressMessage(message, this.settings.compression);
+    }
+
     // Ensure that there's a parent span for subsequent publishes
     // to hang off of.
     this.getParentSpan(message, 'Publisher.publishMessage');
 
-    if (!message.orderingKey) {
-      this.queue.add(message, callback!);
+    if (spill) {
+      // Flow control is full, so the log waits for room in it.
+      if (!this.spill!.add([message], [callback], true)) {
+        const err = new Error(`The spill log for ${this.topic.name} is full.`);
+        callback(err as ServiceError);
+      }
+    } else if (!message.orderingKey) {
+      this.queue.add(message, callback);
     } else {
       const key = message.orderingKey;
 
@@ -225,7 +401,7 @@ export class Publisher {
       }
 
       const queue = this.orderedQueues.get(key)!;
-      queue.add(message, callback!);
+      queue.add(message, callback);
     }
   }
 
@@ -245,6 +421,20 @@ export class Publisher {
     }
   }
 
+  /**
+   * Returns the batching settings that are in use. With adaptive batching,
+   * these change as messages are published.
+   *
+   * @private
+   *
+   * @returns {BatchPublishOptions}
+   */
+  getBatchingSettings(): BatchPublishOptions {
+    const {maxBytes, maxMessages, maxMilliseconds} =
+      this.adaptiveBatching?.settings ?? this.settings.batching!;
+    return {maxBytes, maxMessages, maxMilliseconds};
+  }
+
   /**
    * Returns the set of default options used for {@link Publisher}. The
    * returned value is a copy, and editing it will have no effect elsehwere.
@@ -286,11 +476,17 @@ export class Publisher {
   setOptions(options = {} as PublishOptions): void {
     const defaults = this.getOptionDefaults();
 
-    const {batching, gaxOpts, messageOrdering, flowControlOptions} = extend(
-      true,
-      defaults,
-      options,
-    );
+    const {
+      batching,
+      gaxOpts,
+      messageOrdering,
+      flowControlOptions,
+      compression,
+      payloadStore,
+      spill,
+      idempotency,
+      rateLimit,
+    } = extend(true, defaults, options);
 
     this.settings = {
       batching: {
@@ -305,6 +501,41 @@ export class Publisher {
       messageOrdering,
       flowControlOptions,
     };
+    if (batching!.adaptive) {
+      this.settings.batching!.adaptive = batching!.adaptive;
+      if (this.adaptiveBatching) {
+        this.adaptiveBatching.setBounds(this.settings.batching!);
+      } else {
+        this.adaptiveBatching = new AdaptiveBatching(this.settings.batching!);
+      }
+    } else {
+      delete this.adaptiveBatching;
+    }
+    if (compression) {
+      this.settings.compression = compression;
+    }
+    if (payloadStore) {
+      this.settings.payloadStore = payloadStore;
+    }
+    if (spill) {
+      this.settings.spill = spill;
+    }
+    if (idempotency) {
+      this.settings.idempotency = idempotency;
+      this._publishedKeys ??= new PublishedKeys(idempotency);
+    } else {
+      delete this._publishedKeys;
+    }
+    if (rateLimit) {
+      this.settings.rateLimit = rateLimit;
+      // Only start over if the limits changed, so that messages that were
+      // just sent still count.
+      if (!isDeepStrictEqual(this.rateLimiter?.options, rateLimit)) {
+        this.rateLimiter = new RateLimiter(rateLimit);
+      }
+    } else {
+      delete this.rateLimiter;
+    }
 
     // We also need to let all of our queues know that they need to update their options.
     // Note that these might be undefined, because setOptions() is called in the constructor.
@@ -319,6 +550,48 @@ export class Publisher {
 
     // This will always be filled in by our defaults if nothing else.
     this.flowControl.setOptions(this.settings.flowControlOptions!);
+
+    if (this.topic) {
+      this._updateSpill();
+    }
+  }
+
+  /**
+   * Adds a message to the spill log, for when flow control is full. It goes
+   * through idempotency keys, the payload store and compression like any
+   * other message. It's published once flow control has room for it.
+   * Resolves with the message ID once it's published.
+   *
+   * @private
+   *
+   * @param {PubsubMessage} message The message to publish.
+   * @returns {Promise<string>}
+   */
+  spillMessage(message: PubsubMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const callback: PublishCallback = (err, id) =>
+        err ? reject(err) : resolve(id!);
+      this._dedupeMessage(message, callback, true);
+    });
+  }
+
+  /**
+   * Creates the spill log, or passes it new options. A log that has been
+   * created is kept if the option is removed, in case it has messages.
+   *
+   * @private
+   */
+  private _updateSpill(): void {
+    // The settings are missing when tests stub out setOptions().
+    const spill = this.settings?.spill;
+    if (!spill) {
+      return;
+    }
+    if (this.spill) {
+      this.spill.options = spill;
+    } else {
+      this.spill = new SpillLog(this, spill);
+    }
   }
 
   /**
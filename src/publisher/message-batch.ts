@@ -22,6 +22,19 @@ export interface BatchPublishOptions {
   maxBytes?: number;
   maxMessages?: number;
   maxMilliseconds?: number;
+  adaptive?: boolean | AdaptiveBatchOptions;
+}
+
+/**
+ * @typedef AdaptiveBatchOptions
+ * @property {number} [minMessages=1] The smallest number of messages that a
+ *     batch may be limited to.
+ * @property {number} [minMilliseconds=1] The shortest time that a batch may
+ *     wait for more messages.
+ */
+export interface AdaptiveBatchOptions {
+  minMessages?: number;
+  minMilliseconds?: number;
 }
 
 /**
@@ -44,6 +57,14 @@ export interface BatchResults {
  *     buffer before sending a payload.
  * @property {number} [maxMilliseconds=10] The maximum duration to wait before
  *     sending a payload.
+ * @property {boolean|AdaptiveBatchOptions} [adaptive] If set, the number of
+ *     messages in a batch, and how long a batch waits, are tuned as messages
+ *     are published: roughly, a batch holds the messages that arrive during
+ *     one Publish RPC. Batches stay small while few messages are published,
+ *     and grow with the rate and the RPC latency, up to `maxMessages` and
+ *     `maxMilliseconds`, which also apply until the first Publish RPC
+ *     returns. Use {@link Topic#getBatchingSettings} to see the current
+ *     values.
  */
 /**
  * Call used to help batch messages.
@@ -22,6 +22,7 @@ import {PublishError} from './publish-error';
 import {Publisher, PubsubMessage, PublishCallback} from './';
 import {google} from '../../protos/protos';
 import * as tracing from '../telemetry-tracing';
+import * as metrics from '../telemetry-metrics';
 import {filterMessage} from './pubsub-message';
 import {promisify} from 'util';
 import {logs as baseLogs} from '../logs';
@@ -35,6 +36,139 @@ export const logs = {
   publishBatch: baseLogs.pubsub.sublog('publish-batch'),
 };
 
+/*!
+ * For adaptive batching: how often the rate of new messages is measured, and
+ * how much weight each new measurement (of the rate, or of RPC latency) gets
+ * in the running averages. A rate measured over a longer, idle, period gets
+ * the weight of that many periods.
+ */
+const ADAPTIVE_SAMPLE_MS = 100;
+const ADAPTIVE_WEIGHT = 0.2;
+
+/**
+ * Tunes batching settings for the `adaptive` batching option, from the rate
+ * that messages are published at and the latency of Publish RPCs. A batch is
+ * limited to about the number of messages that arrive during one RPC, and
+ * waits about as long as those take to arrive, within the bounds set by the
+ * publisher's batching options. Until both the rate and the latency have
+ * been measured, the publisher's `maxMessages` and `maxMilliseconds` are
+ * used, so that a burst at startup goes out in full batches.
+ *
+ * The queues share `settings`, which is updated in place, so changes apply
+ * to batches that are being filled.
+ *
+ * @private
+ *
+ * @param {BatchPublishOptions} bounds The publisher's batching options.
+ */
+export class AdaptiveBatching {
+  settings: BatchPublishOptions = {};
+
+  /**
+   * The average latency of Publish RPCs, in milliseconds.
+   *
+   * @type {number}
+   */
+  latency?: number;
+
+  /**
+   * The average rate that messages are published at, per millisecond.
+   *
+   * @type {number}
+   */
+  rate?: number;
+  private _bounds!: BatchPublishOptions;
+  private _arrivals = 0;
+  private _held = 0;
+  private _sampleStart = Date.now();
+
+  constructor(bounds: BatchPublishOptions) {
+    this.setBounds(bounds);
+  }
+
+  /**
+   * Updates the bounds from new batching options.
+   *
+   * @param {BatchPublishOptions} bounds The publisher's batching options.
+   */
+  setBounds(bounds: BatchPublishOptions): void {
+    this._bounds = bounds;
+    this._update();
+  }
+
+  /**
+   * Counts a new message towards the rate. This is called as each message is
+   * batched, so after a quiet spell the rate has decayed by the time the
+   * message's batch is sized.
+   *
+   * @param {number} [held=0] How many messages the batch being filled holds
+   *     already. Batches aren't limited to fewer messages than that.
+   */
+  recordArrival(held = 0): void {
+    this._arrivals++;
+    this._held = held;
+    const now = Date.now();
+    const elapsed = now - this._sampleStart;
+    if (elapsed >= ADAPTIVE_SAMPLE_MS) {
+      const samples = elapsed / ADAPTIVE_SAMPLE_MS;
+      this.rate = average(this.rate, this._arrivals / elapsed, samples);
+      this._arrivals = 0;
+      this._sampleStart = now;
+      this._update();
+    }
+  }
+
+  /**
+   * Records the latency of a successful Publish RPC.
+   *
+   * @param {number} milliseconds How long the RPC took.
+   */
+  recordLatency(milliseconds: number): void {
+    this.latency = average(this.latency, milliseconds);
+    this._update();
+  }
+
+  private _update(): void {
+    const {maxBytes, maxMessages, maxMilliseconds, adaptive} = this._bounds;
+    const {minMessages = 1, minMilliseconds = 1} =
+      typeof adaptive === 'object' ? adaptive : {};
+    const {rate, latency} = this;
+
+    this.settings.maxBytes = maxBytes;
+    if (rate === undefined || latency === undefined) {
+      this.settings.maxMessages = maxMessages;
+      this.settings.maxMilliseconds = maxMilliseconds;
+      return;
+    }
+
+    const messages = clamp(
+      Math.max(Math.round(rate * latency), this._held + 1),
+      minMessages,
+      maxMessages!,
+    );
+    const milliseconds =
+      rate > 0
+        ? clamp(Math.ceil(messages / rate), minMilliseconds, maxMilliseconds!)
+        : Math.min(minMilliseconds, maxMilliseconds!);
+
+    this.settings.maxMessages = messages;
+    this.settings.maxMilliseconds = milliseconds;
+  }
+}
+
+function average(
+  current: number | undefined,
+  sample: number,
+  samples = 1,
+): number {
+  const weight = 1 - (1 - ADAPTIVE_WEIGHT) ** samples;
+  return current === undefined ? sample : current + weight * (sample - current);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
 /**
  * Queues are used to manage publishing batches of messages.
  *
@@ -47,10 +181,19 @@ export abstract class MessageQueue extends EventEmitter {
   publisher: Publisher;
   pending?: NodeJS.Timeout;
 
+  /**
+   * Whether failed batches can go to the spill log. Ordered batches can't,
+   * as their keys must be paused when they fail.
+   *
+   * @type {boolean}
+   */
+  spillable = true;
+
   constructor(publisher: Publisher) {
     super();
     this.publisher = publisher;
-    this.batchOptions = publisher.settings.batching!;
+    this.batchOptions =
+      publisher.adaptiveBatching?.settings ?? publisher.settings.batching!;
   }
 
   /**
@@ -63,7 +206,9 @@ export abstract class MessageQueue extends EventEmitter {
    * @private
    */
   updateOptions() {
-    this.batchOptions = this.publisher.settings.batching!;
+    this.batchOptions =
+      this.publisher.adaptiveBatching?.settings ??
+      this.publisher.settings.batching!;
   }
 
   /**
@@ -107,7 +252,9 @@ export abstract class MessageQueue extends EventEmitter {
   abstract publishDrain(): Promise<void>;
 
   /**
-   * Accepts a batch of messages and publishes them to the API.
+   * Accepts a batch of messages and publishes them to the API. With the
+   * `spill` publish option, unordered batches that can't be published, and
+   * any that follow them, are added to the spill log instead.
    *
    * @param {object[]} messages The messages to publish.
    * @param {PublishCallback[]} callbacks The corresponding callback functions.
@@ -118,6 +265,44 @@ export abstract class MessageQueue extends EventEmitter {
     callbacks: PublishCallback[],
     bytes: number,
     reason?: string,
+  ): Promise<void> {
+    const {topic} = this.publisher;
+    const spill = this.spillable ? this.publisher.spill : undefined;
+    if (messages.length && spill?.isActive()) {
+      if (spill.add(messages, callbacks)) {
+        return;
+      }
+      const err = new Error(`The spill log for ${topic.name} is full.`);
+      callbacks.forEach(callback => callback(err as ServiceError));
+      throw err;
+    }
+
+    try {
+      await this._send(messages, callbacks, bytes, reason);
+      spill?.recordSuccess();
+    } catch (e) {
+      const err = e as ServiceError;
+      if (spill?.shouldSpill(err) && spill.add(messages, callbacks)) {
+        return;
+      }
+      callbacks.forEach(callback => callback(err));
+      throw e;
+    }
+  }
+
+  /**
+   * Sends a batch of messages with a Publish RPC. The callbacks are only
+   * called if it succeeds.
+   *
+   * @param {object[]} messages The messages to publish.
+   * @param {PublishCallback[]} callbacks The corresponding callback functions.
+   * @private
+   */
+  async _send(
+    messages: PubsubMessage[],
+    callbacks: PublishCallback[],
+    bytes: number,
+    reason?: string,
   ): Promise<void> {
     const {topic, settings} = this.publisher;
     const reqOpts = {
@@ -154,6 +339,8 @@ export abstract class MessageQueue extends EventEmitter {
 
     const requestCallback = topic.request<google.pubsub.v1.IPublishResponse>;
     const request = promisify(requestCallback.bind(topic));
+    const start = Date.now();
+    let code: number | undefined;
     try {
       const resp = await request({
         client: 'PublisherClient',
@@ -162,16 +349,22 @@ export abstract class MessageQueue extends EventEmitter {
         gaxOpts: settings.gaxOpts!,
       });
 
+      this.publisher.adaptiveBatching?.recordLatency(Date.now() - start);
       if (resp) {
         const messageIds = resp.messageIds || [];
         callbacks.forEach((callback, i) => callback(null, messageIds[i]));
       }
     } catch (e) {
-      const err = e as ServiceError;
-      callbacks.forEach(callback => callback(err));
-
+      code = (e as ServiceError).code;
       throw e;
     } finally {
+      metrics.PubsubMetrics.recordPublish(
+        topic.name,
+        Date.now() - start,
+        messages.length,
+        bytes,
+        code,
+      );
       rpcSpan?.end();
       messages.forEach(m => {
         // We're finished with both the RPC and the whole publish operation,
@@ -211,6 +404,8 @@ export class Queue extends MessageQueue {
    * @param {PublishCallback} callback The publish callback.
    */
   add(message: PubsubMessage, callback: PublishCallback): void {
+    this.publisher.adaptiveBatching?.recordArrival(this.batch.messages.length);
+
     if (!this.batch.canFit(message)) {
       // Make a background best-effort attempt to clear out the
       // queue. If this fails, we'll basically just be overloaded
@@ -308,6 +503,7 @@ export class OrderedQueue extends MessageQueue {
   key: string;
   constructor(publisher: Publisher, key: string) {
     super(publisher);
+    this.spillable = false;
     this.batches = [];
     this.inFlight = false;
     this.key = key;
@@ -336,6 +532,10 @@ export class OrderedQueue extends MessageQueue {
    * @param {PublishCallback} callback The publish callback.
    */
   add(message: PubsubMessage, callback: PublishCallback): void {
+    this.publisher.adaptiveBatching?.recordArrival(
+      this.batches[0]?.messages.length,
+    );
+
     if (this.error) {
       callback(this.error);
       return;
@@ -0,0 +1,167 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {TokenBucket} from '../token-bucket';
+
+/*!
+ * How often to forget ordering keys that haven't been used recently.
+ */
+const SWEEP_INTERVAL_MS = 10000;
+
+/**
+ * @typedef RateLimit
+ * @property {number} [messagesPerSecond] The most messages to publish per
+ *     second.
+ * @property {number} [bytesPerSecond] The most bytes of messages to publish
+ *     per second.
+ */
+export interface RateLimit {
+  messagesPerSecond?: number;
+  bytesPerSecond?: number;
+}
+
+/**
+ * Rate limits for the `rateLimit` publish option. They're applied by
+ * {@link FlowControlledPublisher#publish} only.
+ *
+ * @typedef {RateLimit} RateLimitOptions
+ * @property {RateLimit} [perOrderingKey] Limits for each ordering key, on
+ *     top of the limits for the topic.
+ */
+export interface RateLimitOptions extends RateLimit {
+  perOrderingKey?: RateLimit;
+}
+
+/**
+ * The buckets for one rate limit.
+ *
+ * @private
+ */
+class Buckets {
+  messages?: TokenBucket;
+  bytes?: TokenBucket;
+
+  constructor({messagesPerSecond, bytesPerSecond}: RateLimit) {
+    if (messagesPerSecond !== undefined) {
+      this.messages = new TokenBucket(messagesPerSecond);
+    }
+    if (bytesPerSecond !== undefined) {
+      this.bytes = new TokenBucket(bytesPerSecond);
+    }
+  }
+
+  take(bytes: number): number {
+    return Math.max(this.messages?.take(1) ?? 0, this.bytes?.take(bytes) ?? 0);
+  }
+
+  isFull(): boolean {
+    return (this.messages?.isFull() ?? true) && (this.bytes?.isFull() ?? true);
+  }
+}
+
+interface OrderingKeyState {
+  buckets?: Buckets;
+  last?: Promise<void>;
+}
+
+/**
+ * Limits the rate that a publisher's messages are sent at, for the
+ * `rateLimit` publish option, with token buckets for the topic and for each
+ * ordering key.
+ *
+ * Each message takes its share of the rate when it's reserved, so messages
+ * go out in the order they were reserved. Messages with the same ordering
+ * key are always released in order.
+ *
+ * Do not use this class externally, it may change without warning.
+ * @private
+ *
+ * @param {RateLimitOptions} options The rate limits.
+ */
+export class RateLimiter {
+  options: RateLimitOptions;
+  private _topic: Buckets;
+  private _keys = new Map<string, OrderingKeyState>();
+  private _lastSweep = Date.now();
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+    this._topic = new Buckets(options);
+    if (options.perOrderingKey) {
+      // Making buckets checks the limits, so check the per-key ones now
+      // rather than when the first message is published.
+      new Buckets(options.perOrderingKey);
+    }
+  }
+
+  /**
+   * Reserves room in the rate for a message.
+   *
+   * @param {number} bytes The size of the message.
+   * @param {string} [orderingKey] The message's ordering key.
+   * @returns {Promise<void>|null} null if the message may be sent now, or a
+   *     Promise that resolves when it may be sent.
+   */
+  reserve(bytes: number, orderingKey?: string): Promise<void> | null {
+    let delay = this._topic.take(bytes);
+    if (!orderingKey) {
+      return delay ? sleep(delay) : null;
+    }
+
+    this._sweep();
+    const {perOrderingKey} = this.options;
+    let state = this._keys.get(orderingKey);
+    if (!state) {
+      state = perOrderingKey ? {buckets: new Buckets(perOrderingKey)} : {};
+      this._keys.set(orderingKey, state);
+    }
+    delay = Math.max(delay, state.buckets?.take(bytes) ?? 0);
+    if (!delay && !state.last) {
+      return null;
+    }
+
+    // Timers aren't exact, so wait for the key's previous message too.
+    const wait = Promise.all([state.last, sleep(delay)]).then(() => {});
+    const keyState = state;
+    keyState.last = wait;
+    void wait.then(() => {
+      if (keyState.last === wait) {
+        delete keyState.last;
+      }
+    });
+    return wait;
+  }
+
+  /**
+   * Forgets ordering keys whose buckets have filled up again, now and then.
+   *
+   * @private
+   */
+  private _sweep(): void {
+    const now = Date.now();
+    if (now - this._lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this._lastSweep = now;
+    for (const [key, state] of this._keys) {
+      if (!state.last && (state.buckets?.isFull() ?? true)) {
+        this._keys.delete(key);
+      }
+    }
+  }
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
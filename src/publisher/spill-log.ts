@@ -0,0 +1,586 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {ServiceError, Status} from 'google-gax';
+import {promises as fs} from 'fs';
+import * as path from 'path';
+
+import {Publisher, PublishCallback} from './';
+import {
+  Attributes,
+  PubsubMessage,
+  calculateMessageSize,
+} from './pubsub-message';
+import * as metrics from '../telemetry-metrics';
+import {JsonLinesLog} from '../json-lines-log';
+import {logs as baseLogs} from '../logs';
+
+/**
+ * Loggers. Exported for unit tests.
+ *
+ * @private
+ */
+export const logs = {
+  spill: baseLogs.pubsub.sublog('publish-spill'),
+};
+
+/*!
+ * The codes that Publish RPCs are retried for, which mean that the service
+ * may be unavailable for a while.
+ */
+const RETRYABLE_CODES = new Set<number>([
+  Status.ABORTED,
+  Status.CANCELLED,
+  Status.DEADLINE_EXCEEDED,
+  Status.INTERNAL,
+  Status.RESOURCE_EXHAUSTED,
+  Status.UNAVAILABLE,
+  Status.UNKNOWN,
+]);
+
+/*!
+ * Defaults for the spill log options.
+ */
+const DEFAULT_MAX_MESSAGES = 100000;
+const DEFAULT_MAX_BYTES = Math.pow(1024, 2) * 100;
+const DEFAULT_RETRY_INTERVAL_MS = 10000;
+
+/*!
+ * Numbers the logs of the publishers in this process, which each have their
+ * own file.
+ */
+let instances = 0;
+
+/**
+ * @typedef {object} SpillOptions
+ * @property {string} directory The directory to keep spill logs in. It's
+ *     created if need be. Each publisher has its own log, and picks up the
+ *     logs that processes that have exited left for its topic. Use a
+ *     different directory for each project, and don't share it between
+ *     hosts, as processes are told apart by their process IDs.
+ * @property {number} [failureThreshold=1] How many Publish RPCs in a row
+ *     must fail with a retryable error (after the usual retries) before
+ *     messages are spilled. Failures before that are reported as usual.
+ * @property {number} [maxMessages=100000] The most messages to keep in the
+ *     log. Messages that don't fit fail as if there was no log.
+ * @property {number} [maxBytes=104857600] The most message data to keep in
+ *     the log, in bytes.
+ * @property {number} [retryInterval=10000] How long to wait, in
+ *     milliseconds, between attempts to publish the spilled messages.
+ */
+export interface SpillOptions {
+  directory: string;
+  failureThreshold?: number;
+  maxMessages?: number;
+  maxBytes?: number;
+  retryInterval?: number;
+}
+
+/**
+ * A line in the log: either a spilled message, or the sequence number of the
+ * last message that was published.
+ *
+ * @private
+ */
+interface SpillRecord {
+  seq?: number;
+  data?: string;
+  attributes?: Attributes;
+  orderingKey?: string;
+  sent?: number;
+}
+
+interface SpilledMessage {
+  seq: number;
+  message: PubsubMessage;
+  bytes: number;
+  callback: PublishCallback;
+  flowControlled?: boolean;
+}
+
+/**
+ * Keeps messages on disk while Publish RPCs are failing, and publishes them
+ * again, in order, once they succeed.
+ *
+ * While the log has messages in it, every unordered batch the publisher sends
+ * is added to it instead, so that nothing overtakes the spilled messages.
+ * Messages left in logs for the same topic by earlier processes are moved
+ * into this log and published when the publisher is created; they have no
+ * callbacks to resolve.
+ *
+ * @private
+ *
+ * @param {Publisher} publisher The publisher.
+ * @param {SpillOptions} options The spill options.
+ */
+export class SpillLog {
+  publisher: Publisher;
+  options: SpillOptions;
+
+  /**
+   * Resolves once the messages left by an earlier process have been read.
+   * Batches are added to the log until then, to keep them behind those.
+   *
+   * @type {Promise<void>}
+   */
+  loaded: Promise<void>;
+  private _instance = instances++;
+  private _entries: SpilledMessage[] = [];
+  private _bytes = 0;
+  private _nextSeq = 0;
+  private _failures = 0;
+  private _loading = true;
+  private _log = new JsonLinesLog<SpillRecord>(() => this.file);
+  private _replaying = false;
+  private _timer?: NodeJS.Timeout;
+
+  constructor(publisher: Publisher, options: SpillOptions) {
+    this.publisher = publisher;
+    this.options = options;
+    this.loaded = this._log.serialize(() => this._load());
+    void this.loaded.then(() => {
+      this._loading = false;
+      if (this._entries.length) {
+        void this._replay();
+      }
+    });
+  }
+
+  /**
+   * The log's file, named for the topic, the process and the publisher.
+   * Topic IDs can't have an `@` in them, so it separates the topic's part.
+   *
+   * @type {string}
+   */
+  get file(): string {
+    return path.join(
+      this.options.directory,
+      `${this._topicId}@${process.pid}.${this._instance}.spill`,
+    );
+  }
+
+  private get _topicId(): string {
+    return this.publisher.topic.name.split('/').pop()!;
+  }
+
+  /**
+   * The number of messages in the log.
+   *
+   * @type {number}
+   */
+  get length(): number {
+    return this._entries.length;
+  }
+
+  /**
+   * The size of the message data in the log, in bytes.
+   *
+   * @type {number}
+   */
+  get bytes(): number {
+    return this._bytes;
+  }
+
+  /**
+   * Returns true if batches should go into the log, behind the messages that
+   * are already in it.
+   */
+  isActive(): boolean {
+    return this._loading || this._entries.length > 0;
+  }
+
+  /**
+   * Counts a failed Publish RPC, and returns true if its messages should be
+   * spilled.
+   */
+  shouldSpill(err: ServiceError): boolean {
+    if (!RETRYABLE_CODES.has(err.code!)) {
+      return false;
+    }
+    const {failureThreshold = 1} = this.options;
+    return ++this._failures >= failureThreshold;
+  }
+
+  /**
+   * Resets the count of failed Publish RPCs.
+   */
+  recordSuccess(): void {
+    this._failures = 0;
+  }
+
+  /**
+   * Adds messages to the log. Their callbacks are called once they're
+   * published.
+   *
+   * @param {PubsubMessage[]} messages The messages.
+   * @param {PublishCallback[]} callbacks Their callbacks.
+   * @param {boolean} [flowControlled=false] Set when the messages were
+   *     spilled because flow control is full. Publishing works, so the log
+   *     is published without waiting for the retry interval (unless a failed
+   *     publish is waiting to be retried), but these messages wait for room
+   *     in flow control, and count against it while they're published.
+   * @returns {boolean} False if the messages don't fit.
+   */
+  add(
+    messages: PubsubMessage[],
+    callbacks: PublishCallback[],
+    flowControlled = false,
+  ): boolean {
+    const {maxMessages = DEFAULT_MAX_MESSAGES, maxBytes = DEFAULT_MAX_BYTES} =
+      this.options;
+    const sizes = messages.map(m => (m.data ? m.data.length : 0));
+    const bytes = sizes.reduce((total, size) => total + size, 0);
+    if (
+      this._entries.length + messages.length > maxMessages ||
+      this._bytes + bytes > maxBytes
+    ) {
+      metrics.PubsubMetrics.recordSpillDropped(
+        this.publisher.topic.name,
+        messages.length,
+      );
+      return false;
+    }
+
+    const entries = messages.map((message, i) => ({
+      seq: this._nextSeq++,
+      message,
+      bytes: sizes[i],
+      callback: callbacks[i],
+      flowControlled,
+    }));
+    this._entries.push(...entries);
+    this._bytes += bytes;
+    metrics.PubsubMetrics.recordSpill(
+      this.publisher.topic.name,
+      messages.length,
+      bytes,
+    );
+
+    // The records are made when they're written, as messages that are added
+    // while the log is loading are numbered after the loaded ones.
+    this._write(() => entries.map(toRecord));
+
+    if (!this._replaying && !this._timer) {
+      if (flowControlled) {
+        void this._replay();
+      } else {
+        this._scheduleReplay();
+      }
+    }
+    return true;
+  }
+
+  private _scheduleReplay(): void {
+    const {retryInterval = DEFAULT_RETRY_INTERVAL_MS} = this.options;
+    this._timer = setTimeout(() => {
+      delete this._timer;
+      void this._replay();
+    }, retryInterval);
+    this._timer.unref();
+  }
+
+  /**
+   * Publishes the log a batch at a time, until it's empty or a publish
+   * fails with a retryable error. Batches that fail with other errors are
+   * dropped from the log, and their callbacks get the error.
+   *
+   * Messages that were spilled because flow control was full wait for room
+   * in it, and are counted against it while they're published.
+   *
+   * @private
+   */
+  private async _replay(): Promise<void> {
+    if (this._replaying) {
+      return;
+    }
+    this._replaying = true;
+    try {
+      await this.loaded;
+      const {flowControl} = this.publisher;
+      const {maxMessages, maxBytes} = this.publisher.settings.batching!;
+      while (this._entries.length) {
+        const [first] = this._entries;
+        if (first.flowControlled) {
+          await this._waitForRoom(calculateMessageSize(first.message));
+        }
+
+        let bytes = 0;
+        let count = 0;
+        let heldBytes = 0;
+        let heldCount = 0;
+        while (count < this._entries.length) {
+          const entry = this._entries[count];
+          const size = entry.flowControlled
+            ? calculateMessageSize(entry.message)
+            : 0;
+          if (
+            count > 0 &&
+            (count >= maxMessages! ||
+              bytes + entry.bytes > maxBytes! ||
+              (entry.flowControlled &&
+                flowControl.wouldExceed(heldBytes + size, heldCount + 1)))
+          ) {
+            break;
+          }
+          bytes += entry.bytes;
+          count++;
+          if (entry.flowControlled) {
+            heldBytes += size;
+            heldCount++;
+          }
+        }
+        const batch = this._entries.slice(0, count);
+
+        flowControl.addToCount(heldBytes, heldCount);
+        try {
+          await this.publisher.queue._send(
+            batch.map(e => e.message),
+            batch.map(e => e.callback),
+            bytes,
+            'spill replay',
+          );
+        } catch (e) {
+          const err = e as ServiceError;
+          logs.spill.warn(
+            'Failed to publish %i spilled messages: %s',
+            count,
+            err.message,
+          );
+          if (RETRYABLE_CODES.has(err.code!)) {
+            this._scheduleReplay();
+            return;
+          }
+          this._remove(batch, bytes);
+          batch.forEach(e => e.callback(err));
+          continue;
+        } finally {
+          if (heldCount) {
+            flowControl.sent(heldBytes, heldCount);
+          }
+        }
+
+        this.recordSuccess();
+        this._remove(batch, bytes);
+      }
+    } finally {
+      this._replaying = false;
+    }
+  }
+
+  /**
+   * Waits for room in flow control for a message that was spilled because
+   * it was full. The messages holding the room may be in the log too, behind
+   * this one, so this only waits for the retry interval.
+   *
+   * @private
+   */
+  private async _waitForRoom(size: number): Promise<void> {
+    const {flowControl} = this.publisher;
+    const {retryInterval = DEFAULT_RETRY_INTERVAL_MS} = this.options;
+    let waiting = true;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        waiting = false;
+        resolve();
+      }, retryInterval);
+      timer.unref();
+    });
+    try {
+      while (waiting && flowControl.wouldExceed(size, 1)) {
+        await Promise.race([flowControl.whenSent(), timeout]);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Removes a batch from the head of the log.
+   *
+   * @private
+   */
+  private _remove(batch: SpilledMessage[], bytes: number): void {
+    const count = batch.length;
+    this._entries.splice(0, count);
+    this._bytes -= bytes;
+    metrics.PubsubMetrics.recordSpill(
+      this.publisher.topic.name,
+      -count,
+      -bytes,
+    );
+    const sent = batch[count - 1].seq;
+    if (this._entries.length) {
+      this._write(() => [{sent}]);
+    } else {
+      this._unlink();
+    }
+  }
+
+  /**
+   * Queues a write to the log, synced to disk. The messages are still
+   * published if it fails, but won't survive a restart.
+   *
+   * @private
+   */
+  private _write(records: () => SpillRecord[]): void {
+    void this._log
+      .serialize(() => this._log.append(records()))
+      .catch(err => logs.spill.warn('Failed to write the spill log: %s', err));
+  }
+
+  /**
+   * Queues removing the log's file, once everything in it is published.
+   *
+   * @private
+   */
+  private _unlink(): void {
+    void this._log
+      .serialize(() => fs.unlink(this.file))
+      .catch(err => {
+        if (err.code !== 'ENOENT') {
+          logs.spill.warn('Failed to remove the spill log: %s', err);
+        }
+      });
+  }
+
+  /**
+   * Finds the logs for this topic whose process has exited.
+   *
+   * @private
+   */
+  private async _orphans(): Promise<string[]> {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.options.directory);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logs.spill.warn('Failed to read the spill directory: %s', e);
+      }
+    }
+
+    const id = this._topicId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^${id}@(\\d+)\\.[\\d.]+\\.spill$`);
+    return names.sort().filter(name => {
+      const match = pattern.exec(name);
+      return match && !isRunning(Number(match[1]));
+    });
+  }
+
+  /**
+   * Moves the messages left in orphaned logs into this one. They go ahead of
+   * any that were added in the meantime.
+   *
+   * Each orphaned log is claimed by renaming it, so that only one publisher
+   * picks it up. Claimed logs keep this process's ID, so that they're picked
+   * up again if it exits before they're moved.
+   *
+   * @private
+   */
+  private async _load(): Promise<void> {
+    const claimed: string[] = [];
+    const loaded: SpilledMessage[] = [];
+    for (const name of await this._orphans()) {
+      const file = path.join(
+        this.options.directory,
+        `${this._topicId}@${process.pid}.${this._instance}.${claimed.length}.spill`,
+      );
+      try {
+        await fs.rename(path.join(this.options.directory, name), file);
+        loaded.push(...fromRecords(await this._log.read(file)));
+        claimed.push(file);
+      } catch (e) {
+        // Another publisher got to it first.
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logs.spill.warn('Failed to read the spill log %s: %s', name, e);
+        }
+      }
+    }
+
+    // Number the messages that were added in the meantime after the old
+    // ones.
+    loaded.forEach((e, i) => (e.seq = i));
+    this._nextSeq = loaded.length;
+    this._entries.forEach(e => (e.seq = this._nextSeq++));
+
+    if (loaded.length) {
+      this._entries.unshift(...loaded);
+      const bytes = loaded.reduce((total, e) => total + e.bytes, 0);
+      this._bytes += bytes;
+      metrics.PubsubMetrics.recordSpill(
+        this.publisher.topic.name,
+        loaded.length,
+        bytes,
+      );
+      try {
+        await this._log.append(loaded.map(toRecord));
+      } catch (e) {
+        logs.spill.warn('Failed to write the spill log: %s', e);
+        return;
+      }
+    }
+    await Promise.all(claimed.map(file => fs.unlink(file).catch(() => {})));
+  }
+}
+
+/**
+ * Returns true if a process with the given ID is running.
+ *
+ * @private
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function toRecord({seq, message}: SpilledMessage): SpillRecord {
+  return {
+    seq,
+    data: Buffer.from(message.data ?? []).toString('base64'),
+    attributes: message.attributes ?? undefined,
+    orderingKey: message.orderingKey || undefined,
+  };
+}
+
+/**
+ * Reads the unsent messages from a log's records, in order.
+ *
+ * @private
+ */
+function fromRecords(records: SpillRecord[]): SpilledMessage[] {
+  const loaded = new Map<number, SpilledMessage>();
+  let sent = -1;
+  for (const record of records) {
+    if (record.sent !== undefined) {
+      sent = Math.max(sent, record.sent);
+    } else if (record.seq !== undefined) {
+      const data = Buffer.from(record.data ?? '', 'base64');
+      loaded.set(record.seq, {
+        seq: record.seq,
+        message: {
+          data,
+          attributes: record.attributes,
+          orderingKey: record.orderingKey,
+        },
+        bytes: data.length,
+        callback: () => {},
+      });
+    }
+  }
+  return [...loaded.values()].filter(e => e.seq > sent);
+}
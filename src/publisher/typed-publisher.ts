@@ -0,0 +1,184 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {PubsubMessage} from './pubsub-message';
+import {Encodings, SchemaEncoding, SchemaType, SchemaViews} from '../schema';
+import {createSchemaCodec, SchemaCodec} from '../schema-codec';
+import {Topic} from '../topic';
+
+/*!
+ * The schema name the service reports for topics whose schema was deleted.
+ */
+const DELETED_SCHEMA = '_deleted-schema_';
+
+/**
+ * The schema that a topic's messages are encoded with.
+ *
+ * @typedef {object} TopicSchema
+ * @property {string} name The schema's name.
+ * @property {string} revisionId The revision messages are encoded with.
+ * @property {SchemaType} type The schema type.
+ * @property {string} definition The schema definition.
+ * @property {SchemaEncoding} encoding The topic's message encoding.
+ */
+export interface TopicSchema {
+  name: string;
+  revisionId: string;
+  type: SchemaType;
+  definition: string;
+  encoding: SchemaEncoding;
+}
+
+/**
+ * A message for {@link TypedPublisher#publishMessage}: the same as for
+ * {@link Topic#publishMessage}, but with a `value` to encode instead of
+ * `data`.
+ */
+export type TypedMessage<T> = Omit<PubsubMessage, 'data'> & {value: T};
+
+interface LoadedSchema<T> {
+  schema: TopicSchema;
+  codec: SchemaCodec<T>;
+}
+
+/**
+ * Publishes objects to a topic that has a schema, encoding them locally with
+ * the topic's schema and encoding. Values are checked against the schema
+ * before they're queued, so mistakes are found without a round trip to the
+ * service.
+ *
+ * The schema is fetched the first time it's needed and then cached. If the
+ * topic's schema settings are changed, call {@link TypedPublisher#refresh}.
+ * If the topic limits the revisions it accepts, the last of those is used;
+ * otherwise it's the schema's latest revision.
+ *
+ * This should be created with {@link Topic#withSchema}.
+ *
+ * @class
+ *
+ * @param {Topic} topic The topic to publish to.
+ */
+export class TypedPublisher<T = unknown> {
+  topic: Topic;
+  private _loaded?: Promise<LoadedSchema<T>>;
+
+  constructor(topic: Topic) {
+    this.topic = topic;
+  }
+
+  /**
+   * Gets the schema that messages are encoded with.
+   *
+   * @returns {Promise<TopicSchema>}
+   */
+  async getSchema(): Promise<TopicSchema> {
+    const {schema} = await this._load();
+    return schema;
+  }
+
+  /**
+   * Forgets the cached schema, so that it's fetched again.
+   */
+  refresh(): void {
+    delete this._loaded;
+  }
+
+  /**
+   * Checks a value against the topic's schema and encodes it.
+   *
+   * @throws {TypeError} If the value doesn't match the schema.
+   *
+   * @param {*} value The value to encode.
+   * @returns {Promise<Buffer>}
+   */
+  async encode(value: T): Promise<Buffer> {
+    const {schema, codec} = await this._load();
+    const reason = codec.verify(value);
+    if (reason) {
+      throw new TypeError(
+        `The message does not match schema ${schema.name}: ${reason}`,
+      );
+    }
+    return codec.encode(value, schema.encoding);
+  }
+
+  /**
+   * Encodes a value and publishes it.
+   *
+   * @throws {TypeError} If the value doesn't match the schema.
+   *
+   * @param {TypedMessage} message The message to publish.
+   * @returns {Promise<string>} Resolves with the message ID.
+   *
+   * @example
+   * ```
+   * interface Province {
+   *   name: string;
+   *   post_abbr: string;
+   * }
+   *
+   * const publisher = pubsub.topic('provinces').withSchema<Province>();
+   * const messageId = await publisher.publishMessage({
+   *   value: {name: 'Ontario', post_abbr: 'ON'},
+   * });
+   * ```
+   */
+  async publishMessage(message: TypedMessage<T>): Promise<string> {
+    const {value, ...rest} = message;
+    const data = await this.encode(value);
+    return this.topic.publishMessage({...rest, data});
+  }
+
+  private _load(): Promise<LoadedSchema<T>> {
+    if (!this._loaded) {
+      this._loaded = this._fetch();
+      // Let a failed fetch be tried again.
+      this._loaded.catch(() => this.refresh());
+    }
+    return this._loaded;
+  }
+
+  private async _fetch(): Promise<LoadedSchema<T>> {
+    const [metadata] = await this.topic.getMetadata();
+    const settings = metadata.schemaSettings;
+    if (!settings?.schema) {
+      throw new Error(`Topic ${this.topic.name} does not have a schema.`);
+    }
+    if (settings.schema === DELETED_SCHEMA) {
+      throw new Error(`The schema of topic ${this.topic.name} was deleted.`);
+    }
+
+    const client = await this.topic.pubsub.getSchemaClient();
+    const revision = settings.lastRevisionId;
+    const [found] = await client.getSchema({
+      name: revision ? `${settings.schema}@${revision}` : settings.schema,
+      view: SchemaViews.Full,
+    });
+
+    const schema: TopicSchema = {
+      name: settings.schema,
+      revisionId: found.revisionId!,
+      type: found.type as SchemaType,
+      definition: found.definition!,
+      encoding:
+        settings.encoding === Encodings.Binary
+          ? Encodings.Binary
+          : Encodings.Json,
+    };
+    return {
+      schema,
+      codec: createSchemaCodec<T>(schema.type, schema.definition),
+    };
+  }
+}
@@ -58,7 +58,10 @@ import {CallOptions} from 'google-gax';
 import {Transform} from 'stream';
 import {google} from '../protos/protos';
 import {SchemaServiceClient} from './v1';
+import {MemoryBackend} from './memory';
+import {MemoryClients} from './memory/clients';
 import * as tracing from './telemetry-tracing';
+import * as metrics from './telemetry-metrics';
 
 /**
  * Project ID placeholder.
@@ -67,6 +70,13 @@ import * as tracing from './telemetry-tracing';
  */
 const PROJECT_ID_PLACEHOLDER = '{{projectId}}';
 
+/**
+ * Project ID used with the in-memory backend when none is given.
+ * @type {string}
+ * @private
+ */
+const MEMORY_PROJECT_ID = 'memory-project';
+
 export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
 
 export interface ClientConfig extends gax.GrpcClientOptions {
@@ -95,6 +105,21 @@ export interface ClientConfig extends gax.GrpcClientOptions {
    * defaults to false/undefined
    */
   enableOpenTelemetryTracing?: boolean;
+
+  /**
+   * Enables OpenTelemetry metrics for publisher and subscriber internals,
+   * recorded through the global meter provider. This defaults to
+   * false/undefined.
+   */
+  enableOpenTelemetryMetrics?: boolean;
+
+  /**
+   * Serve all requests from an in-process fake of the service, for tests.
+   * Pass 'memory' for a backend private to this PubSub object, or a
+   * {@link MemoryBackend} to share one between several. No credentials or
+   * project ID are needed.
+   */
+  backend?: 'memory' | MemoryBackend;
 }
 
 export interface PageOptions {
@@ -237,6 +262,11 @@ interface GetClientCallback {
  *     We will exponentially backoff subsequent requests by default.
  * @property {Constructor} [promise] Custom promise module to use instead of
  *     native Promises.
+ * @property {boolean} [enableOpenTelemetryMetrics] Record OpenTelemetry
+ *     metrics such as publish latency, lease counts and ack errors.
+ * @property {string|MemoryBackend} [backend] Set to 'memory' (or pass a
+ *     {@link MemoryBackend}) to use an in-process fake of the service, for
+ *     tests.
  */
 /**
  * [Cloud Pub/Sub](https://developers.google.com/pubsub/overview) is a
@@ -290,6 +320,7 @@ export class PubSub {
     'getTopics',
   ) as () => ObjectStream<Topic>;
   isOpen = true;
+  memoryBackend?: MemoryBackend;
 
   private schemaClient?: SchemaServiceClient;
 
@@ -327,6 +358,9 @@ export class PubSub {
     if (this.options.enableOpenTelemetryTracing) {
       tracing.setGloballyEnabled(true);
     }
+    if (this.options.enableOpenTelemetryMetrics) {
+      metrics.setGloballyEnabled(true);
+    }
 
     /**
      * @name PubSub#isEmulator
@@ -336,7 +370,17 @@ export class PubSub {
     this.determineBaseUrl_();
     this.api = {};
     this.auth = new GoogleAuth(this.options);
-    this.projectId = this.options.projectId || PROJECT_ID_PLACEHOLDER;
+
+    if (this.options.backend) {
+      this.memoryBackend =
+        this.options.backend === 'memory'
+          ? new MemoryBackend()
+          : this.options.backend;
+    }
+
+    this.projectId =
+      this.options.projectId ||
+      (this.memoryBackend ? MEMORY_PROJECT_ID : PROJECT_ID_PLACEHOLDER);
     if (this.projectId !== PROJECT_ID_PLACEHOLDER) {
       this.name = PubSub.formatName_(this.projectId);
     }
@@ -481,6 +525,9 @@ export class PubSub {
    * @property {number} [flowControl.maxMessages=Infinity] The maximum number
    *     of un-acked messages to allow before the subscription pauses incoming
    *     messages.
+   * @property {number} [flowControl.maxMessagesPerSecond] The most messages
+   *     to emit per second. Messages beyond that are held, and kept leased,
+   *     until it's their turn.
    * @property {object} [gaxOpts] Request configuration options, outlined
    *     here: https://googleapis.github.io/gax-nodejs/interfaces/CallOptions.html.
    * @property {number|google.protobuf.Duration} [messageRetentionDuration] Set
@@ -1263,7 +1310,11 @@ export class PubSub {
   async getSchemaClient(): Promise<SchemaServiceClient> {
     if (!this.schemaClient) {
       const options = await this.getClientConfig();
-      this.schemaClient = new v1.SchemaServiceClient(options);
+      this.schemaClient = this.memoryBackend
+        ? (new MemoryClients.SchemaServiceClient(
+            this.memoryBackend,
+          ) as SchemaServiceClient)
+        : new v1.SchemaServiceClient(options);
     }
 
     return this.schemaClient!;
@@ -1313,7 +1364,11 @@ export class PubSub {
 
     if (!gaxClient) {
       // Lazily instantiate client.
-      gaxClient = new v1[config.client](options) as gax.ClientStub;
+      gaxClient = (
+        this.memoryBackend
+          ? new MemoryClients[config.client](this.memoryBackend)
+          : new v1[config.client](options)
+      ) as gax.ClientStub;
       this.api[config.client] = gaxClient;
     }
 
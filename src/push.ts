@@ -0,0 +1,625 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {PreciseDate} from '@google-cloud/precise-date';
+import {EventEmitter} from 'events';
+import {OAuth2Client} from 'google-auth-library';
+import * as http from 'http';
+
+import {CloudEvent, messageToCloudEvent} from './cloudevents';
+import {DebugMessage} from './debug';
+import {Attributes} from './publisher/pubsub-message';
+
+/*!
+ * Push responses. Pub/Sub treats 102, 200, 201, 202 and 204 as acks, and
+ * anything else as a nack.
+ */
+const STATUS = {
+  ack: 204,
+  nack: 500,
+  badRequest: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  tooLarge: 413,
+};
+
+/*!
+ * The largest request body read from a stream by default. Wrapped messages
+ * hold the (up to 10 MB) payload base64-encoded, so this leaves room for that.
+ */
+const DEFAULT_MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+/*!
+ * The headers that hold metadata for unwrapped push messages.
+ */
+const METADATA_HEADER_PREFIX = 'x-goog-pubsub-';
+
+/*!
+ * Headers that aren't message attributes, for unwrapped push messages.
+ */
+const STANDARD_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'authorization',
+  'connection',
+  'content-length',
+  'content-type',
+  'forwarded',
+  'from',
+  'host',
+  'traceparent',
+  'transfer-encoding',
+  'user-agent',
+  'via',
+  'x-cloud-trace-context',
+  'x-forwarded-for',
+  'x-forwarded-proto',
+]);
+
+export type PushHeaders = {[name: string]: string | string[] | undefined};
+
+/**
+ * A push request, as received by a push endpoint.
+ *
+ * @typedef {object} PushRequest
+ * @property {object} headers The request headers, with lower-case names.
+ * @property {Buffer|string|object} [body] The request body, either raw or
+ *     already parsed as JSON.
+ */
+export interface PushRequest {
+  headers: PushHeaders;
+  body?: Buffer | string | object;
+}
+
+/**
+ * The response to send for a push request.
+ *
+ * @typedef {object} PushResponse
+ * @property {number} status The HTTP status code.
+ * @property {string} [body] The response body.
+ */
+export interface PushResponse {
+  status: number;
+  body?: string;
+}
+
+/**
+ * A message delivered to a push endpoint. It has the same properties as a
+ * pulled {@link Message}, along with the subscription it was pushed for.
+ *
+ * Resolving the handler acks the message, while throwing an error (or
+ * calling `nack()`) nacks it, so that Pub/Sub redelivers it.
+ *
+ * @class
+ */
+export class PushMessage {
+  attributes: Attributes;
+  data: Buffer;
+  deliveryAttempt: number;
+  id: string;
+  orderingKey?: string;
+  publishTime: PreciseDate;
+  received: number;
+  subscription?: string;
+  private _nacked = false;
+
+  constructor(fields: {
+    attributes?: Attributes;
+    data: Buffer;
+    deliveryAttempt?: number;
+    id?: string;
+    orderingKey?: string;
+    publishTime?: string;
+    subscription?: string;
+  }) {
+    this.attributes = fields.attributes ?? {};
+    this.data = fields.data;
+    this.deliveryAttempt = fields.deliveryAttempt ?? 0;
+    this.id = fields.id ?? '';
+    this.orderingKey = fields.orderingKey || undefined;
+    this.publishTime = fields.publishTime
+      ? new PreciseDate(fields.publishTime)
+      : new PreciseDate();
+    this.received = Date.now();
+    this.subscription = fields.subscription;
+  }
+
+  /**
+   * The length of the message data.
+   *
+   * @type {number}
+   */
+  get length(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Whether `nack()` has been called.
+   *
+   * @type {boolean}
+   */
+  get nacked(): boolean {
+    return this._nacked;
+  }
+
+  /**
+   * Reconstructs the CloudEvent the message carries, as with
+   * {@link Message#toCloudEvent}.
+   *
+   * @throws {TypeError} If the message doesn't carry a CloudEvent.
+   *
+   * @returns {CloudEvent}
+   */
+  toCloudEvent(): CloudEvent {
+    return messageToCloudEvent(this);
+  }
+
+  /**
+   * Acks the message. This is the default when the handler resolves, so it's
+   * only needed for symmetry with pulled messages.
+   */
+  ack(): void {
+    this._nacked = false;
+  }
+
+  /**
+   * Nacks the message, so that Pub/Sub redelivers it once the handler is
+   * done.
+   */
+  nack(): void {
+    this._nacked = true;
+  }
+}
+
+/**
+ * Handles a push message. Resolving acks the message; rejecting nacks it.
+ *
+ * @callback PushMessageHandler
+ * @param {PushMessage} message The message.
+ * @returns {Promise<void>|void}
+ */
+export type PushMessageHandler = (message: PushMessage) => Promise<void> | void;
+
+/**
+ * Options for {@link PushHandler}.
+ *
+ * @typedef {object} PushHandlerOptions
+ * @property {object|false} oidc How the OIDC token that Pub/Sub sends
+ *     with each push (see the push config's `oidcToken`) is verified. This
+ *     is required: set it to `false` to accept unauthenticated pushes.
+ * @property {string|string[]} oidc.audience The audience the token must
+ *     be for: the push config's `oidcToken.audience`, or the push endpoint's
+ *     URL if that wasn't set.
+ * @property {string} [oidc.serviceAccountEmail] The service account the
+ *     token must be for.
+ * @property {OAuth2Client} [oidc.client] The client that verifies tokens.
+ * @property {string} [subscription] The full name of the subscription that
+ *     pushes are expected for; others are rejected. This is only known for
+ *     wrapped messages, or unwrapped ones with metadata.
+ * @property {boolean} [noWrapper] Set when the push subscription delivers
+ *     unwrapped payloads (the push config's `noWrapper` option). The data is
+ *     the request body, and the attributes are read from the headers. With
+ *     `writeMetadata`, so are the message ID, publish time and ordering key.
+ *     Standard HTTP headers aren't treated as attributes.
+ * @property {number} [maxBodyBytes=16777216] The largest request body that's
+ *     read from the request stream. Larger requests are rejected with a 413
+ *     as soon as they pass the limit, and their connection is closed.
+ */
+export interface PushHandlerOptions {
+  oidc:
+    | {
+        audience: string | string[];
+        serviceAccountEmail?: string;
+        client?: OAuth2Client;
+      }
+    | false;
+  subscription?: string;
+  noWrapper?: boolean;
+  maxBodyBytes?: number;
+}
+
+/**
+ * An error that rejects a push request with a given status.
+ */
+class PushRequestError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function header(headers: PushHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function rawBody(body: PushRequest['body']): Buffer {
+  if (body === undefined) {
+    return Buffer.alloc(0);
+  }
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  return Buffer.from(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+interface PushEnvelope {
+  message?: {
+    attributes?: Attributes;
+    data?: string;
+    messageId?: string;
+    message_id?: string;
+    orderingKey?: string;
+    publishTime?: string;
+    publish_time?: string;
+  };
+  subscription?: string;
+  deliveryAttempt?: number;
+}
+
+function parseEnvelope(body: PushRequest['body']): PushMessage {
+  let envelope: PushEnvelope;
+  try {
+    envelope =
+      body && typeof body === 'object' && !Buffer.isBuffer(body)
+        ? (body as PushEnvelope)
+        : JSON.parse(rawBody(body).toString());
+  } catch (e) {
+    throw new PushRequestError(STATUS.badRequest, 'The body is not JSON.');
+  }
+
+  const {message, subscription, deliveryAttempt} = envelope ?? {};
+  if (!message || typeof message !== 'object') {
+    throw new PushRequestError(
+      STATUS.badRequest,
+      'The body is not a push message.',
+    );
+  }
+  return new PushMessage({
+    attributes: message.attributes,
+    data: Buffer.from(message.data ?? '', 'base64'),
+    deliveryAttempt,
+    id: message.messageId ?? message.message_id,
+    orderingKey: message.orderingKey,
+    publishTime: message.publishTime ?? message.publish_time,
+    subscription,
+  });
+}
+
+function parseUnwrapped(request: PushRequest): PushMessage {
+  // The content type of a binary CloudEvent is one of its attributes.
+  const isCloudEvent = header(request.headers, 'ce-specversion') !== undefined;
+  const attributes: Attributes = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (
+      value !== undefined &&
+      !name.startsWith(METADATA_HEADER_PREFIX) &&
+      (!STANDARD_HEADERS.has(name) || (isCloudEvent && name === 'content-type'))
+    ) {
+      attributes[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  const metadata = (name: string) =>
+    header(request.headers, `${METADATA_HEADER_PREFIX}${name}`);
+  const deliveryAttempt = metadata('delivery-attempt');
+  return new PushMessage({
+    attributes,
+    data: rawBody(request.body),
+    deliveryAttempt: deliveryAttempt ? Number(deliveryAttempt) : undefined,
+    id: metadata('message-id'),
+    orderingKey: metadata('ordering-key'),
+    publishTime: metadata('publish-time'),
+    subscription: metadata('subscription-name'),
+  });
+}
+
+/**
+ * Receives messages at a push endpoint. Requests are checked for a valid
+ * OIDC token, parsed into {@link PushMessage}s and passed to the handler, and
+ * the handler's outcome is turned into a response that acks or nacks the
+ * message.
+ *
+ * This isn't tied to a web framework: {@link PushHandler#handle} takes a
+ * request's headers and body, and there are adapters for `http` servers,
+ * Express and Fastify.
+ *
+ * Rejected requests and handler errors are emitted as 'debug' events.
+ *
+ * @class
+ *
+ * @param {PushMessageHandler} handler Handles each message.
+ * @param {PushHandlerOptions} options Handler options.
+ *
+ * @example
+ * ```
+ * const {PushHandler} = require('@google-cloud/pubsub');
+ *
+ * const push = new PushHandler(
+ *   async message => {
+ *     console.log(message.id, message.data.toString());
+ *   },
+ *   {
+ *     oidc: {
+ *       audience: 'https://example.com/push',
+ *       serviceAccountEmail: 'pusher@my-project.iam.gserviceaccount.com',
+ *     },
+ *   },
+ * );
+ *
+ * http.createServer(push.listener()).listen(8080);
+ * // or: app.post('/push', express.json(), push.express());
+ * // or: fastify.post('/push', push.fastify());
+ * ```
+ */
+export class PushHandler extends EventEmitter {
+  handler: PushMessageHandler;
+  options: PushHandlerOptions;
+  private _client?: OAuth2Client;
+
+  constructor(handler: PushMessageHandler, options: PushHandlerOptions) {
+    super();
+    const oidc = options?.oidc;
+    if (oidc !== false && !oidc?.audience) {
+      throw new Error(
+        'An OIDC audience is required to verify pushes. Set `oidc: false` to accept unauthenticated pushes.',
+      );
+    }
+    this.handler = handler;
+    this.options = options;
+  }
+
+  /**
+   * Handles a push request.
+   *
+   * @param {PushRequest} request The request.
+   * @returns {Promise<PushResponse>}
+   */
+  async handle(request: PushRequest): Promise<PushResponse> {
+    try {
+      await this._verify(request.headers);
+    } catch (e) {
+      return this._reject(e as PushRequestError);
+    }
+    return this._handle(request);
+  }
+
+  /**
+   * Handles a push request whose token has been verified.
+   */
+  private async _handle(request: PushRequest): Promise<PushResponse> {
+    let message: PushMessage;
+    try {
+      message = this.options.noWrapper
+        ? parseUnwrapped(request)
+        : parseEnvelope(request.body);
+      const {subscription} = this.options;
+      if (
+        subscription &&
+        message.subscription &&
+        message.subscription !== subscription
+      ) {
+        throw new PushRequestError(
+          STATUS.badRequest,
+          `Unexpected subscription: ${message.subscription}`,
+        );
+      }
+    } catch (e) {
+      return this._reject(e as PushRequestError);
+    }
+
+    try {
+      await this.handler(message);
+    } catch (e) {
+      this.emit(
+        'debug',
+        new DebugMessage(`error handling message ${message.id}`, e as Error),
+      );
+      return {status: STATUS.nack};
+    }
+    return {status: message.nacked ? STATUS.nack : STATUS.ack};
+  }
+
+  private _reject(error: PushRequestError): PushResponse {
+    this.emit('debug', new DebugMessage('rejected push request', error));
+    return {status: error.status ?? STATUS.badRequest, body: error.message};
+  }
+
+  /**
+   * Returns a request listener for `http.createServer()`.
+   *
+   * @returns {function}
+   */
+  listener(): (req: http.IncomingMessage, res: http.ServerResponse) => void {
+    return (req, res) => {
+      this._fromStream(req, res)
+        .then(response => {
+          res.statusCode = response.status;
+          res.end(response.body);
+        })
+        .catch(() => {
+          res.statusCode = STATUS.nack;
+          res.end();
+        });
+    };
+  }
+
+  /**
+   * Returns Express middleware. Bodies parsed by `express.json()` or
+   * `express.raw()` are used; otherwise the body is read from the request.
+   *
+   * @returns {function}
+   */
+  express(): (
+    req: http.IncomingMessage & {body?: PushRequest['body']},
+    res: {status(code: number): {send(body?: string): void}},
+    next: (err?: unknown) => void,
+  ) => void {
+    return (req, res, next) => {
+      // Express's responses are also `http.ServerResponse`s.
+      const response = hasBody(req)
+        ? this.handle({headers: req.headers, body: req.body})
+        : this._fromStream(req, res as {} as http.ServerResponse);
+      response.then(r => res.status(r.status).send(r.body), next);
+    };
+  }
+
+  /**
+   * Returns a Fastify route handler. Unwrapped payloads that aren't JSON
+   * need a content type parser that gives the body as a Buffer.
+   *
+   * @returns {function}
+   */
+  fastify(): (
+    request: {headers: PushHeaders; body?: unknown},
+    reply: {code(status: number): {send(body?: string): unknown}},
+  ) => Promise<void> {
+    return async (request, reply) => {
+      const response = await this.handle({
+        headers: request.headers,
+        body: request.body as PushRequest['body'],
+      });
+      reply.code(response.status).send(response.body);
+    };
+  }
+
+  /**
+   * Handles a push request whose body hasn't been read yet. The token is
+   * checked first, so that the bodies of unauthenticated requests aren't
+   * read. Bodies over the limit are read no further, and the connection is
+   * closed once the response has been sent.
+   */
+  private async _fromStream(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<PushResponse> {
+    try {
+      await this._verify(req.headers);
+    } catch (e) {
+      return this._reject(e as PushRequestError);
+    }
+
+    const maxBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const body = await readBody(req, maxBytes);
+    if (!body) {
+      res.setHeader('Connection', 'close');
+      res.once('finish', () => req.destroy());
+      return this._reject(
+        new PushRequestError(
+          STATUS.tooLarge,
+          `The body is larger than ${maxBytes} bytes.`,
+        ),
+      );
+    }
+    return this._handle({headers: req.headers, body});
+  }
+
+  /**
+   * Verifies the OIDC token sent with a push request.
+   */
+  private async _verify(headers: PushHeaders): Promise<void> {
+    const {oidc} = this.options;
+    if (oidc === false) {
+      return;
+    }
+
+    const authorization = header(headers, 'authorization') ?? '';
+    const [scheme, token] = authorization.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new PushRequestError(
+        STATUS.unauthorized,
+        'The request has no bearer token.',
+      );
+    }
+
+    if (!this._client) {
+      this._client = oidc.client ?? new OAuth2Client();
+    }
+    let payload;
+    try {
+      const ticket = await this._client.verifyIdToken({
+        idToken: token,
+        audience: oidc.audience,
+      });
+      payload = ticket.getPayload();
+    } catch (e) {
+      throw new PushRequestError(
+        STATUS.unauthorized,
+        `Invalid token: ${(e as Error).message}`,
+      );
+    }
+
+    const email = oidc.serviceAccountEmail;
+    if (email && (payload?.email !== email || !payload.email_verified)) {
+      throw new PushRequestError(
+        STATUS.forbidden,
+        `The token is not for ${email}.`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a request body, unless it's larger than `maxBytes`. The request is
+ * paused as soon as it's found to be.
+ *
+ * @returns {Promise<Buffer|undefined>} The body, or undefined if it's too
+ *     large.
+ */
+function readBody(
+  req: http.IncomingMessage,
+  maxBytes: number,
+): Promise<Buffer | undefined> {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    const done = (body?: Buffer) => {
+      req.off('data', onData).off('end', onEnd).off('error', onError);
+      resolve(body);
+    };
+    const onData = (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > maxBytes) {
+        req.pause();
+        done();
+      } else {
+        chunks.push(chunk);
+      }
+    };
+    const onEnd = () => done(Buffer.concat(chunks));
+    const onError = (err: Error) => {
+      req.off('data', onData).off('end', onEnd).off('error', onError);
+      reject(err);
+    };
+    req.on('data', onData).on('end', onEnd).on('error', onError);
+  });
+}
+
+function hasBody(req: {body?: unknown}): boolean {
+  return (
+    req.body !== undefined &&
+    !(
+      typeof req.body === 'object' &&
+      !Buffer.isBuffer(req.body) &&
+      req.body !== null &&
+      !Object.keys(req.body).length
+    )
+  );
+}
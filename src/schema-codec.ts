@@ -0,0 +1,273 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {protobuf} from 'google-gax';
+
+import {AvroType} from './avro';
+import {Encodings, SchemaEncoding, SchemaType, SchemaTypes} from './schema';
+
+/*!
+ * How decoded Protocol Buffer messages are converted to plain objects. This
+ * matches how the generated clients present messages.
+ */
+const PROTO_OBJECT_OPTIONS: protobuf.IConversionOptions = {
+  longs: String,
+  enums: String,
+};
+
+/**
+ * Encodes and decodes message data for a schema. This is created with
+ * {@link createSchemaCodec}.
+ */
+export interface SchemaCodec<T = unknown> {
+  /**
+   * Checks a value against the schema.
+   *
+   * @returns {string|null} Why the value doesn't match, or null if it does.
+   */
+  verify(value: T): string | null;
+
+  /**
+   * Encodes a value. The value should be checked with `verify()` first.
+   */
+  encode(value: T, encoding: SchemaEncoding): Buffer;
+
+  /**
+   * Decodes a value.
+   *
+   * @throws {Error} If the data doesn't match the schema.
+   */
+  decode(data: Buffer, encoding: SchemaEncoding): T;
+}
+
+/**
+ * Parses a Protocol Buffer schema definition and returns its single
+ * top-level message type.
+ *
+ * @private
+ * @internal
+ *
+ * @throws {Error} If the definition is invalid.
+ */
+export function protoType(definition: string): protobuf.Type {
+  const {root} = protobuf.parse(definition, {keepCase: true});
+  root.resolveAll();
+
+  const types: protobuf.Type[] = [];
+  const visit = (namespace: protobuf.NamespaceBase) => {
+    for (const nested of namespace.nestedArray) {
+      if (nested instanceof protobuf.Type) {
+        types.push(nested);
+      } else if (nested instanceof protobuf.Namespace) {
+        visit(nested);
+      }
+    }
+  };
+  visit(root);
+
+  if (types.length !== 1) {
+    throw new Error('The schema must define exactly one top-level message.');
+  }
+  return types[0];
+}
+
+/**
+ * Checks a single (non-repeated) Protocol Buffer field value. Values may be
+ * given as they are in the JSON mapping, e.g. enums by name, 64-bit integers
+ * as strings, and bytes as base64.
+ */
+function checkProtoValue(
+  field: protobuf.Field,
+  value: unknown,
+  path: string,
+): string | null {
+  const expected = (what: string) => `${path}: ${what} expected`;
+
+  if (field.resolvedType instanceof protobuf.Enum) {
+    const {values} = field.resolvedType;
+    return typeof value === 'string'
+      ? value in values
+        ? null
+        : expected(`one of ${Object.keys(values).join(', ')}`)
+      : Object.values(values).includes(value as number)
+        ? null
+        : expected('enum value');
+  }
+  if (field.resolvedType instanceof protobuf.Type) {
+    return checkProtoMessage(field.resolvedType, value, path);
+  }
+
+  switch (field.type) {
+    case 'double':
+    case 'float':
+      return typeof value === 'number' ? null : expected('number');
+    case 'int32':
+    case 'uint32':
+    case 'sint32':
+    case 'fixed32':
+    case 'sfixed32':
+      return Number.isInteger(value) ? null : expected('integer');
+    case 'int64':
+    case 'uint64':
+    case 'sint64':
+    case 'fixed64':
+    case 'sfixed64':
+      return Number.isInteger(value) ||
+        (typeof value === 'string' && /^-?\d+$/.test(value)) ||
+        Number.isInteger((value as protobuf.Long)?.low)
+        ? null
+        : expected('integer');
+    case 'bool':
+      return typeof value === 'boolean' ? null : expected('boolean');
+    case 'string':
+      return typeof value === 'string' ? null : expected('string');
+    case 'bytes':
+      return value instanceof Uint8Array || typeof value === 'string'
+        ? null
+        : expected('Buffer');
+    default:
+      return expected(field.type);
+  }
+}
+
+/**
+ * Checks a plain object against a Protocol Buffer message type.
+ */
+function checkProtoMessage(
+  type: protobuf.Type,
+  value: unknown,
+  path: string,
+): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `${path}: ${type.name} object expected`;
+  }
+
+  const object = value as {[key: string]: unknown};
+  for (const [key, v] of Object.entries(object)) {
+    const field = type.fields[key];
+    const fieldPath = `${path}.${key}`;
+    if (!field) {
+      return `${fieldPath}: not a field of ${type.name}`;
+    }
+    if (v === null || v === undefined) {
+      continue;
+    }
+
+    let reason: string | null = null;
+    if (field.map) {
+      if (typeof v !== 'object' || Array.isArray(v)) {
+        return `${fieldPath}: object expected`;
+      }
+      for (const [k, item] of Object.entries(v)) {
+        reason ||= checkProtoValue(field, item, `${fieldPath}.${k}`);
+      }
+    } else if (field.repeated) {
+      if (!Array.isArray(v)) {
+        return `${fieldPath}: array expected`;
+      }
+      v.forEach((item, i) => {
+        reason ||= checkProtoValue(field, item, `${fieldPath}[${i}]`);
+      });
+    } else {
+      reason = checkProtoValue(field, v, fieldPath);
+    }
+    if (reason) {
+      return reason;
+    }
+  }
+
+  for (const oneof of type.oneofsArray) {
+    const set = oneof.oneof.filter(
+      name => object[name] !== undefined && object[name] !== null,
+    );
+    if (set.length > 1) {
+      return `${path}: only one of ${set.join(', ')} may be set`;
+    }
+  }
+  return null;
+}
+
+function protoCodec<T>(definition: string): SchemaCodec<T> {
+  const type = protoType(definition);
+  return {
+    verify: value => checkProtoMessage(type, value, '$'),
+    encode: (value, encoding) => {
+      const message = type.fromObject(value as {});
+      if (encoding === Encodings.Binary) {
+        return Buffer.from(type.encode(message).finish());
+      }
+      return Buffer.from(
+        JSON.stringify(
+          type.toObject(message, {
+            ...PROTO_OBJECT_OPTIONS,
+            bytes: String,
+            json: true,
+          }),
+        ),
+      );
+    },
+    decode: (data, encoding) => {
+      let message: protobuf.Message;
+      if (encoding === Encodings.Binary) {
+        message = type.decode(data);
+      } else {
+        const json = JSON.parse(data.toString());
+        const reason = checkProtoMessage(type, json, '$');
+        if (reason) {
+          throw new TypeError(reason);
+        }
+        message = type.fromObject(json);
+      }
+      return type.toObject(message, PROTO_OBJECT_OPTIONS) as T;
+    },
+  };
+}
+
+function avroCodec<T>(definition: string): SchemaCodec<T> {
+  const type = AvroType.parse(definition);
+  return {
+    verify: value => type.verify(value),
+    encode: (value, encoding) =>
+      encoding === Encodings.Binary
+        ? type.toBuffer(value)
+        : Buffer.from(type.toJsonString(value)),
+    decode: (data, encoding) =>
+      (encoding === Encodings.Binary
+        ? type.fromBuffer(data)
+        : type.fromJsonString(data.toString())) as T,
+  };
+}
+
+/**
+ * Creates a codec for a schema definition, which encodes and decodes message
+ * data in-process.
+ *
+ * @param {SchemaType} type The schema type.
+ * @param {string} definition The schema definition.
+ * @returns {SchemaCodec}
+ * @throws {Error} If the definition is invalid.
+ */
+export function createSchemaCodec<T = unknown>(
+  type: SchemaType,
+  definition: string,
+): SchemaCodec<T> {
+  switch (type) {
+    case SchemaTypes.ProtocolBuffer:
+      return protoCodec<T>(definition);
+    case SchemaTypes.Avro:
+      return avroCodec<T>(definition);
+    default:
+      throw new Error(`Unsupported schema type: ${type}`);
+  }
+}
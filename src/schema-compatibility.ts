@@ -0,0 +1,333 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {protobuf} from 'google-gax';
+
+import {AvroNode, AvroType, branchName} from './avro';
+import {ISchema, SchemaTypes} from './schema';
+import {protoType} from './schema-codec';
+import {schemaTypeOf, validateSchemaDefinition} from './schema-validation';
+
+/**
+ * Which way schema revisions must be compatible.
+ *
+ * - Backward: consumers using the new revision can read data written with
+ *   the old one.
+ * - Forward: consumers using the old revision can read data written with the
+ *   new one.
+ * - Full: both.
+ */
+export const CompatibilityModes = {
+  Backward: 'BACKWARD' as const,
+  Forward: 'FORWARD' as const,
+  Full: 'FULL' as const,
+};
+
+export type CompatibilityMode =
+  (typeof CompatibilityModes)[keyof typeof CompatibilityModes];
+
+/**
+ * The result of {@link checkCompatibility}.
+ *
+ * @typedef {object} SchemaCompatibility
+ * @property {boolean} compatible Whether the revisions are compatible.
+ * @property {string[]} problems Why they aren't, one entry per problem. Each
+ *     starts with the direction it applies to (`backward` or `forward`) and
+ *     the path of the field involved.
+ */
+export interface SchemaCompatibility {
+  compatible: boolean;
+  problems: string[];
+}
+
+/*!
+ * The types that data of an Avro type can be read as, other than itself.
+ */
+const AVRO_PROMOTIONS: {[type: string]: string[]} = {
+  int: ['long', 'float', 'double'],
+  long: ['float', 'double'],
+  float: ['double'],
+  string: ['bytes'],
+  bytes: ['string'],
+};
+
+/**
+ * Checks that data written with one Avro type can be read with another,
+ * following the schema resolution rules of the Avro specification.
+ */
+function avroProblems(
+  reader: AvroNode,
+  writer: AvroNode,
+  path: string,
+  seen: Set<string>,
+): string[] {
+  if (writer.type === 'union') {
+    return writer.branches.flatMap(branch =>
+      avroProblems(reader, branch, path, seen),
+    );
+  }
+  if (reader.type === 'union') {
+    const readable = reader.branches.some(
+      branch => !avroProblems(branch, writer, path, new Set(seen)).length,
+    );
+    return readable
+      ? []
+      : [`${path}: ${branchName(writer)} is not in the reader's union`];
+  }
+
+  const mismatch = [
+    `${path}: ${branchName(writer)} can't be read as ${branchName(reader)}`,
+  ];
+  if (reader.type !== writer.type) {
+    return AVRO_PROMOTIONS[writer.type]?.includes(reader.type) ? [] : mismatch;
+  }
+
+  switch (writer.type) {
+    case 'record': {
+      const r = reader as typeof writer;
+      if (unqualified(r.name) !== unqualified(writer.name)) {
+        return mismatch;
+      }
+      // Records can refer to themselves; each pair only needs checking once.
+      const key = `${writer.name}>${r.name}`;
+      if (seen.has(key)) {
+        return [];
+      }
+      seen.add(key);
+
+      return r.fields.flatMap(field => {
+        const written = writer.fields.find(f => f.name === field.name);
+        const fieldPath = `${path}.${field.name}`;
+        if (written) {
+          return avroProblems(field.type, written.type, fieldPath, seen);
+        }
+        return field.hasDefault
+          ? []
+          : [`${fieldPath}: the field is missing and has no default`];
+      });
+    }
+    case 'enum': {
+      const r = reader as typeof writer;
+      if (unqualified(r.name) !== unqualified(writer.name)) {
+        return mismatch;
+      }
+      if (r.default !== undefined) {
+        return [];
+      }
+      return writer.symbols
+        .filter(symbol => !r.symbols.includes(symbol))
+        .map(symbol => `${path}: the symbol ${symbol} is missing`);
+    }
+    case 'fixed': {
+      const r = reader as typeof writer;
+      return unqualified(r.name) === unqualified(writer.name) &&
+        r.size === writer.size
+        ? []
+        : mismatch;
+    }
+    case 'array':
+      return avroProblems(
+        (reader as typeof writer).items,
+        writer.items,
+        `${path}[]`,
+        seen,
+      );
+    case 'map':
+      return avroProblems(
+        (reader as typeof writer).values,
+        writer.values,
+        `${path}{}`,
+        seen,
+      );
+    default:
+      return [];
+  }
+}
+
+function unqualified(name: string): string {
+  return name.substring(name.lastIndexOf('.') + 1);
+}
+
+/*!
+ * Groups of Protocol Buffer scalar types that share both a wire encoding and
+ * a JSON representation, so a field can be changed from one to another.
+ */
+const PROTO_TYPE_GROUPS = [
+  ['int32', 'uint32'],
+  ['int64', 'uint64'],
+  ['fixed32', 'sfixed32'],
+  ['fixed64', 'sfixed64'],
+];
+
+function protoTypeName(field: protobuf.Field): string {
+  return field.resolvedType?.fullName.replace(/^\./, '') ?? field.type;
+}
+
+/**
+ * Checks that data written with one Protocol Buffer message type can be read
+ * with another. Fields are matched by number, as in the binary encoding, and
+ * must keep their names, as in the JSON encoding.
+ */
+function protoProblems(
+  reader: protobuf.Type,
+  writer: protobuf.Type,
+  path: string,
+  seen: Set<string>,
+): string[] {
+  const key = `${writer.fullName}>${reader.fullName}`;
+  if (seen.has(key)) {
+    return [];
+  }
+  seen.add(key);
+
+  const problems: string[] = [];
+  for (const field of reader.fieldsArray) {
+    if (field.required && !writer.fieldsById[field.id]) {
+      problems.push(`${path}.${field.name}: the required field is missing`);
+    }
+  }
+
+  for (const written of writer.fieldsArray) {
+    const field = reader.fieldsById[written.id];
+    const fieldPath = `${path}.${written.name}`;
+    if (!field) {
+      continue;
+    }
+    if (field.name !== written.name) {
+      problems.push(
+        `${fieldPath}: field ${written.id} is named ${field.name} instead`,
+      );
+      continue;
+    }
+    if (field.repeated !== written.repeated || field.map !== written.map) {
+      problems.push(`${fieldPath}: the field's label changed`);
+      continue;
+    }
+
+    const readType = field.resolvedType;
+    const writeType = written.resolvedType;
+    if (
+      readType instanceof protobuf.Type &&
+      writeType instanceof protobuf.Type
+    ) {
+      problems.push(...protoProblems(readType, writeType, fieldPath, seen));
+    } else if (
+      readType instanceof protobuf.Enum &&
+      writeType instanceof protobuf.Enum
+    ) {
+      // Enums are matched by name in the JSON encoding.
+      for (const name of Object.keys(writeType.values)) {
+        if (!(name in readType.values)) {
+          problems.push(`${fieldPath}: the enum value ${name} is missing`);
+        }
+      }
+    } else {
+      const read = protoTypeName(field);
+      const write = protoTypeName(written);
+      const compatible =
+        read === write ||
+        (!readType &&
+          !writeType &&
+          PROTO_TYPE_GROUPS.some(g => g.includes(read) && g.includes(write)));
+      if (!compatible) {
+        problems.push(`${fieldPath}: ${write} can't be read as ${read}`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Lists why data written with one schema revision can't be read with
+ * another.
+ */
+function readProblems(reader: ISchema, writer: ISchema): string[] {
+  if (schemaTypeOf(reader) === SchemaTypes.Avro) {
+    return avroProblems(
+      AvroType.parse(reader.definition!).node,
+      AvroType.parse(writer.definition!).node,
+      '$',
+      new Set(),
+    );
+  }
+  return protoProblems(
+    protoType(reader.definition!),
+    protoType(writer.definition!),
+    '$',
+    new Set(),
+  );
+}
+
+/**
+ * Checks in-process whether a new revision of a schema is compatible with an
+ * old one, e.g. to check revisions in CI before they're committed with
+ * `SchemaServiceClient#commitSchema`.
+ *
+ * Avro revisions follow the Avro specification's schema resolution rules.
+ * Protocol Buffer fields are matched by number, and must keep their names
+ * and compatible types so that both the binary and JSON encodings can be
+ * read.
+ *
+ * @throws {Error} If either definition is invalid.
+ *
+ * @param {ISchema} oldRevision The old revision's type and definition.
+ * @param {ISchema} newRevision The new revision's type and definition.
+ * @param {CompatibilityMode} [mode='BACKWARD'] Which way the revisions must
+ *     be compatible. Use {@link CompatibilityModes} for values.
+ * @returns {SchemaCompatibility}
+ *
+ * @example
+ * ```
+ * const {checkCompatibility, CompatibilityModes} = require('@google-cloud/pubsub');
+ *
+ * const schema = pubsub.schema('my-schema');
+ * const current = await schema.get();
+ * const {compatible, problems} = checkCompatibility(
+ *   current,
+ *   {type: current.type, definition: fs.readFileSync('schema.avsc', 'utf8')},
+ *   CompatibilityModes.Full,
+ * );
+ * if (!compatible) {
+ *   console.error(problems.join('\n'));
+ *   process.exitCode = 1;
+ * }
+ * ```
+ */
+export function checkCompatibility(
+  oldRevision: ISchema,
+  newRevision: ISchema,
+  mode: CompatibilityMode = CompatibilityModes.Backward,
+): SchemaCompatibility {
+  validateSchemaDefinition(oldRevision);
+  validateSchemaDefinition(newRevision);
+
+  const problems: string[] = [];
+  const oldType = schemaTypeOf(oldRevision);
+  const newType = schemaTypeOf(newRevision);
+  if (oldType !== newType) {
+    problems.push(`The schema type changed from ${oldType} to ${newType}.`);
+  } else {
+    if (mode !== CompatibilityModes.Forward) {
+      problems.push(
+        ...readProblems(newRevision, oldRevision).map(p => `backward: ${p}`),
+      );
+    }
+    if (mode !== CompatibilityModes.Backward) {
+      problems.push(
+        ...readProblems(oldRevision, newRevision).map(p => `forward: ${p}`),
+      );
+    }
+  }
+  return {compatible: !problems.length, problems};
+}
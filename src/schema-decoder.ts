@@ -0,0 +1,81 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {PubSub} from './pubsub';
+import {Encodings, Schema, SchemaType, SchemaViews} from './schema';
+import {createSchemaCodec, SchemaCodec} from './schema-codec';
+import {Attributes} from './publisher/pubsub-message';
+
+/**
+ * Decodes the data of messages published to topics with schemas, using the
+ * schema revision named in each message's attributes. Codecs are cached per
+ * revision, so messages published under older revisions of a schema are
+ * decoded with the revision they were encoded with.
+ *
+ * @private
+ * @internal
+ *
+ * @param {PubSub} pubsub The PubSub client to fetch schemas with.
+ */
+export class SchemaDecoder {
+  pubsub: PubSub;
+  private _codecs = new Map<string, Promise<SchemaCodec>>();
+
+  constructor(pubsub: PubSub) {
+    this.pubsub = pubsub;
+  }
+
+  /**
+   * Decodes message data.
+   *
+   * @throws {Error} If the message wasn't published with a schema, or the
+   *     data doesn't match its schema revision.
+   *
+   * @param {Buffer} data The message data.
+   * @param {object} attributes The message attributes.
+   * @returns {Promise<*>}
+   */
+  async decode<T = unknown>(data: Buffer, attributes: Attributes): Promise<T> {
+    const {name, revision, encoding} = Schema.metadataFromMessage(attributes);
+    if (!name || !revision || !encoding) {
+      throw new Error('The message was not published with a schema.');
+    }
+    if (encoding !== Encodings.Json && encoding !== Encodings.Binary) {
+      throw new Error(`Unsupported schema encoding: ${encoding}`);
+    }
+
+    const codec = await this._codec(`${name}@${revision}`);
+    return codec.decode(data, encoding) as T;
+  }
+
+  private _codec(revision: string): Promise<SchemaCodec> {
+    let codec = this._codecs.get(revision);
+    if (!codec) {
+      codec = this._fetch(revision);
+      this._codecs.set(revision, codec);
+      // Let a failed fetch be tried again.
+      codec.catch(() => this._codecs.delete(revision));
+    }
+    return codec;
+  }
+
+  private async _fetch(revision: string): Promise<SchemaCodec> {
+    const client = await this.pubsub.getSchemaClient();
+    const [schema] = await client.getSchema({
+      name: revision,
+      view: SchemaViews.Full,
+    });
+    return createSchemaCodec(schema.type as SchemaType, schema.definition!);
+  }
+}
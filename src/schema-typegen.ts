@@ -0,0 +1,332 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {promises as fs} from 'fs';
+import * as path from 'path';
+import {protobuf} from 'google-gax';
+
+import {AvroNode, AvroType} from './avro';
+import {ISchema, SchemaTypes} from './schema';
+import {protoType} from './schema-codec';
+import {schemaTypeOf, validateSchemaDefinition} from './schema-validation';
+
+/**
+ * Options for {@link generateSchemaTypes}.
+ *
+ * @typedef {object} SchemaTypegenOptions
+ * @property {string} [typeName] The name of the type for whole messages.
+ *     Defaults to the name of the schema's top-level record or message.
+ * @property {string} [importFrom='@google-cloud/pubsub'] Where the generated
+ *     code imports this library from.
+ */
+export interface SchemaTypegenOptions {
+  typeName?: string;
+  importFrom?: string;
+}
+
+/*!
+ * The file extensions that {@link loadSchemaFile} recognizes.
+ */
+const FILE_TYPES: {[extension: string]: string} = {
+  '.avsc': SchemaTypes.Avro,
+  '.json': SchemaTypes.Avro,
+  '.proto': SchemaTypes.ProtocolBuffer,
+};
+
+/**
+ * A TypeScript declaration, with the name it declares.
+ */
+interface Declaration {
+  name: string;
+  lines: string[];
+}
+
+function docComment(doc: string | undefined, indent = ''): string[] {
+  if (!doc) {
+    return [];
+  }
+  return [
+    `${indent}/**`,
+    ...doc.split('\n').map(line => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+  ];
+}
+
+function unqualified(name: string): string {
+  return name.substring(name.lastIndexOf('.') + 1);
+}
+
+/**
+ * Declares the named types reachable from an Avro type, and returns the
+ * TypeScript type for it.
+ */
+function avroTypeScript(
+  node: AvroNode,
+  declarations: Map<string, Declaration>,
+): string {
+  switch (node.type) {
+    case 'null':
+    case 'boolean':
+    case 'string':
+      return node.type;
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+      return 'number';
+    case 'bytes':
+    case 'fixed':
+      return 'Buffer';
+    case 'array':
+      return `Array<${avroTypeScript(node.items, declarations)}>`;
+    case 'map':
+      return `{[key: string]: ${avroTypeScript(node.values, declarations)}}`;
+    case 'union':
+      return node.branches
+        .map(branch => avroTypeScript(branch, declarations))
+        .join(' | ');
+    case 'enum': {
+      const name = unqualified(node.name);
+      if (!declarations.has(node.name)) {
+        const symbols = node.symbols.map(s => `'${s}'`).join(' | ');
+        declarations.set(node.name, {
+          name,
+          lines: [...docComment(node.doc), `export type ${name} = ${symbols};`],
+        });
+      }
+      return name;
+    }
+    case 'record': {
+      const name = unqualified(node.name);
+      if (!declarations.has(node.name)) {
+        // Declare the record before its fields, as they may refer to it.
+        const declaration: Declaration = {name, lines: []};
+        declarations.set(node.name, declaration);
+        declaration.lines = [
+          ...docComment(node.doc),
+          `export interface ${name} {`,
+          ...node.fields.flatMap(field => [
+            ...docComment(field.doc, '  '),
+            `  ${field.name}${field.hasDefault ? '?' : ''}: ${avroTypeScript(
+              field.type,
+              declarations,
+            )};`,
+          ]),
+          '}',
+        ];
+      }
+      return name;
+    }
+  }
+}
+
+/*!
+ * The TypeScript types of Protocol Buffer scalars, as they're decoded.
+ */
+const PROTO_SCALARS: {[type: string]: string} = {
+  double: 'number',
+  float: 'number',
+  int32: 'number',
+  uint32: 'number',
+  sint32: 'number',
+  fixed32: 'number',
+  sfixed32: 'number',
+  int64: 'string',
+  uint64: 'string',
+  sint64: 'string',
+  fixed64: 'string',
+  sfixed64: 'string',
+  bool: 'boolean',
+  string: 'string',
+  bytes: 'Buffer',
+};
+
+/**
+ * Names a Protocol Buffer type after the messages it's nested in, e.g.
+ * `Outer_Inner`. Package names are left out.
+ */
+function protoName(type: protobuf.ReflectionObject): string {
+  const names = [type.name];
+  for (let p = type.parent; p instanceof protobuf.Type; p = p.parent) {
+    names.unshift(p.name);
+  }
+  return names.join('_');
+}
+
+/**
+ * Declares the types reachable from a Protocol Buffer message type, and
+ * returns its name.
+ */
+function protoTypeScript(
+  type: protobuf.Type | protobuf.Enum,
+  declarations: Map<string, Declaration>,
+): string {
+  const name = protoName(type);
+  if (declarations.has(type.fullName)) {
+    return name;
+  }
+
+  if (type instanceof protobuf.Enum) {
+    const values = Object.keys(type.values)
+      .map(v => `'${v}'`)
+      .join(' | ');
+    declarations.set(type.fullName, {
+      name,
+      lines: [
+        ...docComment(type.comment ?? undefined),
+        `export type ${name} = ${values};`,
+      ],
+    });
+    return name;
+  }
+
+  const declaration: Declaration = {name, lines: []};
+  declarations.set(type.fullName, declaration);
+  const fields = type.fieldsArray.flatMap(field => {
+    const resolved = field.resolvedType;
+    let ts = resolved
+      ? protoTypeScript(resolved as protobuf.Type, declarations)
+      : PROTO_SCALARS[field.type];
+    if (field.map) {
+      ts = `{[key: string]: ${ts}}`;
+    } else if (field.repeated) {
+      ts = `Array<${ts}>`;
+    }
+    // Unset fields are left out when messages are decoded.
+    return [
+      ...docComment(field.comment ?? undefined, '  '),
+      `  ${field.name}?: ${ts} | null;`,
+    ];
+  });
+  declaration.lines = [
+    ...docComment(type.comment ?? undefined),
+    `export interface ${name} {`,
+    ...fields,
+    '}',
+  ];
+  return name;
+}
+
+/**
+ * Generates TypeScript types for a schema, along with functions that encode
+ * and decode messages with it. The generated code imports this library, and
+ * the encoding functions check values against the schema.
+ *
+ * Schemas fetched with {@link Schema#get} include their name and revision,
+ * which are recorded in the generated code, so that it can be compared with
+ * the revision that {@link PubSub#listSchemas} reports as current.
+ *
+ * @throws {Error} If the definition is invalid.
+ *
+ * @param {ISchema} schema The schema's type and definition.
+ * @param {SchemaTypegenOptions} [options] Generation options.
+ * @returns {string} The generated TypeScript.
+ *
+ * @example
+ * ```
+ * const {generateSchemaTypes} = require('@google-cloud/pubsub');
+ *
+ * const schema = await pubsub.schema('my-schema').get();
+ * fs.writeFileSync('src/my-schema.ts', generateSchemaTypes(schema));
+ * ```
+ */
+export function generateSchemaTypes(
+  schema: ISchema,
+  options: SchemaTypegenOptions = {},
+): string {
+  validateSchemaDefinition(schema);
+  const type = schemaTypeOf(schema);
+  const definition = schema.definition!;
+
+  const declarations = new Map<string, Declaration>();
+  let root: string;
+  if (type === SchemaTypes.Avro) {
+    root = avroTypeScript(AvroType.parse(definition).node, declarations);
+  } else {
+    root = protoTypeScript(protoType(definition), declarations);
+  }
+
+  const typeName = options.typeName ?? root;
+  const lines = [
+    `// Generated from the ${schema.name ?? 'local'} schema` +
+      (schema.revisionId ? ` at revision ${schema.revisionId}.` : '.'),
+    '// Do not edit by hand; generate it again when the schema changes.',
+    '',
+    "import {createSchemaCodec, SchemaEncoding} from '" +
+      `${options.importFrom ?? '@google-cloud/pubsub'}';`,
+    '',
+  ];
+  for (const declaration of declarations.values()) {
+    lines.push(...declaration.lines, '');
+  }
+  if (typeName !== root) {
+    lines.push(`export type ${typeName} = ${root};`, '');
+  }
+
+  lines.push(
+    `export const ${typeName}Schema = {`,
+    `  name: ${JSON.stringify(schema.name ?? null)},`,
+    `  revisionId: ${JSON.stringify(schema.revisionId ?? null)},`,
+    `  type: ${JSON.stringify(type)},`,
+    `  definition: ${JSON.stringify(definition)},`,
+    '} as const;',
+    '',
+    `const codec = createSchemaCodec<${typeName}>(`,
+    `  ${typeName}Schema.type,`,
+    `  ${typeName}Schema.definition,`,
+    ');',
+    '',
+    `export function encode${typeName}(`,
+    `  value: ${typeName},`,
+    "  encoding: SchemaEncoding = 'BINARY',",
+    '): Buffer {',
+    '  const reason = codec.verify(value);',
+    '  if (reason) {',
+    '    throw new TypeError(reason);',
+    '  }',
+    '  return codec.encode(value, encoding);',
+    '}',
+    '',
+    `export function decode${typeName}(`,
+    '  data: Buffer,',
+    "  encoding: SchemaEncoding = 'BINARY',",
+    `): ${typeName} {`,
+    '  return codec.decode(data, encoding);',
+    '}',
+    '',
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Reads a schema definition from a file, for {@link generateSchemaTypes}.
+ * The type is taken from the file's extension (`.avsc` or `.json` for Avro,
+ * `.proto` for Protocol Buffers) unless it's given.
+ *
+ * @throws {Error} If the type isn't given and can't be told.
+ *
+ * @param {string} file The file's path.
+ * @param {SchemaType} [type] The schema type.
+ * @returns {Promise<ISchema>}
+ */
+export async function loadSchemaFile(
+  file: string,
+  type?: ISchema['type'],
+): Promise<ISchema> {
+  type ??= FILE_TYPES[path.extname(file).toLowerCase()] as ISchema['type'];
+  if (!type) {
+    throw new Error(`The schema type of ${file} must be given.`);
+  }
+  return {type, definition: await fs.readFile(file, 'utf8')};
+}
@@ -0,0 +1,97 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {google} from '../protos/protos';
+import {AvroType} from './avro';
+import {createSchemaCodec, protoType} from './schema-codec';
+import {
+  Encodings,
+  ISchema,
+  SchemaEncoding,
+  SchemaType,
+  SchemaTypes,
+} from './schema';
+
+/**
+ * Gets a schema's type by name, as the generated clients may give enum
+ * values as numbers.
+ *
+ * @private
+ */
+export function schemaTypeOf(schema: ISchema): string {
+  return typeof schema.type === 'number'
+    ? google.pubsub.v1.Schema.Type[schema.type]
+    : (schema.type ?? '');
+}
+
+/**
+ * Validates a schema definition in-process, as the service does when
+ * creating or committing a schema. This is a local equivalent of
+ * {@link PubSub#validateSchema}.
+ *
+ * @throws {Error} If the definition is invalid.
+ *
+ * @param {ISchema} schema The schema's type and definition.
+ *
+ * @example
+ * ```
+ * const {validateSchemaDefinition} = require('@google-cloud/pubsub');
+ *
+ * validateSchemaDefinition({
+ *   type: 'AVRO',
+ *   definition: fs.readFileSync('schema.avsc', 'utf8'),
+ * });
+ * ```
+ */
+export function validateSchemaDefinition(schema: ISchema): void {
+  const type = schemaTypeOf(schema);
+  const {definition} = schema;
+  if (!definition) {
+    throw new Error('A schema definition is required.');
+  }
+
+  if (type === SchemaTypes.ProtocolBuffer) {
+    protoType(definition);
+  } else if (type === SchemaTypes.Avro) {
+    AvroType.parse(definition);
+  } else {
+    throw new Error(`Unsupported schema type: ${type}`);
+  }
+}
+
+/**
+ * Validates an encoded message against a schema definition in-process, by
+ * decoding it. This is a local equivalent of {@link Schema#validateMessage}.
+ *
+ * @throws {Error} If the message doesn't match the schema.
+ *
+ * @param {ISchema} schema The schema's type and definition.
+ * @param {Buffer|string} message The encoded message. Strings are treated
+ *     as UTF-8 text.
+ * @param {SchemaEncoding} encoding The message encoding, `JSON` or `BINARY`.
+ */
+export function validateSchemaMessage(
+  schema: ISchema,
+  message: Buffer | string,
+  encoding: SchemaEncoding,
+): void {
+  if (encoding !== Encodings.Json && encoding !== Encodings.Binary) {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+
+  createSchemaCodec(
+    schemaTypeOf(schema) as SchemaType,
+    schema.definition ?? '',
+  ).decode(Buffer.from(message), encoding);
+}
@@ -20,6 +20,20 @@ import {promisify} from '@google-cloud/promisify';
 import defer = require('p-defer');
 
 import {google} from '../protos/protos';
+import {CloudEvent, messageToCloudEvent} from './cloudevents';
+import {COMPRESSION_ATTRIBUTE, decompressMessage} from './compression';
+import {DeadLetterForwarder, DeadLetterOptions} from './dead-letter';
+import {
+  DeduplicationOptions,
+  DuplicateWindow,
+  DuplicateWindowOptions,
+} from './idempotency';
+import {
+  PAYLOAD_REFERENCE_ATTRIBUTE,
+  PayloadStoreOptions,
+} from './payload-store';
+import {ExponentialRetry, RetriedItem} from './exponential-retry';
+import {SchemaDecoder} from './schema-decoder';
 import {Histogram} from './histogram';
 import {FlowControlOptions, LeaseManager} from './lease-manager';
 import {AckQueue, BatchOptions, ModAckQueue} from './message-queues';
@@ -28,9 +42,14 @@ import {Subscription} from './subscription';
 import {defaultOptions} from './default-options';
 import {SubscriberClient} from './v1';
 import * as tracing from './telemetry-tracing';
-import {Duration, atMost as durationAtMost} from './temporal';
+import {
+  Duration,
+  atLeast as durationAtLeast,
+  atMost as durationAtMost,
+} from './temporal';
 import {EventEmitter} from 'events';
 
+import {DebugMessage} from './debug';
 import {awaitWithTimeout} from './util';
 import {logs as baseLogs} from './logs';
 
@@ -263,15 +282,18 @@ export class SubscriberSpans {
 export class Message implements tracing.MessageWithAttributes {
   ackId: string;
   attributes: {[key: string]: string};
-  data: Buffer;
   deliveryAttempt: number;
   id: string;
   orderingKey?: string;
   publishTime: PreciseDate;
   received: number;
+  private _compressed?: google.pubsub.v1.IPubsubMessage;
+  private _data: Buffer;
   private _handledPromise: defer.DeferredPromise<void>;
   private _handled: boolean;
   private _length: number;
+  private _payload?: Promise<Buffer>;
+  private _decoded?: Promise<unknown>;
   private _subscriber: Subscriber;
   private _ackFailed?: AckError;
   private _dispatched: boolean;
@@ -333,20 +355,28 @@ export class Message implements tracing.MessageWithAttributes {
      * @type {string}
      */
     this.ackId = ackId!;
+
+    // Compressed data is only decompressed when it's first read, so the
+    // attribute is removed up front.
+    let {attributes} = message!;
+    if (
+      sub.decompress &&
+      message!.data &&
+      attributes?.[COMPRESSION_ATTRIBUTE]
+    ) {
+      this._compressed = message!;
+      attributes = {...attributes};
+      delete attributes[COMPRESSION_ATTRIBUTE];
+    }
+
     /**
      * Optional attributes for this message.
      *
      * @name Message#attributes
      * @type {object}
      */
-    this.attributes = message!.attributes || {};
-    /**
-     * The message data as a Buffer.
-     *
-     * @name Message#data
-     * @type {Buffer}
-     */
-    this.data = message!.data as Buffer;
+    this.attributes = attributes || {};
+    this._data = message!.data as Buffer;
     /**
      * Delivery attempt counter is 1 + (the sum of number of NACKs and number of
      * ack_deadline exceeds) for this message.
@@ -411,12 +441,50 @@ export class Message implements tracing.MessageWithAttributes {
     this._dispatched = false;
     this._handled = false;
     this._handledPromise = defer<void>();
-    this._length = this.data.length;
+    this._length = this._data.length;
     this._subscriber = sub;
   }
 
   /**
-   * The length of the message data.
+   * The message data as a Buffer. If the subscriber's `decompress` option
+   * is set, compressed data is decompressed when it's first read. If it
+   * can't be decompressed, or would be larger than `maxDecompressedBytes`,
+   * it's left as it is, and the compression attribute is put back, so the
+   * message can still be handled.
+   *
+   * @name Message#data
+   * @type {Buffer}
+   */
+  get data(): Buffer {
+    if (this._compressed) {
+      const compressed = this._compressed;
+      delete this._compressed;
+      try {
+        this._data = decompressMessage(
+          compressed,
+          this._subscriber.maxDecompressedBytes,
+        ).data;
+      } catch (e) {
+        logs.debug.warn(
+          'Message %s could not be decompressed: %s',
+          this.id,
+          (e as Error).message,
+        );
+        this.attributes[COMPRESSION_ATTRIBUTE] =
+          compressed.attributes![COMPRESSION_ATTRIBUTE];
+      }
+    }
+    return this._data;
+  }
+
+  set data(data: Buffer) {
+    delete this._compressed;
+    this._data = data;
+  }
+
+  /**
+   * The length of the message data, as it was received (before it's
+   * decompressed).
    *
    * @type {number}
    */
@@ -424,6 +492,86 @@ export class Message implements tracing.MessageWithAttributes {
     return this._length;
   }
 
+  /**
+   * Gets the message data. If the publisher kept it in a payload store
+   * (see the `payloadStore` publisher option), it's fetched from the
+   * subscriber's `payloadStore`; otherwise this is the same as `data`.
+   *
+   * @returns {Promise<Buffer>}
+   *
+   * @example
+   * ```
+   * subscription.on('message', async message => {
+   *   const data = await message.getData();
+   *   message.ack();
+   * });
+   * ```
+   */
+  async getData(): Promise<Buffer> {
+    const reference = this.attributes[PAYLOAD_REFERENCE_ATTRIBUTE];
+    if (!reference) {
+      return this.data;
+    }
+
+    if (!this._payload) {
+      this._payload = this._subscriber.getPayload(reference);
+      // Let a failed fetch be tried again.
+      this._payload.catch(() => delete this._payload);
+    }
+    return this._payload;
+  }
+
+  /**
+   * Decodes the message data with the schema revision it was published
+   * under. This requires the subscriber's `schemaDecoding` option; the data
+   * is fetched as with {@link Message#getData}.
+   *
+   * @throws {Error} If the message wasn't published with a schema, or its
+   *     data doesn't match the schema.
+   *
+   * @returns {Promise<*>}
+   *
+   * @example
+   * ```
+   * const subscription = pubsub.subscription('my-sub', {schemaDecoding: true});
+   * subscription.on('message', async message => {
+   *   const province = await message.decoded<Province>();
+   *   message.ack();
+   * });
+   * ```
+   */
+  async decoded<T = unknown>(): Promise<T> {
+    if (!this._decoded) {
+      this._decoded = this._subscriber.decode(this);
+      // Let a failed decode be tried again.
+      this._decoded.catch(() => delete this._decoded);
+    }
+    return this._decoded as Promise<T>;
+  }
+
+  /**
+   * Reconstructs the CloudEvent the message carries, in either binary or
+   * structured mode (see the `cloudEvent` option of
+   * {@link Topic#publishMessage}). Binary events without an `id` or `time`
+   * take the message's ID and publish time.
+   *
+   * @throws {TypeError} If the message doesn't carry a CloudEvent.
+   *
+   * @returns {CloudEvent}
+   *
+   * @example
+   * ```
+   * subscription.on('message', message => {
+   *   const event = message.toCloudEvent();
+   *   console.log(event.type, event.data);
+   *   message.ack();
+   * });
+   * ```
+   */
+  toCloudEvent(): CloudEvent {
+    return messageToCloudEvent(this);
+  }
+
   /**
    * Resolves when the message has been handled fully; a handled message may
    * not have any further operations performed on it.
@@ -572,6 +720,10 @@ export class Message implements tracing.MessageWithAttributes {
   /**
    * Removes the message from our inventory and schedules it to be redelivered.
    *
+   * @param {Error} [error] Optionally, why the message couldn't be processed.
+   *     This is recorded if the message ends up being forwarded to a
+   *     client-side dead letter topic.
+   *
    * @example
    * ```
    * subscription.on('message', message => {
@@ -579,12 +731,28 @@ export class Message implements tracing.MessageWithAttributes {
    * });
    * ```
    */
-  nack(): void {
+  nack(error?: Error): void {
+    this._nack(true, error);
+  }
+
+  /**
+   * @private
+   *
+   * Nacks a message that was never handled, e.g. because the subscriber or
+   * an iterator is shutting down. Unlike `nack()`, this isn't counted as a
+   * failed delivery for client-side dead lettering, and isn't delayed by a
+   * retry policy.
+   */
+  nackUnhandled(): void {
+    this._nack(false);
+  }
+
+  private _nack(failed: boolean, error?: Error): void {
     if (!this._handled) {
       this._handled = true;
       this.subSpans.nackCall();
       this.subSpans.processingEnd();
-      void this._subscriber.nack(this);
+      void this._subscriber.nack(this, error, failed);
       this._handledPromise.resolve();
     }
   }
@@ -629,6 +797,23 @@ export class Message implements tracing.MessageWithAttributes {
   }
 }
 
+/**
+ * @typedef {object} RetryPolicyOptions
+ * @property {Duration} [minimumBackoff] The delay before redelivering a
+ *     message that was nacked for the first time. (Default: 10 seconds)
+ * @property {Duration} [maximumBackoff] The longest delay before redelivering
+ *     a nacked message. This may not be more than 10 minutes, which is the
+ *     longest the server will hold a lease. (Default: 10 minutes)
+ * @property {number} [maxAttempts] Once a message has been delivered this many
+ *     times, it is nacked immediately (e.g. to let a dead letter policy take
+ *     over). By default, there is no limit.
+ */
+export interface RetryPolicyOptions {
+  minimumBackoff?: Duration;
+  maximumBackoff?: Duration;
+  maxAttempts?: number;
+}
+
 /**
  * @typedef {object} SubscriberOptions
  * @property {number} [ackDeadline=10] Acknowledge deadline in seconds. If left
@@ -649,6 +834,58 @@ export class Message implements tracing.MessageWithAttributes {
  * @property {boolean} [useLegacyFlowControl] Disables enforcing flow control
  *     settings at the Cloud PubSub server and uses the less accurate method
  *     of only enforcing flow control at the client side.
+ * @property {boolean} [serializeOrderingKeys] When enabled, messages that
+ *     share an `orderingKey` are handed out one at a time: the next message
+ *     for a key is only dispatched once the previous one has been acked or
+ *     nacked. Messages with different keys are still dispatched in parallel.
+ *     This is useful with asynchronous handlers on subscriptions that have
+ *     message ordering enabled.
+ * @property {boolean} [decompress] When enabled, the data of messages that
+ *     were compressed by a publisher with the `compression` option is
+ *     decompressed when `Message#data` is first read, and the compression
+ *     attribute is removed. Messages that can't be decompressed are delivered
+ *     as they were received.
+ * @property {number} [maxDecompressedBytes=67108864] The most bytes that
+ *     `decompress` decompresses a message's data to. Larger messages are
+ *     treated like ones that can't be decompressed.
+ * @property {PayloadStoreOptions} [payloadStore] Where to fetch the data of
+ *     messages that a publisher kept in a payload store, for
+ *     `Message#getData()`. With `deleteOnAck`, payloads are deleted from the
+ *     store once their messages are acked, unless they were forwarded to a
+ *     client-side dead letter topic.
+ * @property {boolean} [schemaDecoding] When enabled, `Message#decoded()`
+ *     decodes the data of messages published to topics with schemas. The
+ *     schema revision each message was published under is fetched (and then
+ *     cached), so messages published under older revisions are decoded too.
+ * @property {RetryPolicyOptions} [retryPolicy] When set, nacked messages are
+ *     held by the client for an exponentially increasing delay (with jitter)
+ *     before they are released for redelivery, rather than being redelivered
+ *     right away. The delay grows with `Message#deliveryAttempt`, which is
+ *     only provided by the server for subscriptions with a dead letter
+ *     policy; otherwise every nack uses the minimum backoff. This doesn't
+ *     apply to `nackWithResponse()` on exactly-once delivery subscriptions.
+ * @property {DeadLetterOptions} [deadLetter] When set, messages that have
+ *     been nacked `deadLetter.maxAttempts` times are republished to
+ *     `deadLetter.topic` (with attributes describing where they came from and
+ *     why they failed), and then acked. This is for subscriptions that can't
+ *     use a server-side dead letter policy. If the publish fails, the message
+ *     is nacked instead, so it's never lost.
+ * @property {DuplicateWindowOptions} [idempotency] When set, a message whose
+ *     idempotency key attribute (or `idempotency.attribute`) matches one
+ *     received within `window` (from a message with a different ID) is acked
+ *     and dropped before it's dispatched. Keys are set by publishers with the
+ *     `idempotency` option, or by the `idempotencyKey` message option.
+ *     Redeliveries of the same message are dispatched as usual. Nacked
+ *     messages are forgotten, so that they're handled again. Messages stay
+ *     leased while they're checked. To share the window between processes,
+ *     provide an `idempotency.store`.
+ * @property {DeduplicationOptions} [deduplication] When set, a message that
+ *     was received within `deduplication.window` is acked and dropped before
+ *     it's dispatched, so redeliveries aren't handled twice even without
+ *     exactly-once delivery. Messages are identified by `Message#id`, or by
+ *     `deduplication.attribute`. Nacked messages are forgotten, so that
+ *     they're handled again. To share the window between processes, provide
+ *     a `deduplication.store`.
  * @property {MessageStreamOptions} [streamingOptions] Streaming options.
  *     If no options are passed, it behaves like `SubscriberCloseBehaviors.Wait`.
  * @property {SubscriberCloseOptions} [options] Determines the basic behavior of the
@@ -670,6 +907,15 @@ export interface SubscriberOptions {
   batching?: BatchOptions;
   flowControl?: FlowControlOptions;
   useLegacyFlowControl?: boolean;
+  serializeOrderingKeys?: boolean;
+  decompress?: boolean;
+  maxDecompressedBytes?: number;
+  payloadStore?: PayloadStoreOptions;
+  schemaDecoding?: boolean;
+  retryPolicy?: RetryPolicyOptions;
+  deadLetter?: DeadLetterOptions;
+  idempotency?: DuplicateWindowOptions;
+  deduplication?: DeduplicationOptions;
   streamingOptions?: MessageStreamOptions;
   closeOptions?: SubscriberCloseOptions;
 }
@@ -690,15 +936,23 @@ export class Subscriber extends EventEmitter {
   maxMessages: number;
   maxBytes: number;
   useLegacyFlowControl: boolean;
+  serializeOrderingKeys: boolean;
+  decompress: boolean;
+  maxDecompressedBytes?: number;
   isOpen: boolean;
   maxExtensionTime: Duration;
   private _acks!: AckQueue;
+  private _deadLetter?: DeadLetterForwarder;
+  private _deduplicating: Promise<void> = Promise.resolve();
+  private _duplicates: DuplicateWindow[] = [];
   private _histogram: Histogram;
   private _inventory!: LeaseManager;
   private _latencies: Histogram;
   private _modAcks!: ModAckQueue;
   private _name!: string;
   private _options!: SubscriberOptions;
+  private _retrier?: ExponentialRetry<Message>;
+  private _schemaDecoder?: SchemaDecoder;
   private _stream!: MessageStream;
   private _subscription: Subscription;
 
@@ -718,6 +972,8 @@ export class Subscriber extends EventEmitter {
     this.maxBytes = defaultOptions.subscription.maxOutstandingBytes;
     this.maxExtensionTime = defaultOptions.subscription.maxExtensionTime;
     this.useLegacyFlowControl = false;
+    this.serializeOrderingKeys = false;
+    this.decompress = false;
     this.isOpen = false;
     this._histogram = new Histogram({min: 10, max: 600});
     this._latencies = new Histogram();
@@ -855,12 +1111,15 @@ export class Subscriber extends EventEmitter {
    * Acknowledges the supplied message.
    *
    * @param {Message} message The message to acknowledge.
+   * @param {boolean} [keepPayload=false] Don't delete the message's payload
+   *     from the payload store.
    * @returns {Promise<void>}
    * @private
    */
-  async ack(message: Message): Promise<void> {
+  async ack(message: Message, keepPayload = false): Promise<void> {
     const ackTimeSeconds = (Date.now() - message.received) / 1000;
     this.updateAckDeadline(ackTimeSeconds);
+    this._deadLetter?.forget(message);
 
     logs.ackNack.info(
       'message (ID %s, ackID %s) ack',
@@ -890,6 +1149,10 @@ export class Subscriber extends EventEmitter {
     message.endParentSpan();
 
     this._inventory.remove(message);
+
+    if (!keepPayload) {
+      await this._deletePayload(message);
+    }
   }
 
   /**
@@ -903,6 +1166,7 @@ export class Subscriber extends EventEmitter {
   async ackWithResponse(message: Message): Promise<AckResponse> {
     const ackTimeSeconds = (Date.now() - message.received) / 1000;
     this.updateAckDeadline(ackTimeSeconds);
+    this._deadLetter?.forget(message);
 
     logs.ackNack.info(
       'message (ID %s, ackID %s) ack with response',
@@ -927,11 +1191,70 @@ export class Subscriber extends EventEmitter {
     message.endParentSpan();
 
     this._inventory.remove(message);
+    await this._deletePayload(message);
 
     // No exception means Success.
     return AckResponses.Success;
   }
 
+  /**
+   * Fetches a payload that a publisher kept in the payload store.
+   *
+   * @param {string} reference The payload's reference.
+   * @returns {Promise<Buffer>}
+   * @private
+   */
+  async getPayload(reference: string): Promise<Buffer> {
+    const {payloadStore} = this._options;
+    if (!payloadStore) {
+      throw new Error(
+        'This message has its data in a payload store, but no payloadStore option was given.',
+      );
+    }
+    return payloadStore.store.get(reference);
+  }
+
+  /**
+   * Decodes a message's data with the schema revision it was published under.
+   *
+   * @param {Message} message The message to decode.
+   * @returns {Promise<*>}
+   * @private
+   */
+  async decode(message: Message): Promise<unknown> {
+    if (!this._schemaDecoder) {
+      throw new Error(
+        'Messages can only be decoded when the schemaDecoding option is set.',
+      );
+    }
+    const data = await message.getData();
+    return this._schemaDecoder.decode(data, message.attributes);
+  }
+
+  /**
+   * Deletes an acked message's payload from the payload store, if the
+   * subscriber has been asked to.
+   *
+   * @param {Message} message The acked message.
+   * @private
+   */
+  private async _deletePayload(message: Message): Promise<void> {
+    const reference = message.attributes[PAYLOAD_REFERENCE_ATTRIBUTE];
+    const {payloadStore} = this._options;
+    if (!reference || !payloadStore?.deleteOnAck) {
+      return;
+    }
+
+    try {
+      await payloadStore.store.delete(reference);
+    } catch (e) {
+      this.emit(
+        'debug',
+        new DebugMessage('error deleting message payload', e as Error),
+      );
+    }
+  }
+
   async #awaitTimeoutAndCheck(
     promise: Promise<void>,
     timeout: Duration,
@@ -985,6 +1308,7 @@ export class Subscriber extends EventEmitter {
     // If the user specified a zero timeout, just bail immediately.
     if (!timeout.milliseconds) {
       this._inventory.clear();
+      this._retrier?.close();
       return;
     }
 
@@ -1024,7 +1348,11 @@ export class Subscriber extends EventEmitter {
     // Grab everything left in inventory. This includes messages that have already
     // been dispatched to user callbacks.
     const remaining = this._inventory.clear();
-    remaining.forEach(m => m.nack());
+    remaining.forEach(m => m.nackUnhandled());
+
+    // Anything waiting out a retry backoff was already nacked by the user,
+    // so release it now.
+    this._retrier?.close().forEach(m => void this._nack(m));
 
     // Wait for user callbacks to complete.
     const flushCompleted = this._waitForFlush();
@@ -1106,10 +1434,44 @@ export class Subscriber extends EventEmitter {
    * it from our inventory.
    *
    * @param {Message} message The message.
+   * @param {Error} [error] Why the message couldn't be processed, if known.
+   * @param {boolean} [failed=true] False if the message wasn't handled (e.g.
+   *     on shutdown), so it's nacked right away without counting as a
+   *     failed delivery.
+   * @return {Promise<void>}
+   * @private
+   */
+  async nack(message: Message, error?: Error, failed = true): Promise<void> {
+    if (!failed) {
+      await this._nack(message);
+      return;
+    }
+
+    if (this._deadLetter) {
+      const attempts = this._deadLetter.recordFailure(message);
+      if (this._deadLetter.shouldForward(attempts)) {
+        await this._forwardToDeadLetter(message, attempts, error);
+        return;
+      }
+    }
+
+    if (this._retryLater(message)) {
+      return;
+    }
+
+    await this._nack(message);
+  }
+
+  /**
+   * Nacks the message right away, regardless of any retry policy.
+   *
+   * @param {Message} message The message.
    * @return {Promise<void>}
    * @private
    */
-  async nack(message: Message): Promise<void> {
+  private async _nack(message: Message): Promise<void> {
+    this._releaseDuplicate(message);
+
     logs.ackNack.info(
       'message (ID %s, ackID %s) nack',
       message.id,
@@ -1143,6 +1505,8 @@ export class Subscriber extends EventEmitter {
    * @private
    */
   async nackWithResponse(message: Message): Promise<AckResponse> {
+    this._releaseDuplicate(message);
+
     logs.ackNack.info(
       'message (ID %s, ackID %s) nack with response',
       message.id,
@@ -1171,13 +1535,51 @@ export class Subscriber extends EventEmitter {
    * @private
    */
   open(): void {
-    const {batching, flowControl, streamingOptions} = this._options;
+    const {
+      batching,
+      deadLetter,
+      deduplication,
+      flowControl,
+      idempotency,
+      retryPolicy,
+      streamingOptions,
+    } = this._options;
 
     this._acks = new AckQueue(this, batching);
     this._modAcks = new ModAckQueue(this, batching);
     this._inventory = new LeaseManager(this, flowControl);
     this._stream = new MessageStream(this, streamingOptions);
 
+    delete this._deadLetter;
+    if (deadLetter) {
+      this._deadLetter = new DeadLetterForwarder(deadLetter);
+    }
+
+    this._duplicates = [];
+    if (idempotency) {
+      this._duplicates.push(new DuplicateWindow(this.name, idempotency));
+    }
+    if (deduplication) {
+      this._duplicates.push(
+        new DuplicateWindow(this.name, deduplication, true),
+      );
+    }
+
+    delete this._retrier;
+    if (retryPolicy) {
+      const {
+        minimumBackoff = defaultOptions.subscription.minRetryBackoff,
+        maximumBackoff = defaultOptions.subscription.maxRetryBackoff,
+      } = retryPolicy;
+      this._retrier = new ExponentialRetry<Message>(
+        minimumBackoff,
+        durationAtMost(
+          maximumBackoff,
+          defaultOptions.subscription.maxRetryBackoff,
+        ),
+      );
+    }
+
     this._stream
       .on('error', err => this.emit('error', err))
       .on('debug', msg => this.emit('debug', msg))
@@ -1206,6 +1608,14 @@ export class Subscriber extends EventEmitter {
     this._options = options;
 
     this.useLegacyFlowControl = options.useLegacyFlowControl || false;
+    this.serializeOrderingKeys = options.serializeOrderingKeys || false;
+    this.decompress = options.decompress || false;
+    this.maxDecompressedBytes = options.maxDecompressedBytes;
+    if (!options.schemaDecoding) {
+      delete this._schemaDecoder;
+    } else if (!this._schemaDecoder) {
+      this._schemaDecoder = new SchemaDecoder(this._subscription.pubsub);
+    }
     if (options.flowControl) {
       this.maxMessages =
         options.flowControl.maxMessages ||
@@ -1288,47 +1698,236 @@ export class Subscriber extends EventEmitter {
       this.setSubscriptionProperties(response.subscriptionProperties);
     }
 
-    const {receivedMessages} = response;
-    for (const data of receivedMessages!) {
+    const messages = response.receivedMessages!.map(data => {
       const message = new Message(this, data);
-
       this.createParentSpan(message);
+      return message;
+    });
 
-      if (this.isOpen) {
-        if (this.isExactlyOnceDelivery) {
-          // For exactly-once delivery, we must validate that we got a valid
-          // lease on the message before actually leasing it.
-          message.subSpans.modAckStart(
-            Duration.from({seconds: this.ackDeadline}),
-            true,
-          );
-          message
-            .modAckWithResponse(this.ackDeadline)
-            .then(() => {
-              this._inventory.add(message);
-            })
-            .catch(() => {
-              // Temporary failures will retry, so if an error reaches us
-              // here, that means a permanent failure. Silently drop these.
-              this._discardMessage(message);
-            })
-            .finally(() => {
-              message.subSpans.modAckEnd();
-            });
-        } else {
-          message.subSpans.modAckStart(
-            Duration.from({seconds: this.ackDeadline}),
-            true,
-          );
-          message.modAck(this.ackDeadline);
-          message.subSpans.modAckEnd();
-          this._inventory.add(message);
-        }
+    if (this._duplicates.length && this.isOpen) {
+      this._deduplicate(messages);
+    } else {
+      messages.forEach(message => void this._receive(message));
+    }
+  }
+
+  /**
+   * Leases a new message, or nacks it if the subscriber has been closed.
+   *
+   * @param {Message} message The new message.
+   * @param {boolean} [hold=false] Whether to hold the message back from being
+   *     dispensed, until it's been checked for duplicates.
+   * @returns {Promise<void>} Resolves once the message has been leased (or
+   *     dropped).
+   * @private
+   */
+  private _receive(message: Message, hold = false): Promise<void> {
+    if (this.isOpen) {
+      if (this.isExactlyOnceDelivery) {
+        // For exactly-once delivery, we must validate that we got a valid
+        // lease on the message before actually leasing it.
+        message.subSpans.modAckStart(
+          Duration.from({seconds: this.ackDeadline}),
+          true,
+        );
+        return message
+          .modAckWithResponse(this.ackDeadline)
+          .then(() => {
+            this._inventory.add(message, hold);
+          })
+          .catch(() => {
+            // Temporary failures will retry, so if an error reaches us
+            // here, that means a permanent failure. Silently drop these.
+            this._releaseDuplicate(message);
+            this._discardMessage(message);
+          })
+          .finally(() => {
+            message.subSpans.modAckEnd();
+          });
       } else {
-        message.subSpans.shutdown();
-        message.nack();
+        message.subSpans.modAckStart(
+          Duration.from({seconds: this.ackDeadline}),
+          true,
+        );
+        message.modAck(this.ackDeadline);
+        message.subSpans.modAckEnd();
+        this._inventory.add(message, hold);
       }
+    } else {
+      message.subSpans.shutdown();
+      message.nackUnhandled();
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Leases new messages and checks them against the duplicate windows, and
+   * then dispenses the ones that aren't duplicates. The checks run at the
+   * same time, but messages are dispensed in the order they arrived, so
+   * ordering keys keep their order. If the store fails, the message is
+   * dispensed as usual; if anything else fails, the batch is nacked.
+   *
+   * @param {Message[]} messages The new messages.
+   * @private
+   */
+  private _deduplicate(messages: Message[]): void {
+    const leases = Promise.all(messages.map(m => this._receive(m, true)));
+    const checks = Promise.all(
+      messages.map(message =>
+        Promise.all(this._duplicates.map(d => d.isDuplicate(message)))
+          .then(results => results.some(Boolean))
+          .catch(e => {
+            this.emit(
+              'debug',
+              new DebugMessage('error checking for duplicates', e as Error),
+            );
+            return false;
+          }),
+      ),
+    );
+
+    this._deduplicating = this._deduplicating
+      .then(() => Promise.all([checks, leases]))
+      .then(([isDuplicate]) => {
+        messages.forEach((message, i) => {
+          // Messages that were dropped, or nacked on close, aren't held.
+          if (!this._inventory.isHeld(message)) {
+            return;
+          }
+          if (isDuplicate[i]) {
+            this._dropDuplicate(message);
+          } else {
+            this._inventory.unhold(message);
+          }
+        });
+      })
+      .catch(e => {
+        this.emit(
+          'debug',
+          new DebugMessage('error dispatching checked messages', e as Error),
+        );
+        messages
+          .filter(message => this._inventory.isHeld(message))
+          .forEach(message => void this._nack(message));
+      });
+  }
+
+  /**
+   * Removes a message that won't be handled from the duplicate windows,
+   * so that it's handled when it's redelivered.
+   *
+   * @param {Message} message The message.
+   * @private
+   */
+  private _releaseDuplicate(message: Message): void {
+    for (const duplicates of this._duplicates) {
+      duplicates.release(message).catch(e => {
+        this.emit(
+          'debug',
+          new DebugMessage('error releasing duplicate key', e as Error),
+        );
+      });
+    }
+  }
+
+  /**
+   * Acks a duplicate message without dispatching it.
+   *
+   * @param {Message} message The duplicate message.
+   * @private
+   */
+  private _dropDuplicate(message: Message): void {
+    logs.ackNack.info(
+      'message (ID %s, ackID %s) is a duplicate, dropping',
+      message.id,
+      message.ackId,
+    );
+    message.ack();
+  }
+
+  /**
+   * Republishes a message that has failed too many times to the dead letter
+   * topic, acking the original only once that succeeds. If the publish
+   * fails, the message is nacked as usual.
+   *
+   * @param {Message} message The failed message.
+   * @param {number} attempts The number of failed deliveries.
+   * @param {Error} [error] Why the message couldn't be processed, if known.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _forwardToDeadLetter(
+    message: Message,
+    attempts: number,
+    error?: Error,
+  ): Promise<void> {
+    logs.ackNack.info(
+      'message (ID %s, ackID %s) forwarding to dead letter topic after %i attempts',
+      message.id,
+      message.ackId,
+      attempts,
+    );
+
+    try {
+      await this._deadLetter!.forward(message, this.name, attempts, error);
+    } catch (e) {
+      this.emit(
+        'debug',
+        new DebugMessage('error forwarding to dead letter topic', e as Error),
+      );
+      await this._nack(message);
+      return;
+    }
+
+    // The forwarded message refers to the same payload.
+    await this.ack(message, true);
+  }
+
+  /**
+   * If a retry policy applies to this nack, holds onto the message's lease
+   * for its backoff period and schedules the real nack for afterwards.
+   *
+   * @param {Message} message The nacked message.
+   * @returns {boolean} True if the nack was delayed.
+   * @private
+   */
+  private _retryLater(message: Message): boolean {
+    if (!this._retrier) {
+      return false;
     }
+
+    const {maxAttempts} = this._options.retryPolicy!;
+    const attempt = message.deliveryAttempt || 1;
+    if (maxAttempts && attempt >= maxAttempts) {
+      return false;
+    }
+
+    this._retrier.retryLater(
+      message,
+      m => void this._nack(m),
+      2 ** (attempt - 1),
+    );
+
+    const {nextRetry} = (message as RetriedItem<Message>).retryInfo!;
+    const delay = durationAtMost(
+      durationAtLeast(
+        Duration.from({milliseconds: nextRetry - Date.now()}),
+        Duration.from({seconds: 1}),
+      ),
+      defaultOptions.subscription.maxRetryBackoff,
+    );
+
+    logs.ackNack.info(
+      'message (ID %s, ackID %s) nack delayed by %i ms for retry',
+      message.id,
+      message.ackId,
+      delay.milliseconds,
+    );
+
+    // Keep the lease for the whole backoff, so it isn't redelivered early.
+    void this.modAck(message, Math.ceil(delay.totalOf('second')));
+
+    return true;
   }
 
   // Internal: This is here to provide a hook for unit testing, at least for now.
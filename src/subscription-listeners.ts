@@ -0,0 +1,74 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Message} from './subscriber';
+import {Subscription} from './subscription';
+
+/**
+ * The listeners that a consumer of a Subscription's messages, such as
+ * {@link MessageIterator} or {@link MessageProcessor}, adds to it.
+ *
+ * @private
+ */
+export interface SubscriptionListeners {
+  onClose(): void;
+  onError(error: Error): void;
+  onMessage(message: Message): void;
+}
+
+/**
+ * Starts listening to a subscription. Adding a message listener opens the
+ * subscriber, so that's added last.
+ *
+ * @private
+ *
+ * @param {Subscription} subscription The subscription.
+ * @param {SubscriptionListeners} listeners The listeners to add.
+ */
+export function attach(
+  subscription: Subscription,
+  listeners: SubscriptionListeners,
+): void {
+  subscription
+    .on('error', listeners.onError)
+    .on('close', listeners.onClose)
+    .on('message', listeners.onMessage);
+}
+
+/**
+ * Stops listening to a subscription. The subscriber is closed first, unless
+ * someone else is still listening for messages on it.
+ *
+ * @private
+ *
+ * @param {Subscription} subscription The subscription.
+ * @param {SubscriptionListeners} listeners The listeners to remove.
+ * @returns {Promise<void>}
+ */
+export async function detach(
+  subscription: Subscription,
+  listeners: SubscriptionListeners,
+): Promise<void> {
+  // Close before removing our listener, so that the subscription doesn't
+  // also kick off its own (unawaited) close.
+  const isLastListener = subscription.listenerCount('message') === 1;
+  if (isLastListener && subscription.isOpen) {
+    await subscription.close();
+  }
+
+  subscription
+    .removeListener('message', listeners.onMessage)
+    .removeListener('error', listeners.onError)
+    .removeListener('close', listeners.onClose);
+}
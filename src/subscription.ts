@@ -22,6 +22,12 @@ import {google} from '../protos/protos';
 
 import {IAM} from './iam';
 import {FlowControlOptions} from './lease-manager';
+import {MessageIterator, MessageIteratorOptions} from './message-iterator';
+import {
+  MessageHandler,
+  MessageProcessor,
+  ProcessOptions,
+} from './message-processor';
 import {
   DetachedCallback,
   DetachedResponse,
@@ -55,6 +61,15 @@ import {DebugMessage} from './debug';
 import {EventEmitter} from 'stream';
 
 export {AckError, AckResponse, AckResponses} from './subscriber';
+export {MessageIteratorOptions} from './message-iterator';
+export {
+  HandlerErrorCallback,
+  HandlerErrorPolicies,
+  HandlerErrorPolicy,
+  MessageHandler,
+  MessageProcessor,
+  ProcessOptions,
+} from './message-processor';
 
 export type PushConfig = google.pubsub.v1.IPushConfig;
 export type OidcToken = google.pubsub.v1.PushConfig.IOidcToken;
@@ -845,6 +860,35 @@ export class Subscription extends EventEmitter {
     );
   }
 
+  /**
+   * Returns an async iterator over incoming messages, as an alternative to
+   * listening for `message` events.
+   *
+   * The subscription is opened when iteration begins, and closed when the
+   * loop exits, the signal is aborted, or an error occurs (in which case the
+   * error is thrown from the loop). Messages are still leased while they wait
+   * to be read, so flow control settings like `flowControl.maxMessages` limit
+   * how far ahead of your loop the subscriber will read.
+   *
+   * @param {MessageIteratorOptions} [options] Iterator options.
+   * @returns {AsyncIterableIterator<Message>}
+   *
+   * @example
+   * ```
+   * const controller = new AbortController();
+   *
+   * for await (const message of subscription.messages({
+   *   signal: controller.signal,
+   * })) {
+   *   await doSomething(message.data);
+   *   message.ack();
+   * }
+   * ```
+   */
+  messages(options?: MessageIteratorOptions): AsyncIterableIterator<Message> {
+    return new MessageIterator(this, options);
+  }
+
   /**
    * @typedef {array} ModifyPushConfigResponse
    * @property {object} 0 The full API response.
@@ -966,6 +1010,36 @@ export class Subscription extends EventEmitter {
     }
   }
 
+  /**
+   * Processes incoming messages with an async handler, as an alternative to
+   * listening for `message` events.
+   *
+   * Each message is acked once its handler resolves. If the handler rejects,
+   * the message is nacked by default; see `options.onError` to change this.
+   * At most `options.concurrency` handlers run at once, and any messages
+   * beyond that are kept leased until a handler finishes.
+   *
+   * @param {MessageHandler} handler The async message handler.
+   * @param {ProcessOptions} [options] Processing options.
+   * @returns {MessageProcessor} A processor, which may be closed to stop.
+   *
+   * @example
+   * ```
+   * const processor = subscription.process(
+   *   async message => {
+   *     await doSomething(message.data);
+   *   },
+   *   {concurrency: 5},
+   * );
+   *
+   * // Later, to stop processing:
+   * await processor.close();
+   * ```
+   */
+  process(handler: MessageHandler, options?: ProcessOptions): MessageProcessor {
+    return new MessageProcessor(this, handler, options);
+  }
+
   /**
    * @typedef {array} SeekResponse
    * @property {object} 0 The full API response.
@@ -0,0 +1,305 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Attributes,
+  Counter,
+  Histogram,
+  metrics,
+  UpDownCounter,
+} from '@opentelemetry/api';
+import {Status} from 'google-gax';
+
+import {
+  AttributeParams,
+  getSubscriptionInfo,
+  getTopicInfo,
+  PubsubSpans,
+} from './telemetry-tracing';
+
+// We need this to get the library version.
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const packageJson = require('../../package.json');
+
+/**
+ * The instruments we record to. They're created on first use, so that a
+ * meter provider registered after the library is loaded is picked up.
+ *
+ * @private
+ * @internal
+ */
+interface Instruments {
+  publishDuration: Histogram;
+  publishBatchMessages: Histogram;
+  publishBatchBytes: Histogram;
+  publishFlowControlWait: Histogram;
+  publishSpillMessages: UpDownCounter;
+  publishSpillBytes: UpDownCounter;
+  publishSpillDropped: Counter;
+  leases: UpDownCounter;
+  leaseBytes: UpDownCounter;
+  ackErrors: Counter;
+  streamReconnects: Counter;
+}
+
+let cachedInstruments: Instruments | undefined;
+function getInstruments(): Instruments {
+  if (cachedInstruments) {
+    return cachedInstruments;
+  }
+
+  const meter = metrics.getMeter('@google-cloud/pubsub', packageJson.version);
+  cachedInstruments = {
+    publishDuration: meter.createHistogram('pubsub.publish.duration', {
+      description: 'Duration of Publish RPCs.',
+      unit: 'ms',
+    }),
+    publishBatchMessages: meter.createHistogram(
+      'pubsub.publish.batch.messages',
+      {
+        description: 'Number of messages in each published batch.',
+        unit: '{message}',
+      },
+    ),
+    publishBatchBytes: meter.createHistogram('pubsub.publish.batch.bytes', {
+      description: 'Size of each published batch.',
+      unit: 'By',
+    }),
+    publishFlowControlWait: meter.createHistogram(
+      'pubsub.publish.flow_control.wait',
+      {
+        description: 'Time messages waited for publisher flow control.',
+        unit: 'ms',
+      },
+    ),
+    publishSpillMessages: meter.createUpDownCounter(
+      'pubsub.publish.spill.messages',
+      {
+        description: 'Number of messages waiting in the publisher spill log.',
+        unit: '{message}',
+      },
+    ),
+    publishSpillBytes: meter.createUpDownCounter('pubsub.publish.spill.bytes', {
+      description: 'Size of the messages waiting in the publisher spill log.',
+      unit: 'By',
+    }),
+    publishSpillDropped: meter.createCounter('pubsub.publish.spill.dropped', {
+      description:
+        'Number of messages that failed because the spill log was full.',
+      unit: '{message}',
+    }),
+    leases: meter.createUpDownCounter('pubsub.subscribe.leases', {
+      description: 'Number of messages leased by the subscriber.',
+      unit: '{message}',
+    }),
+    leaseBytes: meter.createUpDownCounter('pubsub.subscribe.lease.bytes', {
+      description: 'Size of the messages leased by the subscriber.',
+      unit: 'By',
+    }),
+    ackErrors: meter.createCounter('pubsub.subscribe.ack.errors', {
+      description: 'Number of failed Acknowledge and ModifyAckDeadline RPCs.',
+      unit: '{request}',
+    }),
+    streamReconnects: meter.createCounter(
+      'pubsub.subscribe.stream.reconnects',
+      {
+        description: 'Number of StreamingPull streams that were retried.',
+        unit: '{stream}',
+      },
+    ),
+  };
+  return cachedInstruments;
+}
+
+// True if user code elsewhere wants to enable OpenTelemetry metrics.
+let globallyEnabled = false;
+
+/**
+ * Manually set the OpenTelemetry metrics enabledness.
+ *
+ * @param enabled The enabled flag to use.
+ * @private
+ * @internal
+ */
+export function setGloballyEnabled(enabled: boolean) {
+  globallyEnabled = enabled;
+}
+
+/**
+ * Returns true if metrics should be recorded.
+ *
+ * @private
+ * @internal
+ */
+export function isEnabled(): boolean {
+  return globallyEnabled;
+}
+
+/**
+ * Builds metric attributes from the same `messaging.*` attributes that spans
+ * carry, leaving out any that aren't known.
+ */
+function createAttributes(
+  params: AttributeParams,
+  caller: string,
+  extra: Attributes = {},
+): Attributes {
+  const all = {
+    ...PubsubSpans.createAttributes(params, undefined, caller),
+    ...extra,
+  };
+  const attributes: Attributes = {};
+  for (const [key, value] of Object.entries(all)) {
+    if (value !== undefined) {
+      attributes[key] = value;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Contains utility methods for recording metrics. These do nothing unless
+ * metrics are enabled.
+ *
+ * @private
+ * @internal
+ */
+export class PubsubMetrics {
+  /**
+   * Records a Publish RPC: its duration, status, and batch size.
+   */
+  static recordPublish(
+    topicName: string,
+    durationMs: number,
+    messages: number,
+    bytes: number,
+    code: number = Status.OK,
+  ) {
+    if (!globallyEnabled) {
+      return;
+    }
+
+    const instruments = getInstruments();
+    const attributes = createAttributes(
+      getTopicInfo(topicName),
+      'MessageQueue._publish',
+    );
+    instruments.publishDuration.record(durationMs, {
+      ...attributes,
+      ['rpc.grpc.status_code']: code,
+    });
+    instruments.publishBatchMessages.record(messages, attributes);
+    instruments.publishBatchBytes.record(bytes, attributes);
+  }
+
+  /**
+   * Records how long a message waited for publisher flow control.
+   */
+  static recordPublishFlowControlWait(topicName: string, durationMs: number) {
+    if (!globallyEnabled) {
+      return;
+    }
+
+    getInstruments().publishFlowControlWait.record(
+      durationMs,
+      createAttributes(
+        getTopicInfo(topicName),
+        'FlowControlledPublisher.publish',
+      ),
+    );
+  }
+
+  /**
+   * Records a change in the number and size of messages in the publisher's
+   * spill log.
+   */
+  static recordSpill(topicName: string, messages: number, bytes: number) {
+    if (!globallyEnabled || !messages) {
+      return;
+    }
+
+    const instruments = getInstruments();
+    const attributes = createAttributes(getTopicInfo(topicName), 'SpillLog');
+    instruments.publishSpillMessages.add(messages, attributes);
+    instruments.publishSpillBytes.add(bytes, attributes);
+  }
+
+  /**
+   * Records messages that couldn't be spilled because the spill log was full.
+   */
+  static recordSpillDropped(topicName: string, messages: number) {
+    if (!globallyEnabled) {
+      return;
+    }
+
+    getInstruments().publishSpillDropped.add(
+      messages,
+      createAttributes(getTopicInfo(topicName), 'SpillLog'),
+    );
+  }
+
+  /**
+   * Records a change in the number and size of leased messages.
+   */
+  static recordLeases(subName: string, messages: number, bytes: number) {
+    if (!globallyEnabled || !messages) {
+      return;
+    }
+
+    const instruments = getInstruments();
+    const attributes = createAttributes(
+      getSubscriptionInfo(subName),
+      'LeaseManager',
+    );
+    instruments.leases.add(messages, attributes);
+    instruments.leaseBytes.add(bytes, attributes);
+  }
+
+  /**
+   * Records a failed Acknowledge or ModifyAckDeadline RPC.
+   */
+  static recordAckError(
+    subName: string,
+    operation: 'ack' | 'modack' | 'nack',
+    code: number = Status.UNKNOWN,
+  ) {
+    if (!globallyEnabled) {
+      return;
+    }
+
+    getInstruments().ackErrors.add(
+      1,
+      createAttributes(getSubscriptionInfo(subName), 'MessageQueue', {
+        ['messaging.operation']: operation,
+        ['rpc.grpc.status_code']: code,
+      }),
+    );
+  }
+
+  /**
+   * Records a StreamingPull stream that ended and will be retried.
+   */
+  static recordStreamReconnect(subName: string, code: number) {
+    if (!globallyEnabled) {
+      return;
+    }
+
+    getInstruments().streamReconnects.add(
+      1,
+      createAttributes(getSubscriptionInfo(subName), 'MessageStream', {
+        ['rpc.grpc.status_code']: code,
+      }),
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * A token bucket, for limiting the rate of something. Tokens are added at
+ * `rate` per second, up to `capacity`.
+ *
+ * Takers may go into debt: `take()` always takes the tokens, and says how
+ * long to wait before going ahead. That keeps takers in the order they came,
+ * and lets a take be larger than the capacity.
+ *
+ * @private
+ * @class
+ *
+ * @param {number} rate How many tokens are added per second.
+ * @param {number} [capacity] The most tokens the bucket holds, which is how
+ *     much can be taken at once without waiting. By default, a second's worth
+ *     (but at least one).
+ */
+export class TokenBucket {
+  rate: number;
+  capacity: number;
+  private _tokens: number;
+  private _updated: number;
+
+  constructor(rate: number, capacity = Math.max(rate, 1)) {
+    if (!(rate > 0)) {
+      throw new Error('Rate limits must be greater than zero.');
+    }
+    this.rate = rate;
+    this.capacity = capacity;
+    this._tokens = capacity;
+    this._updated = Date.now();
+  }
+
+  /**
+   * Returns true if the bucket is full, i.e. nothing has been taken
+   * recently.
+   *
+   * @returns {boolean}
+   */
+  isFull(): boolean {
+    this._refill();
+    return this._tokens >= this.capacity;
+  }
+
+  /**
+   * Returns how long to wait before `count` tokens are available, without
+   * taking them.
+   *
+   * @param {number} count The number of tokens.
+   * @returns {number} The delay in milliseconds.
+   */
+  delayFor(count: number): number {
+    this._refill();
+    return this._delayUntil(this._tokens - count);
+  }
+
+  /**
+   * Takes tokens, going into debt if there aren't enough.
+   *
+   * @param {number} count The number of tokens.
+   * @returns {number} How long to wait, in milliseconds, before the debt is
+   *     paid off and the caller may go ahead.
+   */
+  take(count: number): number {
+    this._refill();
+    this._tokens -= count;
+    return this._delayUntil(this._tokens);
+  }
+
+  private _delayUntil(tokens: number): number {
+    return tokens >= 0 ? 0 : Math.ceil((-tokens * 1000) / this.rate);
+  }
+
+  private _refill(): void {
+    const now = Date.now();
+    const added = ((now - this._updated) * this.rate) / 1000;
+    this._tokens = Math.min(this.capacity, this._tokens + added);
+    this._updated = now;
+  }
+}
@@ -19,6 +19,8 @@ import {CallOptions} from 'google-gax';
 
 import {google} from '../protos/protos';
 
+import {CloudEvent, CloudEventMode, cloudEventToMessage} from './cloudevents';
+import {IDEMPOTENCY_KEY_ATTRIBUTE} from './idempotency';
 import {IAM} from './iam';
 import {
   Attributes,
@@ -27,7 +29,9 @@ import {
   PublishOptions,
   PubsubMessage,
 } from './publisher';
+import {BatchPublishOptions} from './publisher/message-batch';
 import {FlowControlledPublisher} from './publisher/flow-publisher';
+import {TypedPublisher} from './publisher/typed-publisher';
 import {
   EmptyCallback,
   EmptyResponse,
@@ -81,8 +85,13 @@ export type GetTopicSubscriptionsResponse = PagedResponse<
   google.pubsub.v1.IListTopicSubscriptionsResponse
 >;
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MessageOptions = PubsubMessage & {json?: any};
+export type MessageOptions = PubsubMessage & {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  json?: any;
+  cloudEvent?: CloudEvent;
+  cloudEventMode?: CloudEventMode;
+  idempotencyKey?: string;
+};
 
 /**
  * A Topic object allows you to interact with a Cloud Pub/Sub topic.
@@ -780,6 +789,18 @@ export class Topic {
    * @property {object.<string, string>} [attributes] Attributes for this
    *     message.
    * @property {string} [orderingKey] A message ordering key.
+   * @property {CloudEvent} [cloudEvent] Convenience property to publish a
+   *     CloudEvent. The event becomes the message data and attributes, which
+   *     are merged with `attributes`. Subscribers can get it back with
+   *     {@link Message#toCloudEvent}.
+   * @property {CloudEventMode} [cloudEventMode='binary'] How the CloudEvent is
+   *     carried: 'binary' for `ce-` attributes and the event data as the
+   *     message data, or 'structured' for the whole event as JSON.
+   * @property {string} [idempotencyKey] A key that identifies this message
+   *     for deduplication, sent as an attribute. Copies published with the
+   *     same key are dropped by publishers with the `idempotency` option
+   *     (which otherwise make a key from the message content), and by
+   *     subscribers with the `idempotency` option.
    */
   /**
    * Publish the provided message.
@@ -815,6 +836,19 @@ export class Topic {
    * topic.publishMessage({json}, callback);
    *
    * ```
+   * @example Publish a CloudEvent.
+   * ```
+   * const cloudEvent = {
+   *   specversion: '1.0',
+   *   id: 'event-1',
+   *   source: '//example.com/orders',
+   *   type: 'com.example.order.created',
+   *   data: {orderId: 123},
+   * };
+   *
+   * topic.publishMessage({cloudEvent}, callback);
+   *
+   * ```
    * @example To publish messages in order (this is still experimental), make sure message ordering is enabled and provide an ordering key
    * ```
    * const topic = pubsub.topic('ordered-topic', {messageOrdering: true});
@@ -843,6 +877,25 @@ export class Topic {
       delete message.json;
     }
 
+    if (message.cloudEvent) {
+      const {data, attributes} = cloudEventToMessage(
+        message.cloudEvent,
+        message.cloudEventMode,
+      );
+      message.data = data;
+      message.attributes = {...message.attributes, ...attributes};
+      delete message.cloudEvent;
+      delete message.cloudEventMode;
+    }
+
+    if (message.idempotencyKey) {
+      message.attributes = {
+        ...message.attributes,
+        [IDEMPOTENCY_KEY_ATTRIBUTE]: message.idempotencyKey,
+      };
+      delete message.idempotencyKey;
+    }
+
     return this.publisher.publishMessage(message, callback!);
   }
 
@@ -855,7 +908,8 @@ export class Topic {
    *
    * Note that it's perfectly fine to create more than one on the same Topic.
    * The actual flow control settings on the Topic will apply across all
-   * FlowControlledPublisher objects on that Topic.
+   * FlowControlledPublisher objects on that Topic. So does the `rateLimit`
+   * publish option, which only limits messages published this way.
    *
    * @returns {FlowControlledPublisher} The flow control helper.
    */
@@ -863,6 +917,30 @@ export class Topic {
     return new FlowControlledPublisher(this.publisher);
   }
 
+  /**
+   * Creates a TypedPublisher for this Topic, which publishes objects encoded
+   * with the topic's schema. The schema and encoding are taken from the
+   * topic's schema settings, and values are checked against the schema
+   * before they're sent.
+   *
+   * @returns {TypedPublisher} The typed publisher.
+   *
+   * @example
+   * ```
+   * const {PubSub} = require('@google-cloud/pubsub');
+   * const pubsub = new PubSub();
+   *
+   * const topic = pubsub.topic('my-topic');
+   * const publisher = topic.withSchema();
+   * const messageId = await publisher.publishMessage({
+   *   value: {name: 'Ontario', post_abbr: 'ON'},
+   * });
+   * ```
+   */
+  withSchema<T = unknown>(): TypedPublisher<T> {
+    return new TypedPublisher<T>(this);
+  }
+
   /**
    * In the event that the client fails to publish an ordered message, all
    * subsequent publish calls using the same ordering key will fail. Calling
@@ -994,6 +1072,24 @@ export class Topic {
     this.publisher.setOptions(options);
   }
 
+  /**
+   * Get the batching settings that the publisher is using. With the
+   * `adaptive` batching option, these are the current tuned values, which
+   * change as messages are published.
+   *
+   * @returns {BatchPublishOptions}
+   *
+   * @example
+   * ```
+   * const topic = pubsub.topic('my-topic', {batching: {adaptive: true}});
+   *
+   * const {maxMessages, maxMilliseconds} = topic.getBatchingSettings();
+   * ```
+   */
+  getBatchingSettings(): BatchPublishOptions {
+    return this.publisher.getBatchingSettings();
+  }
+
   /**
    * Get the default publisher options. These may be modified and passed
    * back into {@link Topic#setPublishOptions}.
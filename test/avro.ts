@@ -0,0 +1,202 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {AvroType} from '../src/avro';
+
+describe('AvroType', () => {
+  const schema = {
+    type: 'record',
+    name: 'Thing',
+    namespace: 'example',
+    fields: [
+      {name: 'name', type: 'string'},
+      {name: 'count', type: 'long'},
+      {name: 'ratio', type: 'double'},
+      {name: 'ok', type: 'boolean'},
+      {name: 'blob', type: 'bytes'},
+      {name: 'tags', type: {type: 'array', items: 'string'}},
+      {name: 'scores', type: {type: 'map', values: 'int'}},
+      {
+        name: 'kind',
+        type: {type: 'enum', name: 'Kind', symbols: ['A', 'B']},
+      },
+      {name: 'note', type: ['null', 'string'], default: null},
+      {name: 'next', type: ['null', 'Thing'], default: null},
+    ],
+  };
+  const value = {
+    name: 'thing',
+    count: -Math.pow(2, 40),
+    ratio: 0.5,
+    ok: true,
+    blob: Buffer.from([0, 255]),
+    tags: ['a', 'b'],
+    scores: {x: 1},
+    kind: 'B',
+    note: 'hi',
+    next: null,
+  };
+  const type = AvroType.parse(JSON.stringify(schema));
+
+  describe('parse', () => {
+    it('should parse primitive schemas', () => {
+      assert.strictEqual(AvroType.parse('"int"').verify(1), null);
+      assert.strictEqual(AvroType.parse({type: 'int'}).verify(1), null);
+    });
+
+    it('should reject invalid schemas', () => {
+      assert.throws(() => AvroType.parse('{"type": "record"}'), /name/);
+      assert.throws(() => AvroType.parse('"Nope"'), /Undefined type: Nope/);
+      assert.throws(
+        () => AvroType.parse('["int", "int"]'),
+        /duplicate types: int,int/,
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept matching values', () => {
+      assert.strictEqual(type.verify(value), null);
+      assert.strictEqual(type.verify({...value, note: undefined}), null);
+    });
+
+    it('should say what does not match', () => {
+      assert.strictEqual(
+        type.verify({...value, tags: ['a', 1]}),
+        '$.tags[1]: string expected',
+      );
+      assert.strictEqual(
+        type.verify({...value, kind: 'C'}),
+        '$.kind: one of A, B expected',
+      );
+      assert.strictEqual(
+        type.verify({...value, extra: 1}),
+        '$.extra: not a field of example.Thing',
+      );
+      assert.strictEqual(
+        type.verify({...value, name: undefined}),
+        '$.name: string expected',
+      );
+      assert.strictEqual(
+        AvroType.parse('"int"').verify(Math.pow(2, 31)),
+        '$: int expected',
+      );
+    });
+  });
+
+  describe('binary encoding', () => {
+    it('should round trip values', () => {
+      const nested = {...value, next: {...value, note: null}};
+      assert.deepStrictEqual(type.fromBuffer(type.toBuffer(nested)), nested);
+    });
+
+    it('should match the specification', () => {
+      const record = AvroType.parse(
+        '{"type": "record", "name": "R", "fields": [' +
+          '{"name": "a", "type": "long"}, {"name": "b", "type": "string"}]}',
+      );
+      // The example from the Avro specification.
+      assert.deepStrictEqual(
+        record.toBuffer({a: 27, b: 'foo'}),
+        Buffer.from([0x36, 0x06, 0x66, 0x6f, 0x6f]),
+      );
+      assert.deepStrictEqual(
+        AvroType.parse('"long"').toBuffer(-64),
+        Buffer.from([0x7f]),
+      );
+      assert.deepStrictEqual(
+        AvroType.parse('["null", "string"]').toBuffer('a'),
+        Buffer.from([0x02, 0x02, 0x61]),
+      );
+    });
+
+    it('should use field defaults', () => {
+      const rest: Partial<typeof value> = {...value};
+      delete rest.note;
+      delete rest.next;
+      assert.deepStrictEqual(type.fromBuffer(type.toBuffer(rest)), {
+        ...rest,
+        note: null,
+        next: null,
+      });
+    });
+
+    it('should reject bad data', () => {
+      assert.throws(() => type.fromBuffer(Buffer.from([0x02])), RangeError);
+      assert.throws(
+        () => AvroType.parse('"int"').fromBuffer(Buffer.from([0, 0])),
+        /Trailing data/,
+      );
+    });
+
+    it('should decode longs across the safe integer range', () => {
+      const long = AvroType.parse('"long"');
+      for (const n of [
+        0,
+        -1,
+        63,
+        -64,
+        2 ** 32,
+        -(2 ** 40),
+        Number.MAX_SAFE_INTEGER,
+        Number.MIN_SAFE_INTEGER,
+      ]) {
+        assert.strictEqual(long.fromBuffer(long.toBuffer(n)), n);
+      }
+    });
+
+    it('should reject longs outside the safe integer range', () => {
+      const long = AvroType.parse('"long"');
+      for (const hex of [
+        'ffffffffffffffffff01',
+        '8080808080808080808000',
+        // 2 ** 53, and -(2 ** 53).
+        '8080808080808020',
+        'ffffffffffffff1f',
+      ]) {
+        assert.throws(
+          () => long.fromBuffer(Buffer.from(hex, 'hex')),
+          /outside the safe integer range/,
+        );
+      }
+    });
+  });
+
+  describe('JSON encoding', () => {
+    it('should wrap unions and encode bytes as strings', () => {
+      const json = JSON.parse(type.toJsonString(value));
+      assert.deepStrictEqual(json.note, {string: 'hi'});
+      assert.strictEqual(json.next, null);
+      assert.strictEqual(json.blob, '\u0000ÿ');
+    });
+
+    it('should round trip values', () => {
+      const nested = {...value, next: {...value, note: null}};
+      assert.deepStrictEqual(
+        type.fromJsonString(type.toJsonString(nested)),
+        nested,
+      );
+    });
+
+    it('should reject values that do not match', () => {
+      assert.throws(
+        () => AvroType.parse('"int"').fromJsonString('"one"'),
+        /int expected/,
+      );
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import * as execa from 'execa';
+import * as path from 'path';
+
+import {Attributes} from '../src/publisher';
+
+const CLI = path.join(__dirname, '../../bin/pubsub.js');
+
+interface ParsedMessage {
+  data: Buffer;
+  attributes: Attributes;
+  orderingKey?: string;
+}
+
+const {parseAttributes, parseJsonLines} = require(CLI) as {
+  parseAttributes(pairs?: string[]): Attributes;
+  parseJsonLines(
+    input: Buffer,
+    defaults: {attributes?: Attributes; orderingKey?: string},
+  ): ParsedMessage[];
+};
+
+describe('pubsub CLI', () => {
+  describe('parseAttributes', () => {
+    it('should split pairs on the first equals sign', () => {
+      assert.deepStrictEqual(parseAttributes(['a=1', 'b=x=y', 'c=']), {
+        a: '1',
+        b: 'x=y',
+        c: '',
+      });
+    });
+
+    it('should default to no attributes', () => {
+      assert.deepStrictEqual(parseAttributes(), {});
+    });
+
+    it('should reject pairs without a key', () => {
+      assert.throws(() => parseAttributes(['a']), /key=value: a$/);
+      assert.throws(() => parseAttributes(['=b']), /key=value: =b$/);
+    });
+  });
+
+  describe('parseJsonLines', () => {
+    it('should read a message from each line', () => {
+      const input = Buffer.from(
+        [
+          '{"data": "a", "attributes": {"x": "1"}, "orderingKey": "k"}',
+          '',
+          '{"data": {"b": 2}}',
+        ].join('\n'),
+      );
+
+      assert.deepStrictEqual(parseJsonLines(input, {}), [
+        {
+          data: Buffer.from('a'),
+          attributes: {x: '1'},
+          orderingKey: 'k',
+        },
+        {
+          data: Buffer.from('{"b":2}'),
+          attributes: {},
+          orderingKey: undefined,
+        },
+      ]);
+    });
+
+    it('should apply the defaults', () => {
+      const input = Buffer.from(
+        '{"attributes": {"x": "2"}}\n{"orderingKey": "m"}',
+      );
+      const defaults = {attributes: {x: '1', y: '1'}, orderingKey: 'k'};
+
+      assert.deepStrictEqual(parseJsonLines(input, defaults), [
+        {data: Buffer.from(''), attributes: {x: '2', y: '1'}, orderingKey: 'k'},
+        {data: Buffer.from(''), attributes: {x: '1', y: '1'}, orderingKey: 'm'},
+      ]);
+    });
+
+    it('should name the line that is not JSON', () => {
+      const input = Buffer.from('{"data": "a"}\n{"data":');
+      assert.throws(() => parseJsonLines(input, {}), /^Error: Line 2 /);
+    });
+  });
+
+  describe('errors', () => {
+    function cli(...args: string[]) {
+      return execa.node(CLI, args, {
+        reject: false,
+        env: {PUBSUB_EMULATOR_HOST: 'localhost:1'},
+      });
+    }
+
+    it('should exit with an error for bad attributes', async () => {
+      const {exitCode, stderr} = await cli(
+        'publish',
+        't',
+        '--project',
+        'p',
+        '--data',
+        'x',
+        '-a',
+        'nope',
+      );
+      assert.strictEqual(exitCode, 1);
+      assert.strictEqual(stderr, 'Attributes must be given as key=value: nope');
+    });
+
+    it('should exit with an error for bad arguments', async () => {
+      const {exitCode, stderr} = await cli('seek', 's');
+      assert.strictEqual(exitCode, 1);
+      assert.match(stderr, /Exactly one of --time and --snapshot is needed/);
+    });
+
+    it('should exit with an error for unknown commands', async () => {
+      const {exitCode, stderr} = await cli('nope');
+      assert.strictEqual(exitCode, 1);
+      assert.match(stderr, /Unknown argument: nope/);
+    });
+  });
+});
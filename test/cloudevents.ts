@@ -0,0 +1,173 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {PreciseDate} from '@google-cloud/precise-date';
+
+import {
+  CloudEvent,
+  cloudEventToMessage,
+  messageToCloudEvent,
+} from '../src/cloudevents';
+import {PushHandler, PushHeaders, PushMessage} from '../src/push';
+
+const PUBLISH_TIME = '2026-01-01T00:00:00.000000000Z';
+
+function received(message: ReturnType<typeof cloudEventToMessage>) {
+  return {...message, id: '42', publishTime: new PreciseDate(PUBLISH_TIME)};
+}
+
+describe('CloudEvents', () => {
+  const EVENT: CloudEvent = {
+    specversion: '1.0',
+    id: 'event-1',
+    source: '//example.com/orders',
+    type: 'com.example.order.created',
+    subject: 'orders/1',
+    time: '2026-02-03T04:05:06.000Z',
+    datacontenttype: 'application/json',
+    traceparent: '00-abc-def-01',
+    data: {orderId: 1},
+  };
+
+  describe('binary mode', () => {
+    it('should carry the event in attributes', () => {
+      const message = cloudEventToMessage(EVENT);
+      assert.deepStrictEqual(message.attributes, {
+        'ce-specversion': '1.0',
+        'ce-id': 'event-1',
+        'ce-source': '//example.com/orders',
+        'ce-type': 'com.example.order.created',
+        'ce-subject': 'orders/1',
+        'ce-time': '2026-02-03T04:05:06.000Z',
+        'ce-traceparent': '00-abc-def-01',
+        'content-type': 'application/json',
+      });
+      assert.strictEqual(message.data.toString(), '{"orderId":1}');
+    });
+
+    it('should round-trip', () => {
+      const message = received(cloudEventToMessage(EVENT));
+      assert.deepStrictEqual(messageToCloudEvent(message), EVENT);
+    });
+
+    it('should take the id and time from the message', () => {
+      const event = messageToCloudEvent(
+        received({
+          data: Buffer.alloc(0),
+          attributes: {
+            'ce-specversion': '1.0',
+            'ce-source': '//example.com/orders',
+            'ce-type': 'com.example.order.created',
+          },
+        }),
+      );
+      assert.strictEqual(event.id, '42');
+      assert.strictEqual(event.time, PUBLISH_TIME);
+      assert.ok(!('data' in event));
+    });
+
+    it('should keep binary and text data', () => {
+      const binary = {...EVENT, data: Buffer.from([1, 2])};
+      delete binary.datacontenttype;
+      assert.deepStrictEqual(
+        messageToCloudEvent(received(cloudEventToMessage(binary))).data,
+        Buffer.from([1, 2]),
+      );
+
+      const text = {...EVENT, datacontenttype: 'text/plain', data: 'hi'};
+      assert.strictEqual(
+        messageToCloudEvent(received(cloudEventToMessage(text))).data,
+        'hi',
+      );
+    });
+  });
+
+  describe('structured mode', () => {
+    it('should carry the event as JSON', () => {
+      const message = cloudEventToMessage(EVENT, 'structured');
+      assert.strictEqual(
+        message.attributes['content-type'],
+        'application/cloudevents+json; charset=UTF-8',
+      );
+      assert.deepStrictEqual(JSON.parse(message.data.toString()), EVENT);
+    });
+
+    it('should round-trip', () => {
+      const binary = {...EVENT, data: Buffer.from([1, 2])};
+      const message = received(cloudEventToMessage(binary, 'structured'));
+      assert.deepStrictEqual(messageToCloudEvent(message), binary);
+    });
+  });
+
+  it('should need the required attributes', () => {
+    assert.throws(
+      () => cloudEventToMessage({...EVENT, source: ''}),
+      /has no source/,
+    );
+  });
+
+  it('should reject messages that are not events', () => {
+    assert.throws(
+      () =>
+        messageToCloudEvent(
+          received({data: Buffer.from('hi'), attributes: {}}),
+        ),
+      /not a CloudEvent/,
+    );
+  });
+
+  describe('push', () => {
+    async function push(
+      noWrapper: boolean,
+      request: {headers?: PushHeaders; body: object | Buffer},
+    ) {
+      let message: PushMessage | undefined;
+      const handler = new PushHandler(m => void (message = m), {
+        oidc: false,
+        noWrapper,
+      });
+      await handler.handle({headers: {}, ...request});
+      return message!;
+    }
+
+    it('should round-trip wrapped pushes', async () => {
+      for (const mode of ['binary', 'structured'] as const) {
+        const {data, attributes} = cloudEventToMessage(EVENT, mode);
+        const message = await push(false, {
+          body: {
+            message: {
+              attributes,
+              data: data.toString('base64'),
+              messageId: '42',
+              publishTime: PUBLISH_TIME,
+            },
+            subscription: 'projects/p/subscriptions/s',
+          },
+        });
+        assert.deepStrictEqual(message.toCloudEvent(), EVENT);
+      }
+    });
+
+    it('should round-trip unwrapped binary pushes', async () => {
+      const {data, attributes} = cloudEventToMessage(EVENT);
+      const message = await push(true, {
+        headers: {...attributes, 'user-agent': 'APIs-Google'},
+        body: data,
+      });
+      assert.deepStrictEqual(message.toCloudEvent(), EVENT);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import defer = require('p-defer');
+
+import {
+  COMPRESSION_ATTRIBUTE,
+  CompressionAlgorithms,
+  compressMessage,
+  decompressMessage,
+} from '../src/compression';
+import {calculateMessageSize} from '../src/publisher/pubsub-message';
+import {Message, PubSub} from '../src';
+
+describe('compression', () => {
+  const data = Buffer.alloc(4096, 'abc');
+
+  describe('compressMessage', () => {
+    for (const algorithm of Object.values(CompressionAlgorithms)) {
+      it(`should round trip ${algorithm}`, () => {
+        const message = {data, attributes: {foo: 'bar'}};
+        const compressed = compressMessage(message, {algorithm});
+
+        assert.ok(compressed.data!.length < data.length);
+        assert.strictEqual(
+          compressed.attributes![COMPRESSION_ATTRIBUTE],
+          algorithm,
+        );
+
+        const decompressed = decompressMessage(compressed);
+        assert.deepStrictEqual(decompressed.data, data);
+        assert.deepStrictEqual(decompressed.attributes, {foo: 'bar'});
+      });
+    }
+
+    it('should default to gzip', () => {
+      const compressed = compressMessage({data}, {});
+      assert.strictEqual(compressed.attributes![COMPRESSION_ATTRIBUTE], 'gzip');
+    });
+
+    it('should not change the original message', () => {
+      const message = {data, attributes: {foo: 'bar'}};
+      calculateMessageSize(message);
+
+      const compressed = compressMessage(message, {});
+
+      assert.strictEqual(message.data, data);
+      assert.deepStrictEqual(message.attributes, {foo: 'bar'});
+      assert.notStrictEqual(
+        calculateMessageSize(compressed),
+        calculateMessageSize(message),
+      );
+    });
+
+    it('should size messages by their compressed data', () => {
+      const compressed = compressMessage({data}, {});
+      assert.strictEqual(
+        calculateMessageSize(compressed),
+        compressed.data!.length +
+          Buffer.byteLength(COMPRESSION_ATTRIBUTE + 'gzip'),
+      );
+    });
+
+    it('should skip messages smaller than minBytes', () => {
+      const message = {data};
+      assert.strictEqual(compressMessage(message, {minBytes: 5000}), message);
+    });
+
+    it('should skip data that does not get smaller', () => {
+      const message = {data: Buffer.from('x'.repeat(10))};
+      assert.strictEqual(compressMessage(message, {minBytes: 0}), message);
+    });
+
+    it('should skip messages without data', () => {
+      const message = {attributes: {foo: 'bar'}};
+      assert.strictEqual(compressMessage(message, {minBytes: 0}), message);
+    });
+  });
+
+  describe('decompressMessage', () => {
+    it('should pass through uncompressed messages', () => {
+      const attributes = {foo: 'bar'};
+      const result = decompressMessage({data, attributes});
+      assert.strictEqual(result.data, data);
+      assert.strictEqual(result.attributes, attributes);
+    });
+
+    it('should throw for unknown algorithms', () => {
+      assert.throws(
+        () =>
+          decompressMessage({data, attributes: {[COMPRESSION_ATTRIBUTE]: 'x'}}),
+        /Unknown compression algorithm: x/,
+      );
+    });
+  });
+
+  it('should deliver the original data end to end', async () => {
+    const pubsub = new PubSub({backend: 'memory'});
+    const topic = pubsub.topic('topic', {compression: {algorithm: 'brotli'}});
+    await topic.create();
+    await topic.createSubscription('sub');
+    const subscription = topic.subscription('sub', {decompress: true});
+    const received = defer<Message>();
+    subscription.on('message', (message: Message) => {
+      message.ack();
+      received.resolve(message);
+    });
+
+    await topic.publishMessage({data, attributes: {foo: 'bar'}});
+    const message = await received.promise;
+    await subscription.close();
+    await pubsub.close();
+
+    assert.deepStrictEqual(message.data, data);
+    assert.deepStrictEqual(message.attributes, {foo: 'bar'});
+  });
+});
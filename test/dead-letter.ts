@@ -0,0 +1,182 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {DeadLetterAttributes, DeadLetterForwarder} from '../src/dead-letter';
+import {Message} from '../src/subscriber';
+import {Topic} from '../src/topic';
+
+class FakeTopic {
+  async publishMessage(): Promise<string> {
+    return 'new-id';
+  }
+  resumePublishing(): void {}
+}
+
+function fakeMessage(id: string, deliveryAttempt = 0): Message {
+  return {
+    id,
+    deliveryAttempt,
+    data: Buffer.from('data'),
+    attributes: {foo: 'bar'},
+  } as {} as Message;
+}
+
+describe('DeadLetterForwarder', () => {
+  const sandbox = sinon.createSandbox();
+
+  let topic: FakeTopic;
+  let forwarder: DeadLetterForwarder;
+
+  beforeEach(() => {
+    topic = new FakeTopic();
+    forwarder = new DeadLetterForwarder({
+      topic: topic as {} as Topic,
+      maxAttempts: 3,
+    });
+  });
+
+  afterEach(() => sandbox.restore());
+
+  describe('recordFailure', () => {
+    it('should count failures by message id', () => {
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('a')), 1);
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('a')), 2);
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('b')), 1);
+    });
+
+    it('should prefer the server delivery attempt', () => {
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('a', 4)), 4);
+    });
+
+    it('should reset after forget', () => {
+      forwarder.recordFailure(fakeMessage('a'));
+      forwarder.forget(fakeMessage('a'));
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('a')), 1);
+    });
+  });
+
+  describe('shouldForward', () => {
+    it('should forward at the max attempts', () => {
+      assert.strictEqual(forwarder.shouldForward(2), false);
+      assert.strictEqual(forwarder.shouldForward(3), true);
+    });
+
+    it('should default the max attempts to 5', () => {
+      forwarder = new DeadLetterForwarder({topic: topic as {} as Topic});
+      assert.strictEqual(forwarder.shouldForward(4), false);
+      assert.strictEqual(forwarder.shouldForward(5), true);
+    });
+  });
+
+  describe('forward', () => {
+    it('should publish the message with dead letter attributes', async () => {
+      const stub = sandbox.spy(topic, 'publishMessage');
+      const message = fakeMessage('a');
+
+      const id = await forwarder.forward(
+        message,
+        'projects/p/subscriptions/s',
+        3,
+        new Error('it broke'),
+      );
+
+      assert.strictEqual(id, 'new-id');
+      assert.deepStrictEqual(stub.lastCall.args, [
+        {
+          data: message.data,
+          attributes: {
+            foo: 'bar',
+            [DeadLetterAttributes.Subscription]: 'projects/p/subscriptions/s',
+            [DeadLetterAttributes.MessageId]: 'a',
+            [DeadLetterAttributes.DeliveryAttempt]: '3',
+            [DeadLetterAttributes.Error]: 'it broke',
+          },
+          orderingKey: undefined,
+        },
+      ]);
+    });
+
+    it('should leave out the error if there was none', async () => {
+      const stub = sandbox.spy(topic, 'publishMessage');
+
+      await forwarder.forward(fakeMessage('a'), 's', 3);
+
+      const [{attributes}] = stub.lastCall.args as unknown as [
+        {attributes: {}},
+      ];
+      assert.strictEqual(DeadLetterAttributes.Error in attributes, false);
+    });
+
+    it('should truncate long errors to 1024 bytes', async () => {
+      const stub = sandbox.spy(topic, 'publishMessage');
+      // 20 bytes of 'é', then 3-byte characters, one of which straddles the
+      // 1024th byte.
+      const message = 'é'.repeat(10) + '€'.repeat(1000);
+
+      await forwarder.forward(fakeMessage('a'), 's', 3, new Error(message));
+
+      const [{attributes}] = stub.lastCall.args as unknown as [
+        {attributes: {[key: string]: string}},
+      ];
+      const value = attributes[DeadLetterAttributes.Error];
+      assert.strictEqual(Buffer.byteLength(value), 1022);
+      assert.ok(message.startsWith(value));
+    });
+
+    it('should stop tracking forwarded messages', async () => {
+      forwarder.recordFailure(fakeMessage('a'));
+      await forwarder.forward(fakeMessage('a'), 's', 3);
+
+      assert.strictEqual(forwarder.recordFailure(fakeMessage('a')), 1);
+    });
+
+    it('should pass back publish errors', async () => {
+      const fakeError = new Error('nope');
+      sandbox.stub(topic, 'publishMessage').rejects(fakeError);
+
+      await assert.rejects(
+        forwarder.forward(fakeMessage('a'), 's', 3),
+        fakeError,
+      );
+    });
+
+    it('should keep the ordering key', async () => {
+      const stub = sandbox.spy(topic, 'publishMessage');
+      const message = fakeMessage('a');
+      message.orderingKey = 'key';
+
+      await forwarder.forward(message, 's', 3);
+
+      const [{orderingKey}] = stub.lastCall.args as unknown as [
+        {orderingKey: string},
+      ];
+      assert.strictEqual(orderingKey, 'key');
+    });
+
+    it('should resume the ordering key if publishing fails', async () => {
+      sandbox.stub(topic, 'publishMessage').rejects(new Error('nope'));
+      const stub = sandbox.stub(topic, 'resumePublishing');
+      const message = fakeMessage('a');
+      message.orderingKey = 'key';
+
+      await assert.rejects(forwarder.forward(message, 's', 3));
+
+      assert.deepStrictEqual(stub.lastCall.args, ['key']);
+    });
+  });
+});
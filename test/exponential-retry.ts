@@ -173,6 +173,59 @@ describe('exponential retry class', () => {
     assert.strictEqual(leftovers.length, 0);
   });
 
+  it('accepts a starting multiplier', () => {
+    const clock = TestUtils.useFakeTimers(sandbox);
+    const er = new ExponentialRetry<TestItem>(
+      Duration.from({milliseconds: 100}),
+      Duration.from({milliseconds: 1000}),
+    );
+    sandbox.stub(global.Math, 'random').returns(0.75);
+
+    let callbackTime: Duration | undefined;
+    const item = makeItem();
+    er.retryLater(
+      item,
+      (s: TestItem, t: Duration) => {
+        callbackTime = t;
+      },
+      4,
+    );
+
+    clock.tick(499);
+    assert.strictEqual(callbackTime, undefined);
+
+    clock.tick(1);
+    assert.strictEqual(callbackTime!.milliseconds, 500);
+
+    const leftovers = er.close();
+    assert.strictEqual(leftovers.length, 0);
+  });
+
+  it('caps a starting multiplier at the max backoff', () => {
+    const clock = TestUtils.useFakeTimers(sandbox);
+    const er = new ExponentialRetry<TestItem>(
+      Duration.from({milliseconds: 100}),
+      Duration.from({milliseconds: 1000}),
+    );
+    sandbox.stub(global.Math, 'random').returns(0.75);
+
+    let callbackTime: Duration | undefined;
+    const item = makeItem();
+    er.retryLater(
+      item,
+      (s: TestItem, t: Duration) => {
+        callbackTime = t;
+      },
+      16,
+    );
+
+    clock.tick(1250);
+    assert.strictEqual(callbackTime!.milliseconds, 1250);
+
+    const leftovers = er.close();
+    assert.strictEqual(leftovers.length, 0);
+  });
+
   it('calls retries in the right order', () => {
     const clock = TestUtils.useFakeTimers(sandbox);
     const items = [makeItem(), makeItem()];
@@ -112,6 +112,18 @@ describe('Histogram', () => {
       assert.strictEqual(histogram.percentile(1), 101000);
     });
 
+    it('should not depend on the order values were added in', () => {
+      range(100, 201)
+        .reverse()
+        .forEach(value => {
+          histogram.add(value * 1000);
+        });
+
+      assert.strictEqual(histogram.percentile(100), 200000);
+      assert.strictEqual(histogram.percentile(99), 199000);
+      assert.strictEqual(histogram.percentile(1), 101000);
+    });
+
     it('should return the min value if unable to determine', () => {
       assert.strictEqual(histogram.percentile(99), MIN_VALUE);
     });
@@ -0,0 +1,272 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {
+  contentKey,
+  DuplicateWindow,
+  IDEMPOTENCY_KEY_ATTRIBUTE,
+  MemoryDuplicateStore,
+  PublishedKeys,
+  withIdempotencyKey,
+} from '../src/idempotency';
+import {Message} from '../src/subscriber';
+import {Duration} from '../src/temporal';
+
+const SUBSCRIPTION = 'projects/p/subscriptions/s';
+
+function fakeMessage(id: string, key?: string, attributes = {}): Message {
+  return {
+    id,
+    attributes: key
+      ? {...attributes, [IDEMPOTENCY_KEY_ATTRIBUTE]: key}
+      : attributes,
+  } as {} as Message;
+}
+
+describe('idempotency', () => {
+  describe('contentKey', () => {
+    const data = Buffer.from('data');
+
+    it('should not depend on attribute order or the key itself', () => {
+      assert.strictEqual(
+        contentKey({data, attributes: {a: '1', b: '2'}}),
+        contentKey({
+          data,
+          attributes: {b: '2', a: '1', [IDEMPOTENCY_KEY_ATTRIBUTE]: 'x'},
+        }),
+      );
+    });
+
+    it('should differ with the content', () => {
+      const key = contentKey({data});
+      assert.notStrictEqual(key, contentKey({data: Buffer.from('other')}));
+      assert.notStrictEqual(key, contentKey({data, orderingKey: 'k'}));
+      assert.notStrictEqual(key, contentKey({data, attributes: {a: '1'}}));
+    });
+  });
+
+  describe('withIdempotencyKey', () => {
+    it('should keep a key that was provided', () => {
+      const message = {attributes: {[IDEMPOTENCY_KEY_ATTRIBUTE]: 'mine'}};
+      assert.strictEqual(withIdempotencyKey(message), message);
+    });
+
+    it('should add a content key without changing the message', () => {
+      const message = {data: Buffer.from('data'), attributes: {a: '1'}};
+      const keyed = withIdempotencyKey(message);
+      assert.deepStrictEqual(keyed.attributes, {
+        a: '1',
+        [IDEMPOTENCY_KEY_ATTRIBUTE]: contentKey(message),
+      });
+      assert.deepStrictEqual(message.attributes, {a: '1'});
+    });
+  });
+
+  describe('PublishedKeys', () => {
+    it('should share the result of the first copy', async () => {
+      const keys = new PublishedKeys();
+      const callback = sinon.spy();
+      assert.strictEqual(keys.get('k'), undefined);
+
+      const tracked = keys.track('k', callback);
+      const copy = keys.get('k')!;
+      tracked(null, 'id');
+
+      assert.strictEqual(await copy, 'id');
+      assert.deepStrictEqual(callback.lastCall.args, [null, 'id']);
+    });
+
+    it('should forget keys that failed', async () => {
+      const keys = new PublishedKeys();
+      const tracked = keys.track('k', () => {});
+      const copy = keys.get('k')!;
+      tracked(new Error('nope') as never);
+
+      await assert.rejects(copy, /nope/);
+      assert.strictEqual(keys.get('k'), undefined);
+    });
+
+    it('should forget the least recently used keys', () => {
+      const keys = new PublishedKeys({maxKeys: 2});
+      keys.track('a', () => {});
+      keys.track('b', () => {});
+      void keys.get('a');
+      keys.track('c', () => {});
+
+      assert.strictEqual(keys.size, 2);
+      assert.ok(keys.get('a'));
+      assert.strictEqual(keys.get('b'), undefined);
+    });
+  });
+
+  describe('MemoryDuplicateStore', () => {
+    const window = Duration.from({seconds: 5});
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({toFake: ['Date']});
+    });
+
+    afterEach(() => clock.restore());
+
+    it('should only add a key once within the window', async () => {
+      const store = new MemoryDuplicateStore();
+      assert.strictEqual(await store.add('k', '1', window), undefined);
+      assert.strictEqual(await store.add('k', '2', window), '1');
+
+      clock.tick(5000);
+      assert.strictEqual(await store.add('k', '3', window), undefined);
+    });
+
+    it('should delete keys', async () => {
+      const store = new MemoryDuplicateStore();
+      await store.add('k', '1', window);
+      await store.delete('k');
+      assert.strictEqual(await store.add('k', '2', window), undefined);
+    });
+
+    it('should forget the oldest keys beyond maxKeys', async () => {
+      const store = new MemoryDuplicateStore(1);
+      await store.add('a', '1', window);
+      await store.add('b', '2', window);
+
+      assert.strictEqual(store.size, 1);
+      assert.strictEqual(await store.add('a', '3', window), undefined);
+    });
+  });
+
+  describe('DuplicateWindow', () => {
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({toFake: ['Date']});
+    });
+
+    afterEach(() => clock.restore());
+
+    async function check(window: DuplicateWindow, ...messages: Message[]) {
+      const results: boolean[] = [];
+      for (const message of messages) {
+        results.push(await window.isDuplicate(message));
+      }
+      return results;
+    }
+
+    it('should spot copies with other message IDs', async () => {
+      const window = new DuplicateWindow(SUBSCRIPTION);
+      assert.deepStrictEqual(
+        await check(
+          window,
+          fakeMessage('1', 'k'),
+          fakeMessage('2', 'k'),
+          fakeMessage('1', 'k'),
+          fakeMessage('3'),
+        ),
+        [false, true, false, false],
+      );
+    });
+
+    it('should forget keys once the window passes', async () => {
+      const window = new DuplicateWindow(SUBSCRIPTION, {
+        window: Duration.from({seconds: 5}),
+      });
+      await window.isDuplicate(fakeMessage('1', 'k'));
+
+      clock.tick(4999);
+      assert.strictEqual(await window.isDuplicate(fakeMessage('2', 'k')), true);
+      clock.tick(1);
+      assert.strictEqual(
+        await window.isDuplicate(fakeMessage('3', 'k')),
+        false,
+      );
+    });
+
+    it('should identify copies by another attribute', async () => {
+      const window = new DuplicateWindow(SUBSCRIPTION, {attribute: 'key'});
+      assert.deepStrictEqual(
+        await check(
+          window,
+          fakeMessage('1', 'a', {key: 'k'}),
+          fakeMessage('2', 'b', {key: 'k'}),
+        ),
+        [false, true],
+      );
+    });
+
+    it('should drop redeliveries if asked to', async () => {
+      const window = new DuplicateWindow(SUBSCRIPTION, {}, true);
+      assert.deepStrictEqual(
+        await check(
+          window,
+          fakeMessage('1', 'k'),
+          fakeMessage('2', 'k'),
+          fakeMessage('1', 'k'),
+          fakeMessage('3'),
+          fakeMessage('3'),
+        ),
+        [false, false, true, false, true],
+      );
+    });
+
+    it('should identify redeliveries by an attribute if asked to', async () => {
+      const window = new DuplicateWindow(
+        SUBSCRIPTION,
+        {attribute: 'key'},
+        true,
+      );
+      assert.deepStrictEqual(
+        await check(
+          window,
+          fakeMessage('1', 'a', {key: 'k'}),
+          fakeMessage('1', 'a', {key: 'k'}),
+          fakeMessage('2', 'b', {key: 'k'}),
+          fakeMessage('3'),
+          fakeMessage('3'),
+        ),
+        [false, true, true, false, false],
+      );
+    });
+
+    it('should scope keys to the subscription', async () => {
+      const store = new MemoryDuplicateStore();
+      const add = sinon.spy(store, 'add');
+      const window = Duration.from({seconds: 30});
+      const duplicates = new DuplicateWindow(SUBSCRIPTION, {store, window});
+
+      await duplicates.isDuplicate(fakeMessage('1', 'k'));
+      assert.deepStrictEqual(add.lastCall.args, [
+        `${SUBSCRIPTION}/k`,
+        '1',
+        window,
+      ]);
+
+      const other = new DuplicateWindow('projects/p/subscriptions/t', {store});
+      assert.strictEqual(await other.isDuplicate(fakeMessage('2', 'k')), false);
+    });
+
+    it('should forget released messages', async () => {
+      const window = new DuplicateWindow(SUBSCRIPTION);
+      await window.isDuplicate(fakeMessage('1', 'k'));
+      await window.release(fakeMessage('1', 'k'));
+      assert.strictEqual(
+        await window.isDuplicate(fakeMessage('2', 'k')),
+        false,
+      );
+    });
+  });
+});
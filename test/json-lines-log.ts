@@ -0,0 +1,95 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {promises as fs} from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {JsonLinesLog} from '../src/json-lines-log';
+
+interface Record {
+  n: number;
+}
+
+describe('JsonLinesLog', () => {
+  let directory: string;
+  let log: JsonLinesLog<Record>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-log-'));
+    log = new JsonLinesLog(() => path.join(directory, 'logs', 'test.log'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  it('should append records a line at a time', async () => {
+    await log.append([{n: 1}, {n: 2}]);
+    await log.append([{n: 3}]);
+
+    assert.strictEqual(
+      await fs.readFile(log.file, 'utf8'),
+      '{"n":1}\n{"n":2}\n{"n":3}\n',
+    );
+    assert.deepStrictEqual(await log.read(), [{n: 1}, {n: 2}, {n: 3}]);
+  });
+
+  it('should replace the records', async () => {
+    await log.append([{n: 1}, {n: 2}]);
+    await log.replace([{n: 3}]);
+
+    assert.deepStrictEqual(await log.read(), [{n: 3}]);
+    assert.deepStrictEqual(await fs.readdir(path.dirname(log.file)), [
+      'test.log',
+    ]);
+  });
+
+  it('should skip blank lines and lines cut short', async () => {
+    await log.append([{n: 1}]);
+    await fs.appendFile(log.file, '\n{"n":2}\n{"n":');
+
+    assert.deepStrictEqual(await log.read(), [{n: 1}, {n: 2}]);
+  });
+
+  it('should read a log that does not exist as empty', async () => {
+    assert.deepStrictEqual(await log.read(), []);
+  });
+
+  it('should read other logs', async () => {
+    const other = path.join(directory, 'other.log');
+    await fs.writeFile(other, '{"n":4}\n');
+
+    assert.deepStrictEqual(await log.read(other), [{n: 4}]);
+  });
+
+  it('should run changes one at a time', async () => {
+    const order: string[] = [];
+    const first = log.serialize(async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      order.push('first');
+      throw new Error('nope');
+    });
+    const second = log.serialize(async () => {
+      order.push('second');
+      return 2;
+    });
+
+    await assert.rejects(first, /nope/);
+    assert.strictEqual(await second, 2);
+    assert.deepStrictEqual(order, ['first', 'second']);
+  });
+});
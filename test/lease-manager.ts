@@ -44,6 +44,7 @@ class FakeSubscriber extends EventEmitter {
   isOpen = true;
   modAckLatency = 2000;
   maxExtensionTime = Duration.from({minutes: 60});
+  serializeOrderingKeys = false;
   async modAck(): Promise<void> {}
   async modAckWithResponse(): Promise<AckResponse> {
     return AckResponses.Success;
@@ -64,6 +65,7 @@ class FakeSubscriberTelemetry {
 
 class FakeMessage {
   length = 20;
+  orderingKey?: string;
   received: number;
   subSpans: FakeSubscriberTelemetry = new FakeSubscriberTelemetry();
   _dispatched = false;
@@ -638,6 +640,214 @@ describe('LeaseManager', () => {
     });
   });
 
+  describe('held messages', () => {
+    function dispatched(): Promise<Message[]> {
+      const messages: Message[] = [];
+      subscriber.on('message', m => messages.push(m));
+      return new Promise(r => setImmediate(() => r(messages)));
+    }
+
+    it('should lease held messages without dispatching them', async () => {
+      const message = new FakeMessage() as {} as Message;
+
+      let received = dispatched();
+      leaseManager.add(message, true);
+      assert.deepStrictEqual(await received, []);
+      assert.strictEqual(leaseManager.size, 1);
+      assert.strictEqual(leaseManager.isHeld(message), true);
+
+      subscriber.removeAllListeners('message');
+      received = dispatched();
+      leaseManager.unhold(message);
+      assert.deepStrictEqual(await received, [message]);
+      assert.strictEqual(leaseManager.isHeld(message), false);
+    });
+
+    it('should leave flow-blocked messages pending on unhold', async () => {
+      leaseManager.setOptions({allowExcessMessages: false, maxMessages: 1});
+      const first = new FakeMessage() as {} as Message;
+      const second = new FakeMessage() as {} as Message;
+
+      const received = dispatched();
+      leaseManager.add(first);
+      leaseManager.add(second, true);
+      leaseManager.unhold(second);
+
+      assert.deepStrictEqual(await received, [first]);
+      assert.strictEqual(leaseManager.pending, 1);
+    });
+
+    it('should forget held messages that are removed', () => {
+      const message = new FakeMessage() as {} as Message;
+      leaseManager.add(message, true);
+      leaseManager.remove(message);
+      assert.strictEqual(leaseManager.isHeld(message), false);
+    });
+  });
+
+  describe('ordering keys', () => {
+    function makeMessage(orderingKey?: string): Message {
+      const message = new FakeMessage();
+      message.orderingKey = orderingKey;
+      return message as {} as Message;
+    }
+
+    function dispatched(): Promise<Message[]> {
+      const messages: Message[] = [];
+      subscriber.on('message', m => messages.push(m));
+      return new Promise(r => setImmediate(() => r(messages)));
+    }
+
+    beforeEach(() => {
+      subscriber.serializeOrderingKeys = true;
+    });
+
+    it('should dispatch all messages when not serializing', async () => {
+      subscriber.serializeOrderingKeys = false;
+      const messages = [makeMessage('a'), makeMessage('a')];
+
+      const received = dispatched();
+      messages.forEach(m => leaseManager.add(m));
+
+      assert.deepStrictEqual(await received, messages);
+    });
+
+    it('should hold later messages for a key until removal', async () => {
+      const first = makeMessage('a');
+      const second = makeMessage('a');
+
+      let received = dispatched();
+      leaseManager.add(first);
+      leaseManager.add(second);
+
+      assert.deepStrictEqual(await received, [first]);
+      assert.strictEqual(leaseManager.size, 2);
+
+      subscriber.removeAllListeners('message');
+      received = dispatched();
+      leaseManager.remove(first);
+
+      assert.deepStrictEqual(await received, [second]);
+    });
+
+    it('should dispatch different keys in parallel', async () => {
+      const messages = [makeMessage('a'), makeMessage('b'), makeMessage()];
+
+      const received = dispatched();
+      messages.forEach(m => leaseManager.add(m));
+
+      assert.deepStrictEqual(await received, messages);
+    });
+
+    it('should drop waiting messages that are removed', async () => {
+      const first = makeMessage('a');
+      const second = makeMessage('a');
+      const third = makeMessage('a');
+
+      leaseManager.add(first);
+      leaseManager.add(second);
+      leaseManager.add(third);
+      leaseManager.remove(second);
+      await dispatched();
+
+      subscriber.removeAllListeners('message');
+      const received = dispatched();
+      leaseManager.remove(first);
+
+      assert.deepStrictEqual(await received, [third]);
+    });
+
+    it('should forget waiting messages on clear', async () => {
+      const first = makeMessage('a');
+      leaseManager.add(first);
+      leaseManager.add(makeMessage('a'));
+      leaseManager.clear();
+      await dispatched();
+
+      subscriber.removeAllListeners('message');
+      const next = makeMessage('a');
+      const received = dispatched();
+      leaseManager.add(next);
+
+      assert.deepStrictEqual(await received, [next]);
+    });
+  });
+
+  describe('maxMessagesPerSecond', () => {
+    let clock: sinon.SinonFakeTimers;
+    let received: Message[];
+
+    function makeMessages(count: number): Message[] {
+      return Array.from({length: count}, () => {
+        const message = new FakeMessage() as {} as Message;
+        leaseManager.add(message);
+        return message;
+      });
+    }
+
+    async function tick(ms: number): Promise<void> {
+      clock.tick(ms);
+      await new Promise(r => setImmediate(r));
+    }
+
+    beforeEach(() => {
+      clock = TestUtils.useFakeTimers(sandbox);
+      received = [];
+      subscriber.on('message', m => received.push(m));
+      leaseManager.setOptions({maxMessagesPerSecond: 2});
+    });
+
+    it('should pace messages beyond the rate', async () => {
+      const messages = makeMessages(4);
+
+      await tick(0);
+      assert.deepStrictEqual(received, messages.slice(0, 2));
+
+      await tick(499);
+      assert.strictEqual(received.length, 2);
+      await tick(1);
+      assert.deepStrictEqual(received, messages.slice(0, 3));
+      await tick(500);
+      assert.deepStrictEqual(received, messages);
+    });
+
+    it('should keep leasing paced messages', async () => {
+      const [, , paced] = makeMessages(3);
+      const stub = sandbox.stub(paced, 'modAck');
+
+      getLMInternals(leaseManager)._extendDeadlines();
+
+      assert.strictEqual(leaseManager.size, 3);
+      assert.strictEqual(stub.callCount, 1);
+      await tick(0);
+      assert.strictEqual(received.includes(paced), false);
+    });
+
+    it('should skip paced messages that are removed', async () => {
+      const messages = makeMessages(4);
+      leaseManager.remove(messages[2]);
+
+      await tick(500);
+      assert.deepStrictEqual(received, [messages[0], messages[1], messages[3]]);
+    });
+
+    it('should forget paced messages on clear', async () => {
+      makeMessages(3);
+      leaseManager.clear();
+
+      await tick(1000);
+      assert.strictEqual(received.length, 2);
+    });
+
+    it('should not pace messages by default', async () => {
+      leaseManager.setOptions({});
+      makeMessages(4);
+
+      await tick(0);
+      assert.strictEqual(received.length, 4);
+    });
+  });
+
   describe('setOptions', () => {
     it('should allow excess messages by default', () => {});
 
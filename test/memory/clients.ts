@@ -0,0 +1,258 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import defer = require('p-defer');
+import {GoogleError, Status} from 'google-gax';
+
+import {Message, PubSub, Subscription, Topic} from '../../src';
+import {MemoryBackend} from '../../src/memory';
+import {
+  MemoryPublisherClient,
+  MemoryPullStream,
+  MemorySubscriberClient,
+} from '../../src/memory/clients';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('in-memory clients', () => {
+  describe('MemoryPublisherClient', () => {
+    let backend: MemoryBackend;
+    let client: MemoryPublisherClient;
+
+    beforeEach(() => {
+      backend = new MemoryBackend();
+      client = new MemoryPublisherClient(backend);
+    });
+
+    it('should resolve with the response tuple', async () => {
+      const [topic] = await client.createTopic({name: 'projects/p/topics/t'})!;
+      assert.deepStrictEqual(topic, {name: 'projects/p/topics/t'});
+    });
+
+    it('should call back with errors', done => {
+      void client.getTopic({topic: 'projects/p/topics/t'}, {}, err => {
+        assert.strictEqual((err as GoogleError).code, Status.NOT_FOUND);
+        done();
+      });
+    });
+
+    it('should page only when asked to', async () => {
+      for (const name of ['a', 'b', 'c']) {
+        backend.createTopic({name: `projects/p/topics/${name}`});
+      }
+      const request = {project: 'projects/p', pageSize: 2};
+
+      const [all] = await client.listTopics(request)!;
+      assert.strictEqual(all.length, 3);
+
+      const [page, next, response] = await client.listTopics(request, {
+        autoPaginate: false,
+      })!;
+      assert.strictEqual(page.length, 2);
+      assert.deepStrictEqual(next, {...request, pageToken: '2'});
+      assert.strictEqual(
+        (response as {nextPageToken: string}).nextPageToken,
+        '2',
+      );
+
+      const [rest, last] = await client.listTopics(next!, {
+        autoPaginate: false,
+      })!;
+      assert.strictEqual(rest.length, 1);
+      assert.strictEqual(last, null);
+    });
+  });
+
+  describe('MemoryPullStream', () => {
+    let backend: MemoryBackend;
+    let client: MemorySubscriberClient;
+
+    beforeEach(() => {
+      backend = new MemoryBackend();
+      client = new MemorySubscriberClient(backend);
+      backend.createTopic({name: 'projects/p/topics/t'});
+      backend.createSubscription({
+        name: 'projects/p/subscriptions/s',
+        topic: 'projects/p/topics/t',
+      });
+    });
+
+    it('should stream messages for the requested subscription', done => {
+      const stream = client.streamingPull();
+      stream.on('data', response => {
+        assert.strictEqual(response.receivedMessages.length, 1);
+        done();
+      });
+      stream.write({subscription: 'projects/p/subscriptions/s'});
+      backend.publish('projects/p/topics/t', [{data: Buffer.from('a')}]);
+    });
+
+    it('should end with a status for missing subscriptions', done => {
+      const stream = client.streamingPull();
+      stream.on('status', status => {
+        assert.strictEqual(status.code, Status.NOT_FOUND);
+        done();
+      });
+      stream.write({subscription: 'projects/p/subscriptions/nope'});
+    });
+
+    it('should confirm acks on exactly-once subscriptions', done => {
+      backend.updateSubscription(
+        {name: 'projects/p/subscriptions/s', enableExactlyOnceDelivery: true},
+        {paths: ['enable_exactly_once_delivery']},
+      );
+      const stream = client.streamingPull();
+      stream.on('data', response => {
+        if (response.receivedMessages.length) {
+          const [{ackId}] = response.receivedMessages;
+          stream.write({ackIds: [ackId, 'nope']});
+          return;
+        }
+        assert.deepStrictEqual(response.acknowledgeConfirmation, {
+          ackIds: [response.acknowledgeConfirmation.ackIds[0]],
+          invalidAckIds: ['nope'],
+        });
+        done();
+      });
+      stream.write({subscription: 'projects/p/subscriptions/s'});
+      backend.publish('projects/p/topics/t', [{data: Buffer.from('a')}]);
+    });
+
+    it('should end with CANCELLED when cancelled', done => {
+      const stream: MemoryPullStream = client.streamingPull();
+      stream.on('status', status => {
+        assert.strictEqual(status.code, Status.CANCELLED);
+        done();
+      });
+      stream.write({subscription: 'projects/p/subscriptions/s'});
+      stream.cancel();
+    });
+  });
+
+  describe('with PubSub', () => {
+    let pubsub: PubSub;
+    let topic: Topic;
+    let subscription: Subscription;
+
+    beforeEach(async () => {
+      pubsub = new PubSub({backend: 'memory'});
+      [topic] = await pubsub.createTopic('topic');
+      [subscription] = await topic.createSubscription('sub');
+    });
+
+    afterEach(async () => {
+      await subscription.close();
+      await pubsub.close();
+    });
+
+    it('should use a default project ID', () => {
+      assert.strictEqual(topic.name, 'projects/memory-project/topics/topic');
+    });
+
+    it('should deliver published messages to listeners', async () => {
+      const received = defer<Message>();
+      subscription.on('message', (message: Message) => {
+        message.ack();
+        received.resolve(message);
+      });
+
+      const id = await topic.publishMessage({
+        data: Buffer.from('hello'),
+        attributes: {foo: 'bar'},
+      });
+
+      const message = await received.promise;
+      assert.strictEqual(message.id, id);
+      assert.strictEqual(message.data.toString(), 'hello');
+      assert.deepStrictEqual(message.attributes, {foo: 'bar'});
+    });
+
+    it('should redeliver nacked messages', async () => {
+      const redelivered = defer<Message>();
+      let deliveries = 0;
+      subscription.on('message', (message: Message) => {
+        if (++deliveries === 1) {
+          message.nack();
+        } else {
+          message.ack();
+          redelivered.resolve(message);
+        }
+      });
+
+      await topic.publishMessage({data: Buffer.from('hello')});
+      await redelivered.promise;
+      assert.strictEqual(deliveries, 2);
+    });
+
+    it('should manage resources', async () => {
+      const [topics] = await pubsub.getTopics();
+      assert.deepStrictEqual(
+        topics.map(t => t.name),
+        [topic.name],
+      );
+
+      const [subscriptions] = await topic.getSubscriptions();
+      assert.deepStrictEqual(
+        subscriptions.map(s => s.name),
+        [subscription.name],
+      );
+
+      await subscription.setMetadata({ackDeadlineSeconds: 42});
+      const [metadata] = await subscription.getMetadata();
+      assert.strictEqual(metadata.ackDeadlineSeconds, 42);
+
+      const [snapshot] = await subscription.createSnapshot('snap');
+      await subscription.seek('snap');
+      await snapshot.delete();
+
+      await subscription.delete();
+      const [exists] = await subscription.exists();
+      assert.strictEqual(exists, false);
+    });
+
+    it('should share a backend between PubSub objects', async () => {
+      const backend = new MemoryBackend();
+      const first = new PubSub({backend});
+      const second = new PubSub({backend});
+
+      await first.createTopic('shared');
+      const [exists] = await second.topic('shared').exists();
+      assert.strictEqual(exists, true);
+      assert.strictEqual(first.memoryBackend, backend);
+    });
+
+    it('should manage schemas', async () => {
+      const definition = JSON.stringify({
+        type: 'record',
+        name: 'Thing',
+        fields: [{name: 'name', type: 'string'}],
+      });
+      const schema = await pubsub.createSchema('schema', 'AVRO', definition);
+
+      const [{name}] = await collect(pubsub.listSchemas());
+      assert.strictEqual(name, await schema.getName());
+      assert.strictEqual((await schema.get()).definition, definition);
+      const message = Buffer.from('{"name": "a"}').toString('base64');
+      await schema.validateMessage(message, 'JSON');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {FilterSyntaxError, parseFilter} from '../../src/memory/filter';
+
+describe('parseFilter', () => {
+  const attributes = {color: 'red', size: 'large', region: 'us-east1'};
+
+  function matches(filter: string): boolean {
+    return parseFilter(filter)(attributes);
+  }
+
+  it('should match everything when empty', () => {
+    assert.strictEqual(parseFilter(undefined)({}), true);
+    assert.strictEqual(parseFilter('  ')({}), true);
+  });
+
+  it('should check for attribute presence', () => {
+    assert.strictEqual(matches('attributes:color'), true);
+    assert.strictEqual(matches('attributes:shape'), false);
+  });
+
+  it('should compare attribute values', () => {
+    assert.strictEqual(matches('attributes.color = "red"'), true);
+    assert.strictEqual(matches('attributes.color = "blue"'), false);
+    assert.strictEqual(matches('attributes.color != "blue"'), true);
+    assert.strictEqual(matches("attributes.size = 'large'"), true);
+  });
+
+  it('should check prefixes', () => {
+    assert.strictEqual(matches('hasPrefix(attributes.region, "us-")'), true);
+    assert.strictEqual(matches('hasPrefix(attributes.region, "eu-")'), false);
+    assert.strictEqual(matches('hasPrefix(attributes.shape, "")'), false);
+  });
+
+  it('should negate', () => {
+    assert.strictEqual(matches('NOT attributes:shape'), true);
+    assert.strictEqual(matches('-attributes:color'), false);
+  });
+
+  it('should combine with AND and OR', () => {
+    assert.strictEqual(
+      matches('attributes.color = "red" AND attributes.size = "large"'),
+      true,
+    );
+    assert.strictEqual(
+      matches('attributes.color = "red" AND attributes.size = "small"'),
+      false,
+    );
+    assert.strictEqual(
+      matches('attributes.color = "blue" OR attributes:size'),
+      true,
+    );
+  });
+
+  it('should group with parentheses', () => {
+    assert.strictEqual(
+      matches(
+        'attributes:color AND (attributes.size = "small" OR attributes:region)',
+      ),
+      true,
+    );
+  });
+
+  it('should handle escaped quotes', () => {
+    const filter = parseFilter('attributes.quote = "say \\"hi\\""');
+    assert.strictEqual(filter({quote: 'say "hi"'}), true);
+  });
+
+  it('should not allow mixing AND and OR', () => {
+    assert.throws(
+      () => parseFilter('attributes:a AND attributes:b OR attributes:c'),
+      FilterSyntaxError,
+    );
+  });
+
+  it('should reject invalid filters', () => {
+    for (const filter of [
+      'color = "red"',
+      'attributes.color = red',
+      'attributes.color "red"',
+      '(attributes:color',
+      'attributes:color attributes:size',
+      'attributes.color = "red',
+      'attributes:color &',
+    ]) {
+      assert.throws(() => parseFilter(filter), FilterSyntaxError, filter);
+    }
+  });
+});
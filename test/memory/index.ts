@@ -0,0 +1,779 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+import {GoogleError, Status} from 'google-gax';
+
+import {google} from '../../protos/protos';
+import {MemoryBackend, MemoryPuller} from '../../src/memory';
+import {TestUtils} from '../test-utils';
+
+type StreamingPullResponse = google.pubsub.v1.IStreamingPullResponse;
+
+const TOPIC = 'projects/p/topics/t';
+const SUBSCRIPTION = 'projects/p/subscriptions/s';
+
+class FakePuller implements MemoryPuller {
+  ackDeadlineSeconds?: number;
+  maxOutstandingMessages?: number;
+  maxOutstandingBytes?: number;
+  responses: StreamingPullResponse[] = [];
+  status?: {code: Status; details: string};
+
+  get received() {
+    return this.responses.flatMap(r => r.receivedMessages!);
+  }
+
+  get data() {
+    return this.received.map(r => String(r.message!.data));
+  }
+
+  deliver(response: StreamingPullResponse): void {
+    this.responses.push(response);
+  }
+
+  endWithStatus(code: Status, details: string): void {
+    this.status = {code, details};
+  }
+}
+
+function tick(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function message(data: string, attributes = {}, orderingKey = '') {
+  return {data: Buffer.from(data), attributes, orderingKey};
+}
+
+describe('MemoryBackend', () => {
+  const sandbox = sinon.createSandbox();
+
+  let backend: MemoryBackend;
+  let puller: FakePuller;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+    puller = new FakePuller();
+    backend.createTopic({name: TOPIC});
+  });
+
+  afterEach(() => {
+    backend.reset();
+    sandbox.restore();
+  });
+
+  function ackIds(p = puller): string[] {
+    return p.received.map(r => r.ackId!);
+  }
+
+  describe('resources', () => {
+    it('should create and get topics', () => {
+      assert.deepStrictEqual(backend.getTopic(TOPIC), {name: TOPIC});
+      assert.throws(
+        () => backend.createTopic({name: TOPIC}),
+        (e: GoogleError) => e.code === Status.ALREADY_EXISTS,
+      );
+      assert.throws(
+        () => backend.getTopic('projects/p/topics/nope'),
+        (e: GoogleError) => e.code === Status.NOT_FOUND,
+      );
+    });
+
+    it('should validate resource names', () => {
+      assert.throws(
+        () => backend.createTopic({name: 'topics/t'}),
+        (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+      );
+    });
+
+    it('should list resources by project', () => {
+      backend.createTopic({name: 'projects/other/topics/t'});
+      backend.createSubscription({name: SUBSCRIPTION, topic: TOPIC});
+
+      assert.deepStrictEqual(
+        backend.listTopics('projects/p').map(t => t.name),
+        [TOPIC],
+      );
+      assert.deepStrictEqual(
+        backend.listSubscriptions('projects/p').map(s => s.name),
+        [SUBSCRIPTION],
+      );
+      assert.deepStrictEqual(backend.listTopicSubscriptions(TOPIC), [
+        SUBSCRIPTION,
+      ]);
+    });
+
+    it('should require the topic for a subscription', () => {
+      assert.throws(
+        () =>
+          backend.createSubscription({
+            name: SUBSCRIPTION,
+            topic: 'projects/p/topics/nope',
+          }),
+        (e: GoogleError) => e.code === Status.NOT_FOUND,
+      );
+    });
+
+    it('should default the ack deadline', () => {
+      const sub = backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+      });
+      assert.strictEqual(sub.ackDeadlineSeconds, 10);
+    });
+
+    it('should update fields in the update mask', () => {
+      backend.createSubscription({name: SUBSCRIPTION, topic: TOPIC});
+      const sub = backend.updateSubscription(
+        {name: SUBSCRIPTION, ackDeadlineSeconds: 30, labels: {a: 'b'}},
+        {paths: ['ack_deadline_seconds']},
+      );
+      assert.strictEqual(sub.ackDeadlineSeconds, 30);
+      assert.deepStrictEqual(sub.labels, undefined);
+    });
+
+    it('should orphan subscriptions of deleted topics', () => {
+      backend.createSubscription({name: SUBSCRIPTION, topic: TOPIC});
+      backend.deleteTopic(TOPIC);
+      assert.strictEqual(
+        backend.getSubscription(SUBSCRIPTION).topic,
+        '_deleted-topic_',
+      );
+    });
+
+    it('should return copies', () => {
+      backend.getTopic(TOPIC).name = 'changed';
+      assert.strictEqual(backend.getTopic(TOPIC).name, TOPIC);
+    });
+
+    it('should store IAM policies', () => {
+      const policy = {bindings: [{role: 'roles/viewer', members: ['a']}]};
+      backend.setIamPolicy(TOPIC, policy);
+      assert.deepStrictEqual(backend.getIamPolicy(TOPIC), policy);
+      assert.deepStrictEqual(backend.testIamPermissions(TOPIC, ['x']), ['x']);
+    });
+  });
+
+  describe('delivery', () => {
+    beforeEach(() => {
+      backend.createSubscription({name: SUBSCRIPTION, topic: TOPIC});
+    });
+
+    it('should deliver published messages to streams', async () => {
+      backend.connect(SUBSCRIPTION, puller);
+      const ids = backend.publish(TOPIC, [message('a'), message('b')]);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a', 'b']);
+      assert.deepStrictEqual(
+        puller.received.map(r => r.message!.messageId),
+        ids,
+      );
+      assert.deepStrictEqual(puller.responses[0].subscriptionProperties, {
+        exactlyOnceDeliveryEnabled: false,
+        messageOrderingEnabled: false,
+      });
+    });
+
+    it('should reject empty messages', () => {
+      assert.throws(
+        () => backend.publish(TOPIC, [{data: Buffer.alloc(0)}]),
+        (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+      );
+    });
+
+    it('should deliver the backlog on connect', async () => {
+      backend.publish(TOPIC, [message('a')]);
+      backend.connect(SUBSCRIPTION, puller);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a']);
+    });
+
+    it('should not deliver to subscriptions made after publishing', async () => {
+      backend.publish(TOPIC, [message('a')]);
+      backend.createSubscription({
+        name: 'projects/p/subscriptions/later',
+        topic: TOPIC,
+      });
+      backend.connect('projects/p/subscriptions/later', puller);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, []);
+    });
+
+    it('should not redeliver leased messages', async () => {
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+      backend.publish(TOPIC, [message('b')]);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a', 'b']);
+    });
+
+    it('should redeliver nacked messages', async () => {
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+
+      backend.modifyAckDeadline(SUBSCRIPTION, ackIds(), 0);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a', 'a']);
+    });
+
+    it('should not redeliver acked messages', async () => {
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+
+      backend.acknowledge(SUBSCRIPTION, ackIds());
+      backend.modifyAckDeadline(SUBSCRIPTION, ackIds(), 0);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a']);
+    });
+
+    it('should redeliver after the ack deadline', async () => {
+      const clock = TestUtils.useFakeTimers(sandbox);
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+
+      clock.tick(9999);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a']);
+
+      clock.tick(1);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a', 'a']);
+    });
+
+    it('should use the stream ack deadline', async () => {
+      const clock = TestUtils.useFakeTimers(sandbox);
+      puller.ackDeadlineSeconds = 60;
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+
+      clock.tick(59999);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a']);
+    });
+
+    it('should extend leases', async () => {
+      const clock = TestUtils.useFakeTimers(sandbox);
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+
+      clock.tick(5000);
+      backend.modifyAckDeadline(SUBSCRIPTION, ackIds(), 30);
+      clock.tick(29999);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a']);
+
+      clock.tick(1);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a', 'a']);
+    });
+
+    it('should respect max outstanding messages', async () => {
+      puller.maxOutstandingMessages = 1;
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('a'), message('b')]);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a']);
+
+      backend.acknowledge(SUBSCRIPTION, ackIds());
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a', 'b']);
+    });
+
+    it('should respect max outstanding bytes', async () => {
+      puller.maxOutstandingBytes = 3;
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [message('aa'), message('bb')]);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['aa']);
+    });
+
+    it('should spread messages across streams', async () => {
+      const other = new FakePuller();
+      backend.connect(SUBSCRIPTION, puller);
+      backend.connect(SUBSCRIPTION, other);
+      backend.publish(TOPIC, [message('a'), message('b')]);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a']);
+      assert.deepStrictEqual(other.data, ['b']);
+    });
+
+    it('should lease messages for unary pulls', () => {
+      backend.publish(TOPIC, [message('a'), message('b')]);
+      const received = backend.pull(SUBSCRIPTION, 1);
+      assert.deepStrictEqual(
+        received.map(r => String(r.message!.data)),
+        ['a'],
+      );
+      assert.strictEqual(backend.pull(SUBSCRIPTION, 10).length, 1);
+    });
+
+    it('should close streams when the subscription is deleted', () => {
+      backend.connect(SUBSCRIPTION, puller);
+      backend.deleteSubscription(SUBSCRIPTION);
+      assert.strictEqual(puller.status!.code, Status.NOT_FOUND);
+    });
+
+    it('should close streams when the subscription is detached', () => {
+      backend.connect(SUBSCRIPTION, puller);
+      backend.detachSubscription(SUBSCRIPTION);
+      assert.strictEqual(puller.status!.code, Status.FAILED_PRECONDITION);
+      assert.strictEqual(backend.getSubscription(SUBSCRIPTION).detached, true);
+    });
+  });
+
+  describe('filters', () => {
+    it('should only keep matching messages', async () => {
+      backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+        filter: 'attributes.color = "red"',
+      });
+      backend.connect(SUBSCRIPTION, puller);
+      backend.publish(TOPIC, [
+        message('a', {color: 'red'}),
+        message('b', {color: 'blue'}),
+        message('c'),
+      ]);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a']);
+    });
+
+    it('should reject invalid filters', () => {
+      assert.throws(
+        () =>
+          backend.createSubscription({
+            name: SUBSCRIPTION,
+            topic: TOPIC,
+            filter: 'color = red',
+          }),
+        (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+      );
+    });
+  });
+
+  describe('ordering keys', () => {
+    beforeEach(() => {
+      backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+        enableMessageOrdering: true,
+      });
+      backend.connect(SUBSCRIPTION, puller);
+    });
+
+    it('should deliver one message per key at a time', async () => {
+      backend.publish(TOPIC, [
+        message('a1', {}, 'a'),
+        message('a2', {}, 'a'),
+        message('b1', {}, 'b'),
+        message('x'),
+      ]);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a1', 'b1', 'x']);
+
+      backend.acknowledge(SUBSCRIPTION, [ackIds()[0]]);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a1', 'b1', 'x', 'a2']);
+    });
+
+    it('should redeliver in order after a nack', async () => {
+      backend.publish(TOPIC, [message('a1', {}, 'a'), message('a2', {}, 'a')]);
+      await tick();
+
+      backend.modifyAckDeadline(SUBSCRIPTION, ackIds(), 0);
+      await tick();
+      assert.deepStrictEqual(puller.data, ['a1', 'a1']);
+    });
+
+    it('should report ordering in subscription properties', async () => {
+      backend.publish(TOPIC, [message('a1', {}, 'a')]);
+      await tick();
+      assert.strictEqual(
+        puller.responses[0].subscriptionProperties!.messageOrderingEnabled,
+        true,
+      );
+    });
+  });
+
+  describe('dead letter policies', () => {
+    const DEAD_LETTER_TOPIC = 'projects/p/topics/dead';
+    const DEAD_LETTER_SUBSCRIPTION = 'projects/p/subscriptions/dead';
+
+    beforeEach(() => {
+      backend.createTopic({name: DEAD_LETTER_TOPIC});
+      backend.createSubscription({
+        name: DEAD_LETTER_SUBSCRIPTION,
+        topic: DEAD_LETTER_TOPIC,
+      });
+      backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+        deadLetterPolicy: {
+          deadLetterTopic: DEAD_LETTER_TOPIC,
+          maxDeliveryAttempts: 2,
+        },
+      });
+      backend.connect(SUBSCRIPTION, puller);
+    });
+
+    it('should count delivery attempts', async () => {
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+      backend.modifyAckDeadline(SUBSCRIPTION, ackIds(), 0);
+      await tick();
+
+      assert.deepStrictEqual(
+        puller.received.map(r => r.deliveryAttempt),
+        [1, 2],
+      );
+    });
+
+    it('should forward after the max delivery attempts', async () => {
+      backend.publish(TOPIC, [message('a', {foo: 'bar'})]);
+      await tick();
+      backend.modifyAckDeadline(SUBSCRIPTION, [ackIds()[0]], 0);
+      await tick();
+      backend.modifyAckDeadline(SUBSCRIPTION, [ackIds()[1]], 0);
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a', 'a']);
+
+      const [dead] = backend.pull(DEAD_LETTER_SUBSCRIPTION, 10);
+      assert.strictEqual(String(dead.message!.data), 'a');
+      assert.deepStrictEqual(dead.message!.attributes, {
+        foo: 'bar',
+        CloudPubSubDeadLetterSourceDeliveryCount: '2',
+        CloudPubSubDeadLetterSourceSubscription: 's',
+        CloudPubSubDeadLetterSourceSubscriptionProject: 'p',
+      });
+    });
+
+    it('should keep redelivering if the topic is missing', async () => {
+      backend.deleteTopic(DEAD_LETTER_TOPIC);
+      backend.publish(TOPIC, [message('a')]);
+      for (let i = 0; i < 3; i++) {
+        await tick();
+        backend.modifyAckDeadline(SUBSCRIPTION, [ackIds()[i]], 0);
+      }
+      await tick();
+
+      assert.deepStrictEqual(puller.data, ['a', 'a', 'a', 'a']);
+    });
+  });
+
+  describe('exactly-once delivery', () => {
+    beforeEach(() => {
+      backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+        enableExactlyOnceDelivery: true,
+      });
+      backend.connect(SUBSCRIPTION, puller);
+    });
+
+    it('should reject stale ack IDs', async () => {
+      backend.publish(TOPIC, [message('a')]);
+      await tick();
+      const [ackId] = ackIds();
+      backend.acknowledge(SUBSCRIPTION, [ackId]);
+
+      assert.throws(
+        () => backend.acknowledge(SUBSCRIPTION, [ackId]),
+        (e: GoogleError) =>
+          e.code === Status.INVALID_ARGUMENT &&
+          e.errorInfoMetadata![ackId] === 'PERMANENT_FAILURE_INVALID_ACK_ID',
+      );
+    });
+
+    it('should ignore stale ack IDs otherwise', () => {
+      backend.createSubscription({
+        name: 'projects/p/subscriptions/other',
+        topic: TOPIC,
+      });
+      backend.acknowledge('projects/p/subscriptions/other', ['nope']);
+    });
+  });
+
+  describe('snapshots and seek', () => {
+    beforeEach(() => {
+      backend.createSubscription({
+        name: SUBSCRIPTION,
+        topic: TOPIC,
+        retainAckedMessages: true,
+      });
+    });
+
+    function pullAndAck(): string[] {
+      const received = backend.pull(SUBSCRIPTION, 100);
+      backend.acknowledge(
+        SUBSCRIPTION,
+        received.map(r => r.ackId!),
+      );
+      return received.map(r => String(r.message!.data));
+    }
+
+    it('should replay from a snapshot', () => {
+      backend.publish(TOPIC, [message('a')]);
+      const snapshot = backend.createSnapshot(
+        'projects/p/snapshots/snap',
+        SUBSCRIPTION,
+      );
+      assert.strictEqual(snapshot.topic, TOPIC);
+      assert.deepStrictEqual(backend.listTopicSnapshots(TOPIC), [
+        'projects/p/snapshots/snap',
+      ]);
+
+      assert.deepStrictEqual(pullAndAck(), ['a']);
+      backend.publish(TOPIC, [message('b')]);
+      assert.deepStrictEqual(pullAndAck(), ['b']);
+
+      backend.seek({
+        subscription: SUBSCRIPTION,
+        snapshot: 'projects/p/snapshots/snap',
+      });
+      assert.deepStrictEqual(pullAndAck(), ['a', 'b']);
+    });
+
+    it('should seek to a time', () => {
+      const clock = TestUtils.useFakeTimers(sandbox, 1000000);
+      backend.publish(TOPIC, [message('a')]);
+      clock.tick(1000);
+      backend.publish(TOPIC, [message('b')]);
+      assert.deepStrictEqual(pullAndAck(), ['a', 'b']);
+
+      backend.seek({
+        subscription: SUBSCRIPTION,
+        time: {seconds: 1000.5, nanos: 0},
+      });
+      assert.deepStrictEqual(pullAndAck(), ['b']);
+
+      backend.seek({subscription: SUBSCRIPTION, time: {seconds: 0}});
+      assert.deepStrictEqual(pullAndAck(), ['a', 'b']);
+    });
+
+    it('should invalidate leases', () => {
+      backend.publish(TOPIC, [message('a')]);
+      const [received] = backend.pull(SUBSCRIPTION, 1);
+
+      backend.seek({subscription: SUBSCRIPTION, time: {seconds: 0}});
+      backend.acknowledge(SUBSCRIPTION, [received.ackId!]);
+      assert.deepStrictEqual(pullAndAck(), ['a']);
+    });
+
+    it('should require a matching topic', () => {
+      backend.createTopic({name: 'projects/p/topics/other'});
+      backend.createSubscription({
+        name: 'projects/p/subscriptions/other',
+        topic: 'projects/p/topics/other',
+      });
+      backend.createSnapshot(
+        'projects/p/snapshots/snap',
+        'projects/p/subscriptions/other',
+      );
+
+      assert.throws(
+        () =>
+          backend.seek({
+            subscription: SUBSCRIPTION,
+            snapshot: 'projects/p/snapshots/snap',
+          }),
+        (e: GoogleError) => e.code === Status.FAILED_PRECONDITION,
+      );
+    });
+  });
+
+  describe('schemas', () => {
+    const PARENT = 'projects/p';
+    const SCHEMA = 'projects/p/schemas/schema';
+    const AVRO = JSON.stringify({
+      type: 'record',
+      name: 'Thing',
+      fields: [{name: 'name', type: 'string'}],
+    });
+    const PROTO = 'syntax = "proto3"; message Thing { string name = 1; }';
+
+    beforeEach(() => {
+      backend.createSchema(PARENT, 'schema', {type: 'AVRO', definition: AVRO});
+    });
+
+    it('should validate definitions', () => {
+      for (const schema of [
+        {type: 'AVRO', definition: '{'},
+        {type: 'AVRO', definition: '{"type": "record", "name": "R"}'},
+        {type: 'PROTOCOL_BUFFER', definition: 'message {'},
+        {type: 'TYPE_UNSPECIFIED', definition: AVRO},
+      ] as google.pubsub.v1.ISchema[]) {
+        assert.throws(
+          () => backend.createSchema(PARENT, 'bad', schema),
+          (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+          schema.definition!,
+        );
+      }
+    });
+
+    it('should leave definitions out of basic views', () => {
+      assert.strictEqual(backend.getSchema(SCHEMA).definition, AVRO);
+      assert.strictEqual(
+        backend.getSchema(SCHEMA, 'BASIC').definition,
+        undefined,
+      );
+      assert.strictEqual(backend.listSchemas(PARENT)[0].definition, undefined);
+      assert.strictEqual(backend.listSchemas(PARENT, 2)[0].definition, AVRO);
+    });
+
+    it('should keep revisions', () => {
+      const first = backend.getSchema(SCHEMA);
+      const second = backend.commitSchema(SCHEMA, {
+        definition: PROTO,
+        type: 'PROTOCOL_BUFFER',
+      });
+      const third = backend.rollbackSchema(SCHEMA, first.revisionId!);
+
+      assert.deepStrictEqual(
+        backend.listSchemaRevisions(SCHEMA).map(r => r.revisionId),
+        [third.revisionId, second.revisionId, first.revisionId],
+      );
+      assert.strictEqual(backend.getSchema(SCHEMA).definition, AVRO);
+      assert.strictEqual(
+        backend.getSchema(`${SCHEMA}@${second.revisionId}`).definition,
+        PROTO,
+      );
+
+      backend.deleteSchemaRevision(`${SCHEMA}@${second.revisionId}`);
+      assert.strictEqual(backend.listSchemaRevisions(SCHEMA).length, 2);
+    });
+
+    it('should not delete the only revision', () => {
+      const {revisionId} = backend.getSchema(SCHEMA);
+      assert.throws(
+        () => backend.deleteSchemaRevision(SCHEMA, revisionId),
+        (e: GoogleError) => e.code === Status.FAILED_PRECONDITION,
+      );
+    });
+
+    it('should delete schemas', () => {
+      backend.deleteSchema(SCHEMA);
+      assert.throws(
+        () => backend.getSchema(SCHEMA),
+        (e: GoogleError) => e.code === Status.NOT_FOUND,
+      );
+    });
+
+    it('should validate messages', () => {
+      backend.validateMessage({
+        name: SCHEMA,
+        message: Buffer.from('{"name": "a"}'),
+        encoding: 'JSON',
+      });
+
+      const schema = {type: 'PROTOCOL_BUFFER' as const, definition: PROTO};
+      backend.validateMessage({
+        schema,
+        message: Buffer.from([0x0a, 0x01, 0x61]),
+        encoding: 'BINARY',
+      });
+      assert.throws(
+        () =>
+          backend.validateMessage({
+            schema,
+            message: Buffer.from('{"name": 1}'),
+            encoding: 'JSON',
+          }),
+        (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+      );
+    });
+
+    describe('topics with schemas', () => {
+      const SCHEMA_TOPIC = 'projects/p/topics/schema-topic';
+
+      beforeEach(() => {
+        backend.createTopic({
+          name: SCHEMA_TOPIC,
+          schemaSettings: {schema: SCHEMA, encoding: 'JSON'},
+        });
+        backend.createSubscription({name: SUBSCRIPTION, topic: SCHEMA_TOPIC});
+        backend.connect(SUBSCRIPTION, puller);
+      });
+
+      it('should tag messages with their schema revision', async () => {
+        const {revisionId} = backend.getSchema(SCHEMA);
+        backend.publish(SCHEMA_TOPIC, [message('{"name": "a"}')]);
+        await tick();
+
+        assert.deepStrictEqual(puller.received[0].message!.attributes, {
+          googclient_schemaname: SCHEMA,
+          googclient_schemarevisionid: revisionId,
+          googclient_schemaencoding: 'JSON',
+        });
+      });
+
+      it('should reject messages that do not match', () => {
+        assert.throws(
+          () => backend.publish(SCHEMA_TOPIC, [message('{"name": 1}')]),
+          (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+        );
+      });
+
+      it('should try the newest accepted revisions first', async () => {
+        const first = backend.getSchema(SCHEMA);
+        const second = backend.commitSchema(SCHEMA, {
+          definition: AVRO.replace('"string"', '["null", "string"]'),
+        });
+        backend.commitSchema(SCHEMA, {definition: '"string"'});
+        backend.updateTopic(
+          {
+            name: SCHEMA_TOPIC,
+            schemaSettings: {
+              schema: SCHEMA,
+              encoding: 'JSON',
+              lastRevisionId: second.revisionId,
+            },
+          },
+          {paths: ['schema_settings']},
+        );
+
+        backend.publish(SCHEMA_TOPIC, [message('{"name": {"string": "a"}}')]);
+        backend.publish(SCHEMA_TOPIC, [message('{"name": "a"}')]);
+        await tick();
+
+        assert.deepStrictEqual(
+          puller.received.map(
+            r => r.message!.attributes!.googclient_schemarevisionid,
+          ),
+          [second.revisionId, first.revisionId],
+        );
+        assert.throws(
+          () => backend.publish(SCHEMA_TOPIC, [message('"a"')]),
+          (e: GoogleError) => e.code === Status.INVALID_ARGUMENT,
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import defer = require('p-defer');
+import {GoogleError, Status} from 'google-gax';
+
+import {
+  AckResponses,
+  Message,
+  PubSub,
+  Subscription,
+  Topic,
+  v1,
+} from '../../src';
+import {MemoryBackend} from '../../src/memory';
+import {
+  LocalPubSubServer,
+  startLocalPubSubServer,
+} from '../../src/memory/server';
+
+describe('startLocalPubSubServer', () => {
+  let server: LocalPubSubServer;
+  let pubsub: PubSub;
+  let topic: Topic;
+  let subscription: Subscription;
+
+  beforeEach(async () => {
+    server = await startLocalPubSubServer();
+    pubsub = new PubSub({apiEndpoint: server.apiEndpoint, projectId: 'p'});
+    [topic] = await pubsub.createTopic('topic');
+    [subscription] = await topic.createSubscription('sub', {
+      enableExactlyOnceDelivery: true,
+    });
+  });
+
+  afterEach(async () => {
+    await subscription.close();
+    await pubsub.close();
+    await server.stop();
+  });
+
+  it('should listen on a free port', () => {
+    assert.ok(server.port > 0);
+    assert.strictEqual(server.apiEndpoint, `localhost:${server.port}`);
+    assert.ok(server.backend instanceof MemoryBackend);
+  });
+
+  it('should serve a given backend', async () => {
+    const backend = new MemoryBackend();
+    const other = await startLocalPubSubServer({backend});
+    try {
+      assert.strictEqual(other.backend, backend);
+    } finally {
+      await other.stop();
+    }
+  });
+
+  it('should stream messages and confirm acks', async () => {
+    const received = defer<[Message, string]>();
+    subscription.on('message', async (message: Message) => {
+      received.resolve([message, await message.ackWithResponse()]);
+    });
+
+    await topic.publishMessage({
+      data: Buffer.from('hello'),
+      attributes: {foo: 'bar'},
+    });
+
+    const [message, response] = await received.promise;
+    assert.strictEqual(message.data.toString(), 'hello');
+    assert.deepStrictEqual(message.attributes, {foo: 'bar'});
+    assert.strictEqual(response, AckResponses.Success);
+  });
+
+  it('should send error statuses', async () => {
+    await assert.rejects(
+      pubsub.topic('nope').get(),
+      (e: GoogleError) => e.code === Status.NOT_FOUND,
+    );
+  });
+
+  it('should send the ack IDs that failed', async () => {
+    const client = (await pubsub.getClientAsync_({
+      client: 'SubscriberClient',
+    })) as {} as v1.SubscriberClient;
+
+    await assert.rejects(
+      client.acknowledge({subscription: subscription.name, ackIds: ['nope']}),
+      (e: GoogleError) =>
+        e.code === Status.INVALID_ARGUMENT &&
+        e.errorInfoMetadata!.nope === 'PERMANENT_FAILURE_INVALID_ACK_ID',
+    );
+  });
+
+  it('should page through lists', async () => {
+    await pubsub.createTopic('other');
+    const [first, next] = await pubsub.getTopics({
+      pageSize: 1,
+      autoPaginate: false,
+    });
+    assert.strictEqual(first.length, 1);
+
+    const [rest] = await pubsub.getTopics({...next, autoPaginate: false});
+    assert.notStrictEqual(rest[0].name, first[0].name);
+  });
+
+  it('should serve schemas', async () => {
+    const definition = 'syntax = "proto3"; message Thing { string a = 1; }';
+    const schema = await pubsub.createSchema(
+      'schema',
+      'PROTOCOL_BUFFER',
+      definition,
+    );
+    const {revisionId} = await schema.get();
+    assert.ok(revisionId);
+  });
+
+  it('should serve IAM policies', async () => {
+    const [policy] = await topic.iam.setPolicy({
+      bindings: [{role: 'roles/pubsub.viewer', members: ['allUsers']}],
+    });
+    assert.strictEqual(policy.bindings![0].role, 'roles/pubsub.viewer');
+  });
+});
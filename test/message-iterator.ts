@@ -0,0 +1,176 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {EventEmitter} from 'events';
+import * as sinon from 'sinon';
+
+import {MessageIterator} from '../src/message-iterator';
+import {Message} from '../src/subscriber';
+import {Subscription} from '../src/subscription';
+
+class FakeSubscription extends EventEmitter {
+  isOpen = false;
+  constructor() {
+    super();
+    this.on('newListener', event => {
+      if (event === 'message') {
+        this.isOpen = true;
+      }
+    });
+  }
+  async close(): Promise<void> {
+    this.isOpen = false;
+  }
+}
+
+function fakeMessage(id: string): Message {
+  return {id} as Message;
+}
+
+describe('MessageIterator', () => {
+  const sandbox = sinon.createSandbox();
+
+  let subscription: FakeSubscription;
+  let iterator: MessageIterator;
+
+  beforeEach(() => {
+    subscription = new FakeSubscription();
+    iterator = new MessageIterator(subscription as {} as Subscription);
+  });
+
+  afterEach(() => sandbox.restore());
+
+  it('should not open the subscription until iteration begins', async () => {
+    assert.strictEqual(subscription.listenerCount('message'), 0);
+
+    const next = iterator.next();
+    assert.strictEqual(subscription.listenerCount('message'), 1);
+    assert.strictEqual(subscription.isOpen, true);
+
+    subscription.emit('message', fakeMessage('a'));
+    await next;
+  });
+
+  it('should yield messages in the order they arrive', async () => {
+    const next = iterator.next();
+    subscription.emit('message', fakeMessage('a'));
+    subscription.emit('message', fakeMessage('b'));
+
+    assert.deepStrictEqual(await next, {done: false, value: {id: 'a'}});
+    assert.deepStrictEqual(await iterator.next(), {
+      done: false,
+      value: {id: 'b'},
+    });
+  });
+
+  it('should close the subscription when a loop exits', async () => {
+    const stub = sandbox.spy(subscription, 'close');
+    const received: string[] = [];
+
+    setImmediate(() => subscription.emit('message', fakeMessage('a')));
+    for await (const message of iterator) {
+      received.push(message.id);
+      break;
+    }
+
+    assert.deepStrictEqual(received, ['a']);
+    assert.strictEqual(stub.callCount, 1);
+    assert.strictEqual(subscription.listenerCount('message'), 0);
+  });
+
+  it('should nack unread messages when a loop exits', async () => {
+    const unread = fakeMessage('b');
+    const stub = sandbox.stub();
+    unread.nackUnhandled = stub;
+
+    setImmediate(() => {
+      subscription.emit('message', fakeMessage('a'));
+      subscription.emit('message', unread);
+    });
+    for await (const message of iterator) {
+      assert.strictEqual(message.id, 'a');
+      break;
+    }
+
+    assert.strictEqual(stub.callCount, 1);
+  });
+
+  it('should leave the subscription open for other listeners', async () => {
+    const stub = sandbox.spy(subscription, 'close');
+    subscription.on('message', () => {});
+
+    setImmediate(() => subscription.emit('message', fakeMessage('a')));
+    for await (const message of iterator) {
+      assert.strictEqual(message.id, 'a');
+      break;
+    }
+
+    assert.strictEqual(stub.callCount, 0);
+    assert.strictEqual(subscription.listenerCount('message'), 1);
+  });
+
+  it('should end iteration when the signal is aborted', async () => {
+    const controller = new AbortController();
+    iterator = new MessageIterator(subscription as {} as Subscription, {
+      signal: controller.signal,
+    });
+
+    const next = iterator.next();
+    controller.abort();
+
+    assert.deepStrictEqual(await next, {done: true, value: undefined});
+    assert.strictEqual(subscription.isOpen, false);
+    assert.strictEqual(subscription.listenerCount('message'), 0);
+  });
+
+  it('should not open the subscription if already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    iterator = new MessageIterator(subscription as {} as Subscription, {
+      signal: controller.signal,
+    });
+
+    assert.deepStrictEqual(await iterator.next(), {
+      done: true,
+      value: undefined,
+    });
+    assert.strictEqual(subscription.listenerCount('message'), 0);
+  });
+
+  it('should throw errors from the subscription', async () => {
+    const fakeError = new Error('err');
+    const next = iterator.next();
+    subscription.emit('error', fakeError);
+
+    await assert.rejects(next, fakeError);
+    assert.strictEqual(subscription.isOpen, false);
+    assert.strictEqual(subscription.listenerCount('error'), 0);
+  });
+
+  it('should end iteration when the subscription closes', async () => {
+    const next = iterator.next();
+    subscription.emit('message', fakeMessage('a'));
+    await next;
+
+    subscription.emit('message', fakeMessage('b'));
+    subscription.emit('close');
+
+    assert.deepStrictEqual(await iterator.next(), {
+      done: true,
+      value: undefined,
+    });
+  });
+});
@@ -0,0 +1,321 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {EventEmitter} from 'events';
+import defer = require('p-defer');
+import * as sinon from 'sinon';
+
+import {DebugMessage} from '../src/debug';
+import {defaultOptions} from '../src/default-options';
+import {
+  HandlerErrorPolicies,
+  MessageHandler,
+  MessageProcessor,
+  ProcessOptions,
+} from '../src/message-processor';
+import {Message} from '../src/subscriber';
+import {Subscription} from '../src/subscription';
+
+class FakeSubscription extends EventEmitter {
+  isOpen = false;
+  constructor() {
+    super();
+    this.on('newListener', event => {
+      if (event === 'message') {
+        this.isOpen = true;
+      }
+    });
+  }
+  async close(): Promise<void> {
+    this.isOpen = false;
+  }
+}
+
+class FakeMessage {
+  id = 'id';
+  ackId = 'ackId';
+  acked = 0;
+  nacked = 0;
+  nackError?: Error;
+  unhandled = 0;
+  ack(): void {
+    this.acked++;
+  }
+  nack(error?: Error): void {
+    this.nacked++;
+    this.nackError = error;
+  }
+  nackUnhandled(): void {
+    this.unhandled++;
+  }
+}
+
+const tick = () => new Promise(r => setImmediate(r));
+
+describe('MessageProcessor', () => {
+  const sandbox = sinon.createSandbox();
+
+  let subscription: FakeSubscription;
+
+  function makeProcessor(
+    handler: MessageHandler,
+    options?: ProcessOptions,
+  ): MessageProcessor {
+    return new MessageProcessor(
+      subscription as {} as Subscription,
+      handler,
+      options,
+    );
+  }
+
+  beforeEach(() => {
+    subscription = new FakeSubscription();
+  });
+
+  afterEach(() => sandbox.restore());
+
+  function emit(): FakeMessage {
+    const message = new FakeMessage();
+    subscription.emit('message', message as {} as Message);
+    return message;
+  }
+
+  it('should open the subscription', () => {
+    makeProcessor(async () => {});
+    assert.strictEqual(subscription.isOpen, true);
+  });
+
+  it('should reject a concurrency below 1', () => {
+    assert.throws(() => makeProcessor(async () => {}, {concurrency: 0}));
+  });
+
+  it('should ack messages when the handler resolves', async () => {
+    makeProcessor(async () => {});
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(message.acked, 1);
+    assert.strictEqual(message.nacked, 0);
+  });
+
+  it('should nack messages when the handler rejects', async () => {
+    const fakeError = new Error('err');
+    makeProcessor(async () => {
+      throw fakeError;
+    });
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(message.acked, 0);
+    assert.strictEqual(message.nacked, 1);
+    assert.strictEqual(message.nackError, fakeError);
+  });
+
+  it('should treat synchronous throws like rejections', async () => {
+    makeProcessor(() => {
+      throw new Error('err');
+    });
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(message.nacked, 1);
+  });
+
+  it('should emit handler errors as debug messages', async () => {
+    const fakeError = new Error('err');
+    const debugs: DebugMessage[] = [];
+    subscription.on('debug', msg => debugs.push(msg));
+
+    makeProcessor(async () => {
+      throw fakeError;
+    });
+    emit();
+    await tick();
+
+    assert.strictEqual(debugs.length, 1);
+    assert.strictEqual(debugs[0].error, fakeError);
+  });
+
+  it('should ack failed messages with the Ack policy', async () => {
+    makeProcessor(
+      async () => {
+        throw new Error('err');
+      },
+      {onError: HandlerErrorPolicies.Ack},
+    );
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(message.acked, 1);
+    assert.strictEqual(message.nacked, 0);
+  });
+
+  it('should pass failed messages to an onError function', async () => {
+    const fakeError = new Error('err');
+    const onError = sandbox.stub().resolves();
+
+    makeProcessor(
+      async () => {
+        throw fakeError;
+      },
+      {onError},
+    );
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(onError.callCount, 1);
+    assert.deepStrictEqual(onError.firstCall.args, [message, fakeError]);
+    assert.strictEqual(message.acked, 0);
+    assert.strictEqual(message.nacked, 0);
+  });
+
+  it('should nack if the onError function rejects', async () => {
+    const onError = sandbox.stub().rejects(new Error('oops'));
+
+    makeProcessor(
+      async () => {
+        throw new Error('err');
+      },
+      {onError},
+    );
+
+    const message = emit();
+    await tick();
+
+    assert.strictEqual(message.nacked, 1);
+  });
+
+  it('should default concurrency', async () => {
+    const processor = makeProcessor(() => new Promise(() => {}));
+    const max = defaultOptions.subscription.maxConcurrentHandlers;
+
+    for (let i = 0; i < max + 2; i++) {
+      emit();
+    }
+
+    assert.strictEqual(processor.inFlight, max);
+    assert.strictEqual(processor.pending, 2);
+  });
+
+  it('should cap the number of running handlers', async () => {
+    const deferreds: Array<defer.DeferredPromise<void>> = [];
+    const processor = makeProcessor(
+      () => {
+        const deferred = defer<void>();
+        deferreds.push(deferred);
+        return deferred.promise;
+      },
+      {concurrency: 2},
+    );
+
+    const messages = [emit(), emit(), emit()];
+    assert.strictEqual(processor.inFlight, 2);
+    assert.strictEqual(processor.pending, 1);
+    assert.strictEqual(deferreds.length, 2);
+
+    deferreds[0].resolve();
+    await tick();
+
+    assert.strictEqual(messages[0].acked, 1);
+    assert.strictEqual(processor.inFlight, 2);
+    assert.strictEqual(processor.pending, 0);
+    assert.strictEqual(deferreds.length, 3);
+  });
+
+  describe('close', () => {
+    it('should nack pending messages and wait for running ones', async () => {
+      const deferred = defer<void>();
+      const processor = makeProcessor(() => deferred.promise, {
+        concurrency: 1,
+      });
+
+      const running = emit();
+      const waiting = emit();
+
+      let closed = false;
+      const closing = processor.close().then(() => (closed = true));
+
+      await tick();
+      assert.strictEqual(waiting.unhandled, 1);
+      assert.strictEqual(closed, false);
+
+      deferred.resolve();
+      await closing;
+
+      assert.strictEqual(running.acked, 1);
+      assert.strictEqual(subscription.isOpen, false);
+      assert.strictEqual(subscription.listenerCount('message'), 0);
+    });
+
+    it('should nack messages that arrive while closing', async () => {
+      const deferred = defer<void>();
+      const processor = makeProcessor(() => deferred.promise);
+
+      emit();
+      const closing = processor.close();
+      const late = emit();
+
+      assert.strictEqual(late.unhandled, 1);
+
+      deferred.resolve();
+      await closing;
+    });
+
+    it('should stop when the subscription closes', async () => {
+      const handler = sinon.stub().resolves();
+      makeProcessor(handler);
+
+      subscription.isOpen = false;
+      subscription.emit('close');
+      const late = emit();
+      await tick();
+
+      assert.strictEqual(late.unhandled, 1);
+      assert.strictEqual(handler.callCount, 0);
+      assert.strictEqual(subscription.listenerCount('message'), 0);
+    });
+
+    it('should stop on subscriber errors', async () => {
+      const error = new Error('stream failed');
+      let debug: DebugMessage | undefined;
+      subscription.on('debug', msg => (debug = msg));
+      makeProcessor(async () => {});
+
+      subscription.emit('error', error);
+      await tick();
+
+      assert.strictEqual(debug!.error, error);
+      assert.strictEqual(subscription.isOpen, false);
+      assert.strictEqual(subscription.listenerCount('error'), 0);
+    });
+
+    it('should leave the subscription open for other listeners', async () => {
+      const stub = sandbox.spy(subscription, 'close');
+      subscription.on('message', () => {});
+
+      const processor = makeProcessor(async () => {});
+      await processor.close();
+
+      assert.strictEqual(stub.callCount, 0);
+      assert.strictEqual(subscription.listenerCount('message'), 1);
+    });
+  });
+});
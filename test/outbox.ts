@@ -0,0 +1,308 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {promises as fs} from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+
+import {DebugMessage} from '../src/debug';
+import {
+  FileOutboxStore,
+  Outbox,
+  OutboxEntry,
+  OutboxMessage,
+  OutboxStore,
+} from '../src/outbox';
+import {Message, PubSub, startLocalPubSubServer} from '../src';
+import {PublishOptions} from '../src/publisher';
+import {MessageOptions} from '../src/topic';
+
+class FakeTopic {
+  name: string;
+  options: PublishOptions;
+  published: MessageOptions[] = [];
+  failures = 0;
+  resumed: string[] = [];
+  constructor(name: string, options: PublishOptions) {
+    this.name = name;
+    this.options = options;
+  }
+  async publishMessage(message: MessageOptions): Promise<string> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Unavailable');
+    }
+    this.published.push(message);
+    return String(this.published.length);
+  }
+  resumePublishing(key: string) {
+    this.resumed.push(key);
+  }
+}
+
+class FakePubSub {
+  topics = new Map<string, FakeTopic>();
+  topic(name: string, options: PublishOptions) {
+    if (!this.topics.has(name)) {
+      this.topics.set(name, new FakeTopic(name, options));
+    }
+    return this.topics.get(name)!;
+  }
+}
+
+class MemoryOutboxStore implements OutboxStore {
+  entries: OutboxEntry[] = [];
+  async add(message: OutboxMessage): Promise<string> {
+    const id = String(this.entries.length + 1);
+    this.entries.push({...message, id});
+    return id;
+  }
+  async pending(): Promise<OutboxEntry[]> {
+    return [...this.entries];
+  }
+  async markSent(id: string): Promise<void> {
+    this.entries = this.entries.filter(e => e.id !== id);
+  }
+}
+
+describe('Outbox', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-outbox-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  describe('FileOutboxStore', () => {
+    let store: FileOutboxStore;
+
+    beforeEach(() => {
+      store = new FileOutboxStore(path.join(directory, 'store'));
+    });
+
+    it('should keep entries until they are sent', async () => {
+      const a = await store.add({topic: 't', data: Buffer.from('a')});
+      const b = await store.add({
+        topic: 't',
+        data: Buffer.from('b'),
+        attributes: {x: 'y'},
+        orderingKey: 'k',
+      });
+      await store.markSent(a);
+
+      assert.deepStrictEqual(await store.pending(), [
+        {
+          id: b,
+          topic: 't',
+          data: Buffer.from('b'),
+          attributes: {x: 'y'},
+          orderingKey: 'k',
+        },
+      ]);
+    });
+
+    it('should read the entries back after a restart', async () => {
+      const a = await store.add({topic: 't', data: Buffer.from('a')});
+      await store.add({topic: 't', data: Buffer.from('b')});
+      await store.markSent(a);
+      // A write that was cut short.
+      await fs.appendFile(store.file, '{"add":{"id":');
+
+      const restarted = new FileOutboxStore(store.directory);
+      const pending = await restarted.pending();
+      assert.deepStrictEqual(
+        pending.map(e => e.data.toString()),
+        ['b'],
+      );
+    });
+
+    it('should compact the log when nothing is pending', async () => {
+      const a = await store.add({topic: 't', data: Buffer.from('a')});
+      await store.markSent(a);
+      assert.strictEqual(await fs.readFile(store.file, 'utf8'), '');
+    });
+
+    it('should compact the log after enough entries are sent', async () => {
+      store = new FileOutboxStore(store.directory, {compactAfter: 2});
+      const a = await store.add({topic: 't', data: Buffer.from('a')});
+      const b = await store.add({topic: 't', data: Buffer.from('b')});
+      await store.add({topic: 't', data: Buffer.from('c')});
+      await store.markSent(a);
+      await store.markSent(b);
+
+      const log = await fs.readFile(store.file, 'utf8');
+      assert.strictEqual(log.trim().split('\n').length, 1);
+      const restarted = new FileOutboxStore(store.directory);
+      assert.deepStrictEqual(
+        (await restarted.pending()).map(e => e.data.toString()),
+        ['c'],
+      );
+    });
+  });
+
+  describe('publishing', () => {
+    let pubsub: FakePubSub;
+    let store: MemoryOutboxStore;
+    let outbox: Outbox;
+
+    beforeEach(async () => {
+      pubsub = new FakePubSub();
+      store = new MemoryOutboxStore();
+      outbox = new Outbox(pubsub as {} as PubSub, store, {
+        publishOptions: {batching: {maxMessages: 5}},
+      });
+      // Let the startup drain finish.
+      await outbox.drain();
+    });
+
+    afterEach(async () => {
+      await outbox.close();
+    });
+
+    it('should publish messages and mark them sent', async () => {
+      await outbox.publish('t', {
+        data: Buffer.from('a'),
+        attributes: {x: 'y'},
+        orderingKey: 'k',
+      });
+      await outbox.drain();
+
+      const topic = pubsub.topics.get('t')!;
+      assert.deepStrictEqual(topic.options, {
+        batching: {maxMessages: 5},
+        messageOrdering: true,
+      });
+      assert.deepStrictEqual(topic.published, [
+        {data: Buffer.from('a'), attributes: {x: 'y'}, orderingKey: 'k'},
+      ]);
+      assert.deepStrictEqual(store.entries, []);
+    });
+
+    it('should replay pending entries in order', async () => {
+      for (const data of ['a', 'b', 'c']) {
+        await store.add({
+          topic: 't',
+          data: Buffer.from(data),
+          orderingKey: 'k',
+        });
+      }
+      await outbox.drain();
+
+      assert.deepStrictEqual(
+        pubsub.topics.get('t')!.published.map(m => m.data!.toString()),
+        ['a', 'b', 'c'],
+      );
+    });
+
+    it('should keep failed entries and try them again', async () => {
+      const clock = sinon.useFakeTimers({toFake: ['setTimeout']});
+      try {
+        const topic = pubsub.topic('t', {});
+        topic.failures = 2;
+        const debug: DebugMessage[] = [];
+        outbox.on('debug', msg => debug.push(msg));
+
+        await store.add({topic: 't', data: Buffer.from('a'), orderingKey: 'k'});
+        await store.add({topic: 't', data: Buffer.from('b'), orderingKey: 'k'});
+        await outbox.drain();
+
+        assert.strictEqual(store.entries.length, 2);
+        assert.strictEqual(debug.length, 2);
+        assert.deepStrictEqual(topic.resumed, ['k']);
+
+        await clock.tickAsync(10000);
+        await outbox.drain();
+        assert.deepStrictEqual(
+          topic.published.map(m => m.data!.toString()),
+          ['a', 'b'],
+        );
+        assert.deepStrictEqual(store.entries, []);
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it('should send left over entries once created', async () => {
+      await store.add({topic: 't', data: Buffer.from('a')});
+      await outbox.close();
+      outbox = new Outbox(pubsub as {} as PubSub, store);
+      await outbox.drain();
+
+      assert.strictEqual(pubsub.topics.get('t')!.published.length, 1);
+      assert.deepStrictEqual(store.entries, []);
+    });
+
+    it('should run one drain at a time', async () => {
+      await store.add({topic: 't', data: Buffer.from('a')});
+      await Promise.all([outbox.drain(), outbox.drain(), outbox.drain()]);
+      assert.strictEqual(pubsub.topics.get('t')!.published.length, 1);
+    });
+
+    it('should not take messages once closed', async () => {
+      await outbox.close();
+      await assert.rejects(
+        outbox.publish('t', {data: Buffer.from('a')}),
+        /closed/,
+      );
+    });
+  });
+
+  it('should send messages left over from a previous run', async () => {
+    const server = await startLocalPubSubServer();
+    const pubsub = new PubSub({
+      apiEndpoint: server.apiEndpoint,
+      projectId: 'p',
+    });
+    const store = new FileOutboxStore(directory);
+    const outbox = new Outbox(pubsub, store);
+    try {
+      // The topic doesn't exist yet, so publishing fails.
+      await outbox.publish('topic', {data: Buffer.from('a'), orderingKey: 'k'});
+      await outbox.publish('topic', {data: Buffer.from('b'), orderingKey: 'k'});
+      await outbox.drain();
+      assert.strictEqual((await store.pending()).length, 2);
+
+      const [topic] = await pubsub.createTopic('topic');
+      const [subscription] = await topic.createSubscription('sub', {
+        enableMessageOrdering: true,
+      });
+      const restartedStore = new FileOutboxStore(directory);
+      await new Outbox(pubsub, restartedStore).drain();
+      assert.deepStrictEqual(await restartedStore.pending(), []);
+
+      const received: string[] = [];
+      await new Promise<void>(resolve => {
+        subscription.on('message', (message: Message) => {
+          received.push(message.data.toString());
+          message.ack();
+          if (received.length === 2) {
+            resolve();
+          }
+        });
+      });
+      await subscription.close();
+      assert.deepStrictEqual(received, ['a', 'b']);
+    } finally {
+      await outbox.close();
+      await pubsub.close();
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,117 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {promises as fs} from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import defer = require('p-defer');
+
+import {
+  FilePayloadStore,
+  offloadMessage,
+  PAYLOAD_REFERENCE_ATTRIBUTE,
+  shouldOffload,
+} from '../src/payload-store';
+import {calculateMessageSize} from '../src/publisher/pubsub-message';
+import {Message, PubSub} from '../src';
+
+describe('PayloadStore', () => {
+  let directory: string;
+  let store: FilePayloadStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-payloads-'));
+    store = new FilePayloadStore(path.join(directory, 'store'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  describe('FilePayloadStore', () => {
+    it('should store and fetch payloads', async () => {
+      const reference = await store.put(Buffer.from('hello'));
+      assert.deepStrictEqual(await store.get(reference), Buffer.from('hello'));
+    });
+
+    it('should delete payloads', async () => {
+      const reference = await store.put(Buffer.from('hello'));
+      await store.delete(reference);
+      await assert.rejects(store.get(reference), {code: 'ENOENT'});
+
+      // Deleting it again is fine.
+      await store.delete(reference);
+    });
+
+    it('should reject references outside of its directory', async () => {
+      await assert.rejects(store.get('../secret'), /Invalid payload reference/);
+    });
+  });
+
+  describe('offloadMessage', () => {
+    it('should only offload data of at least minBytes', () => {
+      const data = Buffer.alloc(10);
+      assert.strictEqual(shouldOffload({data}, {store, minBytes: 10}), true);
+      assert.strictEqual(shouldOffload({data}, {store, minBytes: 11}), false);
+      assert.strictEqual(shouldOffload({data}, {store}), false);
+      assert.strictEqual(
+        shouldOffload({attributes: {a: 'b'}}, {store, minBytes: 0}),
+        false,
+      );
+    });
+
+    it('should replace the data with a reference', async () => {
+      const message = {data: Buffer.from('hello'), attributes: {foo: 'bar'}};
+      calculateMessageSize(message);
+
+      const offloaded = await offloadMessage(message, {store});
+
+      const reference = offloaded.attributes![PAYLOAD_REFERENCE_ATTRIBUTE];
+      assert.strictEqual(offloaded.data!.length, 0);
+      assert.strictEqual(offloaded.attributes!.foo, 'bar');
+      assert.strictEqual(offloaded.calculatedSize, undefined);
+      assert.deepStrictEqual(await store.get(reference), message.data);
+      assert.deepStrictEqual(message.attributes, {foo: 'bar'});
+    });
+  });
+
+  it('should deliver offloaded data end to end', async () => {
+    const data = Buffer.alloc(2048, 'a');
+    const pubsub = new PubSub({backend: 'memory'});
+    const topic = pubsub.topic('topic', {
+      payloadStore: {store, minBytes: 1024},
+    });
+    await topic.create();
+    await topic.createSubscription('sub');
+    const subscription = topic.subscription('sub', {
+      payloadStore: {store, deleteOnAck: true},
+    });
+    const received = defer<Buffer>();
+    let reference: string;
+    subscription.on('message', async (message: Message) => {
+      reference = message.attributes[PAYLOAD_REFERENCE_ATTRIBUTE];
+      received.resolve(await message.getData());
+      await message.ackWithResponse();
+    });
+
+    await topic.publishMessage({data});
+    assert.deepStrictEqual(await received.promise, data);
+    await subscription.close();
+    await pubsub.close();
+
+    await assert.rejects(store.get(reference!), {code: 'ENOENT'});
+  });
+});
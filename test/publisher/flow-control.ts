@@ -79,6 +79,16 @@ describe('Flow Controller', () => {
     await promise;
   });
 
+  it('tells waiters when messages are sent, without counting them', async () => {
+    const flow = new fc.FlowControl(optionsDefault);
+    flow.addToCount(1000, 1);
+    const sent = flow.whenSent();
+    assert.strictEqual(flow.currentByteCount, 1000);
+    flow.sent(1000, 1);
+    await sent;
+    assert.strictEqual(flow.currentByteCount, 0);
+  });
+
   it('calculates with wouldExceed correctly', () => {
     const flowPause = new fc.FlowControl(optionsDefault);
     assert.strictEqual(flowPause.wouldExceed(10000, 1), true);
@@ -27,6 +27,7 @@ import {
 } from '../../src/publisher';
 import {FlowControl} from '../../src/publisher/flow-control';
 import * as fp from '../../src/publisher/flow-publisher';
+import {RateLimiter} from '../../src/publisher/rate-limit';
 import * as tracing from '../../src/telemetry-tracing';
 
 class FakePublisher {
@@ -115,6 +116,22 @@ describe('Flow control publisher', () => {
     assert.strictEqual(addStub.calledTwice, true);
   });
 
+  it('should wait for the rate limit', async () => {
+    const clock = sandbox.useFakeTimers();
+    publisher.rateLimiter = new RateLimiter({messagesPerSecond: 1});
+    const addStub = sandbox.stub(publisher, 'publishMessage').resolves('');
+
+    const fcp = new fp.FlowControlledPublisher(publisher);
+    assert.strictEqual(fcp.publish({data: Buffer.from('foo')}), null);
+    const wait = fcp.publish({data: Buffer.from('bar')});
+    assert.ok(wait);
+    assert.strictEqual(addStub.callCount, 1);
+
+    await clock.tickAsync(1000);
+    await wait;
+    assert.strictEqual(addStub.callCount, 2);
+  });
+
   it('should still call sent() on send errors', async () => {
     const pubStub = sandbox.stub(publisher, 'publishMessage').rejects();
     const sentStub = sandbox.stub(publisher.flowControl, 'sent');
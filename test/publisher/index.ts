@@ -20,12 +20,20 @@ import {describe, it, beforeEach, afterEach} from 'mocha';
 import {EventEmitter} from 'events';
 import * as proxyquire from 'proxyquire';
 import * as sinon from 'sinon';
+import * as zlib from 'zlib';
 import * as opentelemetry from '@opentelemetry/api';
 import {Topic} from '../../src';
 import * as p from '../../src/publisher';
 import * as q from '../../src/publisher/message-queues';
 import {PublishError} from '../../src/publisher/publish-error';
 import * as util from '../../src/util';
+import {COMPRESSION_ATTRIBUTE} from '../../src/compression';
+import {IDEMPOTENCY_KEY_ATTRIBUTE} from '../../src/idempotency';
+import {
+  PAYLOAD_REFERENCE_ATTRIBUTE,
+  PayloadStore,
+} from '../../src/payload-store';
+import defer = require('p-defer');
 
 import {defaultOptions} from '../../src/default-options';
 import * as tracing from '../../src/telemetry-tracing';
@@ -276,6 +284,127 @@ describe('Publisher', () => {
       callback(null);
     });
 
+    it('should compress messages when configured', () => {
+      const stub = sandbox.stub(publisher.queue, 'add');
+      const big = Buffer.alloc(2048, 'a');
+      publisher.setOptions({compression: {algorithm: 'deflate'}});
+
+      publisher.publishMessage({data: big}, spy);
+
+      const [message] = stub.lastCall.args;
+      assert.deepStrictEqual(zlib.inflateSync(message.data!), big);
+      assert.strictEqual(message.attributes![COMPRESSION_ATTRIBUTE], 'deflate');
+    });
+
+    describe('idempotency', () => {
+      beforeEach(() => {
+        publisher.setOptions({idempotency: {}});
+      });
+
+      it('should publish copies once', async () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+        const first = defer<string>();
+        const second = defer<string>();
+
+        publisher.publishMessage({data}, (err, id) => first.resolve(id!));
+        publisher.publishMessage({data}, (err, id) => second.resolve(id!));
+        assert.strictEqual(stub.callCount, 1);
+
+        const [message, callback] = stub.lastCall.args;
+        assert.ok(message.attributes![IDEMPOTENCY_KEY_ATTRIBUTE]);
+        callback(null, 'id');
+        assert.strictEqual(await first.promise, 'id');
+        assert.strictEqual(await second.promise, 'id');
+      });
+
+      it('should publish again after a failure', () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+        const attributes = {[IDEMPOTENCY_KEY_ATTRIBUTE]: 'key'};
+
+        publisher.publishMessage({data, attributes}, spy);
+        stub.lastCall.args[1](new Error('nope') as never);
+        publisher.publishMessage({data: Buffer.from('other'), attributes}, spy);
+
+        assert.strictEqual(stub.callCount, 2);
+        assert.strictEqual(stub.lastCall.args[0].attributes, attributes);
+      });
+    });
+
+    describe('payload store', () => {
+      const big = Buffer.alloc(100);
+      let put: defer.DeferredPromise<string>;
+      let store: PayloadStore;
+
+      beforeEach(() => {
+        put = defer();
+        store = {put: () => put.promise} as {} as PayloadStore;
+        publisher.setOptions({payloadStore: {store, minBytes: 50}});
+      });
+
+      it('should keep messages in order while offloading', async () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+
+        publisher.publishMessage({data: big}, spy);
+        publisher.publishMessage({data}, spy);
+        assert.strictEqual(stub.callCount, 0);
+
+        put.resolve('ref');
+        await new Promise(r => setImmediate(r));
+
+        const [first, second] = stub.args.map(([m]) => m);
+        assert.strictEqual(first.data!.length, 0);
+        assert.strictEqual(
+          first.attributes![PAYLOAD_REFERENCE_ATTRIBUTE],
+          'ref',
+        );
+        assert.strictEqual(second.data, data);
+      });
+
+      it('should pass along offloading errors', async () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+        const done = defer<Error>();
+
+        publisher.publishMessage({data: big}, err => done.resolve(err!));
+        put.reject(new Error('nope'));
+
+        assert.strictEqual((await done.promise).message, 'nope');
+        assert.strictEqual(stub.callCount, 0);
+      });
+
+      it('should pass queueing errors to their own callback', async () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+        stub.onFirstCall().throws(new Error('nope'));
+        const first = sinon.spy();
+        const second = sinon.spy();
+
+        publisher.publishMessage({data: big}, first);
+        publisher.publishMessage({data}, second);
+        put.resolve('ref');
+        await new Promise(r => setImmediate(r));
+
+        assert.strictEqual(first.callCount, 1);
+        assert.strictEqual(first.lastCall.args[0].message, 'nope');
+        assert.strictEqual(second.callCount, 0);
+        assert.strictEqual(stub.callCount, 2);
+        assert.strictEqual(stub.lastCall.args[0].data, data);
+        assert.strictEqual(publisher['_offloading'], undefined);
+      });
+
+      it('should wait for offloading before flushing', async () => {
+        const stub = sandbox.stub(publisher.queue, 'add');
+        const flushed = defer();
+
+        publisher.publishMessage({data: big}, spy);
+        publisher.flush(() => flushed.resolve());
+        put.resolve('ref');
+        await new Promise(r => setImmediate(r));
+
+        assert.strictEqual(stub.callCount, 1);
+        publisher.queue.emit('drain');
+        await flushed.promise;
+      });
+    });
+
     describe('ordered messages', () => {
       const orderingKey = 'foo';
       const fakeMessage = {data, orderingKey};
@@ -457,6 +586,46 @@ describe('Publisher', () => {
       assert.strictEqual(publisher.settings.batching!.maxMessages, 1000);
     });
 
+    it('should set up adaptive batching', () => {
+      publisher.setOptions({batching: {maxMessages: 50, adaptive: true}});
+      const {adaptiveBatching} = publisher;
+      assert.ok(adaptiveBatching);
+      assert.deepStrictEqual(publisher.getBatchingSettings(), {
+        maxBytes: defaultOptions.publish.maxOutstandingBytes,
+        maxMessages: 50,
+        maxMilliseconds: defaultOptions.publish.maxDelayMillis,
+      });
+
+      // The tuning is kept when the bounds change.
+      publisher.setOptions({batching: {maxMessages: 20, adaptive: true}});
+      assert.strictEqual(publisher.adaptiveBatching, adaptiveBatching);
+
+      publisher.setOptions({batching: {maxMessages: 20}});
+      assert.strictEqual(publisher.adaptiveBatching, undefined);
+      assert.strictEqual(publisher.getBatchingSettings().maxMessages, 20);
+    });
+
+    it('should set up rate limiting', () => {
+      publisher.setOptions({rateLimit: {messagesPerSecond: 10}});
+      assert.deepStrictEqual(publisher.rateLimiter!.options, {
+        messagesPerSecond: 10,
+      });
+
+      publisher.setOptions({});
+      assert.strictEqual(publisher.rateLimiter, undefined);
+    });
+
+    it('should keep the rate limiter if the limits are the same', () => {
+      publisher.setOptions({rateLimit: {messagesPerSecond: 10}});
+      const limiter = publisher.rateLimiter;
+
+      publisher.setOptions({rateLimit: {messagesPerSecond: 10}});
+      assert.strictEqual(publisher.rateLimiter, limiter);
+
+      publisher.setOptions({rateLimit: {messagesPerSecond: 20}});
+      assert.notStrictEqual(publisher.rateLimiter, limiter);
+    });
+
     it('should pass new option values into queues after construction', () => {
       // Make sure we have some ordering queues.
       publisher.orderedQueues.set('a', new q.OrderedQueue(publisher, 'a'));
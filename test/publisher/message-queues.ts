@@ -610,13 +610,13 @@ describe('Message Queues', () => {
 
       beforeEach(() => {
         queue.batchOptions = {maxMilliseconds};
+        // Leave restoring the clock to the sandbox. The negative timeout test
+        // below stubs the fake setTimeout, so if the clock were restored
+        // first, sandbox.restore() would put the fake back on global, and
+        // every test file that runs after this one would get it.
         clock = TestUtils.useFakeTimers(sandbox);
       });
 
-      afterEach(() => {
-        clock.restore();
-      });
-
       it('should set a timeout that will call publish', done => {
         sandbox.stub(queue, 'publish').callsFake(async () => done());
         queue.beginNextPublish();
@@ -804,4 +804,108 @@ describe('Message Queues', () => {
       });
     });
   });
+
+  describe('AdaptiveBatching', () => {
+    const bounds = {maxBytes: 1000, maxMessages: 100, maxMilliseconds: 50};
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({toFake: ['Date']});
+    });
+
+    afterEach(() => clock.restore());
+
+    function arrive(adaptive: q.AdaptiveBatching, count: number, ms: number) {
+      for (let i = 0; i < count; i++) {
+        clock.tick(ms / count);
+        adaptive.recordArrival();
+      }
+    }
+
+    it('should start with the configured batches', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      assert.deepStrictEqual(adaptive.settings, {
+        maxBytes: 1000,
+        maxMessages: 100,
+        maxMilliseconds: 50,
+      });
+    });
+
+    it('should send a burst in full batches before the first RPC', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      arrive(adaptive, 5000, 200);
+
+      assert.ok(adaptive.rate! > 0);
+      assert.strictEqual(adaptive.latency, undefined);
+      assert.strictEqual(adaptive.settings.maxMessages, 100);
+      assert.strictEqual(adaptive.settings.maxMilliseconds, 50);
+    });
+
+    it('should not limit batches below what they hold', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      arrive(adaptive, 100, 100);
+      adaptive.recordLatency(20);
+      assert.strictEqual(adaptive.settings.maxMessages, 20);
+
+      clock.tick(100);
+      adaptive.recordArrival(40);
+      assert.strictEqual(adaptive.settings.maxMessages, 41);
+    });
+
+    it('should batch the messages that arrive during an RPC', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      // 1 message per millisecond, and 20 ms RPCs.
+      arrive(adaptive, 100, 100);
+      adaptive.recordLatency(20);
+
+      assert.strictEqual(adaptive.settings.maxMessages, 20);
+      assert.strictEqual(adaptive.settings.maxMilliseconds, 20);
+    });
+
+    it('should stay within the bounds', () => {
+      const adaptive = new q.AdaptiveBatching({
+        ...bounds,
+        adaptive: {minMessages: 5, minMilliseconds: 2},
+      });
+      arrive(adaptive, 10, 100);
+      adaptive.recordLatency(1);
+      assert.strictEqual(adaptive.settings.maxMessages, 5);
+      assert.strictEqual(adaptive.settings.maxMilliseconds, 50);
+
+      const fast = new q.AdaptiveBatching({
+        ...bounds,
+        adaptive: {minMessages: 5, minMilliseconds: 2},
+      });
+      arrive(fast, 1000, 100);
+      fast.recordLatency(1000);
+      assert.strictEqual(fast.settings.maxMessages, 100);
+      assert.strictEqual(fast.settings.maxMilliseconds, 10);
+    });
+
+    it('should shrink batches after a burst and an idle spell', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      arrive(adaptive, 1000, 100);
+      adaptive.recordLatency(20);
+      assert.strictEqual(adaptive.settings.maxMessages, 100);
+
+      clock.tick(10000);
+      adaptive.recordArrival();
+
+      assert.ok(adaptive.rate! < 0.001);
+      assert.strictEqual(adaptive.settings.maxMessages, 1);
+      assert.strictEqual(adaptive.settings.maxMilliseconds, 50);
+    });
+
+    it('should be used by the queues', () => {
+      const adaptive = new q.AdaptiveBatching({...bounds, adaptive: true});
+      publisher.adaptiveBatching = adaptive;
+      const queue = new Queue(publisher);
+      assert.strictEqual(queue.batchOptions, adaptive.settings);
+
+      const stub = sandbox.stub(adaptive, 'recordArrival');
+      queue.add({}, sandbox.spy());
+      clearTimeout(queue.pending);
+      assert.strictEqual(stub.callCount, 1);
+    });
+  });
 });
@@ -0,0 +1,94 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {RateLimiter} from '../../src/publisher/rate-limit';
+
+describe('RateLimiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+  });
+
+  afterEach(() => clock.restore());
+
+  function released(wait: Promise<void> | null) {
+    const state = {done: wait === null};
+    void wait?.then(() => (state.done = true));
+    return state;
+  }
+
+  it('should limit messages per second', async () => {
+    const limiter = new RateLimiter({messagesPerSecond: 2});
+    assert.strictEqual(limiter.reserve(10), null);
+    assert.strictEqual(limiter.reserve(10), null);
+
+    const third = released(limiter.reserve(10));
+    await clock.tickAsync(499);
+    assert.strictEqual(third.done, false);
+    await clock.tickAsync(1);
+    assert.strictEqual(third.done, true);
+  });
+
+  it('should limit bytes per second', async () => {
+    const limiter = new RateLimiter({bytesPerSecond: 100});
+    assert.strictEqual(limiter.reserve(100), null);
+
+    const next = released(limiter.reserve(50));
+    await clock.tickAsync(499);
+    assert.strictEqual(next.done, false);
+    await clock.tickAsync(1);
+    assert.strictEqual(next.done, true);
+  });
+
+  it('should limit each ordering key', async () => {
+    const limiter = new RateLimiter({
+      messagesPerSecond: 100,
+      perOrderingKey: {messagesPerSecond: 1},
+    });
+    assert.strictEqual(limiter.reserve(1, 'a'), null);
+    assert.strictEqual(limiter.reserve(1, 'b'), null);
+    assert.strictEqual(limiter.reserve(1), null);
+
+    const a = released(limiter.reserve(1, 'a'));
+    await clock.tickAsync(999);
+    assert.strictEqual(a.done, false);
+    await clock.tickAsync(1);
+    assert.strictEqual(a.done, true);
+  });
+
+  it('should release messages with the same key in order', async () => {
+    const limiter = new RateLimiter({messagesPerSecond: 1});
+    void limiter.reserve(1, 'a');
+    const order: number[] = [];
+    const waits = [1, 2, 3].map(i =>
+      limiter.reserve(1, 'a')!.then(() => order.push(i)),
+    );
+
+    await clock.tickAsync(3000);
+    await Promise.all(waits);
+    assert.deepStrictEqual(order, [1, 2, 3]);
+  });
+
+  it('should check the limits', () => {
+    assert.throws(
+      () => new RateLimiter({perOrderingKey: {bytesPerSecond: 0}}),
+      /greater than zero/,
+    );
+  });
+});
@@ -0,0 +1,298 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {promises as fs} from 'fs';
+import {Status} from 'google-gax';
+import * as os from 'os';
+import * as path from 'path';
+import * as defer from 'p-defer';
+
+import {RequestCallback, RequestConfig} from '../../src/pubsub';
+import {Publisher, PublishOptions} from '../../src/publisher';
+import {FlowControlledPublisher} from '../../src/publisher/flow-publisher';
+import {SpillOptions} from '../../src/publisher/spill-log';
+import {Topic} from '../../src/topic';
+import {google} from '../../protos/protos';
+
+class FakeTopic {
+  name = 'projects/p/topics/spilled';
+  code?: Status;
+  rejected = new Set<string>();
+  published: string[] = [];
+  requests = 0;
+  held = Promise.resolve();
+  request(
+    config: RequestConfig,
+    callback: RequestCallback<google.pubsub.v1.IPublishResponse>,
+  ): void {
+    this.requests++;
+    void this.held.then(() =>
+      setImmediate(() => {
+        if (this.code !== undefined) {
+          callback(
+            Object.assign(new Error('nope'), {code: this.code}) as never,
+          );
+          return;
+        }
+        const {messages} = config.reqOpts as google.pubsub.v1.IPublishRequest;
+        if (
+          messages!.some(m =>
+            this.rejected.has(Buffer.from(m.data!).toString()),
+          )
+        ) {
+          const code = Status.INVALID_ARGUMENT;
+          callback(Object.assign(new Error('invalid'), {code}) as never);
+          return;
+        }
+        const messageIds = messages!.map(m => {
+          this.published.push(Buffer.from(m.data!).toString());
+          return String(this.published.length);
+        });
+        callback(null, {messageIds});
+      }),
+    );
+  }
+}
+
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+): Promise<void> {
+  while (!(await condition())) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('SpillLog', () => {
+  let directory: string;
+  let topic: FakeTopic;
+  const publishers: Publisher[] = [];
+
+  async function publisher(spill: Partial<SpillOptions> = {}, options = {}) {
+    const p = new Publisher(topic as {} as Topic, {
+      batching: {maxMessages: 1},
+      spill: {directory, retryInterval: 20, ...spill},
+      ...(options as PublishOptions),
+    });
+    publishers.push(p);
+    await p.spill!.loaded;
+    return p;
+  }
+
+  async function readLog(p: Publisher): Promise<string> {
+    try {
+      return await fs.readFile(p.spill!.file, 'utf8');
+    } catch (e) {
+      return '';
+    }
+  }
+
+  function publish(p: Publisher, data: string, orderingKey?: string) {
+    return p.publishMessage({data: Buffer.from(data), orderingKey});
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-spill-'));
+    topic = new FakeTopic();
+  });
+
+  afterEach(async () => {
+    publishers.splice(0).forEach(p => clearTimeout(p.spill!['_timer']));
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  it('should spill messages when publishing fails', async () => {
+    const p = await publisher();
+    topic.code = Status.UNAVAILABLE;
+    const ids = Promise.all([publish(p, 'a'), publish(p, 'b')]);
+    await waitFor(() => p.spill!.length === 2);
+
+    await waitFor(async () => (await readLog(p)).split('\n').length === 3);
+
+    delete topic.code;
+    assert.deepStrictEqual(await ids, ['1', '2']);
+    assert.deepStrictEqual(topic.published, ['a', 'b']);
+    assert.strictEqual(p.spill!.length, 0);
+    assert.strictEqual(p.spill!.bytes, 0);
+  });
+
+  it('should keep later messages behind spilled ones', async () => {
+    const p = await publisher({retryInterval: 50});
+    topic.code = Status.UNAVAILABLE;
+    const first = publish(p, 'a');
+    await waitFor(() => p.spill!.length === 1);
+
+    delete topic.code;
+    const second = publish(p, 'b');
+    await waitFor(() => p.spill!.length === 2);
+    await Promise.all([first, second]);
+    assert.deepStrictEqual(topic.published, ['a', 'b']);
+  });
+
+  it('should not spill ordered messages', async () => {
+    const p = await publisher();
+    topic.code = Status.UNAVAILABLE;
+    const first = publish(p, 'a', 'k');
+    const second = publish(p, 'b', 'k');
+
+    // The key is paused, failing the message behind, as without the log.
+    await assert.rejects(first, /nope/);
+    await assert.rejects(second, /nope/);
+    assert.strictEqual(p.spill!.length, 0);
+    assert.deepStrictEqual(topic.published, []);
+  });
+
+  it('should only spill after enough retryable failures', async () => {
+    const p = await publisher({failureThreshold: 2});
+    topic.code = Status.INVALID_ARGUMENT;
+    await assert.rejects(publish(p, 'a'), /nope/);
+
+    topic.code = Status.DEADLINE_EXCEEDED;
+    await assert.rejects(publish(p, 'b'), /nope/);
+    const spilled = publish(p, 'c');
+    await waitFor(() => p.spill!.length === 1);
+
+    delete topic.code;
+    await spilled;
+    assert.deepStrictEqual(topic.published, ['c']);
+  });
+
+  it('should drop batches that fail with other errors', async () => {
+    const p = await publisher();
+    topic.code = Status.UNAVAILABLE;
+    const first = publish(p, 'a');
+    const second = publish(p, 'b');
+    await waitFor(() => p.spill!.length === 2);
+
+    topic.rejected.add('a');
+    delete topic.code;
+    await assert.rejects(first, /invalid/);
+    assert.strictEqual(await second, '1');
+    assert.deepStrictEqual(topic.published, ['b']);
+    await waitFor(() => p.spill!.length === 0);
+  });
+
+  it('should give each publisher its own log', async () => {
+    topic.code = Status.UNAVAILABLE;
+    const first = await publisher({retryInterval: 60000});
+    const second = await publisher({retryInterval: 60000});
+    void publish(first, 'a');
+    void publish(second, 'b');
+    await waitFor(() => first.spill!.length === 1);
+    await waitFor(() => second.spill!.length === 1);
+    assert.notStrictEqual(first.spill!.file, second.spill!.file);
+
+    // Logs are only picked up once their processes have exited.
+    const third = await publisher({retryInterval: 60000});
+    assert.strictEqual(third.spill!.length, 0);
+  });
+
+  it('should fail messages that do not fit', async () => {
+    const p = await publisher({maxMessages: 1});
+    topic.code = Status.UNAVAILABLE;
+    void publish(p, 'a');
+    await waitFor(() => p.spill!.length === 1);
+    await assert.rejects(publish(p, 'b'), /spill log .* is full/);
+  });
+
+  it('should publish messages left by an earlier process', async () => {
+    // No process has an ID this high.
+    const crashed = path.join(directory, 'spilled@99999999.0.spill');
+    const record = (seq: number, data: string) =>
+      JSON.stringify({seq, data: Buffer.from(data).toString('base64')});
+    await fs.writeFile(crashed, `${record(0, 'a')}\n${record(1, 'b')}\n`);
+
+    const restarted = await publisher();
+    assert.strictEqual(await publish(restarted, 'c'), '3');
+    assert.deepStrictEqual(topic.published, ['a', 'b', 'c']);
+    // The log is emptied once everything has been published.
+    await waitFor(async () => (await readLog(restarted)) === '');
+    assert.deepStrictEqual(await fs.readdir(directory), []);
+  });
+
+  it('should spill instead of waiting for flow control', async () => {
+    // Publishing works, so spilled messages don't wait for the interval.
+    const p = await publisher(
+      {retryInterval: 60000},
+      {flowControlOptions: {maxOutstandingMessages: 1}},
+    );
+    const flowControlled = new FlowControlledPublisher(p);
+
+    assert.strictEqual(flowControlled.publish({data: Buffer.from('a')}), null);
+    assert.strictEqual(flowControlled.publish({data: Buffer.from('b')}), null);
+    assert.strictEqual(p.spill!.length, 1);
+
+    // Ordered messages wait as usual.
+    const wait = flowControlled.publish({
+      data: Buffer.from('c'),
+      orderingKey: 'k',
+    });
+    assert.ok(wait);
+
+    await wait;
+    assert.deepStrictEqual((await flowControlled.all()).length, 3);
+    assert.deepStrictEqual(topic.published.sort(), ['a', 'b', 'c']);
+  });
+
+  it('should wait for room in flow control to publish them', async () => {
+    const p = await publisher(
+      {retryInterval: 60000},
+      {flowControlOptions: {maxOutstandingMessages: 1}},
+    );
+    const flowControlled = new FlowControlledPublisher(p);
+    const held = defer<void>();
+    topic.held = held.promise;
+
+    void flowControlled.publish({data: Buffer.from('a')});
+    void flowControlled.publish({data: Buffer.from('b')});
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.strictEqual(topic.requests, 1);
+
+    held.resolve();
+    await flowControlled.all();
+    assert.deepStrictEqual(topic.published, ['a', 'b']);
+    assert.strictEqual(p.flowControl.currentMessageCount, 0);
+  });
+
+  it('should stop waiting for flow control after the interval', async () => {
+    const p = await publisher(
+      {retryInterval: 20},
+      {flowControlOptions: {maxOutstandingMessages: 1}},
+    );
+    const flowControlled = new FlowControlledPublisher(p);
+    p.flowControl.addToCount(0, 1);
+
+    void flowControlled.publish({data: Buffer.from('a')});
+    await flowControlled.all();
+    assert.deepStrictEqual(topic.published, ['a']);
+    assert.strictEqual(p.flowControl.currentMessageCount, 1);
+  });
+
+  it('should apply idempotency keys to spilled messages', async () => {
+    const p = await publisher(
+      {retryInterval: 60000},
+      {flowControlOptions: {maxOutstandingMessages: 1}, idempotency: {}},
+    );
+    const flowControlled = new FlowControlledPublisher(p);
+
+    void flowControlled.publish({data: Buffer.from('a')});
+    void flowControlled.publish({data: Buffer.from('b')});
+    void flowControlled.publish({data: Buffer.from('b')});
+
+    const [, first, second] = await flowControlled.all();
+    assert.strictEqual(first, second);
+    assert.deepStrictEqual(topic.published.sort(), ['a', 'b']);
+  });
+});
@@ -0,0 +1,149 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {PubSub, Topic} from '../../src';
+import {AvroType} from '../../src/avro';
+
+interface Province {
+  name: string;
+  post_abbr: string;
+}
+
+describe('TypedPublisher', () => {
+  const sandbox = sinon.createSandbox();
+  const definition = JSON.stringify({
+    type: 'record',
+    name: 'Province',
+    fields: [
+      {name: 'name', type: 'string'},
+      {name: 'post_abbr', type: 'string'},
+    ],
+  });
+  const province = {name: 'Ontario', post_abbr: 'ON'};
+
+  let pubsub: PubSub;
+  let topic: Topic;
+
+  beforeEach(async () => {
+    pubsub = new PubSub({backend: 'memory', projectId: 'p'});
+    const schema = await pubsub.createSchema('schema', 'AVRO', definition);
+    [topic] = await pubsub.createTopic({
+      name: 'topic',
+      schemaSettings: {schema: await schema.getName(), encoding: 'BINARY'},
+    });
+  });
+
+  afterEach(async () => {
+    sandbox.restore();
+    await pubsub.close();
+  });
+
+  it('should describe the schema', async () => {
+    const schema = await topic.withSchema().getSchema();
+    assert.strictEqual(schema.name, 'projects/p/schemas/schema');
+    assert.strictEqual(schema.type, 'AVRO');
+    assert.strictEqual(schema.encoding, 'BINARY');
+    assert.strictEqual(schema.definition, definition);
+    assert.ok(schema.revisionId);
+  });
+
+  it('should publish encoded values', async () => {
+    const stub = sandbox.stub(topic, 'publishMessage').resolves('id');
+    const publisher = topic.withSchema<Province>();
+
+    const id = await publisher.publishMessage({
+      value: province,
+      attributes: {foo: 'bar'},
+    });
+
+    assert.strictEqual(id, 'id');
+    const [{data, attributes}] = stub.lastCall.args;
+    assert.deepStrictEqual(attributes, {foo: 'bar'});
+    assert.deepStrictEqual(
+      AvroType.parse(definition).fromBuffer(data as Buffer),
+      province,
+    );
+  });
+
+  it('should use the JSON encoding', async () => {
+    await topic.setMetadata({
+      schemaSettings: {schema: 'projects/p/schemas/schema', encoding: 'JSON'},
+    });
+    const data = await topic.withSchema<Province>().encode(province);
+    assert.deepStrictEqual(JSON.parse(data.toString()), province);
+  });
+
+  it('should reject values that do not match', async () => {
+    const stub = sandbox.stub(topic, 'publishMessage');
+    const publisher = topic.withSchema<Province>();
+
+    await assert.rejects(
+      publisher.publishMessage({value: {name: 'Ontario'} as Province}),
+      (e: TypeError) =>
+        e instanceof TypeError &&
+        e.message ===
+          'The message does not match schema projects/p/schemas/schema: $.post_abbr: string expected',
+    );
+    assert.strictEqual(stub.callCount, 0);
+  });
+
+  it('should use the last accepted revision', async () => {
+    const schema = pubsub.schema('schema');
+    const {revisionId} = await schema.get();
+    const client = await pubsub.getSchemaClient();
+    await client.commitSchema({
+      name: await schema.getName(),
+      schema: {type: 'AVRO', definition: '"string"'},
+    });
+    await topic.setMetadata({
+      schemaSettings: {
+        schema: await schema.getName(),
+        encoding: 'BINARY',
+        lastRevisionId: revisionId,
+      },
+    });
+
+    const publisher = topic.withSchema();
+    assert.strictEqual((await publisher.getSchema()).revisionId, revisionId);
+  });
+
+  it('should cache the schema until refreshed', async () => {
+    const publisher = topic.withSchema();
+    const spy = sandbox.spy(topic, 'getMetadata');
+
+    await publisher.getSchema();
+    await publisher.getSchema();
+    assert.strictEqual(spy.callCount, 1);
+
+    publisher.refresh();
+    await publisher.getSchema();
+    assert.strictEqual(spy.callCount, 2);
+  });
+
+  it('should need a schema', async () => {
+    const [plain] = await pubsub.createTopic('plain');
+    const publisher = plain.withSchema();
+
+    await assert.rejects(publisher.getSchema(), /does not have a schema/);
+    // Failures are not cached.
+    await plain.setMetadata({
+      schemaSettings: {schema: 'projects/p/schemas/schema'},
+    });
+    assert.strictEqual((await publisher.getSchema()).encoding, 'JSON');
+  });
+});
@@ -0,0 +1,340 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {OAuth2Client} from 'google-auth-library';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import * as sinon from 'sinon';
+
+import {DebugMessage} from '../src/debug';
+import {PushHandler, PushHandlerOptions, PushMessage} from '../src/push';
+
+const SUBSCRIPTION = 'projects/p/subscriptions/s';
+const EMAIL = 'pusher@p.iam.gserviceaccount.com';
+
+function envelope() {
+  return {
+    message: {
+      attributes: {a: 'b'},
+      data: Buffer.from('hello').toString('base64'),
+      messageId: '123',
+      orderingKey: 'k',
+      publishTime: '2026-01-01T00:00:00.123456789Z',
+    },
+    subscription: SUBSCRIPTION,
+    deliveryAttempt: 2,
+  };
+}
+
+describe('PushHandler', () => {
+  const sandbox = sinon.createSandbox();
+
+  let client: OAuth2Client;
+  let payload: {email?: string; email_verified?: boolean};
+  let received: PushMessage[];
+
+  beforeEach(() => {
+    client = new OAuth2Client();
+    payload = {email: EMAIL, email_verified: true};
+    sandbox.stub(client, 'verifyIdToken').callsFake(async ({idToken}) => {
+      if (idToken !== 'good') {
+        throw new Error('Wrong number of segments');
+      }
+      return {getPayload: () => payload} as never;
+    });
+    received = [];
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function handler(
+    onMessage: (message: PushMessage) => Promise<void> | void = () => {},
+    options: Partial<PushHandlerOptions> = {},
+  ) {
+    return new PushHandler(
+      message => {
+        received.push(message);
+        return onMessage(message);
+      },
+      {
+        oidc: {client, audience: 'https://a', serviceAccountEmail: EMAIL},
+        ...options,
+      },
+    );
+  }
+
+  const headers = {authorization: 'Bearer good'};
+
+  describe('initialization', () => {
+    it('should require an audience unless oidc is false', () => {
+      assert.throws(
+        () => new PushHandler(() => {}, {} as PushHandlerOptions),
+        /OIDC audience is required/,
+      );
+      assert.throws(
+        () =>
+          new PushHandler(() => {}, {
+            oidc: {serviceAccountEmail: EMAIL},
+          } as unknown as PushHandlerOptions),
+        /OIDC audience is required/,
+      );
+      assert.doesNotThrow(() => new PushHandler(() => {}, {oidc: false}));
+    });
+  });
+
+  describe('handle', () => {
+    it('should parse wrapped messages like pulled ones', async () => {
+      const response = await handler().handle({
+        headers,
+        body: JSON.stringify(envelope()),
+      });
+      assert.strictEqual(response.status, 204);
+
+      const [message] = received;
+      assert.strictEqual(message.id, '123');
+      assert.strictEqual(message.data.toString(), 'hello');
+      assert.strictEqual(message.length, 5);
+      assert.deepStrictEqual(message.attributes, {a: 'b'});
+      assert.strictEqual(message.orderingKey, 'k');
+      assert.strictEqual(message.deliveryAttempt, 2);
+      assert.strictEqual(message.subscription, SUBSCRIPTION);
+      assert.strictEqual(
+        message.publishTime.toISOString(),
+        '2026-01-01T00:00:00.123456789Z',
+      );
+    });
+
+    it('should accept parsed bodies', async () => {
+      const response = await handler().handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 204);
+      assert.strictEqual(received[0].id, '123');
+    });
+
+    it('should verify the token', async () => {
+      const push = handler();
+      await push.handle({headers, body: envelope()});
+      const [{args}] = (client.verifyIdToken as sinon.SinonStub).getCalls();
+      assert.deepStrictEqual(args[0], {idToken: 'good', audience: 'https://a'});
+    });
+
+    it('should reject requests without a token', async () => {
+      const response = await handler().handle({headers: {}, body: envelope()});
+      assert.strictEqual(response.status, 401);
+      assert.strictEqual(received.length, 0);
+    });
+
+    it('should reject invalid tokens', async () => {
+      const push = handler();
+      const debug: DebugMessage[] = [];
+      push.on('debug', msg => debug.push(msg));
+
+      const response = await push.handle({
+        headers: {authorization: 'Bearer bad'},
+        body: envelope(),
+      });
+      assert.strictEqual(response.status, 401);
+      assert.strictEqual(
+        response.body,
+        'Invalid token: Wrong number of segments',
+      );
+      assert.strictEqual(debug.length, 1);
+    });
+
+    it('should reject tokens for other service accounts', async () => {
+      payload.email = 'someone@example.com';
+      const response = await handler().handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 403);
+    });
+
+    it('should reject unverified emails', async () => {
+      payload.email_verified = false;
+      const response = await handler().handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 403);
+    });
+
+    it('should skip verification when oidc is false', async () => {
+      const push = new PushHandler(() => {}, {oidc: false});
+      const response = await push.handle({headers: {}, body: envelope()});
+      assert.strictEqual(response.status, 204);
+    });
+
+    it('should reject bodies that are not push messages', async () => {
+      const push = handler();
+      assert.strictEqual((await push.handle({headers, body: '{'})).status, 400);
+      assert.strictEqual((await push.handle({headers, body: {}})).status, 400);
+    });
+
+    it('should reject other subscriptions', async () => {
+      const push = new PushHandler(() => {}, {
+        oidc: false,
+        subscription: 'projects/p/subscriptions/other',
+      });
+      const response = await push.handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 400);
+    });
+
+    it('should nack when the handler throws', async () => {
+      const push = handler(() => {
+        throw new Error('nope');
+      });
+      const debug: DebugMessage[] = [];
+      push.on('debug', msg => debug.push(msg));
+
+      const response = await push.handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 500);
+      assert.strictEqual(debug[0].error!.message, 'nope');
+    });
+
+    it('should nack when the handler nacks', async () => {
+      const push = handler(message => message.nack());
+      const response = await push.handle({headers, body: envelope()});
+      assert.strictEqual(response.status, 500);
+    });
+
+    it('should parse unwrapped messages', async () => {
+      const push = new PushHandler(m => void received.push(m), {
+        oidc: false,
+        noWrapper: true,
+      });
+      const response = await push.handle({
+        headers: {
+          'content-type': 'application/octet-stream',
+          'x-goog-pubsub-message-id': '123',
+          'x-goog-pubsub-publish-time': '2026-01-01T00:00:00Z',
+          'x-goog-pubsub-ordering-key': 'k',
+          'x-goog-pubsub-subscription-name': SUBSCRIPTION,
+          a: 'b',
+        },
+        body: Buffer.from('hello'),
+      });
+      assert.strictEqual(response.status, 204);
+
+      const [message] = received;
+      assert.strictEqual(message.id, '123');
+      assert.strictEqual(message.data.toString(), 'hello');
+      assert.deepStrictEqual(message.attributes, {a: 'b'});
+      assert.strictEqual(message.orderingKey, 'k');
+      assert.strictEqual(message.subscription, SUBSCRIPTION);
+      assert.strictEqual(
+        message.publishTime.toISOString(),
+        '2026-01-01T00:00:00.000000000Z',
+      );
+    });
+  });
+
+  describe('listener', () => {
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async () => {
+      server = http.createServer(
+        handler(undefined, {maxBodyBytes: 1024}).listener(),
+      );
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    // Sends the start of a body that never ends.
+    function post(headers: http.OutgoingHttpHeaders, bytes: number) {
+      return new Promise<http.IncomingMessage>((resolve, reject) => {
+        const req = http.request(url, {method: 'POST', headers}, resolve);
+        req.on('error', reject);
+        req.write(Buffer.alloc(bytes));
+      });
+    }
+
+    it('should respond to pushes', async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {...headers, 'content-type': 'application/json'},
+        body: JSON.stringify(envelope()),
+      });
+      assert.strictEqual(response.status, 204);
+      assert.strictEqual(received[0].data.toString(), 'hello');
+    });
+
+    it('should reject unauthenticated pushes', async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        body: JSON.stringify(envelope()),
+      });
+      assert.strictEqual(response.status, 401);
+    });
+
+    it('should reject unauthenticated pushes before reading them', async () => {
+      const response = await post({}, 16);
+      assert.strictEqual(response.statusCode, 401);
+      response.destroy();
+    });
+
+    it('should reject bodies over the size limit', async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: Buffer.alloc(2048),
+      });
+      assert.strictEqual(response.status, 413);
+      assert.strictEqual(received.length, 0);
+    });
+
+    it('should stop reading bodies over the size limit', async () => {
+      const response = await post(headers, 2048);
+      assert.strictEqual(response.statusCode, 413);
+      assert.strictEqual(response.headers.connection, 'close');
+      await new Promise(resolve => response.socket.once('close', resolve));
+      assert.strictEqual(received.length, 0);
+    });
+  });
+
+  describe('express', () => {
+    function respond() {
+      const res = {status: sinon.stub(), send: sinon.stub()};
+      res.status.returns(res);
+      return res;
+    }
+
+    it('should use parsed bodies', async () => {
+      const res = respond();
+      const next = sinon.stub();
+      const req = Object.assign(new http.IncomingMessage(null as never), {
+        headers,
+        body: envelope(),
+      });
+      handler().express()(req, res, next);
+      await new Promise(resolve => res.send.callsFake(resolve));
+
+      assert.ok(res.status.calledWith(204));
+      assert.ok(next.notCalled);
+      assert.strictEqual(received[0].id, '123');
+    });
+  });
+
+  describe('fastify', () => {
+    it('should reply with the status', async () => {
+      const reply = {code: sinon.stub(), send: sinon.stub()};
+      reply.code.returns(reply);
+      await handler().fastify()({headers, body: envelope()}, reply);
+      assert.ok(reply.code.calledWith(204));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {createSchemaCodec, protoType} from '../src/schema-codec';
+
+describe('SchemaCodec', () => {
+  describe('Protocol Buffers', () => {
+    const definition = `
+      syntax = "proto3";
+      message Thing {
+        enum Kind { A = 0; B = 1; }
+        string name = 1;
+        int64 count = 2;
+        repeated string tags = 3;
+        Kind kind = 4;
+        map<string, int32> scores = 5;
+        oneof choice {
+          string left = 6;
+          string right = 7;
+        }
+      }`;
+    const codec = createSchemaCodec('PROTOCOL_BUFFER', definition);
+    const value = {
+      name: 'thing',
+      count: '12345678901234',
+      tags: ['a'],
+      kind: 'B',
+      scores: {x: 1},
+      left: 'l',
+    };
+
+    it('should find the message type', () => {
+      assert.strictEqual(protoType(definition).name, 'Thing');
+      assert.throws(
+        () => protoType('syntax = "proto3";'),
+        /exactly one top-level message/,
+      );
+    });
+
+    it('should verify values', () => {
+      assert.strictEqual(codec.verify(value), null);
+      assert.strictEqual(
+        codec.verify({...value, tags: [1]}),
+        '$.tags[0]: string expected',
+      );
+      assert.strictEqual(
+        codec.verify({...value, kind: 'C'}),
+        '$.kind: one of A, B expected',
+      );
+      assert.strictEqual(
+        codec.verify({...value, nope: 1}),
+        '$.nope: not a field of Thing',
+      );
+      assert.strictEqual(
+        codec.verify({...value, right: 'r'}),
+        '$: only one of left, right may be set',
+      );
+    });
+
+    for (const encoding of ['BINARY', 'JSON'] as const) {
+      it(`should round trip ${encoding}`, () => {
+        const data = codec.encode(value, encoding);
+        assert.deepStrictEqual(codec.decode(data, encoding), value);
+      });
+    }
+
+    it('should encode the JSON mapping', () => {
+      const json = JSON.parse(codec.encode(value, 'JSON').toString());
+      assert.strictEqual(json.count, '12345678901234');
+      assert.strictEqual(json.kind, 'B');
+    });
+  });
+
+  describe('Avro', () => {
+    const definition = JSON.stringify({
+      type: 'record',
+      name: 'Province',
+      fields: [
+        {name: 'name', type: 'string'},
+        {name: 'post_abbr', type: 'string'},
+      ],
+    });
+    const codec = createSchemaCodec('AVRO', definition);
+    const value = {name: 'Ontario', post_abbr: 'ON'};
+
+    for (const encoding of ['BINARY', 'JSON'] as const) {
+      it(`should round trip ${encoding}`, () => {
+        const data = codec.encode(value, encoding);
+        assert.deepStrictEqual(codec.decode(data, encoding), value);
+      });
+    }
+  });
+
+  it('should reject unknown schema types', () => {
+    assert.throws(
+      () => createSchemaCodec('TYPE_UNSPECIFIED' as 'AVRO', '{}'),
+      /Unsupported schema type/,
+    );
+  });
+});
@@ -0,0 +1,196 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {
+  checkCompatibility,
+  CompatibilityModes,
+} from '../src/schema-compatibility';
+
+function avro(fields: object[], extra = {}) {
+  return {
+    type: 'AVRO' as const,
+    definition: JSON.stringify({
+      type: 'record',
+      name: 'Thing',
+      namespace: 'example',
+      fields,
+      ...extra,
+    }),
+  };
+}
+
+function proto(body: string) {
+  return {
+    type: 'PROTOCOL_BUFFER' as const,
+    definition: `syntax = "proto3"; message Thing { ${body} }`,
+  };
+}
+
+describe('checkCompatibility', () => {
+  describe('Avro', () => {
+    const base = avro([{name: 'name', type: 'string'}]);
+
+    it('should allow adding fields with defaults', () => {
+      const added = avro([
+        {name: 'name', type: 'string'},
+        {name: 'count', type: 'int', default: 0},
+      ]);
+      assert.deepStrictEqual(
+        checkCompatibility(base, added, CompatibilityModes.Full),
+        {compatible: true, problems: []},
+      );
+    });
+
+    it('should report fields added without defaults', () => {
+      const added = avro([
+        {name: 'name', type: 'string'},
+        {name: 'count', type: 'int'},
+      ]);
+      assert.deepStrictEqual(checkCompatibility(base, added), {
+        compatible: false,
+        problems: [
+          'backward: $.count: the field is missing and has no default',
+        ],
+      });
+      // Old readers ignore the new field.
+      assert.strictEqual(
+        checkCompatibility(base, added, CompatibilityModes.Forward).compatible,
+        true,
+      );
+    });
+
+    it('should allow type promotions one way', () => {
+      const ints = avro([{name: 'n', type: 'int'}]);
+      const longs = avro([{name: 'n', type: 'long'}]);
+      assert.strictEqual(checkCompatibility(ints, longs).compatible, true);
+      assert.deepStrictEqual(
+        checkCompatibility(ints, longs, CompatibilityModes.Full).problems,
+        ["forward: $.n: long can't be read as int"],
+      );
+    });
+
+    it('should check unions', () => {
+      const optional = avro([
+        {name: 'name', type: ['null', 'string'], default: null},
+      ]);
+      assert.strictEqual(checkCompatibility(base, optional).compatible, true);
+      assert.deepStrictEqual(checkCompatibility(optional, base).problems, [
+        "backward: $.name: null can't be read as string",
+      ]);
+    });
+
+    it('should check enums, arrays and maps', () => {
+      const kinds = (symbols: string[], extra = {}) =>
+        avro([
+          {
+            name: 'kinds',
+            type: {
+              type: 'map',
+              values: {
+                type: 'array',
+                items: {type: 'enum', name: 'Kind', symbols, ...extra},
+              },
+            },
+          },
+        ]);
+      assert.deepStrictEqual(
+        checkCompatibility(kinds(['A', 'B']), kinds(['A'])).problems,
+        ['backward: $.kinds{}[]: the symbol B is missing'],
+      );
+      assert.strictEqual(
+        checkCompatibility(kinds(['A', 'B']), kinds(['A', 'C'], {default: 'C'}))
+          .compatible,
+        true,
+      );
+    });
+
+    it('should handle recursive records', () => {
+      const list = avro([
+        {name: 'name', type: 'string'},
+        {name: 'next', type: ['null', 'example.Thing'], default: null},
+      ]);
+      assert.strictEqual(
+        checkCompatibility(list, list, CompatibilityModes.Full).compatible,
+        true,
+      );
+    });
+  });
+
+  describe('Protocol Buffers', () => {
+    const base = proto('string name = 1;');
+
+    it('should allow adding and removing fields', () => {
+      assert.strictEqual(
+        checkCompatibility(
+          base,
+          proto('string name = 1; int32 count = 2;'),
+          CompatibilityModes.Full,
+        ).compatible,
+        true,
+      );
+    });
+
+    it('should report renamed fields', () => {
+      assert.deepStrictEqual(
+        checkCompatibility(base, proto('string title = 1;')).problems,
+        ['backward: $.name: field 1 is named title instead'],
+      );
+    });
+
+    it('should report changed types', () => {
+      assert.deepStrictEqual(
+        checkCompatibility(base, proto('int32 name = 1;')).problems,
+        ["backward: $.name: string can't be read as int32"],
+      );
+      assert.strictEqual(
+        checkCompatibility(
+          proto('int32 n = 1;'),
+          proto('uint32 n = 1;'),
+          CompatibilityModes.Full,
+        ).compatible,
+        true,
+      );
+      assert.deepStrictEqual(
+        checkCompatibility(base, proto('repeated string name = 1;')).problems,
+        ["backward: $.name: the field's label changed"],
+      );
+    });
+
+    it('should check nested messages and enums', () => {
+      const nested = (values: string) =>
+        proto(
+          `message Inner { Kind kind = 1; } enum Kind { ${values} } Inner inner = 1;`,
+        );
+      assert.deepStrictEqual(
+        checkCompatibility(nested('A = 0; B = 1;'), nested('A = 0;')).problems,
+        ['backward: $.inner.kind: the enum value B is missing'],
+      );
+    });
+  });
+
+  it('should report changed schema types', () => {
+    assert.deepStrictEqual(checkCompatibility(avro([]), proto('')).problems, [
+      'The schema type changed from AVRO to PROTOCOL_BUFFER.',
+    ]);
+  });
+
+  it('should reject invalid definitions', () => {
+    assert.throws(() =>
+      checkCompatibility(avro([]), {type: 'AVRO', definition: '{'}),
+    );
+  });
+});
@@ -0,0 +1,149 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {Message, PubSub, Schema, Topic} from '../src';
+import {SchemaDecoder} from '../src/schema-decoder';
+
+describe('SchemaDecoder', () => {
+  const sandbox = sinon.createSandbox();
+  const definition = JSON.stringify({
+    type: 'record',
+    name: 'Province',
+    fields: [{name: 'name', type: 'string'}],
+  });
+  const revised = JSON.stringify({
+    type: 'record',
+    name: 'Province',
+    fields: [
+      {name: 'name', type: 'string'},
+      {name: 'post_abbr', type: ['null', 'string'], default: null},
+    ],
+  });
+
+  let pubsub: PubSub;
+  let schema: Schema;
+  let topic: Topic;
+
+  beforeEach(async () => {
+    pubsub = new PubSub({backend: 'memory', projectId: 'p'});
+    schema = await pubsub.createSchema('schema', 'AVRO', definition);
+    [topic] = await pubsub.createTopic({
+      name: 'topic',
+      schemaSettings: {schema: await schema.getName(), encoding: 'BINARY'},
+    });
+  });
+
+  afterEach(async () => {
+    sandbox.restore();
+    await pubsub.close();
+  });
+
+  async function commit(definition: string): Promise<void> {
+    const client = await pubsub.getSchemaClient();
+    await client.commitSchema({
+      name: await schema.getName(),
+      schema: {type: 'AVRO', definition},
+    });
+  }
+
+  it('should decode with the revision a message names', async () => {
+    const {revisionId} = await schema.get();
+    const data = await topic.withSchema().encode({name: 'Ontario'});
+    await commit(revised);
+
+    const decoder = new SchemaDecoder(pubsub);
+    const value = await decoder.decode(data, {
+      googclient_schemaname: 'projects/p/schemas/schema',
+      googclient_schemarevisionid: revisionId!,
+      googclient_schemaencoding: 'BINARY',
+    });
+    assert.deepStrictEqual(value, {name: 'Ontario'});
+  });
+
+  it('should cache codecs by revision', async () => {
+    const {revisionId} = await schema.get();
+    const client = await pubsub.getSchemaClient();
+    const spy = sandbox.spy(client, 'getSchema');
+    const attributes = {
+      googclient_schemaname: 'projects/p/schemas/schema',
+      googclient_schemarevisionid: revisionId!,
+      googclient_schemaencoding: 'JSON',
+    };
+
+    const decoder = new SchemaDecoder(pubsub);
+    await decoder.decode(Buffer.from('{"name": "a"}'), attributes);
+    await decoder.decode(Buffer.from('{"name": "b"}'), attributes);
+
+    assert.strictEqual(spy.callCount, 1);
+    assert.strictEqual(
+      spy.lastCall.args[0]!.name,
+      `projects/p/schemas/schema@${revisionId}`,
+    );
+  });
+
+  it('should fetch schemas again after a failure', async () => {
+    const decoder = new SchemaDecoder(pubsub);
+    const attributes = {
+      googclient_schemaname: 'projects/p/schemas/nope',
+      googclient_schemarevisionid: 'r',
+      googclient_schemaencoding: 'JSON',
+    };
+    const client = await pubsub.getSchemaClient();
+    const spy = sandbox.spy(client, 'getSchema');
+
+    await assert.rejects(decoder.decode(Buffer.from('{}'), attributes));
+    await assert.rejects(decoder.decode(Buffer.from('{}'), attributes));
+    assert.strictEqual(spy.callCount, 2);
+  });
+
+  it('should reject messages without a schema', async () => {
+    const decoder = new SchemaDecoder(pubsub);
+    await assert.rejects(
+      decoder.decode(Buffer.from('{}'), {}),
+      /not published with a schema/,
+    );
+  });
+
+  it('should decode messages end to end', async () => {
+    await topic.createSubscription('sub');
+    const subscription = topic.subscription('sub', {schemaDecoding: true});
+    const publisher = topic.withSchema();
+    await publisher.publishMessage({value: {name: 'Ontario'}});
+    await commit(revised);
+    publisher.refresh();
+    await publisher.publishMessage({value: {name: 'Quebec', post_abbr: 'QC'}});
+
+    const decoded = await new Promise<unknown[]>((resolve, reject) => {
+      const values: Promise<unknown>[] = [];
+      subscription.on('error', reject);
+      subscription.on('message', (message: Message) => {
+        values.push(message.decoded());
+        message.ack();
+        if (values.length === 2) {
+          Promise.all(values).then(resolve, reject);
+        }
+      });
+    });
+    await subscription.close();
+
+    assert.deepStrictEqual(decoded, [
+      {name: 'Ontario'},
+      {name: 'Quebec', post_abbr: 'QC'},
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {promises as fs} from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import * as pubsub from '../src';
+import {generateSchemaTypes, loadSchemaFile} from '../src/schema-typegen';
+
+type Module = {[name: string]: Function};
+
+/**
+ * Compiles generated code and loads it, with this library as its import.
+ */
+function load(source: string): Module {
+  const {outputText} = ts.transpileModule(source, {
+    compilerOptions: {module: ts.ModuleKind.CommonJS},
+  });
+  const exports = {};
+  new Function('require', 'exports', outputText)(() => pubsub, exports);
+  return exports as Module;
+}
+
+describe('schema type generation', () => {
+  const AVRO = JSON.stringify({
+    type: 'record',
+    name: 'Province',
+    namespace: 'example',
+    doc: 'A province.',
+    fields: [
+      {name: 'name', type: 'string', doc: 'Its name.'},
+      {name: 'population', type: 'long'},
+      {name: 'kind', type: {type: 'enum', name: 'Kind', symbols: ['A', 'B']}},
+      {name: 'cities', type: {type: 'array', items: 'string'}},
+      {name: 'capital', type: ['null', 'Province'], default: null},
+    ],
+  });
+  const PROTO = `syntax = "proto3";
+    message Province {
+      message City { string name = 1; }
+      enum Kind { A = 0; B = 1; }
+      string name = 1;
+      int64 population = 2;
+      Kind kind = 3;
+      repeated City cities = 4;
+      map<string, bytes> extra = 5;
+    }`;
+
+  describe('Avro', () => {
+    const source = generateSchemaTypes({
+      name: 'projects/p/schemas/provinces',
+      revisionId: 'abc',
+      type: 'AVRO',
+      definition: AVRO,
+    });
+
+    it('should generate types', () => {
+      assert.ok(source.includes('at revision abc.'));
+      assert.ok(
+        source.includes(`/**
+ * A province.
+ */
+export interface Province {
+  /**
+   * Its name.
+   */
+  name: string;
+  population: number;
+  kind: Kind;
+  cities: Array<string>;
+  capital?: null | Province;
+}`),
+        source,
+      );
+      assert.ok(source.includes("export type Kind = 'A' | 'B';"));
+      assert.ok(source.includes('revisionId: "abc",'));
+    });
+
+    it('should generate working encoders', () => {
+      const {encodeProvince, decodeProvince} = load(source);
+      const value = {
+        name: 'Ontario',
+        population: 15000000,
+        kind: 'A',
+        cities: ['Toronto'],
+        capital: null,
+      };
+      assert.deepStrictEqual(decodeProvince(encodeProvince(value)), value);
+      assert.deepStrictEqual(
+        JSON.parse(encodeProvince(value, 'JSON').toString()).name,
+        'Ontario',
+      );
+      assert.throws(
+        () => encodeProvince({...value, kind: 'C'}),
+        /\$\.kind: one of A, B expected/,
+      );
+    });
+  });
+
+  describe('Protocol Buffers', () => {
+    const source = generateSchemaTypes(
+      {type: 'PROTOCOL_BUFFER', definition: PROTO},
+      {typeName: 'Record'},
+    );
+
+    it('should generate types', () => {
+      assert.ok(
+        source.includes(`export interface Province {
+  name?: string | null;
+  population?: string | null;
+  kind?: Province_Kind | null;
+  cities?: Array<Province_City> | null;
+  extra?: {[key: string]: Buffer} | null;
+}`),
+        source,
+      );
+      assert.ok(source.includes("export type Province_Kind = 'A' | 'B';"));
+      assert.ok(source.includes('export interface Province_City {'));
+      assert.ok(source.includes('export type Record = Province;'));
+      assert.ok(source.includes('from the local schema.'));
+    });
+
+    it('should generate working encoders', () => {
+      const {encodeRecord, decodeRecord} = load(source);
+      const value = {
+        name: 'Ontario',
+        population: '15000000',
+        kind: 'B',
+        cities: [{name: 'Toronto'}],
+        extra: {flag: Buffer.from('x')},
+      };
+      assert.deepStrictEqual(decodeRecord(encodeRecord(value)), value);
+      assert.deepStrictEqual(
+        decodeRecord(encodeRecord(value, 'JSON'), 'JSON'),
+        value,
+      );
+    });
+  });
+
+  it('should import from the given module', () => {
+    const source = generateSchemaTypes(
+      {type: 'AVRO', definition: '"string"'},
+      {typeName: 'Name', importFrom: '../pubsub'},
+    );
+    assert.ok(source.includes("SchemaEncoding} from '../pubsub';"));
+    assert.ok(source.includes('export type Name = string;'));
+  });
+
+  describe('loadSchemaFile', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-typegen-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, {recursive: true, force: true});
+    });
+
+    it('should tell the type from the extension', async () => {
+      const file = path.join(directory, 'province.proto');
+      await fs.writeFile(file, PROTO);
+      assert.deepStrictEqual(await loadSchemaFile(file), {
+        type: 'PROTOCOL_BUFFER',
+        definition: PROTO,
+      });
+    });
+
+    it('should need a type for unknown extensions', async () => {
+      const file = path.join(directory, 'province.txt');
+      await fs.writeFile(file, AVRO);
+      await assert.rejects(loadSchemaFile(file), /must be given/);
+      assert.strictEqual((await loadSchemaFile(file, 'AVRO')).type, 'AVRO');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {google} from '../protos/protos';
+import {
+  validateSchemaDefinition,
+  validateSchemaMessage,
+} from '../src/schema-validation';
+
+describe('schema validation', () => {
+  const AVRO = JSON.stringify({
+    type: 'record',
+    name: 'Thing',
+    fields: [{name: 'name', type: 'string'}],
+  });
+  const PROTO = 'syntax = "proto3"; message Thing { string name = 1; }';
+
+  describe('validateSchemaDefinition', () => {
+    it('should accept valid definitions', () => {
+      validateSchemaDefinition({type: 'AVRO', definition: AVRO});
+      validateSchemaDefinition({type: 'PROTOCOL_BUFFER', definition: PROTO});
+      validateSchemaDefinition({
+        type: google.pubsub.v1.Schema.Type.AVRO,
+        definition: AVRO,
+      });
+    });
+
+    it('should reject invalid definitions', () => {
+      assert.throws(
+        () => validateSchemaDefinition({type: 'AVRO', definition: '{'}),
+        SyntaxError,
+      );
+      assert.throws(
+        () =>
+          validateSchemaDefinition({
+            type: 'PROTOCOL_BUFFER',
+            definition: 'message {',
+          }),
+        /illegal/,
+      );
+      assert.throws(
+        () => validateSchemaDefinition({type: 'AVRO'}),
+        /definition is required/,
+      );
+      assert.throws(
+        () =>
+          validateSchemaDefinition({
+            type: 'TYPE_UNSPECIFIED',
+            definition: AVRO,
+          }),
+        /Unsupported schema type: TYPE_UNSPECIFIED/,
+      );
+    });
+  });
+
+  describe('validateSchemaMessage', () => {
+    it('should accept matching messages', () => {
+      validateSchemaMessage(
+        {type: 'AVRO', definition: AVRO},
+        '{"name": "a"}',
+        'JSON',
+      );
+      validateSchemaMessage(
+        {type: 'PROTOCOL_BUFFER', definition: PROTO},
+        Buffer.from([0x0a, 0x01, 0x61]),
+        'BINARY',
+      );
+    });
+
+    it('should reject messages that do not match', () => {
+      assert.throws(
+        () =>
+          validateSchemaMessage(
+            {type: 'AVRO', definition: AVRO},
+            '{"name": 1}',
+            'JSON',
+          ),
+        /string expected/,
+      );
+      assert.throws(
+        () =>
+          validateSchemaMessage(
+            {type: 'AVRO', definition: AVRO},
+            Buffer.from([0x04]),
+            'BINARY',
+          ),
+        RangeError,
+      );
+    });
+
+    it('should reject unknown encodings', () => {
+      assert.throws(
+        () =>
+          validateSchemaMessage(
+            {type: 'AVRO', definition: AVRO},
+            '{"name": "a"}',
+            'ENCODING_UNSPECIFIED',
+          ),
+        /Unsupported encoding/,
+      );
+    });
+  });
+});
@@ -23,6 +23,7 @@ import * as proxyquire from 'proxyquire';
 import * as sinon from 'sinon';
 import {PassThrough} from 'stream';
 import * as uuid from 'uuid';
+import * as zlib from 'zlib';
 import * as opentelemetry from '@opentelemetry/api';
 import {google} from '../protos/protos';
 import * as defer from 'p-defer';
@@ -33,8 +34,14 @@ import {BatchOptions} from '../src/message-queues';
 import {MessageStreamOptions} from '../src/message-stream';
 import * as s from '../src/subscriber';
 import {Subscription} from '../src/subscription';
+import {Topic} from '../src/topic';
+import {DebugMessage} from '../src/debug';
 import {SpanKind} from '@opentelemetry/api';
 import {Duration} from '../src';
+import {COMPRESSION_ATTRIBUTE} from '../src/compression';
+import {PAYLOAD_REFERENCE_ATTRIBUTE, PayloadStore} from '../src/payload-store';
+import {DuplicateWindowOptions, MemoryDuplicateStore} from '../src/idempotency';
+import {SchemaDecoder} from '../src/schema-decoder';
 import * as tracing from '../src/telemetry-tracing';
 import {FakeLog, TestUtils} from './test-utils';
 import {loggingUtils} from 'google-gax';
@@ -96,7 +103,13 @@ class FakeLeaseManager extends EventEmitter {
     stubs.set('inventory', this);
   }
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  add(message: s.Message): void {}
+  add(message: s.Message, hold?: boolean): void {}
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  isHeld(message: s.Message): boolean {
+    return true;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  unhold(message: s.Message): void {}
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   setOptions(options: FlowControlOptions): void {}
   clear(): s.Message[] {
@@ -181,6 +194,7 @@ const RECEIVED_MESSAGE = {
 };
 
 interface SubInternals {
+  _deduplicating: Promise<void>;
   _stream: FakeMessageStream;
   _inventory: FakeLeaseManager;
   _onData(response: PullResponse): void;
@@ -380,6 +394,179 @@ describe('Subscriber', () => {
 
       await done.promise;
     });
+
+    describe('with a duplicate window', () => {
+      let store: MemoryDuplicateStore;
+      let addStub: sinon.SinonStub;
+      let unholdStub: sinon.SinonStub;
+      let ackStub: sinon.SinonStub;
+      let modAckStub: sinon.SinonStub;
+
+      const received = (messageId: string, key?: string) => {
+        const attributes: {[key: string]: string} = {};
+        if (key) {
+          attributes.googclient_idempotency_key = key;
+        }
+        return {
+          ackId: `ack-${messageId}`,
+          message: {data: 'foo', messageId, attributes},
+        };
+      };
+
+      async function open(
+        option: 'idempotency' | 'deduplication',
+        options: DuplicateWindowOptions = {},
+      ) {
+        await subscriber.close();
+        store = new MemoryDuplicateStore();
+        subscriber.setOptions({[option]: {store, ...options}});
+        subscriber.open();
+
+        const inventory = getSubInternals(subscriber)._inventory;
+        modAckStub = sandbox.stub(subscriber, 'modAck').resolves();
+        addStub = sandbox.stub(inventory, 'add');
+        unholdStub = sandbox.stub(inventory, 'unhold');
+        ackStub = sandbox.stub(subscriber, 'ack').resolves();
+      }
+
+      async function receive(...messages: ReturnType<typeof received>[]) {
+        const subint = getSubInternals(subscriber);
+        subint._onData({receivedMessages: messages});
+        await subint._deduplicating;
+      }
+
+      const dispatched = () => unholdStub.args.map(([m]) => m.id);
+
+      it('should ack and drop copies with the same idempotency key', async () => {
+        await open('idempotency');
+        await receive(received('1', 'k'), received('2', 'k'));
+        await receive(received('1', 'k'));
+
+        // The redelivery of the first copy is dispatched again.
+        assert.deepStrictEqual(dispatched(), ['1', '1']);
+        assert.strictEqual(ackStub.callCount, 1);
+        assert.strictEqual(ackStub.lastCall.args[0].id, '2');
+      });
+
+      it('should ack and drop redeliveries with deduplication', async () => {
+        await open('deduplication');
+        await receive(received('1'), received('2'));
+        await receive(received('1'));
+
+        assert.deepStrictEqual(dispatched(), ['1', '2']);
+        assert.strictEqual(ackStub.callCount, 1);
+        assert.strictEqual(ackStub.lastCall.args[0].id, '1');
+      });
+
+      it('should deduplicate by attribute if asked to', async () => {
+        await open('deduplication', {
+          attribute: 'googclient_idempotency_key',
+        });
+        await receive(received('1', 'k'), received('2', 'k'), received('3'));
+        await receive(received('3'));
+
+        assert.deepStrictEqual(dispatched(), ['1', '3', '3']);
+        assert.strictEqual(ackStub.callCount, 1);
+        assert.strictEqual(ackStub.lastCall.args[0].id, '2');
+      });
+
+      it('should use both windows together', async () => {
+        await subscriber.close();
+        store = new MemoryDuplicateStore();
+        subscriber.setOptions({
+          idempotency: {},
+          deduplication: {store},
+        });
+        subscriber.open();
+        const inventory = getSubInternals(subscriber)._inventory;
+        sandbox.stub(subscriber, 'modAck').resolves();
+        sandbox.stub(inventory, 'add');
+        unholdStub = sandbox.stub(inventory, 'unhold');
+        ackStub = sandbox.stub(subscriber, 'ack').resolves();
+
+        await receive(received('1', 'k'), received('2', 'k'));
+        await receive(received('1', 'k'));
+
+        assert.deepStrictEqual(dispatched(), ['1']);
+        assert.deepStrictEqual(
+          ackStub.args.map(([m]) => m.id),
+          ['2', '1'],
+        );
+      });
+
+      it('should lease messages while they are checked', async () => {
+        await open('deduplication');
+        const slow = defer<undefined>();
+        sandbox.stub(store, 'add').returns(slow.promise);
+
+        getSubInternals(subscriber)._onData({
+          receivedMessages: [received('1')],
+        });
+        assert.strictEqual(addStub.callCount, 1);
+        assert.strictEqual(addStub.lastCall.args[1], true);
+        assert.strictEqual(unholdStub.callCount, 0);
+
+        slow.resolve(undefined);
+        await getSubInternals(subscriber)._deduplicating;
+        assert.deepStrictEqual(dispatched(), ['1']);
+      });
+
+      it('should keep messages in order', async () => {
+        await open('deduplication');
+        const slow = defer<undefined>();
+        sandbox.stub(store, 'add').callsFake(async (key: string) => {
+          return key.endsWith('/1') ? slow.promise : undefined;
+        });
+
+        const subint = getSubInternals(subscriber);
+        subint._onData({receivedMessages: [received('1')]});
+        subint._onData({receivedMessages: [received('2')]});
+        await new Promise(r => setImmediate(r));
+        assert.strictEqual(unholdStub.callCount, 0);
+
+        slow.resolve(undefined);
+        await subint._deduplicating;
+        assert.deepStrictEqual(dispatched(), ['1', '2']);
+      });
+
+      it('should dispatch messages if the store fails', async () => {
+        await open('deduplication');
+        sandbox.stub(store, 'add').rejects(new Error('nope'));
+        let debug: DebugMessage | undefined;
+        subscriber.on('debug', msg => (debug = msg));
+
+        await receive(received('1'));
+
+        assert.deepStrictEqual(dispatched(), ['1']);
+        assert.strictEqual(debug!.error!.message, 'nope');
+      });
+
+      it('should nack the batch if dispatching fails', async () => {
+        await open('deduplication');
+        unholdStub.throws(new Error('nope'));
+        let debug: DebugMessage | undefined;
+        subscriber.on('debug', msg => (debug = msg));
+
+        await receive(received('1'));
+        assert.strictEqual(debug!.error!.message, 'nope');
+        assert.ok(modAckStub.calledWith(sinon.match({id: '1'}), 0));
+
+        // Later batches are still handled.
+        unholdStub.resetBehavior();
+        await receive(received('2'));
+        assert.deepStrictEqual(dispatched(), ['1', '2']);
+      });
+
+      it('should handle nacked messages again', async () => {
+        await open('deduplication');
+        await receive(received('1'));
+        await subscriber.nack(unholdStub.lastCall.args[0]);
+        await receive(received('1'));
+
+        assert.deepStrictEqual(dispatched(), ['1', '1']);
+        assert.strictEqual(ackStub.callCount, 0);
+      });
+    });
   });
 
   describe('modAckLatency', () => {
@@ -457,6 +644,34 @@ describe('Subscriber', () => {
       assert.strictEqual(fakeLog.args![1], message.id);
     });
 
+    it('should delete the payload when asked to', async () => {
+      const store = {delete: sandbox.stub().resolves()};
+      subscriber.setOptions({
+        payloadStore: {store: store as {} as PayloadStore, deleteOnAck: true},
+      });
+      message.attributes = {[PAYLOAD_REFERENCE_ATTRIBUTE]: 'ref'};
+
+      await subscriber.ack(message);
+      assert.deepStrictEqual(store.delete.lastCall.args, ['ref']);
+
+      await subscriber.ack(message, true);
+      assert.strictEqual(store.delete.callCount, 1);
+    });
+
+    it('should emit a debug message if the payload is not deleted', async () => {
+      const store = {delete: sandbox.stub().rejects(new Error('nope'))};
+      subscriber.setOptions({
+        payloadStore: {store: store as {} as PayloadStore, deleteOnAck: true},
+      });
+      message.attributes = {[PAYLOAD_REFERENCE_ATTRIBUTE]: 'ref'};
+
+      let debug: DebugMessage | undefined;
+      subscriber.on('debug', msg => (debug = msg));
+      await subscriber.ack(message);
+
+      assert.strictEqual(debug!.error!.message, 'nope');
+    });
+
     it('should log if the ack time is longer than the 99th percentile', async () => {
       const histogram: FakeHistogram = stubs.get('histogram');
       TestUtils.useFakeTimers(sandbox, Date.now());
@@ -802,6 +1017,7 @@ describe('Subscriber', () => {
         assert.strictEqual(nackSpy.callCount, mockMessages.length);
         mockMessages.forEach((msg, i) => {
           assert.strictEqual(nackSpy.getCall(i).args[0], msg);
+          assert.strictEqual(nackSpy.getCall(i).args[2], false);
         });
       });
 
@@ -950,6 +1166,148 @@ describe('Subscriber', () => {
 
       assert.strictEqual(stub.callCount, 1);
     });
+
+    describe('with a retry policy', () => {
+      let clock: sinon.SinonFakeTimers;
+
+      beforeEach(async () => {
+        await subscriber.close();
+        clock = TestUtils.useFakeTimers(sandbox, Date.now());
+        sandbox.stub(global.Math, 'random').returns(0.5);
+
+        subscriber.setOptions({
+          retryPolicy: {
+            minimumBackoff: Duration.from({seconds: 10}),
+            maximumBackoff: Duration.from({seconds: 60}),
+            maxAttempts: 5,
+          },
+        });
+        subscriber.open();
+      });
+
+      it('should hold the lease and nack after the backoff', async () => {
+        const stub = sandbox.stub(subscriber, 'modAck').resolves();
+
+        await subscriber.nack(message);
+        assert.strictEqual(stub.callCount, 1);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 10]);
+
+        clock.tick(9999);
+        assert.strictEqual(stub.callCount, 1);
+
+        clock.tick(1);
+        assert.strictEqual(stub.callCount, 2);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 0]);
+      });
+
+      it('should back off based on the delivery attempt', async () => {
+        const stub = sandbox.stub(subscriber, 'modAck').resolves();
+        message.deliveryAttempt = 3;
+
+        await subscriber.nack(message);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 40]);
+
+        clock.tick(40000);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 0]);
+      });
+
+      it('should cap the backoff at the maximum', async () => {
+        const stub = sandbox.stub(subscriber, 'modAck').resolves();
+        message.deliveryAttempt = 4;
+
+        await subscriber.nack(message);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 60]);
+      });
+
+      it('should nack immediately after the max attempts', async () => {
+        const stub = sandbox.stub(subscriber, 'modAck').resolves();
+        message.deliveryAttempt = 5;
+
+        await subscriber.nack(message);
+        assert.strictEqual(stub.callCount, 1);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 0]);
+      });
+
+      it('should nack waiting messages on close', async () => {
+        const stub = sandbox.stub(subscriber, 'modAck').resolves();
+
+        await subscriber.nack(message);
+        await subscriber.close();
+
+        assert.strictEqual(stub.callCount, 2);
+        assert.deepStrictEqual(stub.lastCall.args, [message, 0]);
+      });
+    });
+
+    describe('with a dead letter topic', () => {
+      let publishStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        await subscriber.close();
+
+        publishStub = sandbox.stub().resolves('new-id');
+        const topic = {
+          publishMessage: publishStub,
+          resumePublishing: sandbox.stub(),
+        } as {} as Topic;
+        subscriber.setOptions({deadLetter: {topic, maxAttempts: 2}});
+        subscriber.open();
+      });
+
+      it('should nack until the max attempts', async () => {
+        const modAckStub = sandbox.stub(subscriber, 'modAck').resolves();
+
+        await subscriber.nack(message);
+
+        assert.strictEqual(publishStub.callCount, 0);
+        assert.deepStrictEqual(modAckStub.lastCall.args, [message, 0]);
+      });
+
+      it('should forward and ack at the max attempts', async () => {
+        const modAckStub = sandbox.stub(subscriber, 'modAck').resolves();
+        const ackStub = sandbox.stub(subscriber, 'ack').resolves();
+        const fakeError = new Error('err');
+
+        await subscriber.nack(message);
+        await subscriber.nack(message, fakeError);
+
+        assert.strictEqual(publishStub.callCount, 1);
+        const [{attributes}] = publishStub.lastCall.args;
+        assert.strictEqual(attributes.googclient_deadletter_error, 'err');
+        assert.strictEqual(
+          attributes.googclient_deadletter_message_id,
+          message.id,
+        );
+        assert.deepStrictEqual(ackStub.lastCall.args, [message, true]);
+        assert.strictEqual(modAckStub.callCount, 1);
+      });
+
+      it('should not count unhandled nacks', async () => {
+        const modAckStub = sandbox.stub(subscriber, 'modAck').resolves();
+        message.deliveryAttempt = 2;
+
+        await subscriber.nack(message, undefined, false);
+
+        assert.strictEqual(publishStub.callCount, 0);
+        assert.deepStrictEqual(modAckStub.lastCall.args, [message, 0]);
+      });
+
+      it('should nack if forwarding fails', async () => {
+        const modAckStub = sandbox.stub(subscriber, 'modAck').resolves();
+        const ackStub = sandbox.stub(subscriber, 'ack').resolves();
+        publishStub.rejects(new Error('nope'));
+        message.deliveryAttempt = 2;
+
+        let debug: DebugMessage | undefined;
+        subscriber.on('debug', msg => (debug = msg));
+
+        await subscriber.nack(message);
+
+        assert.strictEqual(ackStub.callCount, 0);
+        assert.deepStrictEqual(modAckStub.lastCall.args, [message, 0]);
+        assert.strictEqual(debug!.error!.message, 'nope');
+      });
+    });
   });
 
   describe('open', () => {
@@ -1119,6 +1477,18 @@ describe('Subscriber', () => {
         maxExtensionTime.seconds,
       );
     });
+
+    it('should capture the serializeOrderingKeys option', () => {
+      assert.strictEqual(subscriber.serializeOrderingKeys, false);
+      subscriber.setOptions({serializeOrderingKeys: true});
+      assert.strictEqual(subscriber.serializeOrderingKeys, true);
+    });
+
+    it('should capture the decompress option', () => {
+      assert.strictEqual(subscriber.decompress, false);
+      subscriber.setOptions({decompress: true});
+      assert.strictEqual(subscriber.decompress, true);
+    });
   });
 
   describe('OpenTelemetry tracing', () => {
@@ -1269,6 +1639,124 @@ describe('Subscriber', () => {
       });
     });
 
+    describe('decompression', () => {
+      const data = Buffer.from('hello, world!');
+      const compressed = {
+        ackId: 'abc',
+        message: {
+          data: zlib.gzipSync(data),
+          attributes: {foo: 'bar', [COMPRESSION_ATTRIBUTE]: 'gzip'},
+          messageId: 'id',
+        },
+      };
+
+      it('should leave compressed data by default', () => {
+        const m = new Message(subscriber, compressed);
+        assert.strictEqual(m.data, compressed.message.data);
+        assert.strictEqual(m.attributes[COMPRESSION_ATTRIBUTE], 'gzip');
+      });
+
+      it('should decompress data when enabled', () => {
+        subscriber.decompress = true;
+        const m = new Message(subscriber, compressed);
+        assert.deepStrictEqual(m.attributes, {foo: 'bar'});
+        assert.deepStrictEqual(m.data, data);
+        assert.strictEqual(m.length, compressed.message.data.length);
+      });
+
+      it('should only decompress data when it is read', () => {
+        subscriber.decompress = true;
+        const stub = sandbox.spy(zlib, 'gunzipSync');
+        const m = new Message(subscriber, compressed);
+        assert.strictEqual(stub.callCount, 0);
+
+        assert.deepStrictEqual(m.data, data);
+        assert.deepStrictEqual(m.data, data);
+        assert.strictEqual(stub.callCount, 1);
+      });
+
+      it('should leave data that cannot be decompressed', () => {
+        subscriber.decompress = true;
+        const bad = {
+          ackId: 'abc',
+          message: {...compressed.message, data},
+        };
+        const m = new Message(subscriber, bad);
+        assert.strictEqual(m.data, data);
+        assert.strictEqual(m.attributes[COMPRESSION_ATTRIBUTE], 'gzip');
+      });
+
+      it('should leave data beyond maxDecompressedBytes', () => {
+        subscriber.decompress = true;
+        subscriber.maxDecompressedBytes = data.length - 1;
+        const m = new Message(subscriber, compressed);
+        assert.strictEqual(m.data, compressed.message.data);
+        assert.strictEqual(m.attributes[COMPRESSION_ATTRIBUTE], 'gzip');
+      });
+    });
+
+    describe('getData', () => {
+      it('should return the data', async () => {
+        assert.strictEqual(await message.getData(), message.data);
+      });
+
+      it('should fetch data from the payload store', async () => {
+        const payload = Buffer.from('big');
+        const stub = sandbox
+          .stub(subscriber, 'getPayload')
+          .onFirstCall()
+          .rejects(new Error('nope'))
+          .resolves(payload);
+        message.attributes = {[PAYLOAD_REFERENCE_ATTRIBUTE]: 'ref'};
+
+        await assert.rejects(message.getData(), /nope/);
+        assert.strictEqual(await message.getData(), payload);
+        assert.strictEqual(await message.getData(), payload);
+        assert.strictEqual(stub.callCount, 2);
+        assert.strictEqual(stub.lastCall.args[0], 'ref');
+      });
+
+      it('should need a payload store', async () => {
+        message.attributes = {[PAYLOAD_REFERENCE_ATTRIBUTE]: 'ref'};
+        await assert.rejects(message.getData(), /no payloadStore option/);
+      });
+    });
+
+    describe('decoded', () => {
+      it('should decode and cache the value', async () => {
+        const stub = sandbox
+          .stub(subscriber, 'decode')
+          .onFirstCall()
+          .rejects(new Error('nope'))
+          .resolves({name: 'a'});
+
+        await assert.rejects(message.decoded(), /nope/);
+        assert.deepStrictEqual(await message.decoded(), {name: 'a'});
+        assert.deepStrictEqual(await message.decoded(), {name: 'a'});
+        assert.strictEqual(stub.callCount, 2);
+        assert.strictEqual(stub.lastCall.args[0], message);
+      });
+
+      it('should need the schemaDecoding option', async () => {
+        await assert.rejects(message.decoded(), /schemaDecoding option/);
+      });
+
+      it('should decode the message data', async () => {
+        subscriber.setOptions({schemaDecoding: true});
+        const payload = Buffer.from('{"name": "a"}');
+        sandbox.stub(message, 'getData').resolves(payload);
+        const stub = sandbox
+          .stub(SchemaDecoder.prototype, 'decode')
+          .resolves({name: 'a'});
+
+        assert.deepStrictEqual(await message.decoded(), {name: 'a'});
+        assert.deepStrictEqual(stub.lastCall.args, [
+          payload,
+          message.attributes,
+        ]);
+      });
+    });
+
     describe('deliveryAttempt', () => {
       it('should store the delivery attempt', () => {
         const deliveryAttempt = 10;
@@ -0,0 +1,84 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+import {EventEmitter} from 'events';
+import * as sinon from 'sinon';
+
+import {Subscription} from '../src/subscription';
+import {
+  SubscriptionListeners,
+  attach,
+  detach,
+} from '../src/subscription-listeners';
+
+class FakeSubscription extends EventEmitter {
+  isOpen = false;
+  constructor() {
+    super();
+    this.on('newListener', event => {
+      if (event === 'message') {
+        this.isOpen = true;
+      }
+    });
+  }
+  async close(): Promise<void> {
+    this.isOpen = false;
+  }
+}
+
+describe('subscription listeners', () => {
+  let subscription: FakeSubscription;
+  let listeners: SubscriptionListeners;
+
+  beforeEach(() => {
+    subscription = new FakeSubscription();
+    listeners = {
+      onClose: sinon.stub(),
+      onError: sinon.stub(),
+      onMessage: sinon.stub(),
+    };
+    attach(subscription as {} as Subscription, listeners);
+  });
+
+  it('should listen for every event', () => {
+    subscription.emit('message', 'm');
+    subscription.emit('error', 'e');
+    subscription.emit('close');
+    assert.ok((listeners.onMessage as sinon.SinonStub).calledWith('m'));
+    assert.ok((listeners.onError as sinon.SinonStub).calledWith('e'));
+    assert.ok((listeners.onClose as sinon.SinonStub).calledOnce);
+  });
+
+  it('should close the subscription if it was the last listener', async () => {
+    const close = sinon.spy(subscription, 'close');
+    await detach(subscription as {} as Subscription, listeners);
+
+    assert.strictEqual(close.callCount, 1);
+    assert.strictEqual(subscription.listenerCount('close'), 0);
+    assert.strictEqual(subscription.listenerCount('error'), 0);
+    assert.strictEqual(subscription.listenerCount('message'), 0);
+  });
+
+  it('should leave the subscription open for other listeners', async () => {
+    const close = sinon.spy(subscription, 'close');
+    subscription.on('message', () => {});
+    await detach(subscription as {} as Subscription, listeners);
+
+    assert.strictEqual(close.callCount, 0);
+    assert.strictEqual(subscription.isOpen, true);
+    assert.strictEqual(subscription.listenerCount('message'), 1);
+  });
+});
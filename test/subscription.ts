@@ -842,6 +842,21 @@ describe('Subscription', () => {
     });
   });
 
+  describe('messages', () => {
+    it('should iterate over emitted messages', async () => {
+      const message = {} as Message;
+      const iterator = subscription.messages!();
+
+      const next = iterator.next();
+      assert.strictEqual(subscriber.isOpen, true);
+      subscriber.emit('message', message);
+
+      assert.deepStrictEqual(await next, {done: false, value: message});
+      await iterator.return!();
+      assert.strictEqual(subscriber.isOpen, false);
+    });
+  });
+
   describe('modifyPushConfig', () => {
     const fakeConfig = {};
 
@@ -890,6 +905,24 @@ describe('Subscription', () => {
     });
   });
 
+  describe('process', () => {
+    it('should run the handler for emitted messages', async () => {
+      const message = {ack: sandbox.stub()} as {} as Message;
+      const handler = sandbox.stub().resolves();
+
+      const processor = subscription.process!(handler, {concurrency: 1});
+      assert.strictEqual(subscriber.isOpen, true);
+
+      subscriber.emit('message', message);
+      await processor.close();
+
+      assert.strictEqual(handler.callCount, 1);
+      assert.strictEqual(handler.firstCall.args[0], message);
+      assert.strictEqual((message.ack as sinon.SinonStub).callCount, 1);
+      assert.strictEqual(subscriber.isOpen, false);
+    });
+  });
+
   describe('seek', () => {
     const FAKE_SNAPSHOT_NAME = 'a';
     const FAKE_FULL_SNAPSHOT_NAME = 'a/b/c/d';
@@ -0,0 +1,175 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import {Attributes, Meter, MeterProvider, metrics} from '@opentelemetry/api';
+import defer = require('p-defer');
+
+import * as otel from '../src/telemetry-metrics';
+import {Message, PubSub} from '../src';
+
+interface Recorded {
+  name: string;
+  value: number;
+  attributes?: Attributes;
+}
+
+/**
+ * A meter provider that keeps every recorded value. It's registered globally
+ * before any instruments are created, as they're cached once created.
+ */
+class FakeMeterProvider implements MeterProvider {
+  recorded: Recorded[] = [];
+
+  getMeter(): Meter {
+    const instrument = (name: string) => {
+      const record = (value: number, attributes?: Attributes) =>
+        this.recorded.push({name, value, attributes});
+      return {record, add: record};
+    };
+    return {
+      createHistogram: instrument,
+      createCounter: instrument,
+      createUpDownCounter: instrument,
+    } as unknown as Meter;
+  }
+
+  values(name: string): number[] {
+    return this.recorded.filter(r => r.name === name).map(r => r.value);
+  }
+}
+
+const provider = new FakeMeterProvider();
+metrics.setGlobalMeterProvider(provider);
+
+describe('OpenTelemetryMetrics', () => {
+  const topicName = 'projects/project-name/topics/topic-name';
+  const subName = 'projects/project-name/subscriptions/sub-name';
+
+  beforeEach(() => {
+    provider.recorded = [];
+    otel.setGloballyEnabled(true);
+  });
+
+  afterEach(() => {
+    otel.setGloballyEnabled(false);
+  });
+
+  it('records nothing when disabled', () => {
+    otel.setGloballyEnabled(false);
+    otel.PubsubMetrics.recordPublish(topicName, 10, 1, 1);
+    otel.PubsubMetrics.recordAckError(subName, 'ack');
+    assert.deepStrictEqual(provider.recorded, []);
+  });
+
+  it('records publishes', () => {
+    otel.PubsubMetrics.recordPublish(topicName, 10, 2, 100, 14);
+
+    const [duration, messages, bytes] = provider.recorded;
+    assert.strictEqual(duration.name, 'pubsub.publish.duration');
+    assert.strictEqual(duration.value, 10);
+    assert.deepStrictEqual(duration.attributes, {
+      ['messaging.system']: 'gcp_pubsub',
+      ['messaging.destination.name']: 'topic-name',
+      ['gcp.project_id']: 'project-name',
+      ['code.function']: 'MessageQueue._publish',
+      ['rpc.grpc.status_code']: 14,
+    });
+    assert.strictEqual(messages.value, 2);
+    assert.strictEqual(bytes.value, 100);
+    assert.strictEqual(bytes.attributes!['rpc.grpc.status_code'], undefined);
+  });
+
+  it('leaves out unknown attributes', () => {
+    otel.PubsubMetrics.recordPublishFlowControlWait('topic-name', 5);
+    const [{attributes}] = provider.recorded;
+    assert.ok(!('gcp.project_id' in attributes!));
+    assert.strictEqual(attributes!['messaging.destination.name'], 'topic-name');
+  });
+
+  it('records lease changes', () => {
+    otel.PubsubMetrics.recordLeases(subName, 2, 50);
+    otel.PubsubMetrics.recordLeases(subName, 0, 0);
+    assert.deepStrictEqual(provider.values('pubsub.subscribe.leases'), [2]);
+    assert.deepStrictEqual(provider.values('pubsub.subscribe.lease.bytes'), [
+      50,
+    ]);
+  });
+
+  it('records spill log changes', () => {
+    otel.PubsubMetrics.recordSpill(topicName, 3, 30);
+    otel.PubsubMetrics.recordSpill(topicName, -3, -30);
+    otel.PubsubMetrics.recordSpillDropped(topicName, 2);
+    assert.deepStrictEqual(
+      provider.values('pubsub.publish.spill.messages'),
+      [3, -3],
+    );
+    assert.deepStrictEqual(
+      provider.values('pubsub.publish.spill.bytes'),
+      [30, -30],
+    );
+    assert.deepStrictEqual(provider.values('pubsub.publish.spill.dropped'), [
+      2,
+    ]);
+  });
+
+  it('records ack errors', () => {
+    otel.PubsubMetrics.recordAckError(subName, 'nack', 4);
+    const [{name, attributes}] = provider.recorded;
+    assert.strictEqual(name, 'pubsub.subscribe.ack.errors');
+    assert.strictEqual(attributes!['messaging.operation'], 'nack');
+    assert.strictEqual(attributes!['messaging.destination.name'], 'sub-name');
+    assert.strictEqual(attributes!['rpc.grpc.status_code'], 4);
+  });
+
+  it('records stream reconnects', () => {
+    otel.PubsubMetrics.recordStreamReconnect(subName, 14);
+    assert.deepStrictEqual(
+      provider.values('pubsub.subscribe.stream.reconnects'),
+      [1],
+    );
+  });
+
+  it('is enabled through the client config', () => {
+    otel.setGloballyEnabled(false);
+    new PubSub({enableOpenTelemetryMetrics: true});
+    assert.strictEqual(otel.isEnabled(), true);
+  });
+
+  it('records publisher and subscriber activity', async () => {
+    const pubsub = new PubSub({backend: 'memory'});
+    const [topic] = await pubsub.createTopic('topic');
+    const [subscription] = await topic.createSubscription('sub');
+    const received = defer<Message>();
+    subscription.on('message', (message: Message) => {
+      message.ack();
+      received.resolve(message);
+    });
+
+    await topic.publishMessage({data: Buffer.from('hello')});
+    await received.promise;
+    await subscription.close();
+    await pubsub.close();
+
+    assert.deepStrictEqual(provider.values('pubsub.publish.batch.messages'), [
+      1,
+    ]);
+    assert.deepStrictEqual(provider.values('pubsub.subscribe.leases'), [1, -1]);
+    assert.deepStrictEqual(
+      provider.values('pubsub.subscribe.lease.bytes'),
+      [5, -5],
+    );
+  });
+});
@@ -0,0 +1,59 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {TokenBucket} from '../src/token-bucket';
+
+describe('TokenBucket', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({toFake: ['Date']});
+  });
+
+  afterEach(() => clock.restore());
+
+  it('should allow a burst of a second', () => {
+    const bucket = new TokenBucket(10);
+    for (let i = 0; i < 10; i++) {
+      assert.strictEqual(bucket.take(1), 0);
+    }
+    assert.strictEqual(bucket.take(1), 100);
+  });
+
+  it('should go into debt', () => {
+    const bucket = new TokenBucket(10);
+    assert.strictEqual(bucket.take(30), 2000);
+    assert.strictEqual(bucket.delayFor(1), 2100);
+
+    clock.tick(2000);
+    assert.strictEqual(bucket.delayFor(1), 100);
+    assert.strictEqual(bucket.isFull(), false);
+  });
+
+  it('should refill up to the capacity', () => {
+    const bucket = new TokenBucket(10, 5);
+    bucket.take(5);
+    clock.tick(10000);
+    assert.strictEqual(bucket.isFull(), true);
+    assert.strictEqual(bucket.take(6), 100);
+  });
+
+  it('should need a positive rate', () => {
+    assert.throws(() => new TokenBucket(0), /greater than zero/);
+  });
+});
@@ -659,6 +659,43 @@ describe('Topic', () => {
       assert.deepStrictEqual(data, expectedBuffer);
     });
 
+    it('should transform a CloudEvent into data and attributes', () => {
+      const stub = sandbox.stub(topic.publisher, 'publishMessage');
+      const cloudEvent = {
+        specversion: '1.0',
+        id: '1',
+        source: '//example.com',
+        type: 'com.example.created',
+        data: {foo: 'bar'},
+      };
+
+      topic.publishMessage({cloudEvent, attributes: {a: 'b'}});
+
+      const [message] = stub.lastCall.args;
+      assert.deepStrictEqual(message, {
+        data: Buffer.from('{"foo":"bar"}'),
+        attributes: {
+          a: 'b',
+          'ce-specversion': '1.0',
+          'ce-id': '1',
+          'ce-source': '//example.com',
+          'ce-type': 'com.example.created',
+          'content-type': 'application/json',
+        },
+      });
+    });
+
+    it('should send the idempotency key as an attribute', () => {
+      const stub = sandbox.stub(topic.publisher, 'publishMessage');
+
+      topic.publishMessage({attributes: {a: 'b'}, idempotencyKey: 'key'});
+
+      const [message] = stub.lastCall.args;
+      assert.deepStrictEqual(message, {
+        attributes: {a: 'b', googclient_idempotency_key: 'key'},
+      });
+    });
+
     it('should return the return value of Publisher#publishMessage', () => {
       const fakePromise = Promise.resolve();
       sandbox.stub(topic.publisher, 'publishMessage').resolves(fakePromise);
@@ -739,6 +776,14 @@ describe('Topic', () => {
     });
   });
 
+  describe('getBatchingSettings', () => {
+    it('should call through to Publisher#getBatchingSettings', () => {
+      const settings = {maxMessages: 10};
+      topic.publisher.getBatchingSettings = () => settings;
+      assert.strictEqual(topic.getBatchingSettings(), settings);
+    });
+  });
+
   describe('subscription', () => {
     it('should pass correct arguments to pubsub#subscription', done => {
       const subscriptionName = 'subName';